@@ -0,0 +1,472 @@
+/**
+ * @fileoverview Configuration Loader - Layered configuration merging with provenance tracking
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Builds the effective {@link EnvironmentConfig} from an ordered set of layers and records
+ * which layer supplied every value. Layers, lowest precedence first:
+ *
+ * 1. `base` - `config/environments/base.ts`
+ * 2. `environment` - `config/environments/<env>.ts`
+ * 3. `local` - untracked `config/local.config.{json,yaml,yml,ts,js}` or `E2E_CONFIG_FILE`
+ * 4. `env` - `E2E_*` environment variables (`E2E_WEB__TIMEOUT=60000` → `web.timeout`)
+ * 5. `runtime` - programmatic overrides set through the environment manager
+ *
+ * There is no command-line layer: `playwright test` rejects options it does not know, so a
+ * single run is overridden by setting `E2E_*` variables on the command line
+ * (`E2E_WEB__TIMEOUT=60000 npx playwright test`). The report names the variable of each
+ * value it set, e.g. `web.timeout = 60000  ← env (E2E_WEB__TIMEOUT)`.
+ *
+ * @example
+ * ```typescript
+ * const loader = new ConfigLoader();
+ * const { config, report } = loader.resolve('development', [baseLayer, envLayer]);
+ * console.log(ConfigLoader.formatReport(report));
+ * ```
+ *
+ * @see {@link ./environment.ts} - Environment manager using this loader
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { parse as parseYaml } from 'yaml';
+
+import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
+import type {
+  ConfigReport,
+  ConfigSource,
+  ConfigValueOrigin,
+  EnvironmentConfig,
+  EnvironmentConfigOverride,
+  EnvironmentType,
+} from '@config/types/environment.types';
+
+/**
+ * A single configuration layer with the values it contributes
+ */
+export interface ConfigLayer {
+  /** Layer kind */
+  source: ConfigSource;
+  /** Human-readable origin (file path, variable names) */
+  detail: string;
+  /** Partial configuration supplied by the layer */
+  values: EnvironmentConfigOverride;
+  /** Per-path detail overrides (e.g. the exact variable that set a value) */
+  pathDetails?: Record<string, string>;
+}
+
+type PlainObject = Record<string, unknown>;
+
+/**
+ * Checks whether a value is a plain object that should be merged key by key
+ * @param value - Value to check
+ */
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalizes a key for case- and separator-insensitive comparison
+ * @param key - Key or environment variable segment
+ */
+function normalizeKey(key: string): string {
+  return key.replace(/[-_]/g, '').toLowerCase();
+}
+
+/**
+ * Converts an upper snake case segment to camelCase
+ * @param segment - Segment such as `ENABLE_MOCKING`
+ */
+function toCamelCase(segment: string): string {
+  return segment.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Configuration Loader
+ *
+ * @description
+ * Stateless helper that discovers the local override file, maps `E2E_*` variables
+ * onto configuration paths and deep-merges layers while tracking provenance.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ConfigLoader {
+  /**
+   * Directory searched for local override files
+   * @private
+   * @readonly
+   */
+  private readonly configDir: string;
+
+  constructor(configDir: string = __dirname) {
+    this.configDir = configDir;
+  }
+
+  /**
+   * Loads the local override file if one exists
+   *
+   * @description
+   * Uses `E2E_CONFIG_FILE` when set (and fails if it points nowhere), otherwise the first
+   * existing `local.config.*` file in the config directory. JSON and YAML files are parsed
+   * directly; TS/JS modules may use a default export or `module.exports`.
+   *
+   * @returns {ConfigLayer | undefined} Local layer, or undefined when no file is present
+   * @throws {Error} When the file cannot be read or does not contain an object
+   */
+  loadLocalLayer(): ConfigLayer | undefined {
+    const explicitFile = process.env[FRAMEWORK_CONSTANTS.ENV_VARS.CONFIG_FILE];
+    let filePath: string | undefined;
+
+    if (explicitFile) {
+      filePath = path.resolve(process.cwd(), explicitFile);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(
+          `Local configuration file not found: ${filePath} (from ${FRAMEWORK_CONSTANTS.ENV_VARS.CONFIG_FILE})`,
+        );
+      }
+    } else {
+      filePath = FRAMEWORK_CONSTANTS.CONFIG.LOCAL_FILES.map(file =>
+        path.join(this.configDir, file),
+      ).find(candidate => fs.existsSync(candidate));
+    }
+
+    if (!filePath) {
+      return undefined;
+    }
+
+    const values = this.readConfigFile(filePath);
+    return {
+      source: 'local',
+      detail: path.relative(process.cwd(), filePath),
+      values,
+    };
+  }
+
+  /**
+   * Discovers environment files in a directory
+   *
+   * @description
+   * Every `*.ts`, `*.js`, `*.json`, `*.yaml` or `*.yml` file becomes an environment named
+   * after the file (`staging.ts` → `staging`). TS/JS files may use a default export or a
+   * single `*Config` export. Names listed in `exclude` (such as `base`) are skipped.
+   *
+   * @param {string} directory - Directory to scan
+   * @param {string[]} [exclude] - Environment names to skip
+   * @returns Discovered environments with their configuration and file path
+   * @throws {Error} When a discovered file cannot be loaded
+   */
+  discoverEnvironments(
+    directory: string,
+    exclude: string[] = [],
+  ): Array<{ name: string; file: string; values: EnvironmentConfigOverride }> {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(directory)
+      .filter(file => FRAMEWORK_CONSTANTS.CONFIG.ENVIRONMENT_FILE_PATTERN.test(file))
+      .filter(file => !file.endsWith('.d.ts'))
+      .map(file => ({ name: file.replace(/\.[^.]+$/, ''), file: path.join(directory, file) }))
+      .filter(({ name }) => !exclude.includes(name))
+      .map(({ name, file }) => ({
+        name,
+        file: path.relative(process.cwd(), file),
+        values: this.readConfigFile(file),
+      }));
+  }
+
+  /**
+   * Builds the environment variable layer from `E2E_*` variables
+   *
+   * @description
+   * Each variable name after the prefix is split on `__` into path segments which are
+   * matched case-insensitively against the keys of the merged configuration so far
+   * (`E2E_FEATURES__ENABLE_MOCKING` → `features.enableMocking`). Values are coerced to the
+   * type of the value they replace. Variables whose top-level segment is not a configuration
+   * section are ignored, so unrelated `E2E_*` settings can coexist.
+   *
+   * @param {EnvironmentConfig} target - Configuration the variables will be applied to
+   * @param {Record<string, string | undefined>} [env] - Environment variables to read
+   * @returns {ConfigLayer | undefined} Env layer, or undefined when no variable applies
+   * @throws {Error} When a numeric or boolean value cannot be coerced
+   */
+  loadEnvLayer(
+    target: EnvironmentConfig,
+    env: Record<string, string | undefined> = process.env,
+  ): ConfigLayer | undefined {
+    const { ENV_PREFIX, PATH_SEPARATOR } = FRAMEWORK_CONSTANTS.CONFIG;
+    const values: PlainObject = {};
+    const pathDetails: Record<string, string> = {};
+
+    Object.keys(env)
+      .filter(name => name.startsWith(ENV_PREFIX))
+      .sort()
+      .forEach(name => {
+        const rawValue = env[name];
+        const segments = name.slice(ENV_PREFIX.length).split(PATH_SEPARATOR);
+        const keys = this.resolvePath(target as unknown as PlainObject, segments);
+        if (rawValue === undefined || !keys) {
+          return;
+        }
+
+        const current = this.getPath(target as unknown as PlainObject, keys);
+        this.setPath(values, keys, this.coerceValue(rawValue, current, name));
+        pathDetails[keys.join('.')] = name;
+      });
+
+    if (Object.keys(pathDetails).length === 0) {
+      return undefined;
+    }
+
+    return {
+      source: 'env',
+      detail: Object.values(pathDetails).join(', '),
+      values,
+      pathDetails,
+    };
+  }
+
+  /**
+   * Merges layers in order and records the origin of every leaf value
+   *
+   * @param {EnvironmentType} environment - Environment being resolved
+   * @param {ConfigLayer[]} layers - Layers in precedence order (lowest first)
+   * @returns Merged configuration and its provenance report
+   */
+  resolve(
+    environment: EnvironmentType,
+    layers: ConfigLayer[],
+  ): { config: EnvironmentConfig; report: ConfigReport } {
+    const merged: PlainObject = {};
+    const origins = new Map<string, Omit<ConfigValueOrigin, 'value'>>();
+
+    layers.forEach(layer => {
+      this.mergeInto(merged, layer.values, [], (leafPath: string) => {
+        origins.set(leafPath, {
+          path: leafPath,
+          source: layer.source,
+          detail: layer.pathDetails?.[leafPath] ?? layer.detail,
+        });
+      });
+    });
+
+    const values: ConfigValueOrigin[] = [...origins.values()]
+      .map(origin => ({
+        ...origin,
+        value: this.getPath(merged, origin.path.split('.')),
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const contributing = new Set(values.map(value => value.source));
+
+    return {
+      config: merged as unknown as EnvironmentConfig,
+      report: {
+        environment,
+        layers: layers
+          .filter(layer => contributing.has(layer.source))
+          .map(({ source, detail }) => ({ source, detail })),
+        values,
+      },
+    };
+  }
+
+  /**
+   * Renders a provenance report as aligned text lines
+   *
+   * @param {ConfigReport} report - Report to render
+   * @returns {string} Multi-line report suitable for console output
+   */
+  static formatReport(report: ConfigReport): string {
+    const width = Math.max(...report.values.map(value => value.path.length));
+    const lines = report.values.map(
+      value =>
+        `  ${value.path.padEnd(width)} = ${JSON.stringify(value.value)}  ← ${value.source} (${value.detail})`,
+    );
+    const layers = report.layers.map(layer => `${layer.source}: ${layer.detail}`).join(' → ');
+
+    return [`Configuration for "${report.environment}" [${layers}]`, ...lines].join('\n');
+  }
+
+  /**
+   * Reads and parses a local override file based on its extension
+   * @param filePath - Absolute file path
+   */
+  private readConfigFile(filePath: string): EnvironmentConfigOverride {
+    const extension = path.extname(filePath).toLowerCase();
+    let parsed: unknown;
+
+    try {
+      if (extension === '.json') {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      } else if (extension === '.yaml' || extension === '.yml') {
+        parsed = parseYaml(fs.readFileSync(filePath, 'utf-8'));
+      } else {
+        parsed = this.pickModuleExport(require(filePath));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load local configuration file ${filePath}: ${errorMessage}`);
+    }
+
+    if (parsed === null || parsed === undefined) {
+      return {};
+    }
+    if (!isPlainObject(parsed)) {
+      throw new Error(`Local configuration file ${filePath} must contain an object`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Selects the configuration object exported by a TS/JS module
+   * @param loaded - Module exports
+   * @returns `default` export, a single export named `*Config`, or the exports object itself
+   */
+  private pickModuleExport(loaded: PlainObject): unknown {
+    if (loaded.default !== undefined) {
+      return loaded.default;
+    }
+
+    const configExports = Object.keys(loaded).filter(key => key.endsWith('Config'));
+    return configExports.length === 1 ? loaded[configExports[0]] : loaded;
+  }
+
+  /**
+   * Maps environment variable segments onto existing configuration keys
+   * @param target - Configuration used to look up key names
+   * @param segments - Upper snake case path segments
+   * @returns Resolved key path, or undefined when the top-level section is unknown
+   */
+  private resolvePath(target: PlainObject, segments: string[]): string[] | undefined {
+    const keys: string[] = [];
+    let node: unknown = target;
+
+    for (const [index, segment] of segments.entries()) {
+      const existing = isPlainObject(node)
+        ? Object.keys(node).find(key => normalizeKey(key) === normalizeKey(segment))
+        : undefined;
+
+      if (existing) {
+        keys.push(existing);
+        node = (node as PlainObject)[existing];
+        continue;
+      }
+      if (index === 0) {
+        return undefined;
+      }
+
+      const parentKey = keys[keys.length - 1];
+      const freeForm = (FRAMEWORK_CONSTANTS.CONFIG.FREE_FORM_KEYS as readonly string[]).includes(
+        parentKey,
+      );
+      keys.push(freeForm ? segment.toLowerCase().replace(/_/g, '-') : toCamelCase(segment));
+      node = undefined;
+    }
+
+    return keys;
+  }
+
+  /**
+   * Coerces a raw environment variable string to the type of the value it replaces
+   * @param raw - Raw variable value
+   * @param current - Value currently at the target path
+   * @param name - Variable name for error messages
+   */
+  private coerceValue(raw: string, current: unknown, name: string): unknown {
+    if (typeof current === 'number') {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`Environment variable ${name} must be a number, received "${raw}"`);
+      }
+      return value;
+    }
+
+    if (typeof current === 'boolean') {
+      const normalized = raw.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) {
+        return true;
+      }
+      if (['false', '0', 'no'].includes(normalized)) {
+        return false;
+      }
+      throw new Error(`Environment variable ${name} must be a boolean, received "${raw}"`);
+    }
+
+    if (typeof current === 'string') {
+      return raw;
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+
+  /**
+   * Deep-merges source into target, reporting each leaf path written
+   * @param target - Object mutated in place
+   * @param source - Layer values
+   * @param prefix - Current path
+   * @param onLeaf - Callback invoked with the dotted path of every leaf written
+   */
+  private mergeInto(
+    target: PlainObject,
+    source: PlainObject,
+    prefix: string[],
+    onLeaf: (_path: string) => void,
+  ): void {
+    Object.entries(source).forEach(([key, value]) => {
+      if (value === undefined) {
+        return;
+      }
+
+      const keyPath = [...prefix, key];
+      if (isPlainObject(value)) {
+        if (!isPlainObject(target[key])) {
+          target[key] = {};
+        }
+        this.mergeInto(target[key] as PlainObject, value, keyPath, onLeaf);
+        return;
+      }
+
+      target[key] = Array.isArray(value) ? [...value] : value;
+      onLeaf(keyPath.join('.'));
+    });
+  }
+
+  /**
+   * Reads a nested value by key path
+   * @param source - Object to read
+   * @param keys - Key path
+   */
+  private getPath(source: PlainObject, keys: string[]): unknown {
+    return keys.reduce<unknown>(
+      (node, key) => (isPlainObject(node) ? node[key] : undefined),
+      source,
+    );
+  }
+
+  /**
+   * Writes a nested value by key path, creating intermediate objects
+   * @param target - Object to write into
+   * @param keys - Key path
+   * @param value - Value to write
+   */
+  private setPath(target: PlainObject, keys: string[], value: unknown): void {
+    let node = target;
+    keys.slice(0, -1).forEach(key => {
+      if (!isPlainObject(node[key])) {
+        node[key] = {};
+      }
+      node = node[key] as PlainObject;
+    });
+    node[keys[keys.length - 1]] = value;
+  }
+}
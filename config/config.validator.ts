@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Configuration Validator - Schema-based validation of merged environment configuration
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Validates the merged {@link EnvironmentConfig} against {@link ENVIRONMENT_CONFIG_SCHEMA}
+ * plus cross-field rules that JSON Schema cannot express. Every problem is collected and
+ * reported at once through a typed {@link ConfigValidationError}.
+ *
+ * Checks:
+ * - URL formats for web, API and JSONPlaceholder base URLs
+ * - Positive timeouts and non-negative retries
+ * - Header values are strings
+ * - `performance.workers <= performance.maxConcurrency`
+ * - Unknown keys at every level (except free-form header maps and custom feature flags)
+ *
+ * @example
+ * ```typescript
+ * const issues = ConfigValidator.validate(config);
+ * ConfigValidator.assertValid(config, 'development'); // throws ConfigValidationError
+ * ```
+ *
+ * @see {@link ./schemas/environment.schema.ts} - Configuration schema
+ */
+
+import Ajv, { type ErrorObject } from 'ajv';
+import addFormats from 'ajv-formats';
+
+import { ENVIRONMENT_CONFIG_SCHEMA } from './schemas/environment.schema';
+import type { EnvironmentConfig, EnvironmentType } from '@config/types/environment.types';
+
+/**
+ * A single configuration problem
+ */
+export interface ConfigValidationIssue {
+  /** Dot-separated path of the offending value (e.g. `web.timeout`) */
+  path: string;
+  /** Description of the problem */
+  message: string;
+  /** Offending value, when one exists */
+  value?: unknown;
+}
+
+/**
+ * Error raised when the merged configuration is invalid
+ *
+ * @description
+ * Aggregates every validation issue so that a broken configuration can be fixed in one pass.
+ * The message lists each field path; the structured list is available through `issues`.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ConfigValidationError extends Error {
+  /** Every problem found in the configuration */
+  readonly issues: ConfigValidationIssue[];
+
+  /** Environment whose configuration failed validation */
+  readonly environment?: EnvironmentType;
+
+  constructor(issues: ConfigValidationIssue[], environment?: EnvironmentType) {
+    const target = environment ? ` for "${environment}"` : '';
+    const lines = issues.map(issue => `  - ${ConfigValidator.formatIssue(issue)}`);
+    super(
+      `Invalid environment configuration${target} (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n${lines.join('\n')}`,
+    );
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+    this.environment = environment;
+  }
+}
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const validateSchema = ajv.compile(ENVIRONMENT_CONFIG_SCHEMA);
+
+/**
+ * Configuration Validator
+ *
+ * @description
+ * Stateless validator; the schema is compiled once per process.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ConfigValidator {
+  /**
+   * Collects every problem in a configuration
+   *
+   * @param {unknown} config - Merged configuration to validate
+   * @returns {ConfigValidationIssue[]} Issues found (empty when valid)
+   */
+  static validate(config: unknown): ConfigValidationIssue[] {
+    const issues: ConfigValidationIssue[] = [];
+
+    if (!validateSchema(config)) {
+      // Ajv may report several keywords for one value (e.g. format and pattern); keep the first
+      (validateSchema.errors ?? []).forEach(error => {
+        const issue = this.toIssue(error, config);
+        if (!issues.some(existing => existing.path === issue.path)) {
+          issues.push(issue);
+        }
+      });
+    }
+
+    const performance = (config as Partial<EnvironmentConfig> | undefined)?.performance;
+    if (
+      typeof performance?.workers === 'number' &&
+      typeof performance.maxConcurrency === 'number' &&
+      performance.workers > performance.maxConcurrency
+    ) {
+      issues.push({
+        path: 'performance.workers',
+        message: `must be less than or equal to performance.maxConcurrency (${performance.maxConcurrency})`,
+        value: performance.workers,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Throws when a configuration has any problem
+   *
+   * @param {unknown} config - Merged configuration to validate
+   * @param {EnvironmentType} [environment] - Environment name for the error message
+   * @throws {ConfigValidationError} Listing every problem found
+   */
+  static assertValid(config: unknown, environment?: EnvironmentType): void {
+    const issues = this.validate(config);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(issues, environment);
+    }
+  }
+
+  /**
+   * Renders an issue as `path: message (received value)`
+   * @param {ConfigValidationIssue} issue - Issue to render
+   */
+  static formatIssue(issue: ConfigValidationIssue): string {
+    const received = issue.value === undefined ? '' : ` (received ${JSON.stringify(issue.value)})`;
+    return `${issue.path || '<root>'}: ${issue.message}${received}`;
+  }
+
+  /**
+   * Converts an Ajv error into a configuration issue
+   * @param error - Ajv error object
+   * @param config - Validated configuration, used to look up the offending value
+   */
+  private static toIssue(error: ErrorObject, config: unknown): ConfigValidationIssue {
+    const segments = error.instancePath.split('/').filter(Boolean);
+    const params = error.params as Record<string, unknown>;
+
+    if (error.keyword === 'additionalProperties') {
+      const key = String(params.additionalProperty);
+      return { path: [...segments, key].join('.'), message: 'is not a known configuration key' };
+    }
+    if (error.keyword === 'required') {
+      const key = String(params.missingProperty);
+      return { path: [...segments, key].join('.'), message: 'is required' };
+    }
+
+    const value = segments.reduce<unknown>(
+      (node, key) =>
+        typeof node === 'object' && node !== null
+          ? (node as Record<string, unknown>)[key]
+          : undefined,
+      config,
+    );
+    const messages: Record<string, string> = {
+      format: 'must be a valid URL',
+      pattern: 'must be an http(s) URL',
+    };
+    const message = messages[error.keyword] ?? error.message ?? 'is invalid';
+
+    return { path: segments.join('.'), message, value };
+  }
+}
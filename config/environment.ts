@@ -10,8 +10,11 @@
  * with support for multiple environments (development, pre-production, production).
  *
  * Key Features:
- * - Dynamic worker calculation based on system resources (CPU, memory)
- * - Environment-specific configuration with validation
+ * - Dynamic worker calculation from container limits (cgroup v1/v2), free memory and load
+ * - Separate worker budgets for browser and API projects
+ * - Layered configuration (base → environment → local file → E2E_* variables → runtime)
+ * - Schema-based configuration validation that reports every problem at once
+ * - Pluggable environments via register() and auto-discovery of config/environments/*
  * - Performance optimization algorithms
  * - Type-safe configuration access
  * - System resource monitoring and reporting
@@ -27,28 +30,58 @@
  *
  * // Get optimal worker count for performance
  * const workers = EnvironmentConfigManager.calculateOptimalWorkers();
+ * const { browser, api } = EnvironmentConfigManager.calculateWorkerBudgets();
  *
  * // System information for debugging
  * const systemInfo = EnvironmentConfigManager.getSystemInfo();
+ *
+ * // Where did each value come from?
+ * const report = EnvironmentConfigManager.getConfigReport('development');
  * ```
  *
+ * @see {@link ./config.loader.ts} - Layer merging and provenance tracking
+ * @see {@link ./system.resources.ts} - Container-aware resource detection
+ * @see {@link ./environments/base.ts} - Framework defaults shared by all environments
  * @see {@link ./environments/development.ts} - Development environment configuration
  * @see {@link ./environments/pre-prod.ts} - Pre-production environment configuration
  * @see {@link ./environments/prod.ts} - Production environment configuration
  * @see {@link ./types/environment.types.ts} - Type definitions
  */
 
-import * as os from 'node:os';
+import * as path from 'node:path';
 
 import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
+import { Secrets } from '@src/utils/secrets/secrets.manager';
+import { ConfigLoader, type ConfigLayer } from './config.loader';
+import { ConfigValidationError, ConfigValidator } from './config.validator';
+import { baseConfig } from './environments/base';
 import { developmentConfig } from './environments/development';
 import { preProdConfig } from './environments/pre-prod';
 import { prodConfig } from './environments/prod';
+import { SystemResourceDetector } from './system.resources';
 import type {
+  ConfigAccessOptions,
+  ConfigReport,
   EnvironmentConfig,
+  EnvironmentConfigOverride,
   EnvironmentManager,
+  EnvironmentRegistrationOptions,
   EnvironmentType,
+  SystemInfo,
+  WorkerBudgets,
 } from '@config/types/environment.types';
+
+/**
+ * Registered environment entry
+ */
+interface RegisteredEnvironment {
+  /** Partial configuration layered over the base (or parent) configuration */
+  config: EnvironmentConfigOverride;
+  /** Origin shown in the merged-config report */
+  source: string;
+  /** Optional parent environment */
+  extends?: EnvironmentType;
+}
 /**
  * Environment Configuration Manager Implementation
  *
@@ -67,42 +100,270 @@ class EnvironmentConfigManagerImpl implements EnvironmentManager {
    * @private
    * @readonly
    */
-  private readonly configs: Record<EnvironmentType, EnvironmentConfig> = {
-    development: developmentConfig,
-    'pre-prod': preProdConfig,
-    prod: prodConfig,
-  };
+  private readonly configs = new Map<EnvironmentType, RegisteredEnvironment>([
+    ['development', { config: developmentConfig, source: 'config/environments/development.ts' }],
+    ['pre-prod', { config: preProdConfig, source: 'config/environments/pre-prod.ts' }],
+    ['prod', { config: prodConfig, source: 'config/environments/prod.ts' }],
+  ]);
+
+  /**
+   * Whether config/environments/ has been scanned for additional environments
+   * @private
+   */
+  private discovered = false;
+
+  /**
+   * Loader that merges configuration layers
+   * @private
+   * @readonly
+   */
+  private readonly loader = new ConfigLoader();
+
+  /**
+   * Resolved configurations and provenance reports, cached per environment
+   * `raw` keeps unresolved `secret://` references; `config` resolves them lazily on access
+   * @private
+   * @readonly
+   */
+  private readonly resolved = new Map<
+    EnvironmentType,
+    { config: EnvironmentConfig; raw: EnvironmentConfig; report: ConfigReport }
+  >();
+
+  /**
+   * Programmatic overrides applied on top of every other layer
+   * @private
+   */
+  private runtimeOverrides: EnvironmentConfigOverride = {};
 
   /**
    * Retrieves configuration for the specified environment
    *
    * @description
-   * Returns environment-specific configuration with automatic validation.
+   * Returns the merged configuration for the environment with automatic validation.
+   * Layers are merged in order: base defaults, environment file, local override file,
+   * `E2E_*` environment variables and runtime overrides. The result is cached until
+   * {@link reload} or {@link setOverrides} is called.
    * Falls back to default environment if no environment is specified.
    *
+   * The merged configuration is validated against the configuration schema and an invalid
+   * configuration fails fast, unless lenient mode is requested through `options.lenient`
+   * or `E2E_CONFIG_VALIDATION=lenient`, in which case every problem is logged as a warning.
+   *
    * @param {EnvironmentType} [env] - Target environment type
+   * @param {ConfigAccessOptions} [options] - Validation options
    * @returns {EnvironmentConfig} Validated environment configuration
    *
-   * @throws {Error} When environment configuration is not found or invalid
+   * @throws {Error} When environment configuration is not found
+   * @throws {ConfigValidationError} When the merged configuration is invalid (strict mode)
    *
    * @example
    * ```typescript
    * const devConfig = EnvironmentConfigManager.getConfig('development');
    * const defaultConfig = EnvironmentConfigManager.getConfig(); // Uses default
+   * const draft = EnvironmentConfigManager.getConfig('docker', { lenient: true });
+   * ```
+   *
+   * @public
+   * @since 1.0.0
+   */
+  getConfig(
+    env: EnvironmentType = FRAMEWORK_CONSTANTS.DEFAULT_ENVIRONMENT,
+    options: ConfigAccessOptions = {},
+  ): EnvironmentConfig {
+    const { config, raw } = this.resolve(env);
+    const lenient =
+      options.lenient ?? process.env[FRAMEWORK_CONSTANTS.ENV_VARS.CONFIG_VALIDATION] === 'lenient';
+
+    if (lenient) {
+      ConfigValidator.validate(raw).forEach(issue => {
+        console.warn(`⚠️ Configuration issue (${env}): ${ConfigValidator.formatIssue(issue)}`);
+      });
+    } else {
+      ConfigValidator.assertValid(raw, env);
+    }
+
+    return config;
+  }
+
+  /**
+   * Describes where each merged configuration value came from
+   *
+   * @description
+   * Returns every leaf path of the merged configuration together with the layer
+   * (and file or variable) that supplied it. Use {@link ConfigLoader.formatReport}
+   * to render it for the console.
+   *
+   * @param {EnvironmentType} [env] - Target environment type
+   * @returns {ConfigReport} Provenance report for the merged configuration
+   *
+   * @example
+   * ```typescript
+   * const report = EnvironmentConfigManager.getConfigReport('development');
+   * console.log(ConfigLoader.formatReport(report));
+   * ```
+   *
+   * @public
+   * @since 1.0.0
+   */
+  getConfigReport(env: EnvironmentType = this.getCurrentEnvironment()): ConfigReport {
+    return this.resolve(env).report;
+  }
+
+  /**
+   * Applies programmatic overrides with the highest precedence
+   *
+   * @param {EnvironmentConfigOverride} overrides - Partial configuration to apply
+   *
+   * @example
+   * ```typescript
+   * EnvironmentConfigManager.setOverrides({ web: { timeout: 60000 } });
    * ```
    *
    * @public
    * @since 1.0.0
    */
-  getConfig(env: EnvironmentType = FRAMEWORK_CONSTANTS.DEFAULT_ENVIRONMENT): EnvironmentConfig {
-    const config = this.configs[env];
-    if (!(env in this.configs)) {
+  setOverrides(overrides: EnvironmentConfigOverride): void {
+    this.runtimeOverrides = overrides;
+    this.reload();
+  }
+
+  /**
+   * Registers an additional environment
+   *
+   * @description
+   * Makes a new environment available to {@link getConfig}, {@link getAvailableEnvironments}
+   * and `TEST_ENV` without touching the {@link EnvironmentType} union. The configuration is
+   * a partial layer merged over the base defaults, or over another environment when
+   * `extends` is given. Registering an existing name replaces it.
+   *
+   * @param {EnvironmentType} name - Environment name (e.g. `preview-1234`, `docker`)
+   * @param {EnvironmentConfigOverride} config - Partial configuration for the environment
+   * @param {EnvironmentRegistrationOptions} [options] - Parent environment and report source
+   *
+   * @example
+   * ```typescript
+   * EnvironmentConfigManager.register(
+   *   `preview-${process.env.PR_NUMBER}`,
+   *   { web: { baseURL: `https://pr-${process.env.PR_NUMBER}.preview.example.com` } },
+   *   { extends: 'pre-prod' },
+   * );
+   * ```
+   *
+   * @public
+   * @since 1.0.0
+   */
+  register(
+    name: EnvironmentType,
+    config: EnvironmentConfigOverride,
+    options: EnvironmentRegistrationOptions = {},
+  ): void {
+    if (!name.trim()) {
+      throw new Error('Environment name must not be empty');
+    }
+
+    this.configs.set(name, {
+      config,
+      source: options.source ?? 'register()',
+      extends: options.extends,
+    });
+    this.reload();
+  }
+
+  /**
+   * Clears cached configurations so layers are re-read on next access
+   *
+   * @public
+   * @since 1.0.0
+   */
+  reload(): void {
+    this.resolved.clear();
+  }
+
+  /**
+   * Merges all configuration layers for an environment
+   * @param env - Target environment type
+   * @private
+   */
+  private resolve(env: EnvironmentType): {
+    config: EnvironmentConfig;
+    raw: EnvironmentConfig;
+    report: ConfigReport;
+  } {
+    const cached = this.resolved.get(env);
+    if (cached) {
+      return cached;
+    }
+
+    const layers: ConfigLayer[] = [
+      { source: 'base', detail: 'config/environments/base.ts', values: baseConfig },
+      ...this.getEnvironmentLayers(env),
+    ];
+
+    const localLayer = this.loader.loadLocalLayer();
+    if (localLayer) {
+      layers.push(localLayer);
+    }
+
+    const envLayer = this.loader.loadEnvLayer(this.loader.resolve(env, layers).config);
+    if (envLayer) {
+      layers.push(envLayer);
+    }
+
+    layers.push({ source: 'runtime', detail: 'setOverrides()', values: this.runtimeOverrides });
+
+    const { config: raw, report } = this.loader.resolve(env, layers);
+    const config = Secrets.bindLazy(JSON.parse(JSON.stringify(raw)) as EnvironmentConfig);
+    const result = { config, raw, report };
+    this.resolved.set(env, result);
+    return result;
+  }
+
+  /**
+   * Builds the environment layers for an environment and its parents
+   * @param env - Target environment type
+   * @param chain - Environments already visited, used to detect cycles
+   * @private
+   */
+  private getEnvironmentLayers(env: EnvironmentType, chain: EnvironmentType[] = []): ConfigLayer[] {
+    const entry = this.getRegistry().get(env);
+    if (!entry) {
       throw new Error(`Environment configuration not found for: ${env}`);
     }
+    if (chain.includes(env)) {
+      throw new Error(`Circular environment inheritance: ${[...chain, env].join(' → ')}`);
+    }
 
-    this.validateConfig(config);
+    const parentLayers = entry.extends
+      ? this.getEnvironmentLayers(entry.extends, [...chain, env])
+      : [];
 
-    return config;
+    return [...parentLayers, { source: 'environment', detail: entry.source, values: entry.config }];
+  }
+
+  /**
+   * Returns the environment registry, scanning config/environments/ on first access
+   *
+   * @description
+   * Files are discovered lazily so that importing this module has no filesystem side
+   * effects. Explicitly registered environments take precedence over discovered files.
+   *
+   * @private
+   */
+  private getRegistry(): Map<EnvironmentType, RegisteredEnvironment> {
+    if (!this.discovered) {
+      this.discovered = true;
+      const directory = path.join(__dirname, FRAMEWORK_CONSTANTS.CONFIG.ENVIRONMENTS_DIR);
+      const exclude = [
+        ...FRAMEWORK_CONSTANTS.CONFIG.RESERVED_ENVIRONMENT_FILES,
+        ...this.configs.keys(),
+      ];
+
+      this.loader.discoverEnvironments(directory, exclude).forEach(({ name, file, values }) => {
+        this.configs.set(name, { config: values, source: file });
+      });
+    }
+    return this.configs;
   }
 
   /**
@@ -110,6 +371,7 @@ class EnvironmentConfigManagerImpl implements EnvironmentManager {
    *
    * @description
    * Reads the TEST_ENV environment variable to determine the current environment.
+   * Any built-in, registered or discovered environment is accepted.
    * Falls back to the default environment if variable is not set or invalid.
    *
    * @returns {EnvironmentType} Current environment type
@@ -124,8 +386,8 @@ class EnvironmentConfigManagerImpl implements EnvironmentManager {
    * @since 1.0.0
    */
   getCurrentEnvironment(): EnvironmentType {
-    const env = process.env[FRAMEWORK_CONSTANTS.ENV_VARS.TEST_ENV] as EnvironmentType;
-    if (env && Object.keys(this.configs).includes(env)) {
+    const env = process.env[FRAMEWORK_CONSTANTS.ENV_VARS.TEST_ENV];
+    if (env && this.getRegistry().has(env)) {
       return env;
     }
     return FRAMEWORK_CONSTANTS.DEFAULT_ENVIRONMENT;
@@ -133,69 +395,41 @@ class EnvironmentConfigManagerImpl implements EnvironmentManager {
 
   /**
    * Validate environment configuration
+   *
+   * @description
+   * Runs full structural validation and logs every problem found.
+   * Use {@link ConfigValidator.assertValid} to get a {@link ConfigValidationError} instead.
+   *
    * @param config - Configuration to validate
    * @returns True if valid, false otherwise
    */
   validateConfig(config: EnvironmentConfig): boolean {
-    try {
-      // Validate required URLs
-      if (!config.web.baseURL || !config.api.baseURL) {
-        console.error('Missing required base URLs in configuration');
-        return false;
-      }
-
-      // Validate URL format
-      try {
-        new URL(config.web.baseURL);
-        new URL(config.api.baseURL);
-      } catch (error) {
-        console.error('Invalid URL format in configuration:', error);
-        return false;
-      }
-
-      // Validate timeouts
-      if (config.web.timeout <= 0 || config.api.timeout <= 0) {
-        console.error('Invalid timeout values in configuration');
-        return false;
-      }
-
-      // Validate retries
-      if (config.web.retries < 0 || config.api.retries < 0) {
-        console.error('Invalid retry values in configuration');
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Configuration validation failed:', error);
-      return false;
-    }
+    const issues = ConfigValidator.validate(config);
+    issues.forEach(issue => {
+      console.error(`Invalid configuration: ${ConfigValidator.formatIssue(issue)}`);
+    });
+    return issues.length === 0;
+  }
+
+  /**
+   * Calculate separate worker budgets for browser and API projects
+   *
+   * @description
+   * Uses the CPU quota and memory limit of the container (cgroup v1/v2) rather than the
+   * host's figures, and scales down for current load and free memory.
+   *
+   * @returns Browser, API and overall worker limits with their derivation
+   */
+  calculateWorkerBudgets(): WorkerBudgets {
+    return SystemResourceDetector.calculateBudgets(SystemResourceDetector.detect());
   }
 
   /**
    * Calculate optimal number of workers based on system resources
-   * @returns Optimal worker count
+   * @returns Overall worker limit for the run (per-project limits come from {@link calculateWorkerBudgets})
    */
   calculateOptimalWorkers(): number {
-    const cpuCount = os.cpus().length;
-    const totalMemoryGB = os.totalmem() / (1024 * 1024 * 1024);
-
-    // Calculate based on CPU utilization percentage
-    let workers = Math.floor(cpuCount * FRAMEWORK_CONSTANTS.PERFORMANCE.CPU_UTILIZATION_PERCENTAGE);
-
-    // Adjust based on available memory
-    const memoryBasedWorkers = Math.floor(
-      totalMemoryGB / FRAMEWORK_CONSTANTS.PERFORMANCE.MEMORY_PER_WORKER_GB,
-    );
-    workers = Math.min(workers, memoryBasedWorkers);
-
-    // Apply framework constraints
-    workers = Math.max(
-      FRAMEWORK_CONSTANTS.PERFORMANCE.MIN_WORKERS,
-      Math.min(FRAMEWORK_CONSTANTS.PERFORMANCE.MAX_WORKERS, workers),
-    );
-
-    return workers;
+    return this.calculateWorkerBudgets().total;
   }
 
   /**
@@ -203,36 +437,50 @@ class EnvironmentConfigManagerImpl implements EnvironmentManager {
    * @returns Optimal shard count
    */
   calculateOptimalShards(): number {
-    const workers = this.calculateOptimalWorkers();
-    return Math.max(1, Math.floor(workers * FRAMEWORK_CONSTANTS.PERFORMANCE.SHARD_RATIO));
+    return this.shardsFor(this.calculateOptimalWorkers());
   }
 
   /**
    * Get system information for debugging
-   * @returns System information object
-   */
-  getSystemInfo(): {
-    cpuCount: number;
-    totalMemoryGB: number;
-    platform: string;
-    optimalWorkers: number;
-    optimalShards: number;
-  } {
+   * @returns Effective resources, worker budgets and how each figure was derived
+   */
+  getSystemInfo(): SystemInfo {
+    const detected = SystemResourceDetector.detect();
+    const budgets = SystemResourceDetector.calculateBudgets(detected);
+    const { derivation, ...resources } = detected;
+    const optimalShards = this.shardsFor(budgets.total);
+
     return {
-      cpuCount: os.cpus().length,
-      totalMemoryGB: Math.round((os.totalmem() / (1024 * 1024 * 1024)) * 100) / 100,
-      platform: os.platform(),
-      optimalWorkers: this.calculateOptimalWorkers(),
-      optimalShards: this.calculateOptimalShards(),
+      ...resources,
+      optimalWorkers: budgets.total,
+      browserWorkers: budgets.browser.workers,
+      apiWorkers: budgets.api.workers,
+      optimalShards,
+      derivation: {
+        ...derivation,
+        browserWorkers: budgets.browser.derivation,
+        apiWorkers: budgets.api.derivation,
+        optimalWorkers: `max(browser ${budgets.browser.workers}, api ${budgets.api.workers}) = ${budgets.total}`,
+        optimalShards: `max(1, floor(${budgets.total} × ${FRAMEWORK_CONSTANTS.PERFORMANCE.SHARD_RATIO})) = ${optimalShards}`,
+      },
     };
   }
 
+  /**
+   * Derives a shard count from a worker count
+   * @param workers - Overall worker limit
+   * @private
+   */
+  private shardsFor(workers: number): number {
+    return Math.max(1, Math.floor(workers * FRAMEWORK_CONSTANTS.PERFORMANCE.SHARD_RATIO));
+  }
+
   /**
    * Get all available environments
-   * @returns Array of environment types
+   * @returns Built-in, registered and discovered environment names
    */
   getAvailableEnvironments(): EnvironmentType[] {
-    return Object.keys(this.configs) as EnvironmentType[];
+    return [...this.getRegistry().keys()];
   }
 }
 
@@ -244,8 +492,12 @@ export const getEnvironmentConfig =
   EnvironmentConfigManager.getConfig.bind(EnvironmentConfigManager);
 export const calculateOptimalWorkers =
   EnvironmentConfigManager.calculateOptimalWorkers.bind(EnvironmentConfigManager);
+export const calculateWorkerBudgets =
+  EnvironmentConfigManager.calculateWorkerBudgets.bind(EnvironmentConfigManager);
 export const calculateOptimalShards =
   EnvironmentConfigManager.calculateOptimalShards.bind(EnvironmentConfigManager);
 
+export { ConfigLoader, ConfigValidationError, ConfigValidator, SystemResourceDetector };
+
 // Type exports
-export type { EnvironmentConfig, EnvironmentType };
+export type { ConfigReport, EnvironmentConfig, EnvironmentType, SystemInfo, WorkerBudgets };
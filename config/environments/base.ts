@@ -0,0 +1,72 @@
+import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
+import { JSONPLACEHOLDER_API } from '@src/utils/constants/jsonplaceholder.constants';
+import type { ApiRetryPolicy, EnvironmentConfig } from '@config/types/environment.types';
+
+const retryPolicy: ApiRetryPolicy = {
+  retryOn: [...FRAMEWORK_CONSTANTS.API_RETRY.RETRY_ON],
+  baseDelayMs: FRAMEWORK_CONSTANTS.API_RETRY.BASE_DELAY_MS,
+  maxDelayMs: FRAMEWORK_CONSTANTS.API_RETRY.MAX_DELAY_MS,
+  jitter: FRAMEWORK_CONSTANTS.API_RETRY.JITTER,
+  maxRetryAfterMs: FRAMEWORK_CONSTANTS.API_RETRY.MAX_RETRY_AFTER_MS,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Base Environment Configuration
+ *
+ * Purpose: Framework defaults shared by every environment
+ * Features: Lowest-precedence configuration layer; environment files,
+ * local override files and `E2E_*` variables are merged on top of it
+ *
+ * @example
+ * ```typescript
+ * import { baseConfig } from '@config/environments/base';
+ * console.log(baseConfig.jsonplaceholder.baseURL); // https://jsonplaceholder.typicode.com
+ * ```
+ */
+export const baseConfig: EnvironmentConfig = {
+  web: {
+    baseURL: 'https://www.saucedemo.com',
+    timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
+    retries: FRAMEWORK_CONSTANTS.RETRIES.DEVELOPMENT,
+  },
+  api: {
+    baseURL: 'https://api-dev.example.com',
+    timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
+    retries: FRAMEWORK_CONSTANTS.RETRIES.DEVELOPMENT,
+    retryPolicy: { ...retryPolicy },
+    headers: {
+      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
+    },
+  },
+
+  // JSONPlaceholder API configuration for testing
+  jsonplaceholder: {
+    baseURL: process.env.JSONPLACEHOLDER_URL ?? 'https://jsonplaceholder.typicode.com',
+    timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
+    retries: FRAMEWORK_CONSTANTS.RETRIES.DEVELOPMENT,
+    retryPolicy: { ...retryPolicy },
+    rateLimit: {
+      requestsPerMinute: JSONPLACEHOLDER_API.RATE_LIMITS.REQUESTS_PER_MINUTE,
+      concurrentRequests: JSONPLACEHOLDER_API.RATE_LIMITS.CONCURRENT_REQUESTS,
+    },
+    headers: {
+      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
+      'User-Agent': 'JSONPlaceholder-Playwright-Tests/1.0',
+    },
+  },
+  database: {
+    connectionString: 'mongodb://localhost:27017/dev_db',
+    timeout: 5000,
+  },
+  features: {
+    enableDebugLogs: false,
+    enableMocking: false,
+    skipAuthValidation: false,
+    enableVideoRecording: false,
+  },
+  performance: {
+    workers: 2,
+    maxConcurrency: 4,
+  },
+};
@@ -1,5 +1,5 @@
 import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
-import type { EnvironmentConfig } from '@config/types/environment.types';
+import type { EnvironmentConfigOverride } from '@config/types/environment.types';
 
 /**
  * Development Environment Configuration
@@ -10,10 +10,10 @@ import type { EnvironmentConfig } from '@config/types/environment.types';
  * @example
  * ```typescript
  * import { developmentConfig } from '@config/environments/development';
- * console.log(developmentConfig.web.baseURL); // https://dev-app.example.com
+ * console.log(developmentConfig.web?.baseURL); // https://dev-app.example.com
  * ```
  */
-export const developmentConfig: EnvironmentConfig = {
+export const developmentConfig: EnvironmentConfigOverride = {
   web: {
     baseURL: process.env.DEV_WEB_URL ?? 'https://www.saucedemo.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
@@ -24,20 +24,14 @@ export const developmentConfig: EnvironmentConfig = {
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
     retries: FRAMEWORK_CONSTANTS.RETRIES.DEVELOPMENT,
     headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
       'X-Environment': 'development',
     },
   },
 
   // JSONPlaceholder API configuration for testing
   jsonplaceholder: {
-    baseURL: process.env.JSONPLACEHOLDER_URL ?? 'https://jsonplaceholder.typicode.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.DEVELOPMENT,
     retries: FRAMEWORK_CONSTANTS.RETRIES.DEVELOPMENT,
-    headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
-      'User-Agent': 'JSONPlaceholder-Playwright-Tests/1.0',
-    },
   },
   database: {
     connectionString: process.env.DEV_DB_CONNECTION ?? 'mongodb://localhost:27017/dev_db',
@@ -1,5 +1,5 @@
 import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
-import type { EnvironmentConfig } from '@config/types/environment.types';
+import type { EnvironmentConfigOverride } from '@config/types/environment.types';
 
 /**
  * Pre-Production Environment Configuration
@@ -10,10 +10,10 @@ import type { EnvironmentConfig } from '@config/types/environment.types';
  * @example
  * ```typescript
  * import { preProdConfig } from '@config/environments/pre-prod';
- * console.log(preProdConfig.api.baseURL); // https://api-preprod.example.com
+ * console.log(preProdConfig.api?.baseURL); // https://api-preprod.example.com
  * ```
  */
-export const preProdConfig: EnvironmentConfig = {
+export const preProdConfig: EnvironmentConfigOverride = {
   web: {
     baseURL: process.env.PREPROD_WEB_URL ?? 'https://preprod-app.example.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRE_PROD,
@@ -24,23 +24,17 @@ export const preProdConfig: EnvironmentConfig = {
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRE_PROD,
     retries: FRAMEWORK_CONSTANTS.RETRIES.PRE_PROD,
     headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
       'X-Environment': 'pre-prod',
     },
   },
 
   // JSONPlaceholder API configuration for testing
   jsonplaceholder: {
-    baseURL: process.env.JSONPLACEHOLDER_URL ?? 'https://jsonplaceholder.typicode.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRE_PROD,
     retries: FRAMEWORK_CONSTANTS.RETRIES.PRE_PROD,
-    headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
-      'User-Agent': 'JSONPlaceholder-Playwright-Tests/1.0',
-    },
   },
   database: {
-    connectionString: process.env.PREPROD_DB_CONNECTION ?? 'mongodb://preprod-db:27017/preprod_db',
+    connectionString: process.env.PREPROD_DB_CONNECTION ?? 'secret://preprod-db-connection',
     timeout: 10000,
   },
   features: {
@@ -1,5 +1,5 @@
 import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
-import type { EnvironmentConfig } from '@config/types/environment.types';
+import type { EnvironmentConfigOverride } from '@config/types/environment.types';
 
 /**
  * Production Environment Configuration
@@ -10,10 +10,10 @@ import type { EnvironmentConfig } from '@config/types/environment.types';
  * @example
  * ```typescript
  * import { prodConfig } from '@config/environments/prod';
- * console.log(prodConfig.web.baseURL); // https://app.example.com
+ * console.log(prodConfig.web?.baseURL); // https://app.example.com
  * ```
  */
-export const prodConfig: EnvironmentConfig = {
+export const prodConfig: EnvironmentConfigOverride = {
   web: {
     baseURL: process.env.PROD_WEB_URL ?? 'https://app.example.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRODUCTION,
@@ -24,23 +24,17 @@ export const prodConfig: EnvironmentConfig = {
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRODUCTION,
     retries: FRAMEWORK_CONSTANTS.RETRIES.PRODUCTION,
     headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
       'X-Environment': 'production',
     },
   },
 
   // JSONPlaceholder API configuration for testing
   jsonplaceholder: {
-    baseURL: process.env.JSONPLACEHOLDER_URL ?? 'https://jsonplaceholder.typicode.com',
     timeout: FRAMEWORK_CONSTANTS.TIMEOUTS.TEST_TIMEOUT.PRODUCTION,
     retries: FRAMEWORK_CONSTANTS.RETRIES.PRODUCTION,
-    headers: {
-      ...FRAMEWORK_CONSTANTS.DEFAULT_API_HEADERS,
-      'User-Agent': 'JSONPlaceholder-Playwright-Tests/1.0',
-    },
   },
   database: {
-    connectionString: process.env.PROD_DB_CONNECTION ?? 'mongodb://prod-db:27017/prod_db',
+    connectionString: process.env.PROD_DB_CONNECTION ?? 'secret://prod-db-connection',
     timeout: 15000,
   },
   features: {
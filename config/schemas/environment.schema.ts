@@ -0,0 +1,134 @@
+/**
+ * Environment Configuration Schema
+ * JSON Schema definition of the merged {@link EnvironmentConfig}
+ *
+ * Used for:
+ * - Structural validation of the merged configuration (all layers applied)
+ * - Detecting unknown keys introduced by typos in override files or `E2E_*` variables
+ * - Documenting the allowed shape and ranges of configuration values
+ */
+
+const HTTP_URL = {
+  type: 'string',
+  format: 'uri',
+  pattern: '^https?://',
+} as const;
+
+const POSITIVE_TIMEOUT = {
+  type: 'integer',
+  exclusiveMinimum: 0,
+} as const;
+
+const RETRY_COUNT = {
+  type: 'integer',
+  minimum: 0,
+} as const;
+
+const DELAY = {
+  type: 'integer',
+  minimum: 0,
+} as const;
+
+const RETRY_POLICY = {
+  type: 'object',
+  required: [
+    'retryOn',
+    'baseDelayMs',
+    'maxDelayMs',
+    'jitter',
+    'maxRetryAfterMs',
+    'retryNonIdempotent',
+  ],
+  properties: {
+    retryOn: {
+      type: 'array',
+      items: { type: 'integer', minimum: 100, maximum: 599 },
+    },
+    baseDelayMs: DELAY,
+    maxDelayMs: DELAY,
+    jitter: { type: 'number', minimum: 0, maximum: 1 },
+    maxRetryAfterMs: DELAY,
+    retryNonIdempotent: { type: 'boolean' },
+  },
+  additionalProperties: false,
+} as const;
+
+const RATE_LIMIT = {
+  type: 'object',
+  required: ['requestsPerMinute', 'concurrentRequests'],
+  properties: {
+    requestsPerMinute: { type: 'number', exclusiveMinimum: 0 },
+    concurrentRequests: { type: 'integer', minimum: 1 },
+  },
+  additionalProperties: false,
+} as const;
+
+const API_CONFIG = {
+  type: 'object',
+  required: ['baseURL', 'timeout', 'retries', 'retryPolicy', 'headers'],
+  properties: {
+    baseURL: HTTP_URL,
+    timeout: POSITIVE_TIMEOUT,
+    retries: RETRY_COUNT,
+    retryPolicy: RETRY_POLICY,
+    rateLimit: RATE_LIMIT,
+    headers: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+export const ENVIRONMENT_CONFIG_SCHEMA = {
+  $id: 'environment-config',
+  type: 'object',
+  required: ['web', 'api', 'jsonplaceholder', 'database', 'features', 'performance'],
+  properties: {
+    web: {
+      type: 'object',
+      required: ['baseURL', 'timeout', 'retries'],
+      properties: {
+        baseURL: HTTP_URL,
+        timeout: POSITIVE_TIMEOUT,
+        retries: RETRY_COUNT,
+      },
+      additionalProperties: false,
+    },
+    api: API_CONFIG,
+    jsonplaceholder: API_CONFIG,
+    database: {
+      type: 'object',
+      required: ['connectionString', 'timeout'],
+      properties: {
+        connectionString: { type: 'string', format: 'uri' },
+        timeout: POSITIVE_TIMEOUT,
+      },
+      additionalProperties: false,
+    },
+    features: {
+      type: 'object',
+      required: ['enableDebugLogs', 'enableMocking', 'skipAuthValidation', 'enableVideoRecording'],
+      properties: {
+        enableDebugLogs: { type: 'boolean' },
+        enableMocking: { type: 'boolean' },
+        skipAuthValidation: { type: 'boolean' },
+        enableVideoRecording: { type: 'boolean' },
+      },
+      // Custom flags may be added freely but must hold a scalar value
+      additionalProperties: {
+        anyOf: [{ type: 'boolean' }, { type: 'number' }, { type: 'string' }],
+      },
+    },
+    performance: {
+      type: 'object',
+      required: ['workers', 'maxConcurrency'],
+      properties: {
+        workers: { type: 'integer', minimum: 1 },
+        maxConcurrency: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+} as const;
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview System Resources - Container-aware CPU, memory and load detection for worker budgets
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * `os.cpus()` and `os.totalmem()` describe the host, not the container the tests run in. A CI
+ * job limited to 4 CPUs on a 64-core node would otherwise start 16 browsers and get OOM-killed.
+ * This module reads the effective limits and turns them into separate worker budgets for
+ * browser and API projects:
+ *
+ * - CPU: cgroup v2 `cpu.max` or v1 `cpu.cfs_quota_us / cpu.cfs_period_us`, capped by CPU affinity
+ * - Memory: cgroup v2 `memory.max` or v1 `memory.limit_in_bytes`, minus current usage
+ *   (reclaimable page cache excluded), capped by the host's free memory
+ * - Load: one-minute load average scales the usable CPU share down on busy hosts
+ *
+ * @example
+ * ```typescript
+ * const resources = SystemResourceDetector.detect();
+ * const budgets = SystemResourceDetector.calculateBudgets(resources);
+ * console.log(budgets.browser.derivation);
+ * // cpu floor(4 × 0.75 × 1.00) = 3, memory floor(5.1 GB ÷ 2 GB) = 2 → 2 (memory-bound)
+ * ```
+ *
+ * @see {@link ./environment.ts} - Environment manager exposing the budgets
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
+import type { SystemResources, WorkerBudget, WorkerBudgets } from '@config/types/environment.types';
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * CPU limit read from a cgroup
+ */
+interface CgroupCpuLimit {
+  version: 1 | 2;
+  cpus: number;
+  detail: string;
+}
+
+/**
+ * Memory limit and usage read from a cgroup
+ */
+interface CgroupMemoryLimit {
+  version: 1 | 2;
+  limitBytes: number;
+  usedBytes: number;
+  detail: string;
+}
+
+/**
+ * Worker sizing for one kind of project
+ */
+interface WorkerProfile {
+  /** Workers per usable CPU */
+  perCpu: number;
+  /** Memory reserved per worker in GB */
+  memoryGB: number;
+}
+
+/**
+ * Rounds to two decimals for reporting
+ * @param value - Value to round
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * System Resource Detector
+ *
+ * @description
+ * Stateless detector; every call reads live values so that budgets reflect the load and free
+ * memory at the moment Playwright starts. The cgroup root can be replaced for testing.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class SystemResourceDetector {
+  /**
+   * Reads the resources available to this process
+   *
+   * @param {string} [cgroupRoot] - cgroup filesystem mount point
+   * @returns {SystemResources} Effective CPU, memory and load figures with their derivation
+   */
+  static detect(cgroupRoot: string = FRAMEWORK_CONSTANTS.PERFORMANCE.CGROUP_ROOT): SystemResources {
+    const hostCpuCount = os.cpus().length;
+    const affinityCpus = os.availableParallelism();
+    const cpuLimit = this.readCpuLimit(cgroupRoot);
+    const memoryLimit = this.readMemoryLimit(cgroupRoot);
+
+    const cpuCount = cpuLimit ? Math.min(cpuLimit.cpus, affinityCpus) : affinityCpus;
+    const cpuDerivation = cpuLimit
+      ? `${cpuLimit.detail}${cpuLimit.cpus > affinityCpus ? `, capped by CPU affinity (${affinityCpus})` : ''}`
+      : `os.availableParallelism() = ${affinityCpus} (host reports ${hostCpuCount}, no cgroup CPU quota)`;
+
+    const hostFreeBytes = os.freemem();
+    const totalBytes = memoryLimit ? memoryLimit.limitBytes : os.totalmem();
+    const cgroupFreeBytes = memoryLimit
+      ? Math.max(0, memoryLimit.limitBytes - memoryLimit.usedBytes)
+      : Infinity;
+    const availableBytes = Math.min(hostFreeBytes, cgroupFreeBytes);
+
+    const loadAverage = os.loadavg()[0] ?? 0;
+    const loadFactor = Math.min(
+      1,
+      Math.max(FRAMEWORK_CONSTANTS.PERFORMANCE.MIN_LOAD_FACTOR, 1 - loadAverage / hostCpuCount),
+    );
+
+    return {
+      hostCpuCount,
+      cpuCount: round(cpuCount),
+      totalMemoryGB: round(totalBytes / GB),
+      availableMemoryGB: round(availableBytes / GB),
+      loadAverage: round(loadAverage),
+      loadFactor: round(loadFactor),
+      cgroupVersion: cpuLimit?.version ?? memoryLimit?.version,
+      platform: os.platform(),
+      derivation: {
+        cpuCount: cpuDerivation,
+        totalMemoryGB: memoryLimit
+          ? memoryLimit.detail
+          : `os.totalmem() = ${round(totalBytes / GB)} GB (no cgroup memory limit)`,
+        availableMemoryGB:
+          cgroupFreeBytes < hostFreeBytes
+            ? `cgroup limit - usage = ${round(cgroupFreeBytes / GB)} GB (host free ${round(hostFreeBytes / GB)} GB)`
+            : `os.freemem() = ${round(hostFreeBytes / GB)} GB`,
+        loadFactor: `max(${FRAMEWORK_CONSTANTS.PERFORMANCE.MIN_LOAD_FACTOR}, 1 - load ${round(loadAverage)} ÷ ${hostCpuCount} host CPUs) = ${round(loadFactor)}`,
+      },
+    };
+  }
+
+  /**
+   * Derives browser and API worker budgets from detected resources
+   *
+   * @description
+   * Each budget is the lower of a CPU-based and a memory-based count, clamped to
+   * `PERFORMANCE.MIN_WORKERS`..`PERFORMANCE.MAX_WORKERS`. Memory always wins over the
+   * minimum: a container that fits one browser gets one worker, not an OOM kill.
+   *
+   * @param {SystemResources} resources - Detected resources
+   * @returns {WorkerBudgets} Browser, API and overall worker limits
+   */
+  static calculateBudgets(resources: SystemResources): WorkerBudgets {
+    const { PERFORMANCE } = FRAMEWORK_CONSTANTS;
+    const browser = this.calculateBudget(resources, {
+      perCpu: PERFORMANCE.CPU_UTILIZATION_PERCENTAGE,
+      memoryGB: PERFORMANCE.MEMORY_PER_WORKER_GB,
+    });
+    const api = this.calculateBudget(resources, {
+      perCpu: PERFORMANCE.API_WORKERS_PER_CPU,
+      memoryGB: PERFORMANCE.API_MEMORY_PER_WORKER_GB,
+    });
+
+    return { browser, api, total: Math.max(browser.workers, api.workers) };
+  }
+
+  /**
+   * Calculates the worker budget for one project kind
+   * @param resources - Detected resources
+   * @param profile - Per-worker CPU and memory needs
+   */
+  private static calculateBudget(resources: SystemResources, profile: WorkerProfile): WorkerBudget {
+    const { MIN_WORKERS, MAX_WORKERS } = FRAMEWORK_CONSTANTS.PERFORMANCE;
+    const cpuWorkers = Math.floor(resources.cpuCount * profile.perCpu * resources.loadFactor);
+    const memoryWorkers = Math.floor(resources.availableMemoryGB / profile.memoryGB);
+
+    const clamped = Math.max(MIN_WORKERS, Math.min(MAX_WORKERS, cpuWorkers, memoryWorkers));
+    const workers = Math.max(1, Math.min(clamped, memoryWorkers));
+
+    let limit = cpuWorkers <= memoryWorkers ? 'cpu-bound' : 'memory-bound';
+    if (workers === MAX_WORKERS && Math.min(cpuWorkers, memoryWorkers) > MAX_WORKERS) {
+      limit = `MAX_WORKERS ${MAX_WORKERS}`;
+    } else if (workers > Math.min(cpuWorkers, memoryWorkers)) {
+      limit = workers === MIN_WORKERS ? `MIN_WORKERS ${MIN_WORKERS}` : 'at least one worker';
+    }
+
+    return {
+      workers,
+      derivation:
+        `cpu floor(${resources.cpuCount} × ${profile.perCpu} × ${resources.loadFactor}) = ${cpuWorkers}, ` +
+        `memory floor(${resources.availableMemoryGB} GB ÷ ${profile.memoryGB} GB) = ${memoryWorkers} ` +
+        `→ ${workers} (${limit})`,
+    };
+  }
+
+  /**
+   * Reads the cgroup CPU quota
+   * @param root - cgroup filesystem mount point
+   * @returns CPU limit, or undefined when unlimited or not in a cgroup
+   */
+  private static readCpuLimit(root: string): CgroupCpuLimit | undefined {
+    // cgroup v2: "<quota> <period>" or "max <period>"
+    const cpuMax = this.readFile(root, 'cpu.max');
+    if (cpuMax !== undefined) {
+      const [quota, period] = cpuMax.split(/\s+/);
+      if (quota === 'max' || !period) {
+        return undefined;
+      }
+      const cpus = Number(quota) / Number(period);
+      return {
+        version: 2,
+        cpus,
+        detail: `cgroup v2 cpu.max ${quota} / ${period} = ${round(cpus)}`,
+      };
+    }
+
+    // cgroup v1: quota is -1 when unlimited
+    for (const controller of ['cpu', 'cpu,cpuacct']) {
+      const quota = Number(this.readFile(root, controller, 'cpu.cfs_quota_us'));
+      const period = Number(this.readFile(root, controller, 'cpu.cfs_period_us'));
+      if (quota > 0 && period > 0) {
+        const cpus = quota / period;
+        return {
+          version: 1,
+          cpus,
+          detail: `cgroup v1 cpu.cfs_quota_us ${quota} / cpu.cfs_period_us ${period} = ${round(cpus)}`,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads the cgroup memory limit and current usage
+   * @param root - cgroup filesystem mount point
+   * @returns Memory limit, or undefined when unlimited or not in a cgroup
+   */
+  private static readMemoryLimit(root: string): CgroupMemoryLimit | undefined {
+    const hostBytes = os.totalmem();
+
+    // cgroup v2: "max" when unlimited
+    const memoryMax = this.readFile(root, 'memory.max');
+    if (memoryMax !== undefined) {
+      const limitBytes = Number(memoryMax);
+      if (memoryMax === 'max' || !(limitBytes < hostBytes)) {
+        return undefined;
+      }
+      const usedBytes =
+        Number(this.readFile(root, 'memory.current') ?? 0) -
+        this.readStat(root, 'memory.stat', 'inactive_file');
+      return {
+        version: 2,
+        limitBytes,
+        usedBytes,
+        detail: `cgroup v2 memory.max = ${round(limitBytes / GB)} GB`,
+      };
+    }
+
+    // cgroup v1: unlimited is reported as a value close to 2^63
+    const limitBytes = Number(this.readFile(root, 'memory', 'memory.limit_in_bytes'));
+    if (
+      limitBytes > 0 &&
+      limitBytes < FRAMEWORK_CONSTANTS.PERFORMANCE.CGROUP_UNLIMITED_BYTES &&
+      limitBytes < hostBytes
+    ) {
+      const usedBytes =
+        Number(this.readFile(root, 'memory', 'memory.usage_in_bytes') ?? 0) -
+        this.readStat(root, path.join('memory', 'memory.stat'), 'total_inactive_file');
+      return {
+        version: 1,
+        limitBytes,
+        usedBytes,
+        detail: `cgroup v1 memory.limit_in_bytes = ${round(limitBytes / GB)} GB`,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads a single counter from a cgroup stat file (`<key> <value>` per line)
+   * @param root - cgroup filesystem mount point
+   * @param file - Stat file relative to the root
+   * @param key - Counter name
+   * @returns Counter value, or 0 when missing
+   */
+  private static readStat(root: string, file: string, key: string): number {
+    const line = this.readFile(root, file)
+      ?.split('\n')
+      .find(entry => entry.startsWith(`${key} `));
+    return line ? Number(line.split(' ')[1]) || 0 : 0;
+  }
+
+  /**
+   * Reads and trims a cgroup file
+   * @param segments - Path segments starting with the cgroup root
+   * @returns File content, or undefined when the file does not exist or cannot be read
+   */
+  private static readFile(...segments: string[]): string | undefined {
+    try {
+      return fs.readFileSync(path.join(...segments), 'utf-8').trim();
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -14,6 +14,35 @@ export interface WebConfig {
   retries: number;
 }
 
+/**
+ * Request-level retry behaviour of an API
+ * `ApiConfig.retries` sets how many times a single request may be retried
+ */
+export interface ApiRetryPolicy {
+  /** Response statuses that are retried (network errors always are) */
+  retryOn: number[];
+  /** Delay before the first retry; doubled for every further retry */
+  baseDelayMs: number;
+  /** Upper bound of the exponential backoff delay */
+  maxDelayMs: number;
+  /** Fraction of the delay (0-1) randomly taken off so that parallel workers spread out */
+  jitter: number;
+  /** Longest `Retry-After` honoured; a server asking for longer is not retried */
+  maxRetryAfterMs: number;
+  /** Also retry POST and PATCH requests that did not opt in */
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Client-side request limits of an API, shared by all tests of a worker
+ */
+export interface ApiRateLimit {
+  /** Sustained request rate; also the burst a full bucket allows */
+  requestsPerMinute: number;
+  /** Requests in flight at the same time */
+  concurrentRequests: number;
+}
+
 export interface ApiConfig {
   /** Base URL for API endpoints */
   baseURL: string;
@@ -21,6 +50,10 @@ export interface ApiConfig {
   timeout: number;
   /** Number of retries for failed API calls */
   retries: number;
+  /** When and how failed API calls are retried */
+  retryPolicy: ApiRetryPolicy;
+  /** Client-side rate limit; requests are not throttled when absent */
+  rateLimit?: ApiRateLimit;
   /** Default headers for API requests */
   headers: Record<string, string>;
 }
@@ -32,6 +65,9 @@ export interface DatabaseConfig {
   timeout: number;
 }
 
+/** Value a feature flag can hold */
+export type FeatureFlagValue = boolean | number | string;
+
 export interface FeatureFlags {
   /** Enable debug logging */
   enableDebugLogs: boolean;
@@ -41,6 +77,8 @@ export interface FeatureFlags {
   skipAuthValidation: boolean;
   /** Enable video recording for tests */
   enableVideoRecording: boolean;
+  /** Additional flags, e.g. `checkoutVariant: 'express'` or `maxCartItems: 6` */
+  [flag: string]: FeatureFlagValue;
 }
 
 export interface PerformanceConfig {
@@ -65,13 +103,153 @@ export interface EnvironmentConfig {
   performance: PerformanceConfig;
 }
 
-export type EnvironmentType = 'development' | 'pre-prod' | 'prod';
+/** Environments shipped with the framework */
+export type BuiltInEnvironmentType = 'development' | 'pre-prod' | 'prod';
+
+/**
+ * Environment name
+ * Built-in names keep autocompletion; any registered or discovered name is accepted
+ */
+export type EnvironmentType = BuiltInEnvironmentType | (string & {});
+
+/**
+ * Recursive partial of a configuration object
+ * Used by configuration layers that only override a subset of values
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/** Partial configuration contributed by a single layer */
+export type EnvironmentConfigOverride = DeepPartial<EnvironmentConfig>;
+
+/**
+ * Configuration layers in order of precedence (lowest first)
+ * - base: framework defaults shared by every environment
+ * - environment: `config/environments/<env>.ts`
+ * - local: untracked local override file (`local.config.{json,yaml,yml,ts,js}`)
+ * - env: `E2E_*` environment variables, which also serve as command-line overrides
+ * - runtime: programmatic overrides applied through the manager
+ */
+export type ConfigSource = 'base' | 'environment' | 'local' | 'env' | 'runtime';
+
+export interface ConfigValueOrigin {
+  /** Dot-separated path of the value (e.g. `web.timeout`) */
+  path: string;
+  /** Final merged value */
+  value: unknown;
+  /** Layer that supplied the final value */
+  source: ConfigSource;
+  /** Human-readable detail about the layer (file path, variable name) */
+  detail: string;
+}
+
+export interface ConfigReport {
+  /** Environment the report was generated for */
+  environment: EnvironmentType;
+  /** Layers that contributed at least one value, in precedence order */
+  layers: Array<{ source: ConfigSource; detail: string }>;
+  /** Provenance of every leaf value in the merged configuration */
+  values: ConfigValueOrigin[];
+}
+
+export interface EnvironmentRegistrationOptions {
+  /** Environment whose configuration is layered underneath this one */
+  extends?: EnvironmentType;
+  /** Human-readable origin shown in the merged-config report */
+  source?: string;
+}
+
+export interface ConfigAccessOptions {
+  /**
+   * Log validation problems as warnings instead of throwing
+   * Also enabled by `E2E_CONFIG_VALIDATION=lenient`
+   */
+  lenient?: boolean;
+}
+
+/**
+ * Resources the test run may actually use, after container limits and host load
+ */
+export interface SystemResources {
+  /** Logical CPUs reported by the host */
+  hostCpuCount: number;
+  /** CPUs available to this process (cgroup quota and CPU affinity applied) */
+  cpuCount: number;
+  /** Memory available to this process in GB (cgroup limit or host memory) */
+  totalMemoryGB: number;
+  /** Memory currently free for new workers in GB */
+  availableMemoryGB: number;
+  /** One-minute load average (0 on platforms without load averages) */
+  loadAverage: number;
+  /** Share of CPU capacity treated as usable given the current load (0-1) */
+  loadFactor: number;
+  /** Detected cgroup version, undefined outside Linux containers */
+  cgroupVersion?: 1 | 2;
+  /** Operating system platform */
+  platform: string;
+  /** How each resource figure was obtained */
+  derivation: {
+    cpuCount: string;
+    totalMemoryGB: string;
+    availableMemoryGB: string;
+    loadFactor: string;
+  };
+}
+
+/**
+ * Worker budget for one kind of Playwright project
+ */
+export interface WorkerBudget {
+  /** Maximum parallel workers */
+  workers: number;
+  /** How the worker count was calculated */
+  derivation: string;
+}
+
+/**
+ * Worker budgets for browser and API projects
+ */
+export interface WorkerBudgets {
+  /** Budget for projects that launch a browser */
+  browser: WorkerBudget;
+  /** Budget for browserless API projects */
+  api: WorkerBudget;
+  /** Overall worker limit for the run */
+  total: number;
+}
+
+/**
+ * System information with the derivation of every figure
+ */
+export interface SystemInfo extends Omit<SystemResources, 'derivation'> {
+  optimalWorkers: number;
+  browserWorkers: number;
+  apiWorkers: number;
+  optimalShards: number;
+  derivation: SystemResources['derivation'] & {
+    browserWorkers: string;
+    apiWorkers: string;
+    optimalWorkers: string;
+    optimalShards: string;
+  };
+}
 
 export interface EnvironmentManager {
   /** Get configuration for specific environment */
-  getConfig(_env: EnvironmentType): EnvironmentConfig;
+  getConfig(_env: EnvironmentType, _options?: ConfigAccessOptions): EnvironmentConfig;
   /** Get current environment */
   getCurrentEnvironment(): EnvironmentType;
   /** Validate environment configuration */
   validateConfig(_config: EnvironmentConfig): boolean;
+  /** Describe where each merged configuration value came from */
+  getConfigReport(_env: EnvironmentType): ConfigReport;
+  /** Register an additional environment */
+  register(
+    _name: EnvironmentType,
+    _config: EnvironmentConfigOverride,
+    _options?: EnvironmentRegistrationOptions,
+  ): void;
+  /** List every registered and discovered environment */
+  getAvailableEnvironments(): EnvironmentType[];
 }
@@ -0,0 +1,150 @@
+/**
+ * JSONPlaceholder Mock Dataset
+ * Complete, deterministic copy of the JSONPlaceholder resources for the local mock server
+ *
+ * Features:
+ * - Same resource counts and relations as the public API (10 posts per user, 5 comments per post, ...)
+ * - Records from `jsonplaceholder.mocks.ts` are used verbatim, the rest is generated
+ * - Every record satisfies the contract schemas in `@api/schemas/jsonplaceholder.schemas`
+ *
+ * @example
+ * ```typescript
+ * import { buildJsonPlaceholderDataset } from '@data/mock/jsonplaceholder.dataset';
+ *
+ * const dataset = buildJsonPlaceholderDataset();
+ * dataset.posts.filter(post => post.userId === 1); // 10 posts, the first three from MOCK_POSTS
+ * ```
+ */
+
+import type {
+  AlbumResponse,
+  CommentResponse,
+  PhotoResponse,
+  PostResponse,
+  TodoResponse,
+  UserResponse,
+} from '@api/schemas/jsonplaceholder.schemas';
+import {
+  JSONPLACEHOLDER_API,
+  type JsonPlaceholderResource,
+} from '@utils/constants/jsonplaceholder.constants';
+
+import {
+  MOCK_ALBUMS,
+  MOCK_COMMENTS,
+  MOCK_PERFORMANCE_DATA,
+  MOCK_PHOTOS,
+  MOCK_POSTS,
+  MOCK_TODOS,
+  MOCK_USERS,
+} from './jsonplaceholder.mocks';
+
+// Record shapes per resource
+export interface JsonPlaceholderDataset {
+  posts: PostResponse[];
+  comments: CommentResponse[];
+  albums: AlbumResponse[];
+  photos: PhotoResponse[];
+  todos: TodoResponse[];
+  users: UserResponse[];
+}
+
+// Any record of the dataset
+export type JsonPlaceholderRecord = JsonPlaceholderDataset[JsonPlaceholderResource][number];
+
+// Child resources reachable through nested routes and the foreign key linking them
+export const JSONPLACEHOLDER_RELATIONS: Partial<
+  Record<JsonPlaceholderResource, Partial<Record<JsonPlaceholderResource, string>>>
+> = {
+  posts: { comments: 'postId' },
+  albums: { photos: 'albumId' },
+  users: { albums: 'userId', todos: 'userId', posts: 'userId' },
+};
+
+const { RESOURCE_COUNTS } = JSONPLACEHOLDER_API;
+
+/**
+ * Parent id for the n-th child when children are spread evenly over parents
+ * @param id - Child id (1-based)
+ * @param childCount - Total number of children
+ * @param parentCount - Total number of parents
+ */
+function parentOf(id: number, childCount: number, parentCount: number): number {
+  return Math.ceil(id / (childCount / parentCount));
+}
+
+/**
+ * Ids 1..count
+ * @param count - Number of records
+ */
+function ids(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index + 1);
+}
+
+/**
+ * Replaces generated records by the hand-written seed with the same id
+ * @param seeds - Hand-written records
+ * @param generated - Generated records for every id
+ */
+function withSeeds<T extends { id: number }>(seeds: T[], generated: T[]): T[] {
+  return generated.map(record => seeds.find(seed => seed.id === record.id) ?? record);
+}
+
+/**
+ * Builds a fresh dataset; callers may mutate the result freely
+ * @returns All JSONPlaceholder resources
+ */
+export function buildJsonPlaceholderDataset(): JsonPlaceholderDataset {
+  const posts = withSeeds(
+    MOCK_POSTS.MULTIPLE_POSTS,
+    MOCK_PERFORMANCE_DATA.LARGE_POST_SET.map(post => ({
+      ...post,
+      userId: parentOf(post.id, RESOURCE_COUNTS.POSTS, RESOURCE_COUNTS.USERS),
+    })),
+  );
+
+  const comments = withSeeds(
+    MOCK_COMMENTS.POST_COMMENTS,
+    MOCK_PERFORMANCE_DATA.LARGE_COMMENT_SET.map(comment => ({
+      ...comment,
+      postId: parentOf(comment.id, RESOURCE_COUNTS.COMMENTS, RESOURCE_COUNTS.POSTS),
+    })),
+  );
+
+  const albums = withSeeds(
+    MOCK_ALBUMS.USER_ALBUMS,
+    ids(RESOURCE_COUNTS.ALBUMS).map(id => ({
+      id,
+      title: `Mock Album ${id}`,
+      userId: parentOf(id, RESOURCE_COUNTS.ALBUMS, RESOURCE_COUNTS.USERS),
+    })),
+  );
+
+  const photos = withSeeds(
+    MOCK_PHOTOS.ALBUM_PHOTOS,
+    ids(RESOURCE_COUNTS.PHOTOS).map(id => ({
+      id,
+      title: `Mock Photo ${id}`,
+      url: `https://via.placeholder.com/600/${id.toString(16).padStart(6, '0')}`,
+      thumbnailUrl: `https://via.placeholder.com/150/${id.toString(16).padStart(6, '0')}`,
+      albumId: parentOf(id, RESOURCE_COUNTS.PHOTOS, RESOURCE_COUNTS.ALBUMS),
+    })),
+  );
+
+  const todos = withSeeds(
+    MOCK_TODOS.USER_TODOS,
+    ids(RESOURCE_COUNTS.TODOS).map(id => ({
+      id,
+      title: `Mock Todo ${id}`,
+      completed: id % 2 === 0,
+      userId: parentOf(id, RESOURCE_COUNTS.TODOS, RESOURCE_COUNTS.USERS),
+    })),
+  );
+
+  const users = withSeeds(MOCK_USERS.MULTIPLE_USERS, MOCK_PERFORMANCE_DATA.STRESS_TEST_USERS);
+
+  // Seeds are shared constants: hand out copies so mutations never leak back
+  return JSON.parse(
+    JSON.stringify({ posts, comments, albums, photos, todos, users }),
+  ) as JsonPlaceholderDataset;
+}
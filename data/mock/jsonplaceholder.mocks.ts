@@ -18,6 +18,7 @@ import type {
   UserResponse,
   ErrorResponse,
 } from '@api/schemas/jsonplaceholder.schemas';
+import type { MockScenarioDefinition } from '@api/mocks/mock.types';
 
 // Mock Posts Data
 export const MOCK_POSTS = {
@@ -378,39 +379,65 @@ export const MOCK_PERFORMANCE_DATA = {
   })) as UserResponse[],
 };
 
-// Scenario-based Mock Data
+// Scenario-based Mock Data, loaded with `mock.load(MOCK_SCENARIOS.RATE_LIMITED)`
 export const MOCK_SCENARIOS = {
   // Happy path scenarios
   SUCCESSFUL_POST_CREATION: {
-    request: {
-      title: 'New Blog Post',
-      body: 'This is the content of the new blog post',
-      userId: 1,
-    },
-    response: MOCK_POSTS.CREATED_POST,
-  },
+    name: 'SUCCESSFUL_POST_CREATION',
+    description: 'Creating the new blog post returns it with its id',
+    routes: [
+      {
+        method: 'POST',
+        path: '/posts',
+        body: {
+          title: 'New Blog Post',
+          body: 'This is the content of the new blog post',
+          userId: 1,
+        },
+        responses: [{ status: 201, body: MOCK_POSTS.CREATED_POST }],
+      },
+    ],
+  } satisfies MockScenarioDefinition,
 
   // Edge case scenarios
   EMPTY_RESULTS: {
-    posts: [] as PostResponse[],
-    comments: [] as CommentResponse[],
-    albums: [] as AlbumResponse[],
-    photos: [] as PhotoResponse[],
-    todos: [] as TodoResponse[],
-    users: [] as UserResponse[],
-  },
+    name: 'EMPTY_RESULTS',
+    description: 'Every collection is empty',
+    routes: ['posts', 'comments', 'albums', 'photos', 'todos', 'users'].map(resource => ({
+      method: 'GET',
+      path: `/${resource}`,
+      responses: [{ status: 200, body: [] }],
+    })),
+  } satisfies MockScenarioDefinition,
 
   // Error scenarios
   NETWORK_TIMEOUT: {
-    error: 'TIMEOUT',
-    message: 'Request timeout after 10 seconds',
-  },
+    name: 'NETWORK_TIMEOUT',
+    description: 'Every request times out',
+    routes: [{ method: '*', path: '*', responses: [{ abort: 'timedout' }] }],
+  } satisfies MockScenarioDefinition,
 
   RATE_LIMITED: {
-    status: 429,
-    error: 'Too Many Requests',
-    message: 'Rate limit exceeded. Please try again later.',
-  },
+    name: 'RATE_LIMITED',
+    description: 'Every request is rejected with 429 Too Many Requests',
+    routes: [
+      {
+        method: '*',
+        path: '*',
+        responses: [
+          {
+            status: 429,
+            headers: { 'retry-after': '1' },
+            body: {
+              status: 429,
+              error: 'Too Many Requests',
+              message: 'Rate limit exceeded. Please try again later.',
+            },
+          },
+        ],
+      },
+    ],
+  } satisfies MockScenarioDefinition,
 };
 
 // Mock Response Headers
@@ -1,8 +1,15 @@
 /**
  * SauceDemo User Test Data
  * Centralized user credentials for testing different user types
+ *
+ * Passwords are `secret://` references resolved on first access
+ * (e.g. from `E2E_SECRET_SAUCEDEMO_PASSWORD`); see docs/configuration.md.
+ * SauceDemo publishes its password, so `E2E_SECRET_SAUCEDEMO_PASSWORD=secret_sauce`
+ * is all a local run needs.
  */
 
+import { Secrets } from '@utils/secrets/secrets.manager';
+
 export interface UserCredentials {
   username: string;
   password: string;
@@ -10,49 +17,49 @@ export interface UserCredentials {
   userType: 'standard' | 'locked_out' | 'problem' | 'performance_glitch' | 'error' | 'visual';
 }
 
-export const SAUCEDEMO_USERS: Record<string, UserCredentials> = {
+export const SAUCEDEMO_USERS: Record<string, UserCredentials> = Secrets.bindLazy({
   STANDARD_USER: {
     username: 'standard_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'Standard user with normal functionality',
     userType: 'standard',
   },
   LOCKED_OUT_USER: {
     username: 'locked_out_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'User that has been locked out',
     userType: 'locked_out',
   },
   PROBLEM_USER: {
     username: 'problem_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'User with problematic behavior',
     userType: 'problem',
   },
   PERFORMANCE_GLITCH_USER: {
     username: 'performance_glitch_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'User with performance issues',
     userType: 'performance_glitch',
   },
   ERROR_USER: {
     username: 'error_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'User that experiences errors',
     userType: 'error',
   },
   VISUAL_USER: {
     username: 'visual_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'User with visual testing differences',
     userType: 'visual',
   },
-};
+});
 
-export const INVALID_CREDENTIALS = {
+export const INVALID_CREDENTIALS = Secrets.bindLazy({
   INVALID_USERNAME: {
     username: 'invalid_user',
-    password: 'secret_sauce',
+    password: 'secret://saucedemo-password',
     description: 'Invalid username for negative testing',
     userType: 'standard' as const,
   },
@@ -68,4 +75,4 @@ export const INVALID_CREDENTIALS = {
     description: 'Empty credentials for validation testing',
     userType: 'standard' as const,
   },
-};
+});
@@ -8,14 +8,14 @@ import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
  *
  * Features:
  * - Multi-environment support (development, pre-prod, prod)
- * - Dynamic performance optimization based on system resources
+ * - Dynamic performance optimization based on container limits, free memory and load
  * - Cross-browser testing (desktop + mobile)
  * - Intelligent artifact collection (screenshots/videos only for failed web tests)
  * - API testing without browser overhead
  * - Comprehensive reporting
  *
  * Environment Variables:
- * - TEST_ENV: Set environment (development|pre-prod|prod)
+ * - TEST_ENV: Set environment (development|pre-prod|prod or any registered/discovered environment)
  * - CI: Enable CI-specific settings
  * - DEBUG: Enable debug mode
  * - HEADLESS: Override headless mode
@@ -31,8 +31,8 @@ import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
 const currentEnv = EnvironmentConfigManager.getCurrentEnvironment();
 const envConfig = EnvironmentConfigManager.getConfig(currentEnv);
 
-// Calculate optimal performance settings
-const workers = EnvironmentConfigManager.calculateOptimalWorkers();
+// Calculate optimal performance settings (container-aware, separate browser and API budgets)
+const workerBudgets = EnvironmentConfigManager.calculateWorkerBudgets();
 
 // Debug logging
 if (process.env[FRAMEWORK_CONSTANTS.ENV_VARS.DEBUG]) {
@@ -48,7 +48,9 @@ export default defineConfig({
 
   /* Performance Configuration */
   fullyParallel: true,
-  workers: process.env[FRAMEWORK_CONSTANTS.ENV_VARS.CI] ? envConfig.performance.workers : workers,
+  workers: process.env[FRAMEWORK_CONSTANTS.ENV_VARS.CI]
+    ? Math.min(envConfig.performance.workers, workerBudgets.total)
+    : workerBudgets.total,
 
   /* Environment Configuration */
   timeout: envConfig.web.timeout,
@@ -112,6 +114,7 @@ export default defineConfig({
     {
       name: 'chromium-web',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['Desktop Chrome'],
         baseURL: envConfig.web.baseURL,
@@ -127,6 +130,7 @@ export default defineConfig({
     {
       name: 'firefox-web',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['Desktop Firefox'],
         baseURL: envConfig.web.baseURL,
@@ -142,6 +146,7 @@ export default defineConfig({
     {
       name: 'webkit-web',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['Desktop Safari'],
         baseURL: envConfig.web.baseURL,
@@ -157,6 +162,7 @@ export default defineConfig({
     {
       name: 'edge-web',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['Desktop Edge'],
         channel: 'msedge',
@@ -175,6 +181,7 @@ export default defineConfig({
     {
       name: 'mobile-chrome',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['Pixel 5'],
         baseURL: envConfig.web.baseURL,
@@ -190,6 +197,7 @@ export default defineConfig({
     {
       name: 'mobile-safari',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['iPhone 12'],
         baseURL: envConfig.web.baseURL,
@@ -205,6 +213,7 @@ export default defineConfig({
     {
       name: 'tablet-chrome',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.WEB,
+      workers: workerBudgets.browser.workers,
       use: {
         ...devices['iPad Pro'],
         baseURL: envConfig.web.baseURL,
@@ -223,6 +232,7 @@ export default defineConfig({
       name: 'api-tests',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.API,
       testIgnore: '**/mocked/**',
+      workers: workerBudgets.api.workers,
       use: {
         baseURL: envConfig.api.baseURL,
         extraHTTPHeaders: envConfig.api.headers,
@@ -247,6 +257,7 @@ export default defineConfig({
     {
       name: 'api-mocked-tests',
       testDir: FRAMEWORK_CONSTANTS.TEST_DIRS.MOCKED,
+      workers: workerBudgets.browser.workers,
       use: {
         baseURL: envConfig.api.baseURL,
         extraHTTPHeaders: envConfig.api.headers,
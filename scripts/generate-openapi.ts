@@ -0,0 +1,90 @@
+/**
+ * @fileoverview OpenAPI generator CLI
+ *
+ * @description
+ * Reads a local OpenAPI 3 document and writes the endpoint constants, Ajv schemas and response
+ * interfaces, typed client and mock data for the service. Existing files are kept unless
+ * `--force` is passed.
+ *
+ * @example
+ * ```bash
+ * npm run openapi:generate -- --spec specs/orders.openapi.yaml
+ * npm run openapi:generate -- --spec specs/orders.json --name order-service --force
+ * npm run openapi:generate -- --spec specs/orders.openapi.yaml --out /tmp/preview
+ * ```
+ *
+ * Options:
+ * - `--spec <file>` - OpenAPI document (`.yaml`, `.yml` or `.json`), required
+ * - `--name <service>` - Service name for file names and identifiers (default: spec file name)
+ * - `--out <dir>` - Root directory the files are written under (default: current directory)
+ * - `--force` - Overwrite previously generated files
+ */
+
+import * as path from 'node:path';
+
+import { OpenApiGenerator } from '@utils/openapi/openapi.generator';
+
+interface CliOptions {
+  spec: string;
+  name: string;
+  outDir: string;
+  force: boolean;
+}
+
+const VALUE_FLAGS = ['--spec', '--name', '--out'];
+
+/**
+ * Parses command line arguments
+ * @param argv - Arguments after the script name
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const values = new Map<string, string>();
+  let force = false;
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--force') {
+      force = true;
+    } else if (VALUE_FLAGS.includes(flag) && i + 1 < argv.length) {
+      values.set(flag, argv[++i]);
+    } else {
+      throw new Error(`Unknown option or missing value: ${flag}`);
+    }
+  }
+
+  const spec = values.get('--spec');
+  if (!spec) {
+    throw new Error('--spec <file> is required');
+  }
+  return {
+    spec,
+    name: values.get('--name') ?? path.basename(spec).split('.')[0],
+    outDir: values.get('--out') ?? '.',
+    force,
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const document = OpenApiGenerator.load(options.spec);
+  const generator = new OpenApiGenerator(document, {
+    name: options.name,
+    source: path.relative(process.cwd(), path.resolve(options.spec)),
+  });
+
+  console.log(`📖 ${document.info.title} ${document.info.version} (OpenAPI ${document.openapi})`);
+  const { written, skipped } = await OpenApiGenerator.write(
+    generator.generate(),
+    options.outDir,
+    options.force,
+  );
+
+  written.forEach(file => console.log(`✅ Generated ${path.join(options.outDir, file)}`));
+  skipped.forEach(file => console.log(`⏭️ Kept existing ${file} (use --force to overwrite)`));
+  generator.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+}
+
+main().catch((error: unknown) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`❌ OpenAPI generation failed: ${errorMessage}`);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Shard planning CLI
+ *
+ * @description
+ * Learns test durations from previous JSON reports, then writes balanced `--test-list` files
+ * for N shards and prints the predicted wall-clock time of each shard.
+ *
+ * @example
+ * ```bash
+ * npm run shards:plan -- --shards 4 --workers 2
+ * npm run shards:plan -- --shards 2 --report reports/json/run-a.json --report reports/json/run-b.json
+ * npm run shards:plan -- --shards 3 -- --project=api-tests
+ *
+ * npm run test:sharded -- reports/shards/shard-1.txt
+ * ```
+ *
+ * Options:
+ * - `--shards <n>` - Number of shards (default: calculated from system resources)
+ * - `--workers <n>` - Workers per shard for the prediction (default: calculated worker budget)
+ * - `--report <file>` - JSON report to learn from, repeatable (default: the JSON reporter output)
+ * - `--out <dir>` - Output directory for the test lists
+ * - Arguments after `--` are passed to `playwright test --list`
+ */
+
+import { EnvironmentConfigManager } from '@config/environment';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { ShardPlanner } from '@utils/sharding/shard.planner';
+
+interface CliOptions {
+  shards: number;
+  workers: number;
+  reports: string[];
+  outDir: string;
+  playwrightArgs: string[];
+}
+
+const FLAGS = ['--shards', '--workers', '--report', '--out'];
+
+/**
+ * Collects `--flag value` pairs; repeatable flags keep every value
+ * @param args - Script arguments before `--`
+ */
+function readFlags(args: string[]): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    if (!FLAGS.includes(flag) || i + 1 >= args.length) {
+      throw new Error(`Unknown option or missing value: ${flag}`);
+    }
+    values.set(flag, [...(values.get(flag) ?? []), args[i + 1]]);
+  }
+  return values;
+}
+
+/**
+ * Parses command line arguments
+ * @param argv - Arguments after the script name
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const separator = argv.indexOf('--');
+  const values = readFlags(separator === -1 ? argv : argv.slice(0, separator));
+  const last = (flag: string): string | undefined => values.get(flag)?.slice(-1)[0];
+
+  const options: CliOptions = {
+    shards: parseInt(
+      last('--shards') ?? String(EnvironmentConfigManager.calculateOptimalShards()),
+      10,
+    ),
+    workers: parseInt(
+      last('--workers') ?? String(EnvironmentConfigManager.calculateOptimalWorkers()),
+      10,
+    ),
+    reports: values.get('--report') ?? [],
+    outDir: last('--out') ?? FRAMEWORK_CONSTANTS.SHARDING.OUTPUT_DIR,
+    playwrightArgs: separator === -1 ? [] : argv.slice(separator + 1),
+  };
+
+  if (!(options.shards > 0) || !(options.workers > 0)) {
+    throw new Error('--shards and --workers must be positive integers');
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const planner = new ShardPlanner();
+
+  const reports =
+    options.reports.length > 0 ? options.reports : [FRAMEWORK_CONSTANTS.REPORTS.JSON_FILE];
+  reports.forEach(report => {
+    const learned = planner.learnFromFile(report);
+    console.log(
+      learned > 0
+        ? `📚 Learned ${learned} test durations from ${report}`
+        : `ℹ️ Nothing new to learn from ${report}`,
+    );
+  });
+  planner.saveHistory();
+
+  const plan = planner.plan(ShardPlanner.listTests(options.playwrightArgs), options);
+  const files = ShardPlanner.writePlan(plan, options.outDir);
+
+  console.log(ShardPlanner.formatPlan(plan));
+  files.forEach(file => console.log(`  npm run test:sharded -- ${file}`));
+}
+
+try {
+  main();
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`❌ Shard planning failed: ${errorMessage}`);
+  process.exit(1);
+}
@@ -0,0 +1,246 @@
+/**
+ * @fileoverview API Result - Typed, schema-validated responses and structured API errors
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Raw `APIResponse` objects force every spec to repeat `await response.json()` and cast the
+ * result. {@link callApi} sends a request and returns an {@link ApiResult} carrying status,
+ * headers, timing and the parsed body, validated against a JSON schema. Non-2xx responses
+ * raise an {@link ApiError} unless `throwOnError: false` is passed; successful bodies that
+ * break the schema always do, unless `validate: false` skips the validation.
+ *
+ * @example
+ * ```typescript
+ * const result = await callApi<PostResponse>(context, {
+ *   method: 'GET',
+ *   url: `${baseURL}/posts/1`,
+ *   schema: JSON_SCHEMAS.POST,
+ * });
+ * console.log(result.status, result.durationMs, result.attemptMs, result.body.title);
+ *
+ * const missing = await callApi(context, { method: 'GET', url: `${baseURL}/posts/0` }, {
+ *   throwOnError: false,
+ * });
+ * expect(missing.status).toBe(404);
+ *
+ * // Schema mismatches raise ApiError (reason 'schema') even with throwOnError: false
+ * const unchecked = await callApi(context, {
+ *   method: 'GET',
+ *   url: `${baseURL}/posts/1`,
+ *   schema: JSON_SCHEMAS.POST,
+ * }, { validate: false });
+ * ```
+ */
+
+import { performance } from 'node:perf_hooks';
+
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+
+import { schemaErrors } from '@api/schemas/schema.registry';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import type { HttpMethod } from '@utils/constants/jsonplaceholder.constants';
+import { roundDuration } from '@utils/performance/performance.stats';
+
+/**
+ * Parsed response of an API call
+ */
+export interface ApiResult<T> {
+  method: HttpMethod;
+  url: string;
+  status: number;
+  statusText: string;
+  /** True for 2xx statuses */
+  ok: boolean;
+  /** Response headers (lower-case names) */
+  headers: Record<string, string>;
+  /** Time from sending the request to receiving the full body, including retries and waits */
+  durationMs: number;
+  /** Time of the final attempt alone; absent for mocked and replayed responses */
+  attemptMs?: number;
+  /** Parsed JSON body (raw text when the body is not JSON); only validated when `ok` */
+  body: T;
+}
+
+/**
+ * Request to send
+ */
+export interface ApiCallSpec {
+  method: HttpMethod;
+  /** Absolute URL, or a path resolved against the context's base URL */
+  url: string;
+  /** JSON request body */
+  data?: unknown;
+  /** Query parameters */
+  params?: Record<string, string | number | boolean>;
+  /** Additional request headers */
+  headers?: Record<string, string>;
+  /** JSON schema the successful response body must satisfy */
+  schema?: object;
+}
+
+/**
+ * Per-call behaviour
+ */
+export interface ApiCallOptions {
+  /** Raise {@link ApiError} on non-2xx statuses (default: true) */
+  throwOnError?: boolean;
+  /** Validate successful bodies against the schema (default: true) */
+  validate?: boolean;
+  /** Let a retrying context retry this POST or PATCH (GET, PUT and DELETE always are) */
+  allowRetry?: boolean;
+}
+
+/**
+ * Why an API call was rejected
+ */
+export type ApiErrorReason = 'status' | 'schema';
+
+/**
+ * Error raised for unexpected API responses
+ *
+ * @description
+ * Carries the full result so that assertions and reports can show what the server returned.
+ * `reason` tells a failing status (`status`) from a body that breaks the contract (`schema`).
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ApiError extends Error {
+  /** Failing status or schema mismatch */
+  readonly reason: ApiErrorReason;
+
+  /** The response that caused the error */
+  readonly result: ApiResult<unknown>;
+
+  /** Schema violations (`$.path: message`), when `reason` is `schema` */
+  readonly validationErrors: string[];
+
+  constructor(reason: ApiErrorReason, result: ApiResult<unknown>, validationErrors: string[] = []) {
+    const request = `${result.method} ${result.url}`;
+    super(
+      reason === 'status'
+        ? `${request} failed with ${result.status} ${result.statusText}: ${ApiError.preview(result.body)}`
+        : `${request} returned a body that does not match its schema:\n${validationErrors.map(error => `  - ${error}`).join('\n')}`,
+    );
+    this.name = 'ApiError';
+    this.reason = reason;
+    this.result = result;
+    this.validationErrors = validationErrors;
+  }
+
+  /** HTTP status of the response */
+  get status(): number {
+    return this.result.status;
+  }
+
+  /**
+   * Shortens a body for the error message
+   * @param body - Parsed body
+   */
+  private static preview(body: unknown): string {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+  }
+}
+
+/**
+ * Validates a body against a schema (compiled once per worker by the schema registry)
+ * @param schema - JSON schema
+ * @param body - Parsed body
+ * @returns Violations as `$.path: message`, empty when valid
+ */
+export function validateBody(schema: object, body: unknown): string[] {
+  return schemaErrors(schema, body);
+}
+
+/**
+ * Parses a response body as JSON, falling back to the raw text
+ * @param text - Response text
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Duration of the attempt that produced a response, from its resource timing
+ * @param response - Final response
+ * @returns Milliseconds, undefined when the response did not come from the network
+ */
+function attemptDuration(response: APIResponse): number | undefined {
+  const { responseEnd } = response.timing();
+  return responseEnd >= 0 ? roundDuration(responseEnd) : undefined;
+}
+
+/**
+ * Headers of a call, with the retry opt-in read by retrying contexts
+ * @param spec - Request to send
+ * @param allowRetry - Whether a non-idempotent request may be retried
+ */
+function requestHeaders(
+  spec: ApiCallSpec,
+  allowRetry: boolean,
+): Record<string, string> | undefined {
+  return allowRetry
+    ? { ...spec.headers, [FRAMEWORK_CONSTANTS.API_RETRY.ALLOW_RETRY_HEADER]: 'true' }
+    : spec.headers;
+}
+
+/**
+ * Sends a request and returns its typed result
+ *
+ * @param {APIRequestContext} context - Playwright request context
+ * @param {ApiCallSpec} spec - Request to send and expected schema
+ * @param {ApiCallOptions} [options] - Error and validation behaviour
+ * @returns {Promise<ApiResult<T>>} Parsed result
+ * @throws {ApiError} On non-2xx statuses (unless `throwOnError` is false) or schema mismatches
+ *   (unless `validate` is false)
+ */
+export async function callApi<T>(
+  context: APIRequestContext,
+  spec: ApiCallSpec,
+  options: ApiCallOptions = {},
+): Promise<ApiResult<T>> {
+  const { throwOnError = true, validate = true, allowRetry = false } = options;
+  const startTime = performance.now();
+  const response = await context.fetch(spec.url, {
+    method: spec.method,
+    data: spec.data,
+    params: spec.params,
+    headers: requestHeaders(spec, allowRetry),
+  });
+  const body = parseBody(await response.text());
+
+  const result: ApiResult<T> = {
+    method: spec.method,
+    url: response.url(),
+    status: response.status(),
+    statusText: response.statusText(),
+    ok: response.ok(),
+    headers: response.headers(),
+    durationMs: roundDuration(performance.now() - startTime),
+    attemptMs: attemptDuration(response),
+    body: body as T,
+  };
+
+  if (!result.ok) {
+    if (throwOnError) {
+      throw new ApiError('status', result);
+    }
+    return result;
+  }
+
+  const violations = validate && spec.schema ? validateBody(spec.schema, body) : [];
+  if (violations.length > 0) {
+    throw new ApiError('schema', result, violations);
+  }
+  return result;
+}
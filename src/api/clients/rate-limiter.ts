@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Rate Limiter - Client-side token bucket and concurrency limit for API requests
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Specs that fan out requests with `Promise.all` can exceed what an API tolerates and get
+ * throttled. A {@link RateLimiter} combines a token bucket (`requestsPerMinute`, refilled
+ * continuously, bursting up to one minute's worth) with a semaphore (`concurrentRequests`).
+ * {@link RateLimiter.forWorker} hands out one limiter per API and worker process, so all tests
+ * of a worker share the budget. {@link withRateLimit} wraps an `APIRequestContext` so that
+ * every request waits for the limiter and records the wait in a {@link PerformanceTracker}.
+ *
+ * @example
+ * ```typescript
+ * const limiter = RateLimiter.forWorker('jsonplaceholder', { requestsPerMinute: 100, concurrentRequests: 10 });
+ * const context = withRateLimit(await request.newContext(), limiter, performanceTracker);
+ *
+ * await Promise.all(ids.map(id => context.get(`/posts/${id}`))); // at most 10 in flight
+ * console.log(performanceTracker.getAllMetrics().rate_limit_wait); // { avg, max, min, count }
+ * ```
+ */
+
+import type { APIRequestContext } from '@playwright/test';
+
+import { interceptRequests } from '@api/clients/request-interceptor';
+import type { ApiRateLimit } from '@config/types/environment.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import type { PerformanceTracker } from '@utils/performance/performance.tracker';
+
+/**
+ * Sleeps for the given time
+ * @param ms - Delay in milliseconds
+ */
+async function sleep(ms: number): Promise<void> {
+  await new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Token bucket and semaphore limiting the requests of one API
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class RateLimiter {
+  private static readonly workerLimiters = new Map<string, RateLimiter>();
+
+  readonly limits: ApiRateLimit;
+
+  /** Available tokens; negative while callers are waiting for reserved tokens */
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(limits: ApiRateLimit) {
+    this.limits = limits;
+    this.tokens = limits.requestsPerMinute;
+  }
+
+  /**
+   * Returns the limiter of an API shared by all tests of the current worker
+   * @param name - API name, e.g. `jsonplaceholder`
+   * @param limits - Limits from the environment configuration
+   */
+  static forWorker(name: string, limits: ApiRateLimit): RateLimiter {
+    // Limits are part of the key so that a runtime override gets a fresh bucket
+    const key = `${name}:${limits.requestsPerMinute}/${limits.concurrentRequests}`;
+    let limiter = RateLimiter.workerLimiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(limits);
+      RateLimiter.workerLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /** Requests currently holding a concurrency slot */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Waits for a token and a concurrency slot; every call must be followed by {@link release}
+   * @returns Time spent waiting in milliseconds
+   */
+  async acquire(): Promise<number> {
+    const startTime = Date.now();
+    const tokenDelay = this.reserveToken();
+    if (tokenDelay > 0) {
+      await sleep(tokenDelay);
+    }
+    await this.acquireSlot();
+
+    const waitMs = Date.now() - startTime;
+    if (waitMs >= FRAMEWORK_CONSTANTS.RATE_LIMIT.SLOW_WAIT_MS) {
+      console.log(`🚦 Request waited ${waitMs}ms for the rate limiter`);
+    }
+    return waitMs;
+  }
+
+  /**
+   * Frees the concurrency slot of a finished request
+   */
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // The slot passes straight to the next waiting request
+      next();
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+
+  /**
+   * Takes a token, going into debt when the bucket is empty
+   * @returns Delay until the reserved token is refilled
+   */
+  private reserveToken(): number {
+    const now = Date.now();
+    const tokensPerMs = this.limits.requestsPerMinute / 60_000;
+    this.tokens = Math.min(
+      this.limits.requestsPerMinute,
+      this.tokens + (now - this.lastRefill) * tokensPerMs,
+    );
+    this.lastRefill = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / tokensPerMs);
+  }
+
+  /**
+   * Takes a concurrency slot, queueing when all are in use
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.limits.concurrentRequests) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => {
+      this.waiting.push(resolve);
+    });
+  }
+}
+
+/**
+ * Wraps a request context so that every request waits for the limiter
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {RateLimiter} limiter - Limiter shared by the worker
+ * @param {PerformanceTracker} [tracker] - Receives each wait as a `rate_limit_wait` metric
+ * @returns {APIRequestContext} Rate-limited context
+ */
+export function withRateLimit(
+  context: APIRequestContext,
+  limiter: RateLimiter,
+  tracker?: PerformanceTracker,
+): APIRequestContext {
+  return interceptRequests(context, async (target, url, request) => {
+    const waitMs = await limiter.acquire();
+    tracker?.recordMetric(FRAMEWORK_CONSTANTS.RATE_LIMIT.WAIT_METRIC, waitMs);
+    try {
+      return await target.fetch(url, request);
+    } finally {
+      limiter.release();
+    }
+  });
+}
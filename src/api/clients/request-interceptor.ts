@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Request Interceptor - Funnels every request of an APIRequestContext through a handler
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Retries, rate limiting and similar policies have to see every request a test sends, whether it
+ * goes through `get`, `post`, ... or `fetch`. {@link interceptRequests} returns a context whose
+ * request methods all resolve their HTTP method and call one {@link RequestHandler}; everything
+ * else (`dispose`, `storageState`) is forwarded unchanged. Interceptors stack: the handler of an
+ * outer wrapper calls `fetch` on the inner one.
+ *
+ * @example
+ * ```typescript
+ * const logged = interceptRequests(context, async (inner, target, request) => {
+ *   console.log(`➡️ ${request.method} ${String(target)}`);
+ *   return inner.fetch(target, request);
+ * });
+ * ```
+ */
+
+import type { APIRequestContext } from '@playwright/test';
+
+import type {
+  FetchOptions,
+  InterceptedRequest,
+  RequestHandler,
+  RequestTarget,
+} from '@api/clients/request.types';
+
+const REQUEST_METHODS = ['fetch', 'get', 'head', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Wraps a request context so that all of its requests go through a handler
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {RequestHandler} handler - Sends each request, receiving the unwrapped context
+ * @returns {APIRequestContext} Intercepting context
+ */
+export function interceptRequests(
+  context: APIRequestContext,
+  handler: RequestHandler,
+): APIRequestContext {
+  return new Proxy(context, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property);
+      if (typeof property === 'string' && REQUEST_METHODS.includes(property)) {
+        return async (url: RequestTarget, fetchOptions: FetchOptions = {}) => {
+          const requestMethod = typeof url === 'string' ? undefined : url.method();
+          const method = property === 'fetch' ? (fetchOptions.method ?? requestMethod) : property;
+          return handler(target, url, {
+            ...fetchOptions,
+            method: (method ?? 'GET').toUpperCase(),
+          });
+        };
+      }
+      return value instanceof Function ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Resolves the URL of an intercepted request against a base URL, query parameters included
+ *
+ * @param {RequestTarget} target - URL or request passed to the context
+ * @param {InterceptedRequest} request - Intercepted request
+ * @param {string} [baseURL] - Base URL of the context
+ * @returns {string} Absolute URL; the target unchanged when it is relative and there is no base URL
+ */
+export function resolveRequestUrl(
+  target: RequestTarget,
+  request: InterceptedRequest,
+  baseURL?: string,
+): string {
+  const href = typeof target === 'string' ? target : target.url();
+  if (!baseURL && !/^https?:/.test(href)) {
+    return href;
+  }
+  const url = new URL(href, baseURL);
+  const { params } = request;
+  if (typeof params === 'string' || params instanceof URLSearchParams) {
+    new URLSearchParams(params).forEach((value, name) => url.searchParams.append(name, value));
+  } else if (params) {
+    Object.entries(params).forEach(([name, value]) => url.searchParams.append(name, String(value)));
+  }
+  return url.href;
+}
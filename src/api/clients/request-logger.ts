@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Request Logger - Structured log of API calls attached to test reports
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A failing API assertion rarely says what was sent. {@link withCallLog} wraps an
+ * `APIRequestContext` so that every call is written to an {@link ApiCallLog}: method, URL,
+ * request headers and body, status, response headers and body, and timing. Credential headers
+ * and resolved secrets are redacted, bodies are truncated to `API_LOG.MAX_BODY_LENGTH`.
+ *
+ * {@link ApiCallLog.attachTo} adds the log to the test as a JSON file and an HTML timeline, and
+ * optionally as cURL commands that reproduce each call. By default this happens only for tests
+ * that did not end as expected (`E2E_API_LOG=on-failure|always|never`, `E2E_API_LOG_CURL=true`).
+ *
+ * @example
+ * ```typescript
+ * const callLog = new ApiCallLog({ baseURL, headers: { Authorization: `Bearer ${token}` } });
+ * const context = withCallLog(await request.newContext({ baseURL }), callLog);
+ *
+ * await context.post('/posts', { data: { title: 'Hello' } });
+ * console.log(callLog.entries[0].status, callLog.toCurl());
+ * await callLog.attachTo(testInfo, ApiCallLog.resolveOptions({ curl: true }));
+ * ```
+ */
+
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+
+import { interceptRequests, resolveRequestUrl } from '@api/clients/request-interceptor';
+import type { InterceptedRequest, RequestTarget } from '@api/clients/request.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { Secrets } from '@utils/secrets/secrets.manager';
+
+/**
+ * When the call log is attached to a test
+ */
+export type ApiLogAttachMode = 'on-failure' | 'always' | 'never';
+
+export interface ApiLogOptions {
+  attach: ApiLogAttachMode;
+  /** Also attach the calls as cURL commands */
+  curl: boolean;
+}
+
+/**
+ * One logged API call
+ */
+export interface ApiCallEntry {
+  /** 1 for the first call of the test */
+  index: number;
+  startedAt: string;
+  method: string;
+  url: string;
+  /** Context defaults merged with the per-request headers, redacted */
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  /** Network error, when no response arrived */
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * Settings of a call log
+ */
+export interface ApiCallLogOptions {
+  /** Base URL relative request URLs are resolved against */
+  baseURL?: string;
+  /** Headers the context sends with every request (`extraHTTPHeaders`) */
+  headers?: Record<string, string>;
+}
+
+const ATTACH_MODES: ApiLogAttachMode[] = ['on-failure', 'always', 'never'];
+
+/**
+ * Shortens a body to the configured length
+ * @param text - Body text
+ */
+function truncate(text: string): string {
+  const { MAX_BODY_LENGTH } = FRAMEWORK_CONSTANTS.API_LOG;
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}… (${text.length - MAX_BODY_LENGTH} more characters)`
+    : text;
+}
+
+/**
+ * Readable form of a request body
+ * @param request - Intercepted request
+ */
+function describeRequestBody(request: InterceptedRequest): string | undefined {
+  const payload: unknown = request.data ?? request.form;
+  if (request.multipart !== undefined) {
+    return '<multipart form data>';
+  }
+  if (payload === undefined) {
+    return undefined;
+  }
+  if (Buffer.isBuffer(payload)) {
+    return `<${payload.length} bytes>`;
+  }
+  return typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Readable form of a response body, pretty-printing JSON
+ * @param response - Received response
+ */
+async function describeResponseBody(response: APIResponse): Promise<string> {
+  const text = await response.text();
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Escapes text for HTML
+ * @param text - Raw text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Quotes a value for a POSIX shell
+ * @param value - Raw value
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Formats headers one per line
+ * @param headers - Headers to format
+ */
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Log of the API calls of one test
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ApiCallLog {
+  /** Calls in the order they were sent */
+  readonly entries: ApiCallEntry[] = [];
+
+  private readonly options: ApiCallLogOptions;
+
+  constructor(options: ApiCallLogOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Resolves the attach settings from `E2E_API_LOG` / `E2E_API_LOG_CURL` and per-test overrides
+   * @param overrides - Options set with `apiTest.use({ apiLog: { ... } })`
+   * @throws {Error} When the attach mode is unknown
+   */
+  static resolveOptions(overrides: Partial<ApiLogOptions> = {}): ApiLogOptions {
+    const { ATTACH_ENV, CURL_ENV, DEFAULT_ATTACH } = FRAMEWORK_CONSTANTS.API_LOG;
+    const attach = overrides.attach ?? process.env[ATTACH_ENV] ?? DEFAULT_ATTACH;
+    if (!(ATTACH_MODES as string[]).includes(attach)) {
+      throw new Error(
+        `Unknown API log mode "${attach}" (${ATTACH_ENV}); use ${ATTACH_MODES.join(', ')}`,
+      );
+    }
+    return {
+      attach: attach as ApiLogAttachMode,
+      curl: overrides.curl ?? process.env[CURL_ENV] === 'true',
+    };
+  }
+
+  /**
+   * Logs the start of a call
+   * @param target - URL or request passed to the context
+   * @param request - Intercepted request
+   */
+  start(target: RequestTarget, request: InterceptedRequest): ApiCallEntry {
+    const requestBody = describeRequestBody(request);
+    const entry: ApiCallEntry = {
+      index: this.entries.length + 1,
+      startedAt: new Date().toISOString(),
+      method: request.method,
+      url: resolveRequestUrl(target, request, this.options.baseURL),
+      requestHeaders: Secrets.redactHeaders({ ...this.options.headers, ...request.headers }),
+      requestBody: requestBody === undefined ? undefined : truncate(Secrets.redact(requestBody)),
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Completes a call with its response
+   * @param entry - Entry returned by {@link start}
+   * @param response - Received response
+   */
+  async finish(entry: ApiCallEntry, response: APIResponse): Promise<void> {
+    const durationMs = Date.now() - Date.parse(entry.startedAt);
+    const body = await describeResponseBody(response);
+    Object.assign(entry, {
+      durationMs,
+      status: response.status(),
+      statusText: response.statusText(),
+      responseHeaders: Secrets.redactHeaders(response.headers()),
+      responseBody: truncate(Secrets.redact(body)),
+    });
+  }
+
+  /**
+   * Completes a call that failed without a response
+   * @param entry - Entry returned by {@link start}
+   * @param error - Thrown error
+   */
+  fail(entry: ApiCallEntry, error: unknown): void {
+    entry.durationMs = Date.now() - Date.parse(entry.startedAt);
+    entry.error = Secrets.redact(error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Renders the calls as a JSON document
+   */
+  toJson(): string {
+    return JSON.stringify(this.entries, null, 2);
+  }
+
+  /**
+   * Renders the calls as cURL commands (redacted headers must be filled in by hand)
+   */
+  toCurl(): string {
+    return this.entries
+      .map(entry => {
+        const lines = [`# ${entry.index}. ${entry.method} ${entry.url} → ${this.outcome(entry)}`];
+        const args = [`curl -X ${entry.method} ${shellQuote(entry.url)}`];
+        Object.entries(entry.requestHeaders).forEach(([name, value]) =>
+          args.push(`-H ${shellQuote(`${name}: ${value}`)}`),
+        );
+        if (entry.requestBody !== undefined) {
+          args.push(`--data-raw ${shellQuote(entry.requestBody)}`);
+        }
+        return [...lines, args.join(' \\\n  ')].join('\n');
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Renders the calls as a self-contained HTML timeline; failed calls are expanded
+   * @param title - Page title, usually the test title
+   */
+  toHtml(title: string): string {
+    const calls = this.entries.map(entry => {
+      const failed = entry.error !== undefined || (entry.status ?? 0) >= 400;
+      const sections = [
+        ['Request headers', formatHeaders(entry.requestHeaders)],
+        ['Request body', entry.requestBody],
+        ['Response headers', formatHeaders(entry.responseHeaders)],
+        ['Response body', entry.error ?? entry.responseBody],
+      ]
+        .filter(([, content]) => content)
+        .map(([label, content]) => `<h4>${label}</h4><pre>${escapeHtml(content ?? '')}</pre>`);
+      const summary = `${entry.index}. ${entry.startedAt.slice(11, 23)} <b>${entry.method}</b> ${escapeHtml(entry.url)} → <span class="${failed ? 'failed' : 'ok'}">${escapeHtml(this.outcome(entry))}</span> · ${entry.durationMs ?? '?'} ms`;
+      return `<details${failed ? ' open' : ''}><summary>${summary}</summary>${sections.join('')}</details>`;
+    });
+    return [
+      '<!DOCTYPE html>',
+      `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>`,
+      'body{font-family:sans-serif;margin:1.5em}summary{cursor:pointer;padding:.3em 0}',
+      'pre{background:#f5f5f5;padding:.6em;overflow-x:auto}.ok{color:#1a7f37}.failed{color:#cf222e}',
+      `</style></head><body><h2>${escapeHtml(title)}</h2>`,
+      ...calls,
+      '</body></html>',
+    ].join('\n');
+  }
+
+  /**
+   * Attaches the log to a test according to the options
+   *
+   * @param {TestInfo} testInfo - Test the calls were sent from (after it ran)
+   * @param {ApiLogOptions} options - When to attach and whether to add cURL commands
+   */
+  async attachTo(testInfo: TestInfo, options: ApiLogOptions): Promise<void> {
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    if (this.entries.length === 0 || options.attach === 'never') {
+      return;
+    }
+    if (options.attach === 'on-failure' && !failed) {
+      return;
+    }
+
+    const { ATTACHMENTS } = FRAMEWORK_CONSTANTS.API_LOG;
+    await testInfo.attach(ATTACHMENTS.HTML, {
+      body: this.toHtml(testInfo.titlePath.slice(1).join(' › ')),
+      contentType: 'text/html',
+    });
+    await testInfo.attach(ATTACHMENTS.JSON, {
+      body: this.toJson(),
+      contentType: 'application/json',
+    });
+    if (options.curl) {
+      await testInfo.attach(ATTACHMENTS.CURL, { body: this.toCurl(), contentType: 'text/plain' });
+    }
+  }
+
+  /**
+   * Status line or error of a call
+   * @param entry - Logged call
+   */
+  private outcome(entry: ApiCallEntry): string {
+    if (entry.error !== undefined) {
+      return entry.error.split('\n')[0];
+    }
+    return entry.status === undefined
+      ? 'no response'
+      : `${entry.status} ${entry.statusText ?? ''}`.trim();
+  }
+}
+
+/**
+ * Wraps a request context so that every call is written to a log
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {ApiCallLog} callLog - Log of the test
+ * @returns {APIRequestContext} Logging context
+ */
+export function withCallLog(context: APIRequestContext, callLog: ApiCallLog): APIRequestContext {
+  return interceptRequests(context, async (target, url, request) => {
+    const entry = callLog.start(url, request);
+    try {
+      const response = await target.fetch(url, request);
+      await callLog.finish(entry, response);
+      return response;
+    } catch (error) {
+      callLog.fail(entry, error);
+      throw error;
+    }
+  });
+}
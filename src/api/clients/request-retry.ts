@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Request Retry - Request-level retries with backoff and an attempt log
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Playwright only retries whole tests, so one transient 503 fails a test that would otherwise
+ * pass and hides which endpoint misbehaved. {@link withRetries} wraps an `APIRequestContext` so
+ * that every request it sends is retried on the statuses of an {@link ApiRetryPolicy} and on
+ * network errors, with exponential backoff and jitter. A `Retry-After` header replaces the
+ * backoff delay. POST and PATCH are only retried when the policy allows it, the request carries
+ * an `Idempotency-Key` or it opts in with the `x-e2e-allow-retry` header.
+ *
+ * Every attempt is written to an {@link ApiAttemptLog}, which the API fixtures turn into
+ * `flaky-endpoint` annotations and an `api-attempts` attachment.
+ *
+ * @example
+ * ```typescript
+ * const attemptLog = new ApiAttemptLog();
+ * const context = withRetries(
+ *   await request.newContext(),
+ *   getEnvironmentConfig().jsonplaceholder, // retries: 2, retryPolicy: { retryOn: [503], ... }
+ *   attemptLog,
+ * );
+ *
+ * await context.get('/posts/1'); // 503, 503, 200 -> resolves with the 200 response
+ * console.log(attemptLog.retried.map(ApiAttemptLog.describe)); // ['GET /posts/1: 503 → 503 → 200']
+ * ```
+ */
+
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+
+import { interceptRequests } from '@api/clients/request-interceptor';
+import type { InterceptedRequest, RequestTarget } from '@api/clients/request.types';
+import type { ApiConfig, ApiRetryPolicy } from '@config/types/environment.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * One attempt of a request
+ */
+export interface ApiAttempt {
+  /** 1 for the first try */
+  attempt: number;
+  /** Response status, absent when the request failed on the network */
+  status?: number;
+  /** Network error message */
+  error?: string;
+  durationMs: number;
+  /** Wait before the next attempt, absent for the final attempt */
+  retryInMs?: number;
+}
+
+/**
+ * A request and all of its attempts
+ */
+export interface ApiRequestLog {
+  method: string;
+  url: string;
+  /** Whether the idempotency rules allowed retrying the request */
+  retryable: boolean;
+  attempts: ApiAttempt[];
+}
+
+/**
+ * Retry settings of a wrapped context
+ */
+interface RetryOptions {
+  /** Retries per request; 0 disables retrying */
+  retries: number;
+  policy: ApiRetryPolicy;
+  attemptLog: ApiAttemptLog;
+}
+
+const NETWORK_ERROR_PATTERN =
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EPIPE|EAI_AGAIN|ENOTFOUND|socket hang up/i;
+
+/**
+ * Records every attempt of the requests sent through retrying contexts
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ApiAttemptLog {
+  /** Requests in the order they were sent */
+  readonly requests: ApiRequestLog[] = [];
+
+  /**
+   * Starts the log of a request
+   * @param method - HTTP method
+   * @param url - Requested URL
+   * @param retryable - Whether the request may be retried
+   */
+  start(method: string, url: string, retryable: boolean): ApiRequestLog {
+    const request: ApiRequestLog = { method, url, retryable, attempts: [] };
+    this.requests.push(request);
+    return request;
+  }
+
+  /** Requests that needed more than one attempt, whether or not they recovered */
+  get retried(): ApiRequestLog[] {
+    return this.requests.filter(request => request.attempts.length > 1);
+  }
+
+  /**
+   * Reports the retried requests of a test
+   *
+   * @description
+   * Adds a `flaky-endpoint` annotation per retried request and attaches the full attempt log,
+   * so that endpoint flakiness shows in the reports even when the test itself passed.
+   *
+   * @param {TestInfo} testInfo - Test the requests were sent from
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    const retried = this.retried;
+    if (retried.length === 0) {
+      return;
+    }
+    const { ANNOTATION, ATTACHMENT } = FRAMEWORK_CONSTANTS.API_RETRY;
+    retried.forEach(request =>
+      testInfo.annotations.push({ type: ANNOTATION, description: ApiAttemptLog.describe(request) }),
+    );
+    await testInfo.attach(ATTACHMENT, {
+      body: JSON.stringify(this.requests, null, 2),
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Summarizes a request, e.g. `GET /posts/1: 503 → ECONNRESET → 200`
+   * @param request - Logged request
+   */
+  static describe(request: ApiRequestLog): string {
+    const outcomes = request.attempts.map(attempt => attempt.status ?? attempt.error ?? '?');
+    return `${request.method} ${ApiAttemptLog.pathOf(request.url)}: ${outcomes.join(' → ')}`;
+  }
+
+  /**
+   * Strips the origin of absolute URLs
+   * @param url - Requested URL
+   */
+  private static pathOf(url: string): string {
+    try {
+      const { pathname, search } = new URL(url);
+      return `${pathname}${search}`;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/**
+ * Sleeps for the given time
+ * @param ms - Delay in milliseconds
+ */
+async function sleep(ms: number): Promise<void> {
+  await new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Exponential backoff delay of a retry, with jitter
+ * @param policy - Retry policy
+ * @param attempt - Attempt that just failed (1 for the first)
+ */
+export function backoffDelay(policy: ApiRetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date
+ * @param value - Header value
+ * @returns Delay in milliseconds, undefined when absent or unparsable
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retrying a response, undefined when it must not be retried
+ * @param response - Received response
+ * @param policy - Retry policy
+ * @param attempt - Attempt that produced the response
+ */
+function responseRetryDelay(
+  response: APIResponse,
+  policy: ApiRetryPolicy,
+  attempt: number,
+): number | undefined {
+  if (!policy.retryOn.includes(response.status())) {
+    return undefined;
+  }
+  const retryAfter = parseRetryAfter(response.headers()['retry-after']);
+  if (retryAfter === undefined) {
+    return backoffDelay(policy, attempt);
+  }
+  if (retryAfter > policy.maxRetryAfterMs) {
+    console.warn(`⚠️ Not retrying: Retry-After of ${retryAfter}ms exceeds the policy maximum`);
+    return undefined;
+  }
+  return retryAfter;
+}
+
+/**
+ * Removes the opt-in header and tells whether the idempotency rules allow retrying
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @param policy - Retry policy
+ */
+function retryRules(
+  method: string,
+  headers: Record<string, string> = {},
+  policy: ApiRetryPolicy,
+): { headers: Record<string, string>; retryable: boolean } {
+  const { IDEMPOTENT_METHODS, IDEMPOTENCY_KEY_HEADER, ALLOW_RETRY_HEADER } =
+    FRAMEWORK_CONSTANTS.API_RETRY;
+  const sent: Record<string, string> = {};
+  let optedIn = false;
+  Object.entries(headers).forEach(([name, value]) => {
+    const lowerName = name.toLowerCase();
+    if (lowerName === ALLOW_RETRY_HEADER) {
+      optedIn = optedIn || value === 'true';
+      return;
+    }
+    optedIn = optedIn || lowerName === IDEMPOTENCY_KEY_HEADER;
+    sent[name] = value;
+  });
+
+  const idempotent = (IDEMPOTENT_METHODS as readonly string[]).includes(method);
+  return { headers: sent, retryable: idempotent || optedIn || policy.retryNonIdempotent };
+}
+
+/**
+ * Sends a request, retrying it according to the policy
+ * @param context - Unwrapped context
+ * @param target - URL or request to send
+ * @param options - Fetch options including the method
+ * @param retryOptions - Retry settings
+ */
+async function sendWithRetries(
+  context: APIRequestContext,
+  target: RequestTarget,
+  options: InterceptedRequest,
+  retryOptions: RetryOptions,
+): Promise<APIResponse> {
+  const { retries, policy, attemptLog } = retryOptions;
+  const { headers, retryable } = retryRules(options.method, options.headers, policy);
+  const url = typeof target === 'string' ? target : target.url();
+  const request = attemptLog.start(options.method, url, retryable);
+  const canRetry = (attempt: number): boolean => retryable && attempt <= retries;
+
+  const send = async (attempt: number): Promise<APIResponse> => {
+    const startTime = Date.now();
+    let response: APIResponse;
+    try {
+      response = await context.fetch(target, { ...options, headers });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const networkError = NETWORK_ERROR_PATTERN.exec(message)?.[0];
+      const retryInMs =
+        networkError && canRetry(attempt) ? backoffDelay(policy, attempt) : undefined;
+      request.attempts.push({
+        attempt,
+        error: networkError ?? message,
+        durationMs: Date.now() - startTime,
+        retryInMs,
+      });
+      if (retryInMs === undefined) {
+        throw error;
+      }
+      console.log(`🔁 Retrying ${options.method} ${url} after ${networkError} in ${retryInMs}ms`);
+      await sleep(retryInMs);
+      return send(attempt + 1);
+    }
+
+    const retryInMs = canRetry(attempt) ? responseRetryDelay(response, policy, attempt) : undefined;
+    request.attempts.push({
+      attempt,
+      status: response.status(),
+      durationMs: Date.now() - startTime,
+      retryInMs,
+    });
+    if (retryInMs === undefined) {
+      return response;
+    }
+    console.log(
+      `🔁 Retrying ${options.method} ${url} after ${response.status()} in ${retryInMs}ms`,
+    );
+    await response.dispose();
+    await sleep(retryInMs);
+    return send(attempt + 1);
+  };
+
+  return send(1);
+}
+
+/**
+ * Wraps a request context so that its requests are retried
+ *
+ * @description
+ * Every request goes through the retry policy (see {@link interceptRequests}). Callers receive
+ * the response of the last attempt, so exhausted retries surface the last failing status.
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {Pick<ApiConfig, 'retries' | 'retryPolicy'>} config - Retries per request and policy
+ * @param {ApiAttemptLog} [attemptLog] - Log receiving every attempt
+ * @returns {APIRequestContext} Retrying context
+ */
+export function withRetries(
+  context: APIRequestContext,
+  config: Pick<ApiConfig, 'retries' | 'retryPolicy'>,
+  attemptLog: ApiAttemptLog = new ApiAttemptLog(),
+): APIRequestContext {
+  const options: RetryOptions = { retries: config.retries, policy: config.retryPolicy, attemptLog };
+  return interceptRequests(context, async (target, url, request) =>
+    sendWithRetries(target, url, request, options),
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Request Timing - High-resolution durations and network phases of every API call
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Wrapping each request of a spec in `startTimer`/`stop` measures the spec as much as the API.
+ * {@link withTiming} wraps an `APIRequestContext` so that every call is timed with
+ * `performance.now()` and recorded in a {@link PerformanceTracker} under its operation name,
+ * `<METHOD> <path template>` as declared in `JSONPLACEHOLDER_API.ENDPOINTS` (the names
+ * performance budgets use). Unknown paths fall back to the request path with numeric segments
+ * replaced by `{id}`.
+ *
+ * Each call also carries its network phases (DNS, connect, TLS, TTFB, download) from
+ * Playwright's resource timing. Phases are missing when the response does not report them:
+ * reused connections skip DNS and connect, plain HTTP has no TLS.
+ *
+ * The timed context should be the innermost wrapper, beneath rate limiting and retries: each
+ * recorded call is then one attempt, without limiter waits or retry backoff. The `apiContext`
+ * fixture wraps it that way, so mocked and replayed responses, which never reach the network,
+ * are not timed.
+ *
+ * @example
+ * ```typescript
+ * const timed = withTiming(rawContext, performanceTracker, { baseURL });
+ * const client = new JsonPlaceholderApiClient(withRetries(timed, config), baseURL);
+ * await client.getPost(1);
+ * performanceTracker.getCalls('GET /posts/{id}')[0].phases; // { dns: 1.2, connect: 3.4, tls: 8.1, ttfb: 42.5, download: 0.6 }
+ * ```
+ */
+
+import { performance } from 'node:perf_hooks';
+
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+
+import { interceptRequests, resolveRequestUrl } from '@api/clients/request-interceptor';
+import { methodOf } from '@api/clients/rest.client';
+import type { EndpointTable } from '@api/clients/rest.types';
+import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+import { roundDuration } from '@utils/performance/performance.stats';
+import type { PerformanceTracker } from '@utils/performance/performance.tracker';
+import type { TimingPhases } from '@utils/performance/performance.types';
+
+/**
+ * Settings of a timed context
+ */
+export interface RequestTimingOptions {
+  /** Base URL relative request URLs are resolved against; its path is not part of operation names */
+  baseURL?: string;
+  /** Endpoint table operation names are taken from, JSONPlaceholder's by default */
+  endpoints?: EndpointTable;
+}
+
+interface OperationPattern {
+  operation: string;
+  method: string;
+  pattern: RegExp;
+}
+
+/**
+ * Compiles the path templates of an endpoint table into patterns
+ * @param endpoints - Endpoint table
+ */
+function operationPatterns(endpoints: EndpointTable): OperationPattern[] {
+  return Object.keys(endpoints).reduce<OperationPattern[]>(
+    (patterns, resource) =>
+      patterns.concat(
+        Object.keys(endpoints[resource]).map(name => {
+          const entry = endpoints[resource][name];
+          const template = typeof entry === 'string' ? entry : entry.path;
+          const method = methodOf(resource, name, entry);
+          const source = template
+            .split(/\{\w+\}/)
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^/?&=]+');
+          return { operation: `${method} ${template}`, method, pattern: new RegExp(`^${source}$`) };
+        }),
+      ),
+    [],
+  );
+}
+
+const JSONPLACEHOLDER_PATTERNS = operationPatterns(JSONPLACEHOLDER_API.ENDPOINTS);
+
+/**
+ * Network phases of a response; unavailable marks (-1) leave their phase out
+ *
+ * @param {ReturnType<APIResponse['timing']>} timing - Resource timing of the response
+ * @returns {TimingPhases} Phase durations in milliseconds
+ */
+export function timingPhases(timing: ReturnType<APIResponse['timing']>): TimingPhases {
+  const {
+    domainLookupStart,
+    domainLookupEnd,
+    connectStart,
+    secureConnectionStart,
+    connectEnd,
+    requestStart,
+    responseStart,
+    responseEnd,
+  } = timing;
+  const tcpEnd = secureConnectionStart >= 0 ? secureConnectionStart : connectEnd;
+  const spans: Array<[keyof TimingPhases, number, number]> = [
+    ['dns', domainLookupStart, domainLookupEnd],
+    ['connect', connectStart, tcpEnd],
+    ['tls', secureConnectionStart, connectEnd],
+    ['ttfb', requestStart, responseStart],
+    ['download', responseStart, responseEnd],
+  ];
+  return spans.reduce<TimingPhases>((phases, [phase, start, end]) => {
+    if (start >= 0 && end >= start) {
+      phases[phase] = roundDuration(end - start);
+    }
+    return phases;
+  }, {});
+}
+
+/**
+ * Operation name of a request, e.g. `GET /posts/{id}` for `GET https://host/posts/1`
+ *
+ * @param {string} method - Upper-case HTTP method
+ * @param {string} url - Absolute or relative request URL
+ * @param {RequestTimingOptions} [options] - Base URL and endpoint table
+ * @returns {string} Declared operation, or the path with numeric segments as `{id}`
+ */
+export function operationName(
+  method: string,
+  url: string,
+  options: RequestTimingOptions = {},
+): string {
+  const { pathname, search } = new URL(url, options.baseURL ?? 'http://localhost');
+  const basePath = options.baseURL ? new URL(options.baseURL).pathname.replace(/\/$/, '') : '';
+  const path =
+    basePath && pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname;
+  const patterns = options.endpoints
+    ? operationPatterns(options.endpoints)
+    : JSONPLACEHOLDER_PATTERNS;
+  const match = patterns.find(
+    candidate => candidate.method === method && candidate.pattern.test(`${path}${search}`),
+  );
+  return match ? match.operation : `${method} ${path.replace(/\/\d+(?=\/|$)/g, '/{id}')}`;
+}
+
+/**
+ * Wraps a request context so that every call is timed and recorded in a tracker
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {PerformanceTracker} tracker - Receives each call
+ * @param {RequestTimingOptions} [options] - Base URL and endpoint table
+ * @returns {APIRequestContext} Timed context
+ */
+export function withTiming(
+  context: APIRequestContext,
+  tracker: PerformanceTracker,
+  options: RequestTimingOptions = {},
+): APIRequestContext {
+  return interceptRequests(context, async (target, url, request) => {
+    const href = resolveRequestUrl(url, request, options.baseURL);
+    const call = {
+      operation: operationName(request.method, href, options),
+      method: request.method,
+      url: href,
+    };
+    const start = performance.now();
+    try {
+      const response = await target.fetch(url, request);
+      tracker.recordCall({
+        ...call,
+        status: response.status(),
+        duration: roundDuration(performance.now() - start),
+        phases: timingPhases(response.timing()),
+      });
+      return response;
+    } catch (error) {
+      tracker.recordCall({
+        ...call,
+        duration: roundDuration(performance.now() - start),
+        phases: {},
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Request Interceptor Types
+ *
+ * Shapes shared by the wrappers that sit between the clients and an `APIRequestContext`
+ */
+
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * URL or Playwright request passed to `APIRequestContext.fetch`
+ */
+export type RequestTarget = Parameters<APIRequestContext['fetch']>[0];
+
+/**
+ * Options of `APIRequestContext.fetch`
+ */
+export type FetchOptions = NonNullable<Parameters<APIRequestContext['fetch']>[1]>;
+
+/**
+ * Fetch options with the resolved, upper-case HTTP method
+ */
+export type InterceptedRequest = FetchOptions & { method: string };
+
+/**
+ * Sends an intercepted request, usually by calling `fetch` on the wrapped context
+ */
+export type RequestHandler = (
+  context: APIRequestContext,
+  target: RequestTarget,
+  request: InterceptedRequest,
+) => Promise<APIResponse>;
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Resource Client - Typed CRUD access to one JSONPlaceholder resource
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Typed counterpart of the raw `JsonPlaceholderApiClient` methods. Every call returns an
+ * {@link ApiResult} whose body is parsed and validated against the resource schema from
+ * `JSON_SCHEMAS`, and raises an {@link ApiError} on non-2xx responses unless
+ * `{ throwOnError: false }` is passed.
+ *
+ * @example
+ * ```typescript
+ * const posts = new ResourceClient<PostResponse>(context, baseURL, 'POSTS', JSON_SCHEMAS.POST);
+ *
+ * const { body: post, durationMs } = await posts.get(1);
+ * const { body: userPosts } = await posts.list({ userId: 1, _sort: 'title', _limit: 5 });
+ * const created = await posts.create({ title: 'Hello', body: '...', userId: 1 });
+ * const missing = await posts.get(0, { throwOnError: false }); // missing.status === 404
+ * ```
+ */
+
+import type { APIRequestContext } from '@playwright/test';
+
+import {
+  callApi,
+  type ApiCallOptions,
+  type ApiCallSpec,
+  type ApiResult,
+} from '@api/clients/api-result';
+import { resolvePath } from '@api/clients/rest.client';
+import {
+  JSONPLACEHOLDER_API,
+  type HttpMethod,
+  type JsonPlaceholderEndpoint,
+} from '@utils/constants/jsonplaceholder.constants';
+
+/**
+ * Fields accepted when creating a record
+ */
+export type CreateInput<T> = Omit<T, 'id'>;
+
+/**
+ * Sorting and paging of list calls, as supported by JSONPlaceholder
+ */
+export interface ListParams {
+  _sort?: string;
+  _order?: 'asc' | 'desc';
+  _page?: number;
+  _limit?: number;
+  _start?: number;
+  _end?: number;
+}
+
+/**
+ * Field filters for list calls (`{ userId: 1 }` → `?userId=1`), with sorting and paging
+ */
+export type ListFilters<T> = Partial<Record<keyof T & string, string | number | boolean>> &
+  ListParams;
+
+/**
+ * Typed client for one resource of `JSONPLACEHOLDER_API.ENDPOINTS`
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ResourceClient<T extends { id: number }> {
+  private readonly context: APIRequestContext;
+  private readonly baseUrl: string;
+  private readonly endpoints: Record<string, string>;
+  private readonly schema: object;
+  private readonly listSchema: object;
+
+  /**
+   * @param {APIRequestContext} context - Playwright request context
+   * @param {string} baseUrl - API base URL
+   * @param {JsonPlaceholderEndpoint} resource - Key of `JSONPLACEHOLDER_API.ENDPOINTS`
+   * @param {object} schema - JSON schema of a single record
+   */
+  constructor(
+    context: APIRequestContext,
+    baseUrl: string,
+    resource: JsonPlaceholderEndpoint,
+    schema: object,
+  ) {
+    this.context = context;
+    this.baseUrl = baseUrl;
+    this.endpoints = JSONPLACEHOLDER_API.ENDPOINTS[resource];
+    this.schema = schema;
+    this.listSchema = { type: 'array', items: schema };
+  }
+
+  /**
+   * Lists records, optionally filtered by field values, sorted and paged
+   * @param {ListFilters<T>} [filters] - Field filters and listing parameters
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async list(filters: ListFilters<T> = {}, options?: ApiCallOptions): Promise<ApiResult<T[]>> {
+    return callApi<T[]>(
+      this.context,
+      this.spec('GET', this.endpoints.GET_ALL, {
+        params: filters as Record<string, string | number | boolean>,
+        schema: this.listSchema,
+      }),
+      options,
+    );
+  }
+
+  /**
+   * Reads one record
+   * @param {number | string} id - Record id; strings (negative tests) are URL-encoded
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async get(id: number | string, options?: ApiCallOptions): Promise<ApiResult<T>> {
+    return callApi<T>(
+      this.context,
+      this.spec('GET', this.endpoints.GET_BY_ID, { schema: this.schema }, id),
+      options,
+    );
+  }
+
+  /**
+   * Creates a record
+   * @param {CreateInput<T>} data - Record fields
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async create(data: CreateInput<T>, options?: ApiCallOptions): Promise<ApiResult<T>> {
+    return callApi<T>(
+      this.context,
+      this.spec('POST', this.endpoints.CREATE, { data, schema: this.schema }),
+      options,
+    );
+  }
+
+  /**
+   * Replaces a record
+   * @param {number} id - Record id
+   * @param {CreateInput<T>} data - Complete record fields
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async update(id: number, data: CreateInput<T>, options?: ApiCallOptions): Promise<ApiResult<T>> {
+    return callApi<T>(
+      this.context,
+      this.spec('PUT', this.endpoints.UPDATE, { data: { ...data, id }, schema: this.schema }, id),
+      options,
+    );
+  }
+
+  /**
+   * Updates some fields of a record
+   * @param {number} id - Record id
+   * @param {Partial<CreateInput<T>>} data - Fields to change
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async patch(
+    id: number,
+    data: Partial<CreateInput<T>>,
+    options?: ApiCallOptions,
+  ): Promise<ApiResult<T>> {
+    return callApi<T>(
+      this.context,
+      this.spec('PATCH', this.endpoints.UPDATE, { data, schema: this.schema }, id),
+      options,
+    );
+  }
+
+  /**
+   * Deletes a record
+   * @param {number} id - Record id
+   * @param {ApiCallOptions} [options] - Error and validation behaviour
+   */
+  async delete(id: number, options?: ApiCallOptions): Promise<ApiResult<Record<string, never>>> {
+    return callApi<Record<string, never>>(
+      this.context,
+      this.spec('DELETE', this.endpoints.DELETE, {}, id),
+      options,
+    );
+  }
+
+  /**
+   * Builds a request for an endpoint template
+   * @param method - HTTP method
+   * @param template - Endpoint template, e.g. `/posts/{id}`
+   * @param extra - Body, query parameters and schema
+   * @param id - Value for `{id}`
+   */
+  private spec(
+    method: HttpMethod,
+    template: string,
+    extra: Partial<ApiCallSpec>,
+    id?: number | string,
+  ): ApiCallSpec {
+    const path = resolvePath(template, { id });
+    return {
+      method,
+      url: `${this.baseUrl}${path}`,
+      headers:
+        extra.data === undefined
+          ? undefined
+          : { 'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE },
+      ...extra,
+    };
+  }
+}
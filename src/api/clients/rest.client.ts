@@ -0,0 +1,198 @@
+/**
+ * @fileoverview REST Client - Declarative API client generated from an endpoint table
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Turns an endpoint table into a client with one method per endpoint, so that a new API only
+ * needs a table (`jsonPlaceholderClient.endpoints` is generated from `JSONPLACEHOLDER_API.ENDPOINTS`).
+ * Path placeholders become typed, required arguments and are URL-encoded; `query` adds query
+ * parameters and `data` is sent as the JSON body. Calls go through {@link callApi}, returning
+ * {@link ApiResult}s and validating responses against the resource schemas, following the
+ * endpoint naming rules of {@link ResponseOf}.
+ *
+ * @example
+ * ```typescript
+ * const BILLING_ENDPOINTS = {
+ *   INVOICES: {
+ *     GET_ALL: '/invoices',
+ *     GET_BY_CUSTOMER: '/invoices?customerId={customerId}',
+ *     SEND: { method: 'POST', path: '/invoices/{id}/send' },
+ *   },
+ * } as const;
+ * const billing = createRestClient<typeof BILLING_ENDPOINTS, { INVOICES: Invoice }>(
+ *   context,
+ *   baseURL,
+ *   { endpoints: BILLING_ENDPOINTS, schemas: { INVOICES: INVOICE_SCHEMA } },
+ * );
+ *
+ * const { body: invoices } = await billing.invoices.getByCustomer({ customerId: 7 });
+ * const { body: page } = await billing.invoices.getAll({ query: { _limit: 10 } });
+ * await billing.invoices.send({ id: 'INV-1' });
+ * ```
+ */
+
+import type { APIRequestContext } from '@playwright/test';
+
+import { callApi, type ApiCallOptions } from '@api/clients/api-result';
+import type {
+  EndpointDefinition,
+  EndpointTable,
+  ModelMap,
+  QueryParams,
+  RestClient,
+} from '@api/clients/rest.types';
+import type { HttpMethod } from '@utils/constants/jsonplaceholder.constants';
+
+/**
+ * Options of {@link createRestClient}
+ */
+export interface RestClientOptions<E extends EndpointTable> {
+  /** Endpoint table to generate methods from */
+  endpoints: E;
+  /** JSON schema of a single record per resource */
+  schemas?: Partial<Record<keyof E, object>>;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+/** HTTP methods of endpoint names that do not start with `GET_` */
+const METHODS_BY_NAME: Record<string, HttpMethod | undefined> = {
+  CREATE: 'POST',
+  UPDATE: 'PUT',
+  PATCH: 'PATCH',
+  DELETE: 'DELETE',
+};
+
+/** Endpoint names returning a single record of their own resource */
+const SINGLE_RECORD_ENDPOINTS = ['GET_BY_ID', 'CREATE', 'UPDATE', 'PATCH'];
+
+/**
+ * Converts an endpoint table key to a method name (`GET_BY_POST` → `getByPost`)
+ * @param key - Table key
+ */
+export function toMethodName(key: string): string {
+  return key
+    .toLowerCase()
+    .replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Substitutes the placeholders of a path template with URL-encoded values
+ *
+ * @param {string} template - Path template, e.g. `/posts/{id}`
+ * @param {Record<string, unknown>} params - Placeholder values
+ * @returns {string} Resolved path
+ * @throws {Error} When a placeholder has no value
+ */
+export function resolvePath(template: string, params: Record<string, unknown>): string {
+  return template.replace(/\{([^{}]+)\}/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * HTTP method of a table entry
+ * @param resource - Resource key
+ * @param name - Endpoint name
+ * @param entry - Path template or definition
+ */
+export function methodOf(
+  resource: string,
+  name: string,
+  entry: string | EndpointDefinition,
+): HttpMethod {
+  if (typeof entry !== 'string') {
+    return entry.method;
+  }
+  const method = name.startsWith('GET_') ? 'GET' : METHODS_BY_NAME[name];
+  if (!method) {
+    throw new Error(
+      `Cannot infer the HTTP method of ${resource}.${name}; declare it as { method, path }`,
+    );
+  }
+  return method;
+}
+
+/**
+ * Response schema of a table entry, following the naming rules of `ResponseOf`
+ * @param resource - Resource key
+ * @param name - Endpoint name
+ * @param entry - Path template or definition
+ * @param schemas - Record schemas per resource
+ */
+function schemaOf(
+  resource: string,
+  name: string,
+  entry: string | EndpointDefinition,
+  schemas: Partial<Record<string, object>>,
+): object | undefined {
+  if (typeof entry !== 'string' && entry.schema) {
+    return entry.schema;
+  }
+  const own = schemas[resource];
+  if (SINGLE_RECORD_ENDPOINTS.includes(name)) {
+    return own;
+  }
+  let listed: object | undefined;
+  if (name === 'GET_ALL' || name.startsWith('GET_BY_')) {
+    listed = own;
+  } else if (name.startsWith('GET_')) {
+    listed = schemas[name.slice('GET_'.length)];
+  }
+  return listed ? { type: 'array', items: listed } : undefined;
+}
+
+/**
+ * Generates a client with one method per endpoint of a table
+ *
+ * @param {APIRequestContext} context - Playwright request context
+ * @param {string} baseUrl - API base URL
+ * @param {RestClientOptions<E>} options - Endpoint table, schemas and headers
+ * @returns {RestClient<E, M>} Client grouped by resource (`client.posts.getById({ id: 1 })`)
+ * @throws {Error} When the method of an endpoint cannot be inferred from its name
+ */
+export function createRestClient<E extends EndpointTable, M extends ModelMap<E> = ModelMap<E>>(
+  context: APIRequestContext,
+  baseUrl: string,
+  options: RestClientOptions<E>,
+): RestClient<E, M> {
+  const schemas: Partial<Record<string, object>> = options.schemas ?? {};
+  const client: Record<string, Record<string, unknown>> = {};
+
+  Object.entries(options.endpoints).forEach(([resource, endpoints]) => {
+    const methods: Record<string, unknown> = {};
+    Object.entries(endpoints).forEach(([name, entry]) => {
+      const method = methodOf(resource, name, entry);
+      const template = typeof entry === 'string' ? entry : entry.path;
+      const schema = schemaOf(resource, name, entry, schemas);
+
+      methods[toMethodName(name)] = async (
+        args: { query?: QueryParams; data?: unknown } & Record<string, unknown> = {},
+        callOptions?: ApiCallOptions,
+      ) => {
+        const { query, data, ...pathParams } = args;
+        return callApi(
+          context,
+          {
+            method,
+            url: `${baseUrl}${resolvePath(template, pathParams)}`,
+            data,
+            params: query,
+            headers: options.headers,
+            schema,
+          },
+          callOptions,
+        );
+      };
+    });
+    client[toMethodName(resource)] = methods;
+  });
+
+  return client as RestClient<E, M>;
+}
@@ -0,0 +1,119 @@
+/**
+ * REST Client Types
+ *
+ * Endpoint table format and the type-level mapping from a table to its generated client
+ */
+
+import type { ApiCallOptions, ApiResult } from '@api/clients/api-result';
+import type { HttpMethod } from '@utils/constants/jsonplaceholder.constants';
+
+/**
+ * Endpoint with an explicit HTTP method
+ */
+export interface EndpointDefinition {
+  method: HttpMethod;
+  /** Path template, e.g. `/posts/{id}` or `/comments?postId={postId}` */
+  path: string;
+  /** JSON schema of the successful response body */
+  schema?: object;
+}
+
+/**
+ * Endpoint table: resource → endpoint name → path template or definition
+ *
+ * @description
+ * Plain templates take their method from the endpoint name: `GET_*` → GET, `CREATE` → POST,
+ * `UPDATE` → PUT, `PATCH` → PATCH and `DELETE` → DELETE.
+ */
+export type EndpointTable = Record<string, Record<string, string | EndpointDefinition>>;
+
+/**
+ * Converts an endpoint table key to a method name (`GET_BY_POST` → `getByPost`)
+ */
+export type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Lowercase<Head>}${Capitalize<CamelCase<Tail>>}`
+  : Lowercase<S>;
+
+/**
+ * Path template of a table entry
+ */
+export type PathOf<D> = D extends string ? D : D extends { path: infer P } ? P : never;
+
+/**
+ * Placeholder names of a path template (`/users/{id}/posts` → `'id'`)
+ */
+export type PathParamNames<S> = S extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+/**
+ * Values for every placeholder of a path template
+ */
+export type PathParams<S> = Record<PathParamNames<S>, string | number>;
+
+/**
+ * Extra query parameters appended to the URL
+ */
+export type QueryParams = Record<string, string | number | boolean>;
+
+/**
+ * Record types per resource of a table, used to type bodies and responses
+ */
+export type ModelMap<E extends EndpointTable> = Partial<Record<keyof E, unknown>>;
+
+type ModelOf<M, R> = R extends keyof M ? M[R] : Record<string, unknown>;
+
+/**
+ * Response body of an endpoint, derived from its name
+ *
+ * @description
+ * `GET_ALL` and `GET_BY_<FIELD>` list the resource, `GET_<RESOURCE>` lists a related resource,
+ * `GET_BY_ID`, `CREATE`, `UPDATE` and `PATCH` return one record and `DELETE` returns `{}`.
+ */
+export type ResponseOf<M, R, N> = N extends 'DELETE'
+  ? Record<string, never>
+  : N extends 'GET_BY_ID' | 'CREATE' | 'UPDATE' | 'PATCH'
+    ? ModelOf<M, R>
+    : N extends 'GET_ALL' | `GET_BY_${string}`
+      ? Array<ModelOf<M, R>>
+      : N extends `GET_${infer Related}`
+        ? Related extends keyof M
+          ? Array<M[Related]>
+          : unknown
+        : unknown;
+
+/**
+ * Request body of an endpoint (`never` when it takes none)
+ */
+export type BodyOf<M, R, N> = N extends 'CREATE' | 'UPDATE'
+  ? Omit<ModelOf<M, R>, 'id'>
+  : N extends 'PATCH'
+    ? Partial<Omit<ModelOf<M, R>, 'id'>>
+    : never;
+
+/**
+ * Arguments of a generated endpoint method: path parameters, `query` and `data`
+ */
+export type EndpointArgs<P, B> = PathParams<P> & { query?: QueryParams } & ([B] extends [never]
+    ? Record<never, never>
+    : { data: B });
+
+/**
+ * Generated endpoint method; arguments are optional when the endpoint needs none
+ */
+export type EndpointCall<A, T> =
+  Record<never, never> extends A
+    ? (args?: A, options?: ApiCallOptions) => Promise<ApiResult<T>>
+    : (args: A, options?: ApiCallOptions) => Promise<ApiResult<T>>;
+
+/**
+ * Client generated from an endpoint table (`client.comments.getByPost({ postId: 1 })`)
+ */
+export type RestClient<E extends EndpointTable, M extends ModelMap<E> = ModelMap<E>> = {
+  [R in keyof E & string as CamelCase<R>]: {
+    [N in keyof E[R] & string as CamelCase<N>]: EndpointCall<
+      EndpointArgs<PathOf<E[R][N]>, BodyOf<M, R, N>>,
+      ResponseOf<M, R, N>
+    >;
+  };
+};
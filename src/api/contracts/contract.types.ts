@@ -0,0 +1,77 @@
+/**
+ * Contract Drift Types
+ *
+ * Inferred response schemas, their baseline files and the differences between two of them
+ */
+
+/**
+ * JSON type of a value; `integer` is reported for whole numbers
+ */
+export type JsonType = 'string' | 'integer' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * Schema inferred from response samples (a subset of JSON Schema)
+ */
+export interface InferredSchema {
+  /** Every type seen, sorted */
+  type: JsonType[];
+  /** Format every string sample matched, e.g. `email` */
+  format?: string;
+  /** Distinct string values, when few were seen across enough samples */
+  enum?: string[];
+  properties?: Record<string, InferredSchema>;
+  /** Properties present in every object sample */
+  required?: string[];
+  /** Merged schema of all array items; absent when every array was empty */
+  items?: InferredSchema;
+}
+
+export interface InferOptions {
+  /**
+   * Samples needed before few distinct strings count as an enum; defaults to
+   * `CONTRACTS.ENUM_MIN_SAMPLES`, 0 records the values of any sample size
+   */
+  enumMinSamples?: number;
+}
+
+/**
+ * How the drift detector treats baselines
+ * - verify: compare responses to the baselines, fail on breaking changes
+ * - update: overwrite the baselines with the schemas of the current responses
+ */
+export type ContractMode = 'verify' | 'update';
+
+/**
+ * Consumer impact of a difference
+ * - breaking: existing consumers may fail (removed field, new type, new enum value)
+ * - additive: existing consumers keep working (new field, narrower type)
+ */
+export type DriftSeverity = 'breaking' | 'additive';
+
+export interface DriftChange {
+  severity: DriftSeverity;
+  /** Path of the changed field, e.g. `$[].address.zipcode` */
+  path: string;
+  description: string;
+}
+
+/**
+ * Content of `data/fixtures/contracts/<name>.json`
+ */
+export interface ContractBaseline {
+  name: string;
+  /** Request the samples came from, e.g. `GET /posts` */
+  source?: string;
+  updatedAt: string;
+  schema: InferredSchema;
+}
+
+/**
+ * Outcome of checking one response against its baseline
+ */
+export interface ContractCheck {
+  name: string;
+  /** `created` when no baseline existed, `updated` in update mode */
+  baseline: 'compared' | 'created' | 'updated';
+  changes: DriftChange[];
+}
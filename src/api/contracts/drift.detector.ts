@@ -0,0 +1,348 @@
+/**
+ * @fileoverview Drift Detector - Compares live response schemas to stored contract baselines
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Hand-written schemas only say what we expect; they do not notice when the upstream API starts
+ * sending something else. {@link ContractDriftDetector.check} infers the schema of a live
+ * response (see `schema.inferrer.ts`) and compares it to the baseline stored in
+ * `data/fixtures/contracts/<name>.json`:
+ *
+ * - breaking changes (removed or no longer always present fields, new types, formats that stop
+ *   matching, new enum values) fail the check with a {@link ContractDriftError}
+ * - additive changes (new fields, narrower types) are logged and reported as `contract-drift`
+ *   annotations, but pass
+ *
+ * `E2E_CONTRACT_MODE=update` rewrites the baselines from the current responses instead. A
+ * missing baseline is created on first run, except on CI where it fails the check.
+ *
+ * @example
+ * ```typescript
+ * const detector = new ContractDriftDetector();
+ * detector.check('posts-list', await (await context.get('/posts')).json(), 'GET /posts');
+ * // ContractDriftError: Contract "posts-list" has 1 breaking change(s):
+ * //   ✗ $[].userId: type integer → string
+ * await detector.attachTo(testInfo);
+ * ```
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { TestInfo } from '@playwright/test';
+
+import type {
+  ContractBaseline,
+  ContractCheck,
+  ContractMode,
+  DriftChange,
+  InferredSchema,
+  JsonType,
+} from '@api/contracts/contract.types';
+import { inferSchema } from '@api/contracts/schema.inferrer';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+const CONTRACT_MODES: ContractMode[] = ['verify', 'update'];
+
+/**
+ * Raised when a response breaks its contract baseline
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ContractDriftError extends Error {
+  readonly contract: string;
+  readonly changes: DriftChange[];
+
+  constructor(contract: string, changes: DriftChange[]) {
+    const breaking = changes.filter(change => change.severity === 'breaking');
+    super(
+      `Contract "${contract}" has ${breaking.length} breaking change(s):\n${changes
+        .map(
+          change =>
+            `  ${change.severity === 'breaking' ? '✗' : '+'} ${change.path}: ${change.description}`,
+        )
+        .join('\n')}\nRe-run with ${FRAMEWORK_CONSTANTS.CONTRACTS.MODE_ENV}=update to accept them.`,
+    );
+    this.name = 'ContractDriftError';
+    this.contract = contract;
+    this.changes = changes;
+  }
+}
+
+/**
+ * Tells whether a type is accepted by a list of types (`number` accepts `integer`)
+ * @param types - Accepted types
+ * @param type - Type to check
+ */
+function accepts(types: JsonType[], type: JsonType): boolean {
+  return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+/**
+ * Type differences at one position
+ * @param baseline - Baseline schema
+ * @param current - Current schema
+ * @param at - Path of the position
+ */
+function typeChanges(baseline: InferredSchema, current: InferredSchema, at: string): DriftChange[] {
+  const transition = `type ${baseline.type.join('|')} → ${current.type.join('|')}`;
+  if (current.type.some(type => !accepts(baseline.type, type))) {
+    return [{ severity: 'breaking', path: at, description: transition }];
+  }
+  if (baseline.type.some(type => !accepts(current.type, type))) {
+    return [{ severity: 'additive', path: at, description: transition }];
+  }
+  return [];
+}
+
+/**
+ * Format and enum differences at one position
+ * @param baseline - Baseline schema
+ * @param current - Current schema
+ * @param at - Path of the position
+ */
+function valueChanges(
+  baseline: InferredSchema,
+  current: InferredSchema,
+  at: string,
+): DriftChange[] {
+  const changes: DriftChange[] = [];
+  if (baseline.format && baseline.format !== current.format && current.type.includes('string')) {
+    changes.push({
+      severity: 'breaking',
+      path: at,
+      description: `values no longer match format "${baseline.format}"`,
+    });
+  }
+  if (baseline.enum && current.type.includes('string')) {
+    const added = current.enum?.filter(value => !baseline.enum?.includes(value));
+    const description = added
+      ? `new enum value(s) ${JSON.stringify(added)}`
+      : `no longer limited to ${JSON.stringify(baseline.enum)}`;
+    if (!added || added.length > 0) {
+      changes.push({ severity: 'breaking', path: at, description });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Field differences of an object position
+ * @param baseline - Baseline schema
+ * @param current - Current schema
+ * @param at - Path of the object
+ */
+function propertyChanges(
+  baseline: InferredSchema,
+  current: InferredSchema,
+  at: string,
+): DriftChange[] {
+  const before = baseline.properties ?? {};
+  const after = current.properties ?? {};
+  const wasRequired = new Set(baseline.required);
+  const isRequired = new Set(current.required);
+
+  const changes = Object.keys(before).reduce<DriftChange[]>((all, key) => {
+    const field = `${at}.${key}`;
+    if (!(key in after)) {
+      return [...all, { severity: 'breaking', path: field, description: 'removed field' }];
+    }
+    if (wasRequired.has(key) && !isRequired.has(key)) {
+      all.push({ severity: 'breaking', path: field, description: 'no longer always present' });
+    } else if (!wasRequired.has(key) && isRequired.has(key)) {
+      all.push({ severity: 'additive', path: field, description: 'now always present' });
+    }
+    return all.concat(compareSchemas(before[key], after[key], field));
+  }, []);
+
+  Object.keys(after)
+    .filter(key => !(key in before))
+    .forEach(key =>
+      changes.push({
+        severity: 'additive',
+        path: `${at}.${key}`,
+        description: `new field (${after[key].type.join('|')})`,
+      }),
+    );
+  return changes;
+}
+
+/**
+ * Lists the differences between a baseline and a current schema
+ *
+ * @description
+ * Fields and array items are only compared when both schemas saw them, so an empty array or an
+ * always-null field does not count as a removal of everything below it.
+ *
+ * @param {InferredSchema} baseline - Stored schema
+ * @param {InferredSchema} current - Schema of the current response
+ * @param {string} [at] - Path of the compared position
+ * @returns {DriftChange[]} Breaking and additive changes
+ */
+export function compareSchemas(
+  baseline: InferredSchema,
+  current: InferredSchema,
+  at = '$',
+): DriftChange[] {
+  const changes = [...typeChanges(baseline, current, at), ...valueChanges(baseline, current, at)];
+  if (baseline.properties && current.properties) {
+    changes.push(...propertyChanges(baseline, current, at));
+  }
+  if (baseline.items && current.items) {
+    changes.push(...compareSchemas(baseline.items, current.items, `${at}[]`));
+  }
+  return changes;
+}
+
+/**
+ * Checks responses against their contract baselines and reports the drift of a test
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ContractDriftDetector {
+  readonly mode: ContractMode;
+  /** Checks in the order they ran */
+  readonly checks: ContractCheck[] = [];
+
+  private readonly baselineDir: string;
+
+  constructor(options: { mode?: ContractMode; baselineDir?: string } = {}) {
+    this.mode = ContractDriftDetector.resolveMode(options.mode);
+    this.baselineDir = options.baselineDir ?? FRAMEWORK_CONSTANTS.CONTRACTS.BASELINE_DIR;
+  }
+
+  /**
+   * Resolves the mode from an explicit value or `E2E_CONTRACT_MODE`
+   * @param mode - Explicit mode
+   * @throws {Error} When the mode is unknown
+   */
+  static resolveMode(mode?: string): ContractMode {
+    const { MODE_ENV, DEFAULT_MODE } = FRAMEWORK_CONSTANTS.CONTRACTS;
+    const resolved = mode ?? process.env[MODE_ENV] ?? DEFAULT_MODE;
+    if (!(CONTRACT_MODES as string[]).includes(resolved)) {
+      throw new Error(
+        `Unknown contract mode "${resolved}" (${MODE_ENV}); use ${CONTRACT_MODES.join(', ')}`,
+      );
+    }
+    return resolved as ContractMode;
+  }
+
+  /**
+   * File holding the baseline of a contract
+   * @param name - Contract name, e.g. `posts-list`
+   */
+  baselinePath(name: string): string {
+    return path.join(this.baselineDir, `${name}.json`);
+  }
+
+  /**
+   * Compares a response body to its baseline, or writes the baseline in update mode
+   * @param name - Contract name, one baseline file per name
+   * @param body - Parsed response body
+   * @param source - Request the body came from, stored in the baseline
+   * @throws {ContractDriftError} When the body breaks the baseline
+   */
+  check(name: string, body: unknown, source?: string): ContractCheck {
+    const baseline = this.load(name);
+    // Few samples never make an enum, so values are captured regardless to spot new ones
+    const observed = inferSchema([body], { enumMinSamples: 0 });
+    const changes = baseline ? compareSchemas(baseline.schema, observed) : [];
+
+    if (!baseline || (this.mode === 'update' && changes.length > 0)) {
+      return this.save(name, inferSchema([body]), { source, changes, existed: !!baseline });
+    }
+
+    const check: ContractCheck = { name, baseline: 'compared', changes };
+    this.checks.push(check);
+    if (changes.some(change => change.severity === 'breaking')) {
+      throw new ContractDriftError(name, changes);
+    }
+    changes.forEach(change =>
+      console.warn(`📐 Contract "${name}" drifted: ${change.path}: ${change.description}`),
+    );
+    return check;
+  }
+
+  /**
+   * Reports the drift found in a test
+   *
+   * @description
+   * Adds a `contract-drift` annotation per change and attaches every check, so that additive
+   * drift shows in the report even though the test passed.
+   *
+   * @param {TestInfo} testInfo - Test the checks ran in
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    const drifted = this.checks.filter(check => check.changes.length > 0);
+    if (drifted.length === 0) {
+      return;
+    }
+    const { ANNOTATION, ATTACHMENT } = FRAMEWORK_CONSTANTS.CONTRACTS;
+    drifted.forEach(check =>
+      check.changes.forEach(change =>
+        testInfo.annotations.push({
+          type: ANNOTATION,
+          description: `${change.severity}: ${check.name} ${change.path} ${change.description}`,
+        }),
+      ),
+    );
+    await testInfo.attach(ATTACHMENT, {
+      body: JSON.stringify(this.checks, null, 2),
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Reads the baseline of a contract
+   * @param name - Contract name
+   */
+  private load(name: string): ContractBaseline | undefined {
+    const file = this.baselinePath(name);
+    return fs.existsSync(file)
+      ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as ContractBaseline)
+      : undefined;
+  }
+
+  /**
+   * Writes the baseline of a contract
+   * @param name - Contract name
+   * @param schema - Schema of the current response
+   * @param details - Request, differences to the previous baseline and whether one existed
+   * @throws {Error} When a missing baseline would be created on CI
+   */
+  private save(
+    name: string,
+    schema: InferredSchema,
+    details: { source?: string; changes: DriftChange[]; existed: boolean },
+  ): ContractCheck {
+    const file = this.baselinePath(name);
+    if (!details.existed && this.mode === 'verify' && process.env.CI) {
+      throw new Error(
+        `No contract baseline at ${file}; create it with ${FRAMEWORK_CONSTANTS.CONTRACTS.MODE_ENV}=update`,
+      );
+    }
+    const baseline: ContractBaseline = {
+      name,
+      source: details.source,
+      updatedAt: new Date().toISOString(),
+      schema,
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+
+    const check: ContractCheck = {
+      name,
+      baseline: details.existed ? 'updated' : 'created',
+      changes: details.changes,
+    };
+    this.checks.push(check);
+    console.log(
+      `📝 Contract baseline ${check.baseline}: ${file} (${details.changes.length} change(s))`,
+    );
+    return check;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Pact Consumer - Records the interactions API tests rely on as consumer contracts
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A test declares each interaction it relies on (request plus the response shape, see
+ * `pact.matchers.ts`) through {@link PactConsumer.interaction}. The request is sent to the
+ * provider configured for the environment (the local JSONPlaceholder stand-in in development)
+ * and the response must meet the declaration, so a contract only ever holds interactions that
+ * worked at least once.
+ *
+ * Workers write the interactions of every passed test to `reports/pact-fragments/`; global
+ * teardown publishes them as one contract per consumer and provider with
+ * {@link PactConsumer.publish}:
+ *
+ * ```
+ * data/fixtures/pacts/<consumer>-<provider>.json
+ * ```
+ *
+ * When every consumer test passed, each contract is rebuilt from the fragments of the run, so
+ * interactions no test declares any more are dropped. Otherwise (`--grep`, a single file, a
+ * failed test) the fragments are merged: interactions already in the contract are kept unless
+ * a test declares them again (same description and provider state).
+ * Interactions are sorted and the file has no timestamps, so unchanged contracts stay unchanged.
+ *
+ * @example
+ * ```typescript
+ * apiTest('reads a post', async ({ pact }) => {
+ *   await pact.interaction({
+ *     description: 'a request for post 1',
+ *     providerState: 'post 1 exists',
+ *     request: { method: 'GET', path: '/posts/1' },
+ *     response: { status: 200, body: Matchers.like({ id: 1, title: 'title' }) },
+ *   });
+ * });
+ * ```
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+
+import { serializeInteraction } from '@api/contracts/pact.matchers';
+import type {
+  InteractionSpec,
+  PactFile,
+  PactFragment,
+  PactInteraction,
+  PactProvider,
+} from '@api/contracts/pact.types';
+import { PactVerifier, exchange } from '@api/contracts/pact.verifier';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * Raised when the provider's response does not meet a declared interaction
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PactMismatchError extends Error {
+  readonly interaction: PactInteraction;
+  readonly mismatches: string[];
+
+  constructor(interaction: PactInteraction, mismatches: string[]) {
+    super(
+      `Interaction "${interaction.description}" is not met by the provider:\n${mismatches
+        .map(mismatch => `  ✗ ${mismatch}`)
+        .join('\n')}`,
+    );
+    this.name = 'PactMismatchError';
+    this.interaction = interaction;
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * Key identifying an interaction within a contract
+ * @param interaction - Serialized interaction
+ */
+function interactionKey(interaction: PactInteraction): string {
+  return `${interaction.description}\u0000${interaction.providerState ?? ''}`;
+}
+
+/**
+ * Writes a contract file with sorted interactions
+ * @param file - Path of the contract
+ * @param pact - Contract to write
+ */
+function writePact(file: string, pact: PactFile): void {
+  const interactions = [...pact.interactions].sort((a, b) =>
+    interactionKey(a).localeCompare(interactionKey(b)),
+  );
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify({ ...pact, interactions }, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Declares the interactions of one test with one provider
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PactConsumer {
+  readonly consumer: string;
+  readonly provider: PactProvider;
+  /** Interactions met in this test, in declaration order */
+  readonly interactions: PactInteraction[] = [];
+
+  private readonly context: APIRequestContext;
+  private readonly baseURL: string;
+
+  /**
+   * @param context - Context the requests are sent with
+   * @param options - Consumer and provider names; `baseURL` overrides the configured provider URL
+   */
+  constructor(
+    context: APIRequestContext,
+    options: { consumer?: string; provider?: PactProvider; baseURL?: string } = {},
+  ) {
+    const { DEFAULT_CONSUMER, DEFAULT_PROVIDER } = FRAMEWORK_CONSTANTS.PACT;
+    this.context = context;
+    this.consumer = options.consumer ?? DEFAULT_CONSUMER;
+    this.provider = options.provider ?? DEFAULT_PROVIDER;
+    this.baseURL = options.baseURL ?? PactVerifier.providerBaseURL(this.provider);
+  }
+
+  /**
+   * Sends a declared request and records the interaction once the response meets it
+   *
+   * @param {InteractionSpec} spec - Request and the response the consumer relies on
+   * @returns {Promise<APIResponse>} Provider response
+   * @throws {PactMismatchError} When the response does not meet the declaration
+   * @throws {Error} When the test already declared the interaction
+   */
+  async interaction(spec: InteractionSpec): Promise<APIResponse> {
+    const interaction = serializeInteraction(spec);
+    if (this.interactions.some(known => interactionKey(known) === interactionKey(interaction))) {
+      throw new Error(`Pact interaction "${spec.description}" is declared twice`);
+    }
+
+    const { response, mismatches } = await exchange(this.context, this.baseURL, interaction);
+    if (mismatches.length > 0) {
+      throw new PactMismatchError(interaction, mismatches);
+    }
+    this.interactions.push(interaction);
+    console.log(
+      `🤝 Pact interaction met: ${this.consumer} → ${this.provider}: ${spec.description}`,
+    );
+    return response;
+  }
+
+  /**
+   * Contract holding the interactions of this test
+   */
+  toPact(): PactFile {
+    return {
+      consumer: { name: this.consumer },
+      provider: { name: this.provider },
+      interactions: this.interactions,
+      metadata: {
+        pactSpecification: { version: FRAMEWORK_CONSTANTS.PACT.SPECIFICATION_VERSION },
+      },
+    };
+  }
+
+  /**
+   * Stores the interactions of a passed test for {@link PactConsumer.publish}
+   * @param testInfo - Test that declared the interactions
+   * @param dir - Fragment directory
+   */
+  writeFragment(testInfo: TestInfo, dir: string = FRAMEWORK_CONSTANTS.PACT.FRAGMENT_DIR): void {
+    if (testInfo.status !== testInfo.expectedStatus) {
+      return;
+    }
+    // Same id as the test inventory of `ShardPlanner.listTests()`, whose first title is the file
+    const fragment: PactFragment = {
+      ...this.toPact(),
+      test: [`[${testInfo.project.name}]`, ...testInfo.titlePath].join(' › '),
+    };
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${testInfo.testId}.json`), JSON.stringify(fragment), 'utf-8');
+  }
+
+  /**
+   * Removes the fragments of a previous run
+   * @param dir - Fragment directory
+   */
+  static clearFragments(dir: string = FRAMEWORK_CONSTANTS.PACT.FRAGMENT_DIR): void {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Publishes the fragments of a run as one contract per consumer and provider
+   *
+   * @description
+   * Contracts are rebuilt from the fragments when they come from exactly the consumer tests
+   * `consumerTests` lists, i.e. every consumer test ran and passed. Otherwise the fragments are
+   * merged into the existing contracts, which keeps the interactions of tests that did not run.
+   *
+   * @param {object} [options] - Publishing options
+   * @param {string} [options.fragmentDir] - Directory of the fragments
+   * @param {string} [options.pactDir] - Directory of the contracts
+   * @param {Function} [options.consumerTests] - Ids of all consumer tests; undefined when unknown
+   * @returns {string[]} Paths of the written contracts
+   */
+  static publish(
+    options: {
+      fragmentDir?: string;
+      pactDir?: string;
+      consumerTests?(): string[] | undefined;
+    } = {},
+  ): string[] {
+    const { FRAGMENT_DIR, PACT_DIR } = FRAMEWORK_CONSTANTS.PACT;
+    const pactDir = options.pactDir ?? PACT_DIR;
+    const fragments = PactVerifier.pactFiles(options.fragmentDir ?? FRAGMENT_DIR).map(
+      file => PactVerifier.load(file) as PactFragment,
+    );
+    const rebuild =
+      fragments.length > 0 && PactConsumer.coversAll(fragments, options.consumerTests);
+
+    const pacts = new Map<string, PactFile>();
+    fragments.forEach(fragment => {
+      const file = path.join(pactDir, `${fragment.consumer.name}-${fragment.provider.name}.json`);
+      const pact = pacts.get(file) ?? PactConsumer.startPact(file, fragment, rebuild);
+      const declared = new Set(fragment.interactions.map(interactionKey));
+      pact.interactions = pact.interactions
+        .filter(interaction => !declared.has(interactionKey(interaction)))
+        .concat(fragment.interactions);
+      pacts.set(file, pact);
+    });
+
+    pacts.forEach((pact, file) => {
+      writePact(file, pact);
+      console.log(
+        `🤝 Pact ${rebuild ? 'rebuilt' : 'merged'}: ${file} (${pact.interactions.length} interaction(s))`,
+      );
+    });
+    return [...pacts.keys()];
+  }
+
+  /**
+   * Whether the fragments come from exactly the listed consumer tests
+   * @param fragments - Fragments of the run
+   * @param consumerTests - Lists the ids of all consumer tests
+   */
+  private static coversAll(
+    fragments: PactFragment[],
+    consumerTests?: () => string[] | undefined,
+  ): boolean {
+    const expected = new Set(consumerTests?.());
+    const passed = new Set(fragments.map(fragment => fragment.test));
+    return (
+      expected.size > 0 &&
+      expected.size === passed.size &&
+      [...passed].every(test => expected.has(test))
+    );
+  }
+
+  /**
+   * Contract the fragments are added to: the existing one when merging, otherwise an empty one
+   * @param file - Path of the contract
+   * @param fragment - First fragment of the contract in this run
+   * @param rebuild - Whether the contract is rebuilt from the fragments
+   */
+  private static startPact(file: string, fragment: PactFragment, rebuild: boolean): PactFile {
+    const existing = !rebuild && fs.existsSync(file) ? PactVerifier.load(file) : undefined;
+    return {
+      consumer: fragment.consumer,
+      provider: fragment.provider,
+      interactions: existing?.interactions ?? [],
+      metadata: fragment.metadata,
+    };
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Pact Matchers - Declares and checks the response shape a consumer relies on
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Consumers rarely depend on exact values: a post list needs items with a numeric `id` and a
+ * string `title`, not post 1 specifically. {@link Matchers} mark such values in a declared
+ * response; {@link serializeInteraction} turns them into an example plus pact specification v2
+ * `matchingRules` (`$.body[*].id`, `$.headers.Content-Type`), and {@link verifyInteraction}
+ * checks a received response against both:
+ *
+ * - values without a rule must be equal, values under a `type` rule only share the JSON type
+ *   (inherited by everything nested), `regex` rules match strings
+ * - `eachLike` arrays need at least `min` items, each checked against the example item
+ * - fields and headers the consumer did not declare are ignored
+ *
+ * @example
+ * ```typescript
+ * const interaction = serializeInteraction({
+ *   description: 'a request for the posts of user 1',
+ *   request: { method: 'GET', path: '/posts', query: { userId: 1 } },
+ *   response: { status: 200, body: Matchers.eachLike({ id: 1, userId: 1, title: 'title' }) },
+ * });
+ * verifyInteraction(interaction, { status: 200, headers: {}, body: [{ id: '7' }] });
+ * // ['$.body[0].id: expected number, received "7" (string)', '$.body[0].userId: ...']
+ * ```
+ */
+
+import type {
+  InteractionSpec,
+  MatchingRule,
+  PactInteraction,
+  PactMatcher,
+  ReceivedResponse,
+} from '@api/contracts/pact.types';
+import { jsonType } from '@api/contracts/schema.inferrer';
+import { describeValue } from '@api/schemas/schema.formatter';
+
+/**
+ * Compared position: `rule` looks up matching rules (`[*]` for `eachLike` items), `report` names
+ * the position in mismatches
+ */
+interface MatchPath {
+  rule: string;
+  report: string;
+}
+
+interface MatchContext {
+  rules: Record<string, MatchingRule>;
+  /** Set below a `type` rule: values only need the same JSON type */
+  typed: boolean;
+}
+
+/**
+ * Placeholders for declared request and response values
+ */
+export const Matchers = {
+  /**
+   * Any value of the same JSON type as `value`; applies to everything nested
+   * @param value - Example value
+   */
+  like(value: unknown): PactMatcher {
+    return { pactMatcher: 'type', value };
+  },
+
+  /**
+   * An array of at least `min` items, each shaped like `value`
+   * @param value - Example item
+   * @param min - Minimum number of items
+   */
+  eachLike(value: unknown, min = 1): PactMatcher {
+    return { pactMatcher: 'eachLike', value, min };
+  },
+
+  /**
+   * A string matching `regex`
+   * @param regex - Pattern the received string must match
+   * @param example - Example string, must match the pattern
+   * @throws {Error} When the example does not match the pattern
+   */
+  term(regex: RegExp | string, example: string): PactMatcher {
+    const source = typeof regex === 'string' ? regex : regex.source;
+    if (!new RegExp(source).test(example)) {
+      throw new Error(`Pact term example "${example}" does not match /${source}/`);
+    }
+    return { pactMatcher: 'regex', value: example, regex: source };
+  },
+};
+
+/**
+ * Tells whether a value is a plain JSON object
+ * @param value - Value to check
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Tells whether a declared value is a matcher
+ * @param value - Declared value
+ */
+function isMatcher(value: unknown): value is PactMatcher {
+  return isRecord(value) && typeof value.pactMatcher === 'string';
+}
+
+/**
+ * Replaces the matchers of a declared value by their examples, collecting their rules
+ * @param value - Declared value
+ * @param path - Path of the value, e.g. `$.body`
+ * @param rules - Matching rules collected so far, extended in place
+ */
+function serialize(value: unknown, path: string, rules: Record<string, MatchingRule>): unknown {
+  if (isMatcher(value)) {
+    return serializeMatcher(value, path, rules);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => serialize(item, `${path}[${index}]`, rules));
+  }
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = serialize(value[key], `${path}.${key}`, rules);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Example and rule of a matcher
+ * @param matcher - Declared matcher
+ * @param path - Path of the matcher
+ * @param rules - Matching rules collected so far, extended in place
+ */
+function serializeMatcher(
+  matcher: PactMatcher,
+  path: string,
+  rules: Record<string, MatchingRule>,
+): unknown {
+  if (matcher.pactMatcher === 'regex') {
+    rules[path] = { match: 'regex', regex: matcher.regex };
+    return matcher.value;
+  }
+  if (matcher.pactMatcher === 'eachLike') {
+    const min = matcher.min ?? 1;
+    rules[path] = { match: 'type', min };
+    const item = serialize(matcher.value, `${path}[*]`, rules);
+    return Array.from({ length: Math.max(min, 1) }, () => item);
+  }
+  rules[path] = { match: 'type' };
+  return serialize(matcher.value, path, rules);
+}
+
+/**
+ * Converts a declared interaction to the form written to the contract file
+ *
+ * @description
+ * Query parameters are sorted into a query string; matchers in the response become examples
+ * plus `matchingRules`. Matchers in the request are replaced by their examples, since requests
+ * are replayed as declared.
+ *
+ * @param {InteractionSpec} spec - Declared interaction
+ * @returns {PactInteraction} Serialized interaction
+ */
+export function serializeInteraction(spec: InteractionSpec): PactInteraction {
+  const { request, response } = spec;
+  const query = request.query ?? {};
+  const queryString = Object.keys(query)
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(String(query[key]))}`)
+    .join('&');
+
+  // Undefined fields are left out of the JSON file
+  const rules: Record<string, MatchingRule> = {};
+  return {
+    description: spec.description,
+    providerState: spec.providerState,
+    request: {
+      method: request.method.toUpperCase(),
+      path: request.path,
+      query: queryString || undefined,
+      headers: request.headers,
+      body: serialize(request.body, '$.body', {}),
+    },
+    response: {
+      status: response.status,
+      headers: serialize(
+        response.headers,
+        '$.headers',
+        rules,
+      ) as PactInteraction['response']['headers'],
+      body: serialize(response.body, '$.body', rules),
+      matchingRules: Object.keys(rules).length > 0 ? rules : undefined,
+    },
+  };
+}
+
+/**
+ * JSON type used by `type` rules; integers and decimals are both numbers
+ * @param value - Received value
+ */
+function kind(value: unknown): string {
+  const type = jsonType(value);
+  return type === 'integer' ? 'number' : type;
+}
+
+/**
+ * Single mismatch at a position
+ * @param at - Compared position
+ * @param expected - Description of the expected value
+ * @param actual - Received value
+ */
+function mismatch(at: MatchPath, expected: string, actual: unknown): string[] {
+  return [`${at.report}: expected ${expected}, received ${describeValue(actual)}`];
+}
+
+/**
+ * Compares a received value to an example and the rules at and below its position
+ * @param expected - Example value
+ * @param actual - Received value
+ * @param at - Compared position
+ * @param context - Matching rules and inherited type matching
+ */
+function compareValue(
+  expected: unknown,
+  actual: unknown,
+  at: MatchPath,
+  context: MatchContext,
+): string[] {
+  const rule: Partial<MatchingRule> = context.rules[at.rule] ?? {};
+  if (rule.match === 'regex') {
+    return compareRegex(String(rule.regex), actual, at);
+  }
+  const scoped = { rules: context.rules, typed: context.typed || rule.match === 'type' };
+  if (Array.isArray(expected)) {
+    return rule.min === undefined
+      ? compareArray(expected, actual, at, scoped)
+      : compareEachLike(expected[0], actual, at, { ...scoped, min: rule.min });
+  }
+  if (isRecord(expected)) {
+    return compareObject(expected, actual, at, scoped);
+  }
+  if (scoped.typed) {
+    return kind(expected) === kind(actual) ? [] : mismatch(at, kind(expected), actual);
+  }
+  return expected === actual ? [] : mismatch(at, JSON.stringify(expected), actual);
+}
+
+/**
+ * Checks a received value against a `regex` rule
+ * @param regex - Pattern source
+ * @param actual - Received value
+ * @param at - Compared position
+ */
+function compareRegex(regex: string, actual: unknown, at: MatchPath): string[] {
+  return typeof actual === 'string' && new RegExp(regex).test(actual)
+    ? []
+    : mismatch(at, `a string matching /${regex}/`, actual);
+}
+
+/**
+ * Compares a received array item by item; without a `type` rule the lengths must be equal
+ * @param expected - Example items
+ * @param actual - Received value
+ * @param at - Compared position
+ * @param context - Matching rules and inherited type matching
+ */
+function compareArray(
+  expected: unknown[],
+  actual: unknown,
+  at: MatchPath,
+  context: MatchContext,
+): string[] {
+  if (!Array.isArray(actual)) {
+    return mismatch(at, 'an array', actual);
+  }
+  const tooShort = actual.length < expected.length;
+  const sizeMismatch =
+    tooShort || (!context.typed && actual.length !== expected.length)
+      ? mismatch(at, `${expected.length} item(s)`, actual)
+      : [];
+  return expected
+    .slice(0, actual.length)
+    .reduce<string[]>(
+      (all, item, index) =>
+        all.concat(
+          compareValue(
+            item,
+            actual[index],
+            { rule: `${at.rule}[${index}]`, report: `${at.report}[${index}]` },
+            context,
+          ),
+        ),
+      sizeMismatch,
+    );
+}
+
+/**
+ * Compares every item of a received `eachLike` array to the example item
+ * @param expected - Example item
+ * @param actual - Received value
+ * @param at - Compared position
+ * @param context - Matching rules and the minimum number of items
+ */
+function compareEachLike(
+  expected: unknown,
+  actual: unknown,
+  at: MatchPath,
+  context: MatchContext & { min: number },
+): string[] {
+  if (!Array.isArray(actual)) {
+    return mismatch(at, 'an array', actual);
+  }
+  const sizeMismatch =
+    actual.length < context.min ? mismatch(at, `at least ${context.min} item(s)`, actual) : [];
+  const items = { rules: context.rules, typed: true };
+  return actual.reduce<string[]>(
+    (all, item, index) =>
+      all.concat(
+        compareValue(
+          expected,
+          item,
+          { rule: `${at.rule}[*]`, report: `${at.report}[${index}]` },
+          items,
+        ),
+      ),
+    sizeMismatch,
+  );
+}
+
+/**
+ * Compares the declared fields of a received object; undeclared fields are ignored
+ * @param expected - Example object
+ * @param actual - Received value
+ * @param at - Compared position
+ * @param context - Matching rules and inherited type matching
+ */
+function compareObject(
+  expected: Record<string, unknown>,
+  actual: unknown,
+  at: MatchPath,
+  context: MatchContext,
+): string[] {
+  if (!isRecord(actual)) {
+    return mismatch(at, 'an object', actual);
+  }
+  return Object.keys(expected).reduce<string[]>(
+    (all, key) =>
+      all.concat(
+        compareValue(
+          expected[key],
+          actual[key],
+          { rule: `${at.rule}.${key}`, report: `${at.report}.${key}` },
+          context,
+        ),
+      ),
+    [],
+  );
+}
+
+/**
+ * Lists where a received response does not meet an interaction
+ *
+ * @description
+ * The status must be equal; declared headers (names are case-insensitive) and the declared body
+ * are compared with the interaction's matching rules.
+ *
+ * @param {PactInteraction} interaction - Serialized interaction
+ * @param {ReceivedResponse} received - Response of the provider
+ * @returns {string[]} Mismatches, e.g. `$.body.id: expected number, received "1" (string)`
+ */
+export function verifyInteraction(
+  interaction: PactInteraction,
+  received: ReceivedResponse,
+): string[] {
+  const { status, headers = {}, body, matchingRules = {} } = interaction.response;
+  const context: MatchContext = { rules: matchingRules, typed: false };
+
+  const mismatches =
+    status === received.status ? [] : [`status: expected ${status}, received ${received.status}`];
+  Object.keys(headers).forEach(name => {
+    const at = `$.headers.${name}`;
+    mismatches.push(
+      ...compareValue(
+        headers[name],
+        received.headers[name.toLowerCase()],
+        { rule: at, report: at },
+        context,
+      ),
+    );
+  });
+  if (body !== undefined) {
+    mismatches.push(
+      ...compareValue(body, received.body, { rule: '$.body', report: '$.body' }, context),
+    );
+  }
+  return mismatches;
+}
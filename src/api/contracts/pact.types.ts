@@ -0,0 +1,119 @@
+/**
+ * Consumer Contract Types
+ *
+ * Interactions declared by consumer tests, the pact-like contract file they are written to and
+ * the results of verifying a contract against its provider
+ */
+
+import type { ApiConfig, EnvironmentConfig } from '@config/types/environment.types';
+
+/**
+ * Provider of a contract: an `EnvironmentConfig` section holding an `ApiConfig`, whose
+ * `baseURL` the verifier replays the contract against
+ */
+export type PactProvider = {
+  [K in keyof EnvironmentConfig]: EnvironmentConfig[K] extends ApiConfig ? K : never;
+}[keyof EnvironmentConfig];
+
+/**
+ * Placeholder for a value the consumer relies on by shape rather than by exact value
+ * - type: any value of the same JSON type (applies to everything nested)
+ * - eachLike: an array of at least `min` items, each shaped like `value`
+ * - regex: a string matching `regex`; `value` is the example
+ */
+export interface PactMatcher {
+  pactMatcher: 'type' | 'eachLike' | 'regex';
+  value: unknown;
+  min?: number;
+  regex?: string;
+}
+
+/**
+ * Pact specification v2 matching rule, keyed by a path such as `$.body[*].id`
+ */
+export interface MatchingRule {
+  match: 'type' | 'regex';
+  min?: number;
+  regex?: string;
+}
+
+/**
+ * Interaction as declared in a consumer test; bodies and headers may contain matchers
+ */
+export interface InteractionSpec {
+  /** Unique per consumer and provider state, e.g. `a request for post 1` */
+  description: string;
+  /** State the provider must be in, e.g. `post 1 exists` */
+  providerState?: string;
+  request: {
+    method: string;
+    path: string;
+    query?: Record<string, string | number>;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers?: Record<string, unknown>;
+    body?: unknown;
+  };
+}
+
+/**
+ * Interaction as written to the contract file
+ */
+export interface PactInteraction {
+  description: string;
+  providerState?: string;
+  request: {
+    method: string;
+    path: string;
+    /** Sorted query string without `?`, e.g. `userId=1` */
+    query?: string;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers?: Record<string, unknown>;
+    body?: unknown;
+    matchingRules?: Record<string, MatchingRule>;
+  };
+}
+
+/**
+ * Content of `data/fixtures/pacts/<consumer>-<provider>.json`
+ */
+export interface PactFile {
+  consumer: { name: string };
+  provider: { name: PactProvider };
+  interactions: PactInteraction[];
+  metadata: { pactSpecification: { version: string } };
+}
+
+/**
+ * Interactions of one passed test, written to `reports/pact-fragments/`
+ */
+export interface PactFragment extends PactFile {
+  /** Test that declared the interactions, `[project] › file › describe › title` */
+  test: string;
+}
+
+/**
+ * Response received for an interaction
+ */
+export interface ReceivedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Outcome of replaying one interaction against the provider
+ */
+export interface VerificationResult {
+  interaction: string;
+  providerState?: string;
+  /** Mismatches as `$.body.id: expected …, received …`; empty when the interaction is met */
+  mismatches: string[];
+}
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Pact Verifier - Replays consumer contracts against their provider
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A consumer contract (`data/fixtures/pacts/<consumer>-<provider>.json`, written by
+ * `pact.consumer.ts`) lists the requests a consumer sends and the responses it relies on.
+ * {@link PactVerifier} sends every request of a contract to the provider, in order, and reports
+ * the interactions whose responses do not meet the contract (see `pact.matchers.ts`).
+ *
+ * The provider's base URL comes from the `EnvironmentConfig` section named after it
+ * (`jsonplaceholder` → `getEnvironmentConfig().jsonplaceholder.baseURL`), so the same contract
+ * is verified against the local JSONPlaceholder stand-in in development and against the real
+ * provider elsewhere. Provider states are informational: the stand-in's data is fixed.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new PactVerifier(apiContext);
+ * const pact = PactVerifier.load('data/fixtures/pacts/blog-web-jsonplaceholder.json');
+ * const results = await verifier.verify(pact);
+ * // ✗ a request for post 1: $.body.id: expected number, received "1" (string)
+ * ```
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+
+import { getEnvironmentConfig } from '@config/environment';
+import type { ApiConfig } from '@config/types/environment.types';
+import { verifyInteraction } from '@api/contracts/pact.matchers';
+import type {
+  PactFile,
+  PactInteraction,
+  PactProvider,
+  VerificationResult,
+} from '@api/contracts/pact.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * Raised when a provider does not meet some interactions of a contract
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PactVerificationError extends Error {
+  readonly unmet: VerificationResult[];
+
+  constructor(pact: PactFile, unmet: VerificationResult[]) {
+    super(
+      `Provider "${pact.provider.name}" does not meet ${unmet.length} interaction(s) of consumer "${pact.consumer.name}":\n${unmet
+        .map(
+          result =>
+            `  ✗ ${result.interaction}\n${result.mismatches.map(m => `      ${m}`).join('\n')}`,
+        )
+        .join('\n')}`,
+    );
+    this.name = 'PactVerificationError';
+    this.unmet = unmet;
+  }
+}
+
+/**
+ * Parses a response body as JSON, falling back to the text
+ * @param text - Response body
+ */
+function parseBody(text: string): unknown {
+  if (text === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Sends the request of an interaction and checks the response against it
+ *
+ * @param {APIRequestContext} context - Context to send with
+ * @param {string} baseURL - Provider base URL
+ * @param {PactInteraction} interaction - Serialized interaction
+ * @returns {Promise<{ response: APIResponse; mismatches: string[] }>} Response and mismatches
+ */
+export async function exchange(
+  context: APIRequestContext,
+  baseURL: string,
+  interaction: PactInteraction,
+): Promise<{ response: APIResponse; mismatches: string[] }> {
+  const { method, path: requestPath, query, headers, body } = interaction.request;
+  const url = `${baseURL}${requestPath}${query ? `?${query}` : ''}`;
+  const response = await context.fetch(url, { method, headers, data: body });
+  const mismatches = verifyInteraction(interaction, {
+    status: response.status(),
+    headers: response.headers(),
+    body: parseBody(await response.text()),
+  });
+  return { response, mismatches };
+}
+
+/**
+ * Verifies consumer contracts against their providers
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PactVerifier {
+  /** Results of every interaction replayed so far */
+  readonly results: VerificationResult[] = [];
+
+  private readonly context: APIRequestContext;
+  private readonly baseURL?: string;
+
+  /**
+   * @param context - Context the requests are sent with
+   * @param options - `baseURL` overrides the provider's base URL from the configuration
+   */
+  constructor(context: APIRequestContext, options: { baseURL?: string } = {}) {
+    this.context = context;
+    this.baseURL = options.baseURL;
+  }
+
+  /**
+   * Contract files in a directory, sorted
+   * @param dir - Directory of the contracts
+   */
+  static pactFiles(dir: string = FRAMEWORK_CONSTANTS.PACT.PACT_DIR): string[] {
+    return fs.existsSync(dir)
+      ? fs
+          .readdirSync(dir)
+          .filter(file => file.endsWith('.json'))
+          .sort()
+          .map(file => path.join(dir, file))
+      : [];
+  }
+
+  /**
+   * Reads a contract file
+   * @param file - Path of the contract
+   */
+  static load(file: string): PactFile {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as PactFile;
+  }
+
+  /**
+   * Base URL of a provider from the environment configuration
+   * @param provider - `EnvironmentConfig` section of the provider
+   * @throws {Error} When the configuration has no such section
+   */
+  static providerBaseURL(provider: PactProvider): string {
+    // Contracts are read from JSON, so the provider may name no section at all
+    const config = getEnvironmentConfig()[provider] as ApiConfig | undefined;
+    if (!config?.baseURL) {
+      throw new Error(`No base URL configured for pact provider "${provider}"`);
+    }
+    return config.baseURL;
+  }
+
+  /**
+   * Replays one interaction against the provider
+   * @param pact - Contract the interaction belongs to
+   * @param interaction - Interaction to replay
+   */
+  async verifyInteraction(
+    pact: PactFile,
+    interaction: PactInteraction,
+  ): Promise<VerificationResult> {
+    const baseURL = this.baseURL ?? PactVerifier.providerBaseURL(pact.provider.name);
+    const { mismatches } = await exchange(this.context, baseURL, interaction);
+    const result: VerificationResult = {
+      interaction: interaction.description,
+      providerState: interaction.providerState,
+      mismatches,
+    };
+    this.results.push(result);
+    console.log(
+      `${mismatches.length === 0 ? '✅' : '❌'} ${pact.consumer.name} → ${pact.provider.name}: ${interaction.description}`,
+    );
+    return result;
+  }
+
+  /**
+   * Replays every interaction of a contract, one after the other
+   *
+   * @param {PactFile} pact - Contract to verify
+   * @returns {Promise<VerificationResult[]>} Result per interaction, in contract order
+   */
+  async verify(pact: PactFile): Promise<VerificationResult[]> {
+    return pact.interactions.reduce<Promise<VerificationResult[]>>(
+      async (previous, interaction) => {
+        const results = await previous;
+        return [...results, await this.verifyInteraction(pact, interaction)];
+      },
+      Promise.resolve([]),
+    );
+  }
+
+  /**
+   * Verifies a contract and fails with the interactions the provider does not meet
+   * @param pact - Contract to verify
+   * @throws {PactVerificationError} When some interactions are unmet
+   */
+  async assertVerified(pact: PactFile): Promise<VerificationResult[]> {
+    const results = await this.verify(pact);
+    const unmet = results.filter(result => result.mismatches.length > 0);
+    if (unmet.length > 0) {
+      throw new PactVerificationError(pact, unmet);
+    }
+    return results;
+  }
+}
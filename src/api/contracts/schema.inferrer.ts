@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Schema Inferrer - Derives a JSON schema from live response samples
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * {@link inferSchema} describes what a set of samples actually looks like: the JSON types seen
+ * at every position, the properties present in every object (`required`), formats all strings
+ * share (`email`, `uri`, `date-time`, `date`, `uuid`) and, for strings with only a few distinct
+ * values across enough samples, an `enum`. Array items are merged into one `items` schema.
+ * Properties are sorted so that inferred schemas can be stored and diffed as baselines.
+ *
+ * @example
+ * ```typescript
+ * inferSchema([{ id: 1, email: 'a@b.io' }, { id: 2, email: 'c@d.io', phone: null }]);
+ * // {
+ * //   type: ['object'],
+ * //   properties: {
+ * //     email: { type: ['string'], format: 'email' },
+ * //     id: { type: ['integer'] },
+ * //     phone: { type: ['null'] },
+ * //   },
+ * //   required: ['email', 'id'],
+ * // }
+ * ```
+ */
+
+import type { InferOptions, InferredSchema, JsonType } from '@api/contracts/contract.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/** Formats detected when every string sample matches, checked in order */
+const FORMATS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^https?:\/\/\S+$/],
+];
+
+/**
+ * JSON type of a value
+ * @param value - Parsed JSON value
+ */
+export function jsonType(value: unknown): JsonType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonType;
+}
+
+/**
+ * Sorted types of the samples; `integer` merges into `number` when both were seen
+ * @param samples - Values seen at one position
+ */
+function inferTypes(samples: unknown[]): JsonType[] {
+  const types = new Set(samples.map(jsonType));
+  if (types.has('number')) {
+    types.delete('integer');
+  }
+  return [...types].sort();
+}
+
+/**
+ * Format or enum shared by string samples
+ * @param strings - String values seen at one position
+ * @param options - Inference options
+ */
+function inferStrings(
+  strings: string[],
+  options: InferOptions,
+): Pick<InferredSchema, 'format' | 'enum'> {
+  const format = FORMATS.find(([, pattern]) => strings.every(value => pattern.test(value)));
+  if (format) {
+    return { format: format[0] };
+  }
+  const { ENUM_MAX_VALUES, ENUM_MIN_SAMPLES } = FRAMEWORK_CONSTANTS.CONTRACTS;
+  const distinct = [...new Set(strings)].sort();
+  const minSamples = options.enumMinSamples ?? ENUM_MIN_SAMPLES;
+  return strings.length >= minSamples && distinct.length <= ENUM_MAX_VALUES
+    ? { enum: distinct }
+    : {};
+}
+
+/**
+ * Properties and required keys of object samples
+ * @param objects - Objects seen at one position
+ * @param options - Inference options
+ */
+function inferObject(
+  objects: Array<Record<string, unknown>>,
+  options: InferOptions,
+): Pick<InferredSchema, 'properties' | 'required'> {
+  const keys = [
+    ...new Set(objects.reduce<string[]>((all, object) => all.concat(Object.keys(object)), [])),
+  ].sort();
+  const properties: Record<string, InferredSchema> = {};
+  keys.forEach(key => {
+    properties[key] = inferSchema(
+      objects.filter(object => key in object).map(object => object[key]),
+      options,
+    );
+  });
+  return {
+    properties,
+    required: keys.filter(key => objects.every(object => key in object)),
+  };
+}
+
+/**
+ * Infers the schema of the values seen at one position
+ *
+ * @description
+ * Pass a single response body as `[body]`; array items of all samples are merged into
+ * `items`, and nested objects are inferred recursively.
+ *
+ * @param {unknown[]} samples - Parsed JSON values
+ * @param {InferOptions} [options] - Inference options
+ * @returns {InferredSchema} Inferred schema
+ */
+export function inferSchema(samples: unknown[], options: InferOptions = {}): InferredSchema {
+  const schema: InferredSchema = { type: inferTypes(samples) };
+
+  const strings = samples.filter((value): value is string => typeof value === 'string');
+  if (strings.length > 0) {
+    Object.assign(schema, inferStrings(strings, options));
+  }
+
+  const objects = samples.filter(
+    (value): value is Record<string, unknown> =>
+      value !== null && typeof value === 'object' && !Array.isArray(value),
+  );
+  if (objects.length > 0) {
+    Object.assign(schema, inferObject(objects, options));
+  }
+
+  const items = samples
+    .filter((value): value is unknown[] => Array.isArray(value))
+    .reduce<unknown[]>((all, array) => all.concat(array), []);
+  if (items.length > 0) {
+    schema.items = inferSchema(items, options);
+  }
+  return schema;
+}
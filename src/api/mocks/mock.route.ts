@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Mock Route - One mocked endpoint: request matchers, a response sequence and its calls
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A {@link MockRoute} matches requests by method and path template (`/posts/:id`, `*` for any
+ * rest), optionally by query parameters and body fields. It answers with a sequence of
+ * responses: each `reply()` or `abort()` adds one, `times(n)` limits how often it is served
+ * (once by default, unless it is the last one, which is served for good). A route whose last
+ * response is used up stops matching, so the request goes on to other routes or the network.
+ *
+ * Every matched request is kept in `calls`; `expectCalled(n)` verifies the count afterwards.
+ * Routes are created by {@link MockScenario.on}.
+ *
+ * @example
+ * ```typescript
+ * const route = mock
+ *   .on('GET', '/posts/:id')
+ *   .reply(200, MOCK_POSTS.SINGLE_POST)
+ *   .times(2)
+ *   .andThen()
+ *   .reply(({ params }) => ({ status: 404, body: { id: Number(params.id) } }));
+ * // ... requests ...
+ * route.expectCalled(3);
+ * ```
+ */
+
+import type {
+  MockAbortReason,
+  MockBodyMatcher,
+  MockRequest,
+  MockResponder,
+  MockResponse,
+} from '@api/mocks/mock.types';
+
+/**
+ * Response of a route's sequence
+ */
+interface MockStep {
+  responder: MockResponder;
+  /** How often the step is served; undefined serves it once, or for good when it is the last */
+  times?: number;
+  delay?: number;
+  served: number;
+}
+
+/**
+ * Raised when a mocked route was not called as expected
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class MockExpectationError extends Error {
+  readonly route: string;
+
+  constructor(route: string, message: string) {
+    super(`Mock route ${route}: ${message}`);
+    this.name = 'MockExpectationError';
+    this.route = route;
+  }
+}
+
+/**
+ * Whether a value contains every field of the expected one (deeply); other values must be equal
+ * @param expected - Expected fields or value
+ * @param actual - Received value
+ */
+export function containsFields(expected: unknown, actual: unknown): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    return (
+      Boolean(actual) &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) =>
+        containsFields(value, (actual as Record<string, unknown>)[key]),
+      )
+    );
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+/**
+ * Compiles a path template into a pattern capturing its parameters
+ * @param path - Path template, e.g. `/users/:userId/posts`
+ */
+function compilePath(path: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = path
+    .split('/')
+    .map(segment => {
+      if (segment === '*') {
+        return '.*';
+      }
+      if (segment.startsWith(':')) {
+        names.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}/?$`), names };
+}
+
+/**
+ * Mocked endpoint
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class MockRoute {
+  readonly method: string;
+  readonly path: string;
+  /** Requests the route answered, in order */
+  readonly calls: MockRequest[] = [];
+
+  private readonly pattern: RegExp;
+  private readonly paramNames: string[];
+  private readonly steps: MockStep[] = [];
+  private readonly query: Record<string, string> = {};
+  private body?: MockBodyMatcher;
+
+  /**
+   * @param method - HTTP method, `*` for any
+   * @param path - Path template relative to the base URL
+   */
+  constructor(method: string, path: string) {
+    this.method = method.toUpperCase();
+    this.path = path;
+    const { pattern, names } = compilePath(path);
+    this.pattern = pattern;
+    this.paramNames = names;
+  }
+
+  /**
+   * Route name, e.g. `GET /posts/:id`
+   */
+  get name(): string {
+    return `${this.method} ${this.path}`;
+  }
+
+  /**
+   * Whether all responses are used up; the route no longer matches then
+   */
+  get exhausted(): boolean {
+    return this.steps.length > 0 && this.currentStep() === undefined;
+  }
+
+  /**
+   * Only matches requests with these query parameters (others may be present)
+   * @param query - Expected parameters
+   */
+  withQuery(query: Record<string, string | number>): this {
+    Object.entries(query).forEach(([name, value]) => {
+      this.query[name] = String(value);
+    });
+    return this;
+  }
+
+  /**
+   * Only matches requests whose body contains these fields or passes the predicate
+   * @param matcher - Expected fields or predicate
+   */
+  withBody(matcher: MockBodyMatcher): this {
+    this.body = matcher;
+    return this;
+  }
+
+  /**
+   * Adds a response to the sequence
+   * @param statusOrResponder - Status code, or a responder building the response of each request
+   * @param body - Body; strings and buffers are sent as they are, anything else as JSON
+   * @param headers - Response headers
+   */
+  reply(
+    statusOrResponder: number | MockResponder,
+    body?: unknown,
+    headers?: Record<string, string>,
+  ): this {
+    const responder =
+      typeof statusOrResponder === 'function'
+        ? statusOrResponder
+        : () => ({ status: statusOrResponder, body, headers });
+    this.steps.push({ responder, served: 0 });
+    return this;
+  }
+
+  /**
+   * Adds a network failure to the sequence
+   * @param reason - Error the request fails with
+   */
+  abort(reason: MockAbortReason = 'failed'): this {
+    this.steps.push({ responder: () => ({ abort: reason }), served: 0 });
+    return this;
+  }
+
+  /**
+   * Serves the last added response `count` times
+   * @param count - Positive number of requests
+   */
+  times(count: number): this {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Mock route ${this.name}: times() needs a positive integer, got ${count}`);
+    }
+    this.lastStep('times').times = count;
+    return this;
+  }
+
+  /**
+   * Delays the last added response
+   * @param ms - Milliseconds before responding
+   */
+  delay(ms: number): this {
+    this.lastStep('delay').delay = ms;
+    return this;
+  }
+
+  /**
+   * Separates the responses of the sequence; reads as `reply(200).times(2).andThen().reply(500)`
+   */
+  andThen(): this {
+    return this;
+  }
+
+  /**
+   * Path parameters of a request the route matches, undefined when it does not match
+   * @param request - Request without its path parameters
+   */
+  match(request: Omit<MockRequest, 'params'>): Record<string, string> | undefined {
+    const match = this.pattern.exec(request.path);
+    if (!match || !this.accepts(request) || this.exhausted) {
+      return undefined;
+    }
+    return this.paramNames.reduce<Record<string, string>>((params, name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+      return params;
+    }, {});
+  }
+
+  /**
+   * Answers a matched request with the current response of the sequence
+   * @param request - Matched request
+   * @throws {MockExpectationError} When the route has no response
+   */
+  async respond(request: MockRequest): Promise<MockResponse> {
+    const step = this.currentStep();
+    if (!step) {
+      throw new MockExpectationError(this.name, 'no response defined, call reply() or abort()');
+    }
+    step.served += 1;
+    this.calls.push(request);
+    const response = await step.responder(request);
+    return { ...response, delay: response.delay ?? step.delay };
+  }
+
+  /**
+   * Verifies how often the route was called
+   * @param count - Expected calls; at least one when omitted
+   * @throws {MockExpectationError} When the count differs
+   */
+  expectCalled(count?: number): void {
+    const called = this.calls.length;
+    if (count === undefined ? called === 0 : called !== count) {
+      throw new MockExpectationError(
+        this.name,
+        `expected ${count ?? 'at least 1'} call(s), got ${called}`,
+      );
+    }
+  }
+
+  /**
+   * Whether method, query and body of a request match
+   * @param request - Request to check
+   */
+  private accepts(request: Omit<MockRequest, 'params'>): boolean {
+    if (this.method !== '*' && this.method !== request.method) {
+      return false;
+    }
+    const queryMatches = Object.entries(this.query).every(
+      ([name, value]) => request.query[name] === value,
+    );
+    if (!queryMatches || this.body === undefined) {
+      return queryMatches;
+    }
+    return typeof this.body === 'function'
+      ? this.body(request.body)
+      : containsFields(this.body, request.body);
+  }
+
+  /**
+   * Response the next request gets, undefined when the sequence is used up
+   */
+  private currentStep(): MockStep | undefined {
+    const last = this.steps.length - 1;
+    return this.steps.find((step, index) => {
+      const limit = step.times ?? (index === last ? Infinity : 1);
+      return step.served < limit;
+    });
+  }
+
+  /**
+   * Last added response, which `times()` and `delay()` apply to
+   * @param modifier - Name of the calling method
+   * @throws {Error} When no response was added yet
+   */
+  private lastStep(modifier: string): MockStep {
+    if (this.steps.length === 0) {
+      throw new Error(`Mock route ${this.name}: call reply() or abort() before ${modifier}()`);
+    }
+    return this.steps[this.steps.length - 1];
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Mock Scenario - Composable mocked routes for API contexts and browser pages
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A {@link MockScenario} is the set of mocked routes of a test. Routes are declared with
+ * {@link MockScenario.on} (see `mock.route.ts` for matchers and response sequences) or loaded
+ * from a {@link MockScenarioDefinition} such as the entries of `MOCK_SCENARIOS`. Routes declared
+ * later take precedence, so a test can override a route of a loaded scenario.
+ *
+ * The scenario answers the requests it matches before they reach the network:
+ * - {@link withMocks} wraps an `APIRequestContext`; the `mock` fixture sits under the call log
+ *   and the retries of `apiContext`, so mocked responses are logged and retried like real ones
+ * - {@link MockScenario.install} routes the requests of a browser page
+ *
+ * Unmatched requests are sent on unchanged. Aborted responses fail API requests with the
+ * network error of their reason (`ETIMEDOUT`, `ECONNREFUSED`, ...).
+ *
+ * @example
+ * ```typescript
+ * apiTest('retries a flaky endpoint', async ({ mock, jsonPlaceholderClient }) => {
+ *   const route = mock.on('GET', '/posts/:id').reply(503).andThen().reply(({ params }) => ({
+ *     body: { ...MOCK_POSTS.SINGLE_POST, id: Number(params.id) },
+ *   }));
+ *   const post = await jsonPlaceholderClient.posts.get(7);
+ *   route.expectCalled(2);
+ * });
+ *
+ * mock.load(MOCK_SCENARIOS.EMPTY_RESULTS);
+ * ```
+ */
+
+import { STATUS_CODES } from 'node:http';
+
+import type { APIRequestContext, Page, Request } from '@playwright/test';
+
+import { interceptRequests, resolveRequestUrl } from '@api/clients/request-interceptor';
+import type { InterceptedRequest } from '@api/clients/request.types';
+import { MockRoute } from '@api/mocks/mock.route';
+import type {
+  MockAbortReason,
+  MockRequest,
+  MockResponse,
+  MockScenarioDefinition,
+} from '@api/mocks/mock.types';
+import { ReplayedResponse } from '@api/vcr/cassette';
+import type { RecordedResponse } from '@api/vcr/vcr.types';
+
+/**
+ * Network errors aborted requests fail with; the retry policy treats them as transient
+ */
+const ABORT_ERRORS: Record<MockAbortReason, string> = {
+  timedout: 'ETIMEDOUT',
+  connectionrefused: 'ECONNREFUSED',
+  connectionreset: 'ECONNRESET',
+  failed: 'socket hang up',
+};
+
+/**
+ * Request before it is matched: no path parameters yet
+ */
+type IncomingRequest = Omit<MockRequest, 'params' | 'path' | 'query'>;
+
+/**
+ * Sleeps for the given time
+ * @param ms - Delay in milliseconds
+ */
+async function sleep(ms: number): Promise<void> {
+  await new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Parses a request body: JSON when possible, otherwise text
+ * @param data - Body as sent
+ */
+function parseBody(data: unknown): unknown {
+  const text = Buffer.isBuffer(data) ? data.toString('utf-8') : data;
+  if (typeof text !== 'string') {
+    return text;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Lower-cases header names
+ * @param headers - Headers as given
+ */
+function lowerCaseHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.entries(headers).reduce<Record<string, string>>((lowerCased, [name, value]) => {
+    lowerCased[name.toLowerCase()] = value;
+    return lowerCased;
+  }, {});
+}
+
+/**
+ * Mocked response in the form of a recording, body encoded by its type
+ * @param response - Mocked response
+ * @param url - Requested URL
+ */
+function toRecordedResponse(response: MockResponse, url: string): RecordedResponse {
+  const status = response.status ?? 200;
+  const { body } = response;
+  const recorded = { url, status, statusText: STATUS_CODES[status] ?? '' };
+  const headers = lowerCaseHeaders(response.headers);
+  if (Buffer.isBuffer(body)) {
+    return { ...recorded, headers, body: body.toString('base64'), encoding: 'base64' };
+  }
+  if (typeof body === 'string' || body === undefined) {
+    const contentType = { 'content-type': 'text/plain; charset=utf-8' };
+    return {
+      ...recorded,
+      headers: { ...contentType, ...headers },
+      body: body ?? '',
+      encoding: 'text',
+    };
+  }
+  const contentType = { 'content-type': 'application/json; charset=utf-8' };
+  return { ...recorded, headers: { ...contentType, ...headers }, body, encoding: 'json' };
+}
+
+/**
+ * Mocked routes of a test
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class MockScenario {
+  /** Routes in the order they were declared */
+  readonly routes: MockRoute[] = [];
+
+  private readonly basePath: string;
+
+  /**
+   * @param options - Base URL route paths are relative to
+   */
+  constructor(options: { baseURL?: string } = {}) {
+    this.basePath = options.baseURL ? new URL(options.baseURL).pathname.replace(/\/$/, '') : '';
+  }
+
+  /**
+   * Declares a route
+   * @param method - HTTP method, `*` for any
+   * @param path - Path template relative to the base URL, e.g. `/posts/:id`
+   */
+  on(method: string, path: string): MockRoute {
+    const route = new MockRoute(method, path);
+    this.routes.push(route);
+    return route;
+  }
+
+  /**
+   * Declares the routes of a scenario definition
+   * @param definition - Scenario, e.g. `MOCK_SCENARIOS.RATE_LIMITED`
+   */
+  load(definition: MockScenarioDefinition): this {
+    definition.routes.forEach(({ method, path, query, body, responses }) => {
+      const route = this.on(method, path);
+      if (query) {
+        route.withQuery(query);
+      }
+      if (body) {
+        route.withBody(body);
+      }
+      responses.forEach(({ times, ...response }) => {
+        route.reply(() => response);
+        if (times !== undefined) {
+          route.times(times);
+        }
+      });
+    });
+    console.log(
+      `🎭 Loaded mock scenario ${definition.name} (${definition.routes.length} route(s)): ${definition.description}`,
+    );
+    return this;
+  }
+
+  /**
+   * Answers a request with the latest route that matches it
+   * @param request - Incoming request
+   * @returns Mocked response, undefined when no route matches
+   */
+  async handle(request: IncomingRequest): Promise<MockResponse | undefined> {
+    const { pathname, searchParams } = new URL(request.url);
+    const path =
+      this.basePath && pathname.startsWith(this.basePath)
+        ? pathname.slice(this.basePath.length)
+        : pathname;
+    const unmatched = { ...request, path, query: Object.fromEntries(searchParams) };
+    const route = [...this.routes].reverse().find(candidate => candidate.match(unmatched));
+    if (!route) {
+      return undefined;
+    }
+    const response = await route.respond({ ...unmatched, params: route.match(unmatched) ?? {} });
+    if (response.delay) {
+      await sleep(response.delay);
+    }
+    return response;
+  }
+
+  /**
+   * Answers the matching requests of a browser page; others continue to the next handler
+   * @param page - Page to route
+   */
+  async install(page: Page): Promise<void> {
+    await page.route('**/*', async route => {
+      const response = await this.handle(MockScenario.fromBrowserRequest(route.request()));
+      if (!response) {
+        await route.fallback();
+      } else if (response.abort) {
+        await route.abort(response.abort);
+      } else {
+        const recorded = toRecordedResponse(response, route.request().url());
+        const body = await new ReplayedResponse(recorded).body();
+        await route.fulfill({ status: recorded.status, headers: recorded.headers, body });
+      }
+    });
+  }
+
+  /**
+   * Incoming request of a browser page
+   * @param request - Routed request
+   */
+  private static fromBrowserRequest(request: Request): IncomingRequest {
+    return {
+      method: request.method(),
+      url: request.url(),
+      headers: request.headers(),
+      body: parseBody(request.postData() ?? undefined),
+    };
+  }
+}
+
+/**
+ * Wraps a request context so that the requests a scenario matches are answered by it
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {MockScenario} mock - Mocked routes; routes may be added after wrapping
+ * @param {string} [baseURL] - Base URL relative requests are resolved against
+ * @returns {APIRequestContext} Mocking context
+ */
+export function withMocks(
+  context: APIRequestContext,
+  mock: MockScenario,
+  baseURL?: string,
+): APIRequestContext {
+  return interceptRequests(context, async (target, url, request: InterceptedRequest) => {
+    const href = resolveRequestUrl(url, request, baseURL);
+    const response = await mock.handle({
+      method: request.method,
+      url: href,
+      headers: lowerCaseHeaders(request.headers),
+      body: parseBody(request.data),
+    });
+    if (!response) {
+      return target.fetch(url, request);
+    }
+    if (response.abort) {
+      throw new Error(`${request.method} ${href}: mocked ${ABORT_ERRORS[response.abort]}`);
+    }
+    return new ReplayedResponse(toRecordedResponse(response, href), href);
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Mock Scenario Types
+ *
+ * Requests seen by mocked routes, the responses they serve and the definitions of loadable scenarios
+ */
+
+/**
+ * Request as seen by a mocked route
+ */
+export interface MockRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** Absolute URL, query included */
+  url: string;
+  /** Path relative to the base URL, e.g. `/posts/1` */
+  path: string;
+  /** Path parameters of the route, e.g. `{ id: '1' }` for `/posts/:id` */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  /** Per-request headers (lower-case names) */
+  headers: Record<string, string>;
+  /** Parsed JSON body, the raw text when it is not JSON, undefined without a body */
+  body: unknown;
+}
+
+/**
+ * How a mocked network failure surfaces, named like Playwright's `route.abort()` error codes
+ */
+export type MockAbortReason = 'timedout' | 'connectionrefused' | 'connectionreset' | 'failed';
+
+/**
+ * Response served by a mocked route
+ */
+export interface MockResponse {
+  /** 200 by default */
+  status?: number;
+  /** Strings and buffers are sent as they are, anything else as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Milliseconds to wait before responding */
+  delay?: number;
+  /** Fail the request like a network error instead of responding */
+  abort?: MockAbortReason;
+}
+
+/**
+ * Builds the response of a request, e.g. from its path parameters or body
+ */
+export type MockResponder = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * Matches request bodies: an object every field of which the body must contain, or a predicate
+ */
+export type MockBodyMatcher = Record<string, unknown> | ((body: unknown) => boolean);
+
+/**
+ * Route of a loadable scenario
+ */
+export interface MockRouteDefinition {
+  /** HTTP method, `*` for any */
+  method: string;
+  /** Path template: `:name` matches one segment, `*` anything */
+  path: string;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+  /** Served in order; each `times` times (once by default), the last one for good unless limited */
+  responses: Array<MockResponse & { times?: number }>;
+}
+
+/**
+ * Named set of routes, loaded with `mock.load(MOCK_SCENARIOS.RATE_LIMITED)`
+ */
+export interface MockScenarioDefinition {
+  name: string;
+  description: string;
+  routes: MockRouteDefinition[];
+}
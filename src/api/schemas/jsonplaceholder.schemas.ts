@@ -466,3 +466,13 @@ export type JsonPlaceholderArrayResponse =
   | PhotoResponse[]
   | TodoResponse[]
   | UserResponse[];
+
+// Record type per `JSONPLACEHOLDER_API.ENDPOINTS` resource, used by the generated REST client
+export interface JsonPlaceholderModels {
+  POSTS: PostResponse;
+  COMMENTS: CommentResponse;
+  ALBUMS: AlbumResponse;
+  PHOTOS: PhotoResponse;
+  TODOS: TodoResponse;
+  USERS: UserResponse;
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Schema Formatter - Human-readable schema violations with payload snippets
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Raw Ajv errors (`instancePath`, `keyword`, `params`) are hard to read in a test report.
+ * {@link toViolations} turns them into {@link SchemaViolation}s carrying a JSON path such as
+ * `$[3].address.zipcode`, the expected constraint and the value actually received.
+ * {@link formatViolations} groups them per offending record with a snippet of its payload, and
+ * {@link expectedShape} rebuilds the payload with every offending value replaced by its
+ * constraint, so that a diff against the received payload shows exactly what is wrong.
+ *
+ * @example
+ * ```typescript
+ * const violations = toViolations(validate.errors ?? [], post);
+ * console.log(formatViolations(violations, post));
+ * // $: {"id":"1","title":"","body":"b","userId":1}
+ * //   ✗ $.id: expected integer, received "1" (string)
+ * //   ✗ $.title: expected at least 1 characters, received "" (string)
+ * ```
+ */
+
+import type { ErrorObject } from 'ajv';
+
+import type {
+  ConstraintDescriber,
+  JsonPathSegments,
+  SchemaViolation,
+} from '@api/schemas/schema.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+type ErrorParams = Record<string, unknown>;
+
+/**
+ * Expected value per Ajv keyword; other keywords fall back to the Ajv message
+ */
+const EXPECTATIONS: Record<string, ConstraintDescriber> = {
+  type: params => String(params.type),
+  required: () => 'required property',
+  additionalProperties: () => 'no additional property',
+  enum: params => `one of ${JSON.stringify(params.allowedValues)}`,
+  const: params => JSON.stringify(params.allowedValue),
+  format: params => `format "${String(params.format)}"`,
+  pattern: params => `pattern /${String(params.pattern)}/`,
+  minLength: params => `at least ${String(params.limit)} characters`,
+  maxLength: params => `at most ${String(params.limit)} characters`,
+  minItems: params => `at least ${String(params.limit)} items`,
+  maxItems: params => `at most ${String(params.limit)} items`,
+  minimum: params => `>= ${String(params.limit)}`,
+  maximum: params => `<= ${String(params.limit)}`,
+  exclusiveMinimum: params => `> ${String(params.limit)}`,
+  exclusiveMaximum: params => `< ${String(params.limit)}`,
+};
+
+/**
+ * Shortens a text to the snippet length
+ * @param text - Text to shorten
+ */
+function snippet(text: string): string {
+  const max = FRAMEWORK_CONSTANTS.SCHEMAS.SNIPPET_LENGTH;
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/**
+ * Renders path segments, e.g. `$[3].address["zip code"]`
+ * @param segments - Property names and array indexes
+ */
+export function jsonPath(segments: JsonPathSegments): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') {
+      return `${path}[${segment}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(segment)
+      ? `${path}.${segment}`
+      : `${path}[${JSON.stringify(segment)}]`;
+  }, '$');
+}
+
+/**
+ * Reads the value at a path, undefined when it does not exist
+ * @param data - Payload
+ * @param segments - Path segments
+ */
+export function valueAt(data: unknown, segments: JsonPathSegments): unknown {
+  return segments.reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === 'object'
+        ? (value as Record<string | number, unknown>)[segment]
+        : undefined,
+    data,
+  );
+}
+
+/**
+ * Describes a received value, e.g. `"1" (string)`
+ * @param value - Received value
+ */
+export function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'missing';
+  }
+  let type: string = typeof value;
+  if (value === null) {
+    type = 'null';
+  } else if (Array.isArray(value)) {
+    type = 'array';
+  }
+  return `${snippet(JSON.stringify(value))} (${type})`;
+}
+
+/**
+ * Converts a JSON pointer to path segments, using the payload to tell indexes from names
+ * @param pointer - Ajv `instancePath`, e.g. `/3/id`
+ * @param data - Payload the pointer refers to
+ */
+function pointerSegments(pointer: string, data: unknown): JsonPathSegments {
+  const tokens = pointer
+    .split('/')
+    .slice(1)
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  return tokens.reduce<JsonPathSegments>((segments, token) => {
+    const parent = valueAt(data, segments);
+    return [...segments, Array.isArray(parent) ? Number(token) : token];
+  }, []);
+}
+
+/**
+ * Converts Ajv errors to violations
+ * @param errors - Errors of a failed validation
+ * @param data - Validated payload
+ * @param basePath - Path of the payload inside a larger one, e.g. `[3]` for an array item
+ */
+export function toViolations(
+  errors: ErrorObject[],
+  data: unknown,
+  basePath: JsonPathSegments = [],
+): SchemaViolation[] {
+  return errors.map(error => {
+    const params = error.params as ErrorParams;
+    const property = params.missingProperty ?? params.additionalProperty;
+    const segments = pointerSegments(error.instancePath, data);
+    if (typeof property === 'string') {
+      segments.push(property);
+    }
+    const expectation = EXPECTATIONS[error.keyword] as ConstraintDescriber | undefined;
+    return {
+      path: jsonPath([...basePath, ...segments]),
+      segments: [...basePath, ...segments],
+      keyword: error.keyword,
+      expected: expectation ? expectation(params) : (error.message ?? error.keyword),
+      actual: describeValue(valueAt(data, segments)),
+    };
+  });
+}
+
+/**
+ * Renders a violation on one line
+ * @param violation - Violation to render
+ */
+export function describeViolation(violation: SchemaViolation): string {
+  return `${violation.path}: expected ${violation.expected}, received ${violation.actual}`;
+}
+
+/**
+ * Renders violations grouped per offending record, with a snippet of each record
+ *
+ * @description
+ * Records are the items of an array payload, or the payload itself. The first
+ * `SCHEMAS.MAX_REPORTED_ITEMS` records are shown; the others are counted.
+ *
+ * @param {SchemaViolation[]} violations - Violations to render
+ * @param {unknown} data - Validated payload
+ * @returns {string} Multi-line report
+ */
+export function formatViolations(violations: SchemaViolation[], data: unknown): string {
+  const records = new Map<string, { segments: JsonPathSegments; lines: string[] }>();
+  violations.forEach(violation => {
+    const segments = Array.isArray(data) ? violation.segments.slice(0, 1) : [];
+    const path = jsonPath(segments);
+    const record = records.get(path) ?? { segments, lines: [] };
+    record.lines.push(`  ✗ ${describeViolation(violation)}`);
+    records.set(path, record);
+  });
+
+  const shown = [...records.entries()].slice(0, FRAMEWORK_CONSTANTS.SCHEMAS.MAX_REPORTED_ITEMS);
+  const lines = shown.map(([path, record]) => {
+    const value = valueAt(data, record.segments);
+    const payload = value === undefined ? 'undefined' : snippet(JSON.stringify(value));
+    return [`${path}: ${payload}`, ...record.lines].join('\n');
+  });
+  const hidden = records.size - shown.length;
+  return hidden > 0 ? [...lines, `… ${hidden} more failing records`].join('\n') : lines.join('\n');
+}
+
+/**
+ * Rebuilds the payload as the schema expects it
+ *
+ * @description
+ * Offending values are replaced by `<expected>` placeholders, missing properties are added and
+ * additional ones removed, so that diffing the result against the payload highlights the
+ * violations only.
+ *
+ * @param {unknown} data - Validated payload
+ * @param {SchemaViolation[]} violations - Its violations
+ * @returns {unknown} Expected payload
+ */
+export function expectedShape(data: unknown, violations: SchemaViolation[]): unknown {
+  if (violations.some(violation => violation.segments.length === 0)) {
+    return `<${violations.map(violation => violation.expected).join(', ')}>`;
+  }
+  const expected: unknown = data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+  violations.forEach(({ segments, keyword, expected: constraint }) => {
+    const parent = valueAt(expected, segments.slice(0, -1));
+    if (parent === null || typeof parent !== 'object') {
+      return;
+    }
+    const key = segments[segments.length - 1];
+    const record = parent as Record<string | number, unknown>;
+    if (keyword === 'additionalProperties') {
+      delete record[key];
+    } else {
+      record[key] = `<${constraint}>`;
+    }
+  });
+  return expected;
+}
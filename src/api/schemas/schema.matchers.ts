@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Schema Matchers - `expect(body).toMatchSchema(name)` for registered schemas
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Extends Playwright's `expect` with `toMatchSchema`, which validates a payload against a
+ * schema of the {@link schemaRegistry}. A failure lists every violation with its JSON path,
+ * expected and received value, followed by an Expected/Received diff in which the expected
+ * side is the payload with each offending value replaced by its constraint.
+ *
+ * The API fixtures re-export this `expect`, so specs importing `expect` from a fixture get the
+ * matcher without further setup.
+ *
+ * @example
+ * ```typescript
+ * import { expect } from '@fixtures/api/jsonplaceholder.fixture';
+ *
+ * expect(post).toMatchSchema('post');
+ * expect(todos).toMatchSchema('todo', { array: true });
+ * expect(legacyPost).toMatchSchema('post', { version: '1.0.0' });
+ * expect(error).not.toMatchSchema('post');
+ * ```
+ */
+
+import { expect as baseExpect } from '@playwright/test';
+
+import { expectedShape, formatViolations } from '@api/schemas/schema.formatter';
+import { schemaRegistry } from '@api/schemas/schema.registry';
+import type { SchemaCheckOptions } from '@api/schemas/schema.types';
+
+/**
+ * Playwright `expect` with the schema matchers
+ */
+export const expect = baseExpect.extend({
+  /**
+   * Validates a payload against a registered schema
+   * @param received - Payload, usually a parsed response body
+   * @param name - Schema name, e.g. `post`
+   * @param options - Version (newest when omitted) and whether to validate array items
+   */
+  toMatchSchema(received: unknown, name: string, options: SchemaCheckOptions = {}) {
+    const { version } = schemaRegistry.get(name, options);
+    const schemaLabel = `${name}@${version}${options.array ? '[]' : ''}`;
+    const violations = schemaRegistry.violations(name, received, options);
+    const pass = violations.length === 0;
+    const hint = this.utils.matcherHint('toMatchSchema', undefined, schemaLabel, {
+      isNot: this.isNot,
+      promise: this.promise,
+    });
+
+    const message = (): string =>
+      pass
+        ? `${hint}\n\nExpected: not to match ${schemaLabel}\nReceived: ${this.utils.printReceived(received)}`
+        : [
+            hint,
+            formatViolations(violations, received),
+            this.utils.printDiffOrStringify(
+              expectedShape(received, violations),
+              received,
+              'Expected',
+              'Received',
+              false,
+            ),
+          ].join('\n\n');
+
+    return {
+      pass,
+      message,
+      name: 'toMatchSchema',
+      expected: schemaLabel,
+      actual: received,
+    };
+  },
+});
@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Schema Registry - Versioned JSON schemas with validators compiled once per worker
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Schemas are registered by name and version, and validated with a single
+ * {@link SchemaRegistry.validate} for records and {@link SchemaRegistry.validateArray} for
+ * collections of any registered schema. Validators are compiled by one shared Ajv instance on
+ * first use and cached for the lifetime of the worker, so fixtures and clients can validate
+ * freely without recompiling. Without a version the newest registered one is used.
+ *
+ * Failures raise a {@link SchemaValidationError} whose message lists every violation as a JSON
+ * path with the expected and received value (see `schema.formatter.ts`).
+ *
+ * {@link schemaRegistry} is the worker-wide registry and starts out with the JSONPlaceholder
+ * schemas (`post`, `comment`, `album`, `photo`, `todo`, `user`, `error`) at version `1.0.0`.
+ *
+ * @example
+ * ```typescript
+ * schemaRegistry.validate('post', post);
+ * schemaRegistry.validateArray('todo', todos);
+ *
+ * schemaRegistry.register('post', POST_V2_SCHEMA, { version: '2.0.0' });
+ * schemaRegistry.validate('post', post, { version: '1.0.0' }); // pinned
+ * schemaRegistry.validate('post', post); // newest: 2.0.0
+ * ```
+ */
+
+import Ajv, { type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+
+import { JSONPLACEHOLDER_SCHEMA } from '@api/schemas/jsonplaceholder.schemas';
+import {
+  describeViolation,
+  formatViolations,
+  jsonPath,
+  toViolations,
+} from '@api/schemas/schema.formatter';
+import type {
+  JsonPathSegments,
+  RegisteredSchema,
+  SchemaCheckOptions,
+  SchemaVersionOptions,
+  SchemaViolation,
+} from '@api/schemas/schema.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const compiledSchemas = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Compiles a schema with the worker's Ajv instance, once per schema object
+ * @param schema - JSON schema
+ */
+export function compileSchema(schema: object): ValidateFunction {
+  let validate = compiledSchemas.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    compiledSchemas.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * Validates data against a schema
+ * @param schema - JSON schema
+ * @param data - Data to validate
+ * @param basePath - Path of the data inside a larger payload
+ * @returns Violations, empty when valid
+ */
+export function schemaViolations(
+  schema: object,
+  data: unknown,
+  basePath: JsonPathSegments = [],
+): SchemaViolation[] {
+  const validate = compileSchema(schema);
+  return validate(data) ? [] : toViolations(validate.errors ?? [], data, basePath);
+}
+
+/**
+ * Validates data against a schema
+ * @param schema - JSON schema
+ * @param data - Data to validate
+ * @returns Violations as `$.path: expected …, received …`, empty when valid
+ */
+export function schemaErrors(schema: object, data: unknown): string[] {
+  return schemaViolations(schema, data).map(describeViolation);
+}
+
+/**
+ * Compares two dot-separated versions numerically
+ * @param left - First version
+ * @param right - Second version
+ */
+function compareVersions(left: string, right: string): number {
+  const leftParts = left.split('.').map(Number);
+  const rightParts = right.split('.').map(Number);
+  for (let i = 0; i < Math.max(leftParts.length, rightParts.length); i++) {
+    const difference = (leftParts[i] ?? 0) - (rightParts[i] ?? 0);
+    if (difference !== 0) {
+      return Number.isNaN(difference) ? left.localeCompare(right) : difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Raised when data does not match a registered schema
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class SchemaValidationError extends Error {
+  readonly schemaName: string;
+  readonly version: string;
+  /** Every violation, including those of array items beyond the reported ones */
+  readonly violations: SchemaViolation[];
+
+  constructor(registered: RegisteredSchema, violations: SchemaViolation[], data: unknown) {
+    const count = violations.length === 1 ? '1 violation' : `${violations.length} violations`;
+    super(
+      `${registered.name}@${registered.version} schema validation failed (${count}):\n${formatViolations(violations, data)}`,
+    );
+    this.name = 'SchemaValidationError';
+    this.schemaName = registered.name;
+    this.version = registered.version;
+    this.violations = violations;
+  }
+
+  /** Violations as `$.path: expected …, received …` */
+  get errors(): string[] {
+    return this.violations.map(describeViolation);
+  }
+}
+
+/**
+ * Named, versioned JSON schemas with cached validators
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class SchemaRegistry {
+  private readonly schemas = new Map<string, Map<string, object>>();
+
+  /**
+   * Registers a schema
+   * @param name - Schema name, e.g. `post`
+   * @param schema - JSON schema
+   * @param options - Version, `1.0.0` when omitted
+   * @throws {Error} When a different schema is already registered under the name and version
+   */
+  register(name: string, schema: object, options: SchemaVersionOptions = {}): this {
+    const version = options.version ?? FRAMEWORK_CONSTANTS.SCHEMAS.DEFAULT_VERSION;
+    const versions = this.schemas.get(name) ?? new Map<string, object>();
+    const existing = versions.get(version);
+    if (existing && existing !== schema) {
+      throw new Error(`Schema ${name}@${version} is already registered`);
+    }
+    versions.set(version, schema);
+    this.schemas.set(name, versions);
+    return this;
+  }
+
+  /**
+   * Registers several schemas under the same version
+   * @param schemas - Schemas by name, e.g. the `$defs` of a schema document
+   * @param options - Version, `1.0.0` when omitted
+   */
+  registerAll(schemas: Record<string, object>, options: SchemaVersionOptions = {}): this {
+    Object.entries(schemas).forEach(([name, schema]) => this.register(name, schema, options));
+    return this;
+  }
+
+  /** Registered schema names */
+  get names(): string[] {
+    return [...this.schemas.keys()].sort();
+  }
+
+  /**
+   * Registered versions of a schema, oldest first
+   * @param name - Schema name
+   */
+  versions(name: string): string[] {
+    return [...(this.schemas.get(name)?.keys() ?? [])].sort(compareVersions);
+  }
+
+  /**
+   * Tells whether a schema (and version) is registered
+   * @param name - Schema name
+   * @param options - Version, any when omitted
+   */
+  has(name: string, options: SchemaVersionOptions = {}): boolean {
+    const versions = this.schemas.get(name);
+    return options.version === undefined
+      ? versions !== undefined
+      : !!versions?.has(options.version);
+  }
+
+  /**
+   * Looks up a schema
+   * @param name - Schema name
+   * @param options - Version, newest when omitted
+   * @throws {Error} When the schema or version is not registered
+   */
+  get(name: string, options: SchemaVersionOptions = {}): RegisteredSchema {
+    const versions = this.schemas.get(name);
+    if (!versions) {
+      throw new Error(`Unknown schema "${name}". Registered: ${this.names.join(', ')}`);
+    }
+    const known = this.versions(name);
+    const version = options.version ?? known[known.length - 1];
+    const schema = versions.get(version);
+    if (!schema) {
+      throw new Error(`Unknown version ${name}@${version}. Registered: ${known.join(', ')}`);
+    }
+    return { name, version, schema };
+  }
+
+  /**
+   * Validates data without throwing
+   * @param name - Schema name
+   * @param data - Data to validate
+   * @param options - Version (newest when omitted) and whether to validate array items
+   * @returns Violations, empty when valid
+   */
+  violations(name: string, data: unknown, options: SchemaCheckOptions = {}): SchemaViolation[] {
+    const { schema } = this.get(name, options);
+    if (!options.array) {
+      return schemaViolations(schema, data);
+    }
+    if (!Array.isArray(data)) {
+      const actual = data === null ? 'null' : typeof data;
+      return [{ path: jsonPath([]), segments: [], keyword: 'type', expected: 'array', actual }];
+    }
+    // Every item is checked so that the error covers all failing records, not just the first
+    return data.reduce<SchemaViolation[]>(
+      (all, item: unknown, index) => all.concat(schemaViolations(schema, item, [index])),
+      [],
+    );
+  }
+
+  /**
+   * Validates data without throwing
+   * @param name - Schema name
+   * @param data - Data to validate
+   * @param options - Version (newest when omitted) and whether to validate array items
+   * @returns Violations as `$.path: expected …, received …`, empty when valid
+   */
+  errors(name: string, data: unknown, options: SchemaCheckOptions = {}): string[] {
+    return this.violations(name, data, options).map(describeViolation);
+  }
+
+  /**
+   * Validates a record
+   * @param name - Schema name
+   * @param data - Data to validate
+   * @param options - Version, newest when omitted
+   * @throws {SchemaValidationError} When the data does not match
+   */
+  validate(name: string, data: unknown, options: SchemaCheckOptions = {}): true {
+    const violations = this.violations(name, data, options);
+    if (violations.length > 0) {
+      throw new SchemaValidationError(this.get(name, options), violations, data);
+    }
+    return true;
+  }
+
+  /**
+   * Validates every item of a collection against a record schema
+   * @param name - Schema name of one item
+   * @param data - Array to validate
+   * @param options - Version, newest when omitted
+   * @throws {SchemaValidationError} When the data is not an array or items do not match
+   */
+  validateArray(name: string, data: unknown, options: SchemaVersionOptions = {}): true {
+    return this.validate(name, data, { ...options, array: true });
+  }
+}
+
+/**
+ * Worker-wide registry, preloaded with the JSONPlaceholder schemas
+ */
+export const schemaRegistry = new SchemaRegistry().registerAll(JSONPLACEHOLDER_SCHEMA.$defs);
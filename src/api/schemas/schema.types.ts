@@ -0,0 +1,55 @@
+/**
+ * Schema Registry Types
+ *
+ * Shapes shared by the schema registry, the violation formatter and the schema matchers
+ */
+
+/**
+ * Options of a registration or validation
+ */
+export interface SchemaVersionOptions {
+  /** Semantic version, e.g. `2.1.0`; validation defaults to the newest registered version */
+  version?: string;
+}
+
+/**
+ * Options of a validation
+ */
+export interface SchemaCheckOptions extends SchemaVersionOptions {
+  /** Validates every item of an array payload against the record schema */
+  array?: boolean;
+}
+
+/**
+ * A schema registered under a name and version
+ */
+export interface RegisteredSchema {
+  name: string;
+  version: string;
+  schema: object;
+}
+
+/**
+ * Property names and array indexes leading to a value
+ */
+export type JsonPathSegments = Array<string | number>;
+
+/**
+ * One schema violation
+ */
+export interface SchemaViolation {
+  /** JSON path of the offending value, e.g. `$[3].id` */
+  path: string;
+  segments: JsonPathSegments;
+  /** Ajv keyword, e.g. `type` or `required` */
+  keyword: string;
+  /** Constraint the value breaks, e.g. `integer` or `format "email"` */
+  expected: string;
+  /** Received value as JSON with its type, `missing` when absent */
+  actual: string;
+}
+
+/**
+ * Describes the constraint of an Ajv error from its `params`
+ */
+export type ConstraintDescriber = (params: Record<string, unknown>) => string;
@@ -0,0 +1,487 @@
+/**
+ * @fileoverview Cassette - Recording and offline replay of the HTTP exchanges of a test
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * A {@link Cassette} holds the request/response pairs of one test in
+ * `data/fixtures/cassettes/<spec path>/<test title>.json`. {@link withCassette} wraps an
+ * `APIRequestContext` according to the VCR mode (`E2E_VCR_MODE`):
+ * - `record` - requests go to the network and every exchange is added to the cassette, which is
+ *   written by {@link Cassette.eject} when the test ends
+ * - `replay` - requests are answered from the cassette and never reach the network; a request
+ *   without an unused matching recording raises {@link CassetteMismatchError}
+ * - `passthrough` (default) - the context is used unchanged
+ *
+ * Recordings are matched on the request parts listed in `E2E_VCR_MATCH` (default
+ * `method,url,body`; `header:<name>` adds a request header). URLs are stored without origin,
+ * so a cassette recorded against the public API replays against any base URL. Each recording
+ * answers one request, in recording order for identical requests.
+ *
+ * @example
+ * ```bash
+ * E2E_VCR_MODE=record npm run test:api   # refresh the cassettes
+ * E2E_VCR_MODE=replay E2E_FEATURES__ENABLE_MOCKING=false npm run test:api   # fully offline
+ * E2E_VCR_MODE=replay E2E_VCR_MATCH=method,url npm run test:api   # ignore request bodies
+ * ```
+ *
+ * ```typescript
+ * const cassette = Cassette.forTest(testInfo, { match: ['method', 'url', 'header:accept'] });
+ * const context = withCassette(await request.newContext(), cassette);
+ * // ... requests ...
+ * cassette.eject();
+ * ```
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+
+import { interceptRequests } from '@api/clients/request-interceptor';
+import type { FetchOptions, InterceptedRequest, RequestTarget } from '@api/clients/request.types';
+import type {
+  CassetteFile,
+  CassetteInteraction,
+  RecordedRequest,
+  RecordedResponse,
+  VcrMatcher,
+  VcrMode,
+  VcrOptions,
+} from '@api/vcr/vcr.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { Secrets } from '@utils/secrets/secrets.manager';
+
+const VCR_MODES: VcrMode[] = ['record', 'replay', 'passthrough'];
+const MATCHER_PATTERN = /^(method|url|body|header:.+)$/;
+const TEXT_CONTENT_PATTERN = /json|text|xml|javascript|x-www-form-urlencoded/i;
+const URL_BASE = 'http://vcr.invalid';
+
+/**
+ * Error raised in replay mode when a request has no recording to answer it
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class CassetteMismatchError extends Error {
+  /** Normalized request that could not be answered */
+  readonly request: RecordedRequest;
+
+  constructor(message: string, request: RecordedRequest) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.request = request;
+  }
+}
+
+/**
+ * Serializes a value as JSON with sorted object keys
+ * @param value - Value to serialize
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.keys(nested)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, key) => {
+            sorted[key] = (nested as Record<string, unknown>)[key];
+            return sorted;
+          }, {})
+      : nested,
+  );
+}
+
+/**
+ * Canonical form of the request body
+ * @param request - Intercepted request
+ */
+function serializeBody(request: InterceptedRequest): string | undefined {
+  const payload: unknown = request.data ?? request.form ?? request.multipart;
+  if (payload === undefined) {
+    return undefined;
+  }
+  if (typeof payload === 'string') {
+    return payload;
+  }
+  return Buffer.isBuffer(payload) ? payload.toString('base64') : canonicalJson(payload);
+}
+
+/**
+ * Path and sorted query of a request, query parameters included
+ * @param target - Requested URL
+ * @param params - `params` option of the request
+ */
+function normalizeUrl(target: string, params: FetchOptions['params']): string {
+  const url = new URL(target, URL_BASE);
+  if (typeof params === 'string' || params instanceof URLSearchParams) {
+    new URLSearchParams(params).forEach((value, name) => url.searchParams.append(name, value));
+  } else if (params) {
+    Object.entries(params).forEach(([name, value]) => url.searchParams.append(name, String(value)));
+  }
+  url.searchParams.sort();
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Lower-cases header names and redacts credentials
+ * @param headers - Per-request headers
+ */
+function recordedHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const lowerCased: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    lowerCased[name.toLowerCase()] = value;
+  });
+  return Secrets.redactHeaders(lowerCased);
+}
+
+/**
+ * Normalizes an intercepted request for recording and matching
+ * @param target - URL or request passed to the context
+ * @param request - Intercepted request
+ */
+function toRecordedRequest(target: RequestTarget, request: InterceptedRequest): RecordedRequest {
+  return {
+    method: request.method,
+    url: normalizeUrl(typeof target === 'string' ? target : target.url(), request.params),
+    headers: recordedHeaders(request.headers),
+    body: serializeBody(request),
+  };
+}
+
+/**
+ * Stores a response body in its most readable form
+ * @param response - Received response
+ */
+async function toRecordedResponse(response: APIResponse): Promise<RecordedResponse> {
+  const headers = Secrets.redactHeaders(response.headers());
+  const buffer = await response.body();
+  const contentType = headers['content-type'] ?? '';
+  const recorded = {
+    url: response.url(),
+    status: response.status(),
+    statusText: response.statusText(),
+    headers,
+  };
+
+  if (buffer.length > 0 && !TEXT_CONTENT_PATTERN.test(contentType)) {
+    return { ...recorded, body: buffer.toString('base64'), encoding: 'base64' };
+  }
+  const text = buffer.toString('utf-8');
+  try {
+    return /json/i.test(contentType)
+      ? { ...recorded, body: JSON.parse(text) as unknown, encoding: 'json' }
+      : { ...recorded, body: text, encoding: 'text' };
+  } catch {
+    return { ...recorded, body: text, encoding: 'text' };
+  }
+}
+
+/**
+ * Response served from a recording, also used for mocked responses
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ReplayedResponse implements APIResponse {
+  private readonly recorded: RecordedResponse;
+  private readonly requestedUrl: string | undefined;
+  private readonly createdAt = Date.now();
+
+  constructor(recorded: RecordedResponse, requestedUrl?: string) {
+    this.recorded = recorded;
+    this.requestedUrl = requestedUrl;
+  }
+
+  async body(): Promise<Buffer> {
+    const { body, encoding } = this.recorded;
+    if (encoding === 'base64') {
+      return Buffer.from(String(body), 'base64');
+    }
+    return Buffer.from(encoding === 'json' ? JSON.stringify(body) : String(body), 'utf-8');
+  }
+
+  async text(): Promise<string> {
+    return (await this.body()).toString('utf-8');
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(await this.text()) as unknown;
+  }
+
+  async dispose(): Promise<void> {
+    // Nothing is held for replayed responses
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
+
+  headers(): Record<string, string> {
+    return { ...this.recorded.headers };
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.recorded.headers).map(([name, value]) => ({ name, value }));
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status < 300;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText;
+  }
+
+  url(): string {
+    return this.requestedUrl ?? this.recorded.url;
+  }
+
+  async securityDetails(): Promise<null> {
+    return null;
+  }
+
+  async serverAddr(): Promise<null> {
+    return null;
+  }
+
+  timing(): ReturnType<APIResponse['timing']> {
+    // No network phases happened; -1 marks them as unavailable like Playwright does
+    return {
+      startTime: this.createdAt,
+      domainLookupStart: -1,
+      domainLookupEnd: -1,
+      connectStart: -1,
+      secureConnectionStart: -1,
+      connectEnd: -1,
+      requestStart: -1,
+      responseStart: -1,
+      responseEnd: -1,
+    };
+  }
+}
+
+/**
+ * Recorded HTTP exchanges of one test
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class Cassette {
+  /** Cassette file path */
+  readonly file: string;
+  readonly options: VcrOptions;
+
+  private readonly test: string;
+  private interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<CassetteInteraction>();
+  private loaded = false;
+
+  constructor(file: string, test: string, options: VcrOptions) {
+    this.file = file;
+    this.test = test;
+    this.options = options;
+  }
+
+  /**
+   * Resolves the VCR options from `E2E_VCR_MODE` / `E2E_VCR_MATCH` and per-test overrides
+   * @param overrides - Options set with `apiTest.use({ vcr: { ... } })`
+   * @throws {Error} When the mode or a matcher is unknown
+   */
+  static resolveOptions(overrides: Partial<VcrOptions> = {}): VcrOptions {
+    const { MODE_ENV, MATCH_ENV, DEFAULT_MODE, DEFAULT_MATCH } = FRAMEWORK_CONSTANTS.VCR;
+    const mode = overrides.mode ?? process.env[MODE_ENV] ?? DEFAULT_MODE;
+    if (!(VCR_MODES as string[]).includes(mode)) {
+      throw new Error(`Unknown VCR mode "${mode}" (${MODE_ENV}); use ${VCR_MODES.join(', ')}`);
+    }
+    const match =
+      overrides.match ??
+      process.env[MATCH_ENV]?.split(',')
+        .map(matcher => matcher.trim())
+        .filter(Boolean) ??
+      DEFAULT_MATCH;
+    const unknown = match.filter(matcher => !MATCHER_PATTERN.test(matcher));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown VCR matcher(s) ${unknown.join(', ')} (${MATCH_ENV})`);
+    }
+    return { mode: mode as VcrMode, match: match as VcrMatcher[] };
+  }
+
+  /**
+   * Creates the cassette of a test, named after its spec file and title path
+   * @param testInfo - Test the cassette belongs to
+   * @param overrides - Per-test VCR options
+   */
+  static forTest(testInfo: TestInfo, overrides: Partial<VcrOptions> = {}): Cassette {
+    const { CASSETTE_DIR, MAX_FILE_NAME_LENGTH } = FRAMEWORK_CONSTANTS.VCR;
+    const specPath = path
+      .relative(testInfo.project.testDir, testInfo.file)
+      .replace(/\.(spec|test)\.[jt]s$/, '');
+    const titles = testInfo.titlePath.slice(1);
+    const slug = titles
+      .join(' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    // Truncated titles keep a hash of the full title so that similar long titles do not collide
+    const fileName =
+      slug.length > MAX_FILE_NAME_LENGTH
+        ? `${slug.slice(0, MAX_FILE_NAME_LENGTH - 9)}-${createHash('sha1').update(slug).digest('hex').slice(0, 8)}`
+        : slug;
+    return new Cassette(
+      path.join(CASSETTE_DIR, specPath, `${fileName}.json`),
+      titles.join(' › '),
+      Cassette.resolveOptions(overrides),
+    );
+  }
+
+  get mode(): VcrMode {
+    return this.options.mode;
+  }
+
+  /** Recordings not replayed yet */
+  get unused(): CassetteInteraction[] {
+    return this.interactions.filter(interaction => !this.used.has(interaction));
+  }
+
+  /**
+   * Adds an exchange to the cassette
+   * @param request - Normalized request
+   * @param response - Received response
+   */
+  async record(request: RecordedRequest, response: APIResponse): Promise<void> {
+    this.interactions.push({ request, response: await toRecordedResponse(response) });
+  }
+
+  /**
+   * Finds the first unused recording matching a request
+   * @param request - Normalized request
+   * @throws {CassetteMismatchError} When the cassette is missing or nothing matches
+   */
+  replay(request: RecordedRequest): CassetteInteraction {
+    this.load();
+    const match = this.interactions.find(
+      interaction =>
+        !this.used.has(interaction) && this.differences(interaction, request).length === 0,
+    );
+    if (!match) {
+      throw new CassetteMismatchError(this.mismatchMessage(request), request);
+    }
+    this.used.add(match);
+    return match;
+  }
+
+  /**
+   * Finishes the test: writes the recorded exchanges in record mode (tests without requests
+   * write nothing) and reports recordings that were never replayed in replay mode
+   */
+  eject(): void {
+    if (this.mode === 'replay' && this.loaded && this.unused.length > 0) {
+      console.warn(`⚠️ ${this.unused.length} recording(s) in ${this.file} were not replayed`);
+    }
+    if (this.mode !== 'record' || this.interactions.length === 0) {
+      return;
+    }
+    const cassette: CassetteFile = {
+      test: this.test,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(cassette, null, 2)}\n`, 'utf-8');
+    console.log(`📼 Recorded ${this.interactions.length} exchange(s) to ${this.file}`);
+  }
+
+  /**
+   * Reads the cassette file once
+   * @throws {CassetteMismatchError} When the file does not exist
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    if (!fs.existsSync(this.file)) {
+      throw new CassetteMismatchError(
+        `No cassette for "${this.test}" at ${this.file}; record it with ${FRAMEWORK_CONSTANTS.VCR.MODE_ENV}=record`,
+        { method: '', url: '', headers: {} },
+      );
+    }
+    const cassette = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as CassetteFile;
+    this.interactions = cassette.interactions;
+    this.loaded = true;
+  }
+
+  /**
+   * Matchers on which a recording differs from a request
+   * @param interaction - Recording
+   * @param request - Normalized request
+   */
+  private differences(interaction: CassetteInteraction, request: RecordedRequest): VcrMatcher[] {
+    const recorded = interaction.request;
+    return this.options.match.filter(matcher => {
+      if (matcher.startsWith('header:')) {
+        const name = matcher.slice('header:'.length).toLowerCase();
+        return recorded.headers[name] !== request.headers[name];
+      }
+      const key = matcher as 'method' | 'url' | 'body';
+      return recorded[key] !== request[key];
+    });
+  }
+
+  /**
+   * Explains why a request has no recording, listing the closest candidates
+   * @param request - Normalized request
+   */
+  private mismatchMessage(request: RecordedRequest): string {
+    const candidates = this.interactions
+      .map(interaction => ({ interaction, differences: this.differences(interaction, request) }))
+      .sort((a, b) => a.differences.length - b.differences.length)
+      .slice(0, 3)
+      .map(({ interaction, differences }) => {
+        const state = this.used.has(interaction)
+          ? 'already replayed'
+          : `differs in ${differences.join(', ')}`;
+        return `  - ${interaction.request.method} ${interaction.request.url} (${state})`;
+      });
+    return [
+      `No recording in ${this.file} matches ${request.method} ${request.url} (matching on ${this.options.match.join(', ')})`,
+      ...(candidates.length > 0
+        ? ['Closest recordings:', ...candidates]
+        : ['The cassette is empty']),
+      `Re-record with ${FRAMEWORK_CONSTANTS.VCR.MODE_ENV}=record or relax ${FRAMEWORK_CONSTANTS.VCR.MATCH_ENV}`,
+    ].join('\n');
+  }
+}
+
+/**
+ * Wraps a request context so that its exchanges are recorded or replayed
+ *
+ * @param {APIRequestContext} context - Context to wrap
+ * @param {Cassette} cassette - Cassette of the test
+ * @returns {APIRequestContext} The context itself in passthrough mode, otherwise a wrapper
+ */
+export function withCassette(context: APIRequestContext, cassette: Cassette): APIRequestContext {
+  if (cassette.mode === 'passthrough') {
+    return context;
+  }
+  return interceptRequests(context, async (target, url, request) => {
+    const recordedRequest = toRecordedRequest(url, request);
+    if (cassette.mode === 'replay') {
+      const { response } = cassette.replay(recordedRequest);
+      // Absolute requests keep their origin, relative ones report the recorded URL
+      const requested = typeof url === 'string' ? url : url.url();
+      return new ReplayedResponse(
+        response,
+        /^https?:/.test(requested) ? new URL(recordedRequest.url, requested).href : undefined,
+      );
+    }
+    const response = await target.fetch(url, request);
+    await cassette.record(recordedRequest, response);
+    return response;
+  });
+}
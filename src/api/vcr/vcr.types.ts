@@ -0,0 +1,61 @@
+/**
+ * VCR Types
+ *
+ * Recording modes, request matching and the cassette file format of recorded HTTP exchanges
+ */
+
+/**
+ * How `apiContext` treats the network
+ * - record: send requests and write every exchange to the test's cassette
+ * - replay: answer requests from the cassette without any network
+ * - passthrough: send requests, record nothing
+ */
+export type VcrMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Part of a request compared when looking up a recording
+ * `header:<name>` compares one request header (case-insensitive name)
+ */
+export type VcrMatcher = 'method' | 'url' | 'body' | `header:${string}`;
+
+export interface VcrOptions {
+  mode: VcrMode;
+  /** Request parts a recording must share with the request */
+  match: VcrMatcher[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query (sorted), without origin so that recordings survive base URL changes */
+  url: string;
+  /** Per-request headers (lower-case names); credentials are redacted */
+  headers: Record<string, string>;
+  /** Canonical request body: sorted-key JSON, text or base64 */
+  body?: string;
+}
+
+export interface RecordedResponse {
+  /** Absolute URL the response came from */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Parsed JSON, text or base64, see `encoding` */
+  body: unknown;
+  encoding: 'json' | 'text' | 'base64';
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface CassetteFile {
+  /** Title path of the test that recorded the cassette */
+  test: string;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
@@ -1,48 +1,90 @@
-import { test as base, type APIRequestContext, type Page, type Route } from '@playwright/test';
-import Ajv from 'ajv';
-import addFormats from 'ajv-formats';
+import type { APIRequestContext } from '@playwright/test';
 
 import { getEnvironmentConfig } from '@config/environment';
-import { JSON_SCHEMAS } from '@api/schemas/jsonplaceholder.schemas';
+import { test as base } from '@fixtures/common/feature-flags.fixture';
+import { RateLimiter, withRateLimit } from '@api/clients/rate-limiter';
+import { ApiCallLog, withCallLog, type ApiLogOptions } from '@api/clients/request-logger';
+import { ApiAttemptLog, withRetries } from '@api/clients/request-retry';
+import { withTiming } from '@api/clients/request-timing';
+import { ContractDriftDetector } from '@api/contracts/drift.detector';
+import { MockScenario, withMocks } from '@api/mocks/mock.scenario';
+import { PactConsumer } from '@api/contracts/pact.consumer';
+import { Cassette, withCassette } from '@api/vcr/cassette';
+import type { VcrOptions } from '@api/vcr/vcr.types';
+import { ResourceClient } from '@api/clients/resource.client';
+import { createRestClient } from '@api/clients/rest.client';
+import type { RestClient } from '@api/clients/rest.types';
+import {
+  JSON_SCHEMAS,
+  type AlbumResponse,
+  type CommentResponse,
+  type JsonPlaceholderModels,
+  type PhotoResponse,
+  type PostResponse,
+  type TodoResponse,
+  type UserResponse,
+} from '@api/schemas/jsonplaceholder.schemas';
+import {
+  schemaRegistry,
+  type SchemaRegistry,
+  type SchemaValidationError,
+} from '@api/schemas/schema.registry';
+import type { SchemaVersionOptions } from '@api/schemas/schema.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
 import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+import { Flags } from '@utils/flags/feature-flag.service';
+import { PerformanceBudgets } from '@utils/performance/performance.budgets';
+import { LoadRunner } from '@utils/performance/performance.load';
+import { PerformanceTracker } from '@utils/performance/performance.tracker';
+import type { PerformanceBudgetOptions } from '@utils/performance/performance.types';
 
 /**
  * Custom test fixtures for JSONPlaceholder API Testing
  * Provides pre-configured API context, schema validation, and utilities
  *
  * Features:
- * - Authenticated API context
- * - JSON Schema validation
+ * - Authenticated API context that retries transient failures per request
+ * - Client-side rate limiting shared by the tests of a worker (`jsonplaceholder.rateLimit`),
+ *   skipped against the local mock server
+ * - Recording and offline replay of every exchange (`E2E_VCR_MODE=record|replay`)
+ * - Request/response timeline (HTML, JSON, optionally cURL) attached to failed tests
+ * - Typed, schema-validated resource clients (`jsonPlaceholderClient.posts.get(1)`)
+ * - Generated methods for every declared endpoint (`jsonPlaceholderClient.endpoints.todos.getByUser({ userId: 1 })`)
+ * - JSON Schema validation against the worker's versioned schema registry
+ * - Contract drift detection against recorded baselines (`E2E_CONTRACT_MODE=update` refreshes them)
+ * - Consumer contracts: interactions declared with `pact.interaction()` are written to `data/fixtures/pacts/`
  * - Request/response helpers
- * - Mock data support
- * - Performance tracking
+ * - Composable mocked routes with response sequences, matchers and call verification (`mock.on()`,
+ *   `mock.load(MOCK_SCENARIOS.RATE_LIMITED)`)
+ * - Performance tracking: every client call timed with its network phases, percentiles,
+ *   per-endpoint budgets (`E2E_PERF_BUDGETS=fail` enforces them) and run-level metrics compared
+ *   with previous runs
+ * - Load tests: virtual users running a scenario against the local stand-in (`loadRunner.run()`)
  *
  * @example
  * ```typescript
  * import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
  *
  * apiTest('should get posts', async ({ jsonPlaceholderClient, schemaValidator }) => {
- *   const response = await jsonPlaceholderClient.getPosts();
- *   expect(response.status()).toBe(200);
+ *   const response = await jsonPlaceholderClient.endpoints.posts.getAll();
+ *   expect(response.status).toBe(200);
  *
- *   const posts = await response.json();
- *   schemaValidator.validatePostsArray(posts);
+ *   schemaValidator.validatePostsArray(response.body);
  * });
  * ```
  */
 
-/**
- * Mock Context for testing with controlled responses
- */
-interface MockContext {
-  mockSuccessResponse: (_pattern: string | RegExp, _options: any) => Promise<void>;
-  mockErrorResponse: (_pattern: string | RegExp, _options: any) => Promise<void>;
-  mockTimeout: (_pattern: string | RegExp, _delay?: number) => Promise<void>;
-  mockRawResponse: (_pattern: string | RegExp, _options: any) => Promise<void>;
-  mockSlowResponse: (_pattern: string | RegExp, _options: any) => Promise<void>;
-}
-
 interface JsonPlaceholderApiFixtures {
+  /** Per-test VCR overrides of `E2E_VCR_MODE` / `E2E_VCR_MATCH`, set with `apiTest.use({ vcr })` */
+  vcr: Partial<VcrOptions>;
+  /** Per-test overrides of `E2E_API_LOG` / `E2E_API_LOG_CURL`, set with `apiTest.use({ apiLog })` */
+  apiLog: Partial<ApiLogOptions>;
+  /** Consumer name of the contracts written by `pact`, set with `apiTest.use({ pactConsumer })` */
+  pactConsumer: string;
+  /** Per-test overrides of `E2E_PERF_BUDGETS` and budgets, set with `apiTest.use({ performanceBudget })` */
+  performanceBudget: Partial<PerformanceBudgetOptions>;
+  /** Throttle requests with the environment's `rateLimit`; the local mock server is never throttled */
+  rateLimit: boolean;
   /** API request context configured for JSONPlaceholder */
   apiContext: APIRequestContext;
   /** JSONPlaceholder API base URL */
@@ -53,379 +95,138 @@ interface JsonPlaceholderApiFixtures {
   jsonPlaceholderClient: JsonPlaceholderApiClient;
   /** Schema validator for response validation */
   schemaValidator: SchemaValidator;
+  /** Compares responses to the contract baselines in `data/fixtures/contracts/` */
+  contractDrift: ContractDriftDetector;
+  /** Declares the interactions this test relies on; written to the consumer's contract */
+  pact: PactConsumer;
   /** Performance tracker for response times */
   performanceTracker: PerformanceTracker;
-  /** Mock context for testing with controlled responses */
-  mockContext: MockContext;
+  /** Runs load profiles against the local JSONPlaceholder stand-in; skips the test otherwise */
+  loadRunner: LoadRunner;
+  /** Mocked routes answered before requests reach the network (`mock.on('GET', '/posts/:id').reply(500)`) */
+  mock: MockScenario;
 }
 
 /**
  * JSONPlaceholder API Client
  * Provides convenient methods for interacting with the JSONPlaceholder API
+ *
+ * Typed resource clients (`posts`, `comments`, ...) cover the CRUD operations of a resource.
+ * `endpoints` exposes every entry of `JSONPLACEHOLDER_API.ENDPOINTS`, nested and filtered ones
+ * included, as a method generated from the table. Both return parsed, schema-validated
+ * {@link ApiResult}s and throw {@link ApiError} on non-2xx responses; negative tests pass
+ * `{ throwOnError: false }` to inspect them.
  */
 class JsonPlaceholderApiClient {
-  private readonly context: APIRequestContext;
-  private readonly baseUrl: string;
+  readonly posts: ResourceClient<PostResponse>;
+  readonly comments: ResourceClient<CommentResponse>;
+  readonly albums: ResourceClient<AlbumResponse>;
+  readonly photos: ResourceClient<PhotoResponse>;
+  readonly todos: ResourceClient<TodoResponse>;
+  readonly users: ResourceClient<UserResponse>;
 
-  constructor(context: APIRequestContext, baseUrl: string) {
-    this.context = context;
-    this.baseUrl = baseUrl;
-  }
+  readonly endpoints: RestClient<typeof JSONPLACEHOLDER_API.ENDPOINTS, JsonPlaceholderModels>;
 
-  // Posts endpoints
-  async getPosts() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.POSTS.GET_ALL}`);
-  }
-
-  async getPost(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.POSTS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getPostComments(postId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.POSTS.GET_COMMENTS.replace(
-      '{id}',
-      String(postId),
-    );
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async createPost(data: { title: string; body: string; userId: number }) {
-    return this.context.post(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.POSTS.CREATE}`, {
-      headers: {
-        'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE,
-      },
-      data,
-    });
-  }
-
-  async updatePost(id: number, data: { id: number; title: string; body: string; userId: number }) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.POSTS.UPDATE.replace('{id}', String(id));
-    return this.context.put(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE,
-      },
-      data,
-    });
-  }
-
-  async patchPost(id: number, data: Partial<{ title: string; body: string; userId: number }>) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.POSTS.PATCH.replace('{id}', String(id));
-    return this.context.patch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE,
+  constructor(context: APIRequestContext, baseUrl: string) {
+    this.posts = new ResourceClient(context, baseUrl, 'POSTS', JSON_SCHEMAS.POST);
+    this.comments = new ResourceClient(context, baseUrl, 'COMMENTS', JSON_SCHEMAS.COMMENT);
+    this.albums = new ResourceClient(context, baseUrl, 'ALBUMS', JSON_SCHEMAS.ALBUM);
+    this.photos = new ResourceClient(context, baseUrl, 'PHOTOS', JSON_SCHEMAS.PHOTO);
+    this.todos = new ResourceClient(context, baseUrl, 'TODOS', JSON_SCHEMAS.TODO);
+    this.users = new ResourceClient(context, baseUrl, 'USERS', JSON_SCHEMAS.USER);
+
+    this.endpoints = createRestClient(context, baseUrl, {
+      endpoints: JSONPLACEHOLDER_API.ENDPOINTS,
+      schemas: {
+        POSTS: JSON_SCHEMAS.POST,
+        COMMENTS: JSON_SCHEMAS.COMMENT,
+        ALBUMS: JSON_SCHEMAS.ALBUM,
+        PHOTOS: JSON_SCHEMAS.PHOTO,
+        TODOS: JSON_SCHEMAS.TODO,
+        USERS: JSON_SCHEMAS.USER,
       },
-      data,
+      headers: { 'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE },
     });
   }
-
-  async deletePost(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.POSTS.DELETE.replace('{id}', String(id));
-    return this.context.delete(`${this.baseUrl}${endpoint}`);
-  }
-
-  // Comments endpoints
-  async getComments() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.COMMENTS.GET_ALL}`);
-  }
-
-  async getComment(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.COMMENTS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getCommentsByPost(postId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.COMMENTS.GET_BY_POST.replace(
-      '{postId}',
-      String(postId),
-    );
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  // Albums endpoints
-  async getAlbums() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.ALBUMS.GET_ALL}`);
-  }
-
-  async getAlbum(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.ALBUMS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getAlbumPhotos(albumId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.ALBUMS.GET_PHOTOS.replace(
-      '{id}',
-      String(albumId),
-    );
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  // Photos endpoints
-  async getPhotos() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.PHOTOS.GET_ALL}`);
-  }
-
-  async getPhoto(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.PHOTOS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  // Todos endpoints
-  async getTodos() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.TODOS.GET_ALL}`);
-  }
-
-  async getTodo(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.TODOS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getUserTodos(userId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.TODOS.GET_BY_USER.replace(
-      '{userId}',
-      String(userId),
-    );
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  // Users endpoints
-  async getUsers() {
-    return this.context.get(`${this.baseUrl}${JSONPLACEHOLDER_API.ENDPOINTS.USERS.GET_ALL}`);
-  }
-
-  async getUser(id: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.USERS.GET_BY_ID.replace('{id}', String(id));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getUserAlbums(userId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.USERS.GET_ALBUMS.replace('{id}', String(userId));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getUserTodosFromUser(userId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.USERS.GET_TODOS.replace('{id}', String(userId));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
-
-  async getUserPosts(userId: number) {
-    const endpoint = JSONPLACEHOLDER_API.ENDPOINTS.USERS.GET_POSTS.replace('{id}', String(userId));
-    return this.context.get(`${this.baseUrl}${endpoint}`);
-  }
 }
 
 /**
  * Schema Validator
- * Validates API responses against JSON Schema definitions
+ * Validates API responses against the schemas of the worker's {@link SchemaRegistry};
+ * failures raise a {@link SchemaValidationError} naming the schema version and failing paths
  */
 class SchemaValidator {
-  private ajv: Ajv;
-
-  constructor() {
-    this.ajv = new Ajv({ allErrors: true });
-    addFormats(this.ajv);
-
-    // Add individual schemas for each resource type
-    this.ajv.addSchema(JSON_SCHEMAS.POST, 'post');
-    this.ajv.addSchema(JSON_SCHEMAS.COMMENT, 'comment');
-    this.ajv.addSchema(JSON_SCHEMAS.USER, 'user');
-    this.ajv.addSchema(JSON_SCHEMAS.ALBUM, 'album');
-    this.ajv.addSchema(JSON_SCHEMAS.PHOTO, 'photo');
-    this.ajv.addSchema(JSON_SCHEMAS.TODO, 'todo');
+  private readonly registry: SchemaRegistry;
+
+  constructor(registry: SchemaRegistry = schemaRegistry) {
+    this.registry = registry;
   }
 
-  validatePost(data: unknown): boolean {
-    const validate = this.ajv.getSchema('post');
-    if (!validate) {
-      throw new Error('Post schema not found');
-    }
+  /**
+   * Validates a record against a registered schema, e.g. `validate('post', post)`
+   */
+  validate(name: string, data: unknown, options?: SchemaVersionOptions): boolean {
+    return this.registry.validate(name, data, options);
+  }
 
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(`Post schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`);
-    }
-    return true;
+  /**
+   * Validates every item of a collection, e.g. `validateArray('todo', todos)`
+   */
+  validateArray(name: string, data: unknown, options?: SchemaVersionOptions): boolean {
+    return this.registry.validateArray(name, data, options);
   }
 
-  validatePostsArray(data: unknown): boolean {
-    if (!Array.isArray(data)) {
-      throw new Error('Expected posts array');
-    }
+  // Shorthands for the JSONPlaceholder schemas
+  validatePost(data: unknown): boolean {
+    return this.validate('post', data);
+  }
 
-    data.forEach((post, index) => {
-      try {
-        this.validatePost(post);
-      } catch (error) {
-        throw new Error(`Post at index ${index} failed validation: ${error}`);
-      }
-    });
-    return true;
+  validatePostsArray(data: unknown): boolean {
+    return this.validateArray('post', data);
   }
 
   validateComment(data: unknown): boolean {
-    const validate = this.ajv.getSchema('comment');
-    if (!validate) {
-      throw new Error('Comment schema not found');
-    }
-
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(
-        `Comment schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`,
-      );
-    }
-    return true;
+    return this.validate('comment', data);
   }
 
   validateCommentsArray(data: unknown): boolean {
-    if (!Array.isArray(data)) {
-      throw new Error('Expected comments array');
-    }
-
-    data.forEach((comment, index) => {
-      try {
-        this.validateComment(comment);
-      } catch (error) {
-        throw new Error(`Comment at index ${index} failed validation: ${error}`);
-      }
-    });
-    return true;
+    return this.validateArray('comment', data);
   }
 
   validateUser(data: unknown): boolean {
-    const validate = this.ajv.getSchema('user');
-    if (!validate) {
-      throw new Error('User schema not found');
-    }
-
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(`User schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`);
-    }
-    return true;
+    return this.validate('user', data);
   }
 
   validateUsersArray(data: unknown): boolean {
-    if (!Array.isArray(data)) {
-      throw new Error('Expected users array');
-    }
-
-    data.forEach((user, index) => {
-      try {
-        this.validateUser(user);
-      } catch (error) {
-        throw new Error(`User at index ${index} failed validation: ${error}`);
-      }
-    });
-    return true;
+    return this.validateArray('user', data);
   }
 
   validateAlbum(data: unknown): boolean {
-    const validate = this.ajv.getSchema('album');
-    if (!validate) {
-      throw new Error('Album schema not found');
-    }
-
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(
-        `Album schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`,
-      );
-    }
-    return true;
+    return this.validate('album', data);
   }
 
-  validatePhoto(data: unknown): boolean {
-    const validate = this.ajv.getSchema('photo');
-    if (!validate) {
-      throw new Error('Photo schema not found');
-    }
-
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(
-        `Photo schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`,
-      );
-    }
-    return true;
-  }
-
-  validateTodo(data: unknown): boolean {
-    const validate = this.ajv.getSchema('todo');
-    if (!validate) {
-      throw new Error('Todo schema not found');
-    }
-
-    const isValid = validate(data);
-    if (!isValid) {
-      throw new Error(`Todo schema validation failed: ${JSON.stringify(validate.errors, null, 2)}`);
-    }
-    return true;
-  }
-}
-
-/**
- * Performance Tracker
- * Tracks API response times and performance metrics
- */
-class PerformanceTracker {
-  private metrics: Map<string, number[]> = new Map();
-
-  startTimer(operation: string): () => number {
-    const startTime = Date.now();
-    return () => {
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-      this.recordMetric(operation, duration);
-      return duration;
-    };
+  validateAlbumsArray(data: unknown): boolean {
+    return this.validateArray('album', data);
   }
 
-  recordMetric(operation: string, duration: number): void {
-    if (!this.metrics.has(operation)) {
-      this.metrics.set(operation, []);
-    }
-    const metrics = this.metrics.get(operation);
-    if (metrics) {
-      metrics.push(duration);
-    }
-  }
-
-  getAverageTime(operation: string): number {
-    const times = this.metrics.get(operation) ?? [];
-    if (times.length === 0) {
-      return 0;
-    }
-    return times.reduce((sum, time) => sum + time, 0) / times.length;
+  validatePhoto(data: unknown): boolean {
+    return this.validate('photo', data);
   }
 
-  getMaxTime(operation: string): number {
-    const times = this.metrics.get(operation) ?? [];
-    return times.length > 0 ? Math.max(...times) : 0;
+  validatePhotosArray(data: unknown): boolean {
+    return this.validateArray('photo', data);
   }
 
-  getMinTime(operation: string): number {
-    const times = this.metrics.get(operation) ?? [];
-    return times.length > 0 ? Math.min(...times) : 0;
+  validateTodo(data: unknown): boolean {
+    return this.validate('todo', data);
   }
 
-  getAllMetrics(): Record<string, { avg: number; max: number; min: number; count: number }> {
-    const result: Record<string, { avg: number; max: number; min: number; count: number }> = {};
-
-    this.metrics.forEach((times, operation) => {
-      result[operation] = {
-        avg: this.getAverageTime(operation),
-        max: this.getMaxTime(operation),
-        min: this.getMinTime(operation),
-        count: times.length,
-      };
-    });
-
-    return result;
+  validateTodosArray(data: unknown): boolean {
+    return this.validateArray('todo', data);
   }
 
-  reset(): void {
-    this.metrics.clear();
+  validateError(data: unknown): boolean {
+    return this.validate('error', data);
   }
 }
 
@@ -433,6 +234,12 @@ class PerformanceTracker {
  * Extended test with JSONPlaceholder API-specific fixtures
  */
 export const apiTest = base.extend<JsonPlaceholderApiFixtures>({
+  vcr: [{}, { option: true }],
+  apiLog: [{}, { option: true }],
+  pactConsumer: [FRAMEWORK_CONSTANTS.PACT.DEFAULT_CONSUMER, { option: true }],
+  performanceBudget: [{}, { option: true }],
+  rateLimit: [true, { option: true }],
+
   /**
    * API Base URL fixture - gets JSONPlaceholder URL from environment
    */
@@ -452,29 +259,81 @@ export const apiTest = base.extend<JsonPlaceholderApiFixtures>({
   },
 
   /**
-   * API Request Context fixture with authentication
+   * API Request Context fixture with authentication, per-request retries, the worker's
+   * rate limiter (waits are recorded by the performance tracker), per-attempt timing, the test's
+   * cassette and a call log attached to the report
    */
-  apiContext: async ({ playwright, apiBaseUrl, authHeaders }, use) => {
+  apiContext: async (
+    {
+      playwright,
+      apiBaseUrl,
+      authHeaders,
+      performanceTracker,
+      vcr,
+      apiLog,
+      rateLimit,
+      mock,
+      featureFlags,
+    },
+    use,
+    testInfo,
+  ) => {
     console.log('🏗️ Creating JSONPlaceholder API context');
-
+    const config = getEnvironmentConfig().jsonplaceholder;
+    const attemptLog = new ApiAttemptLog();
+    const cassette = Cassette.forTest(testInfo, vcr);
+
+    // Against the local mock server (started for the environment, not per test) every test
+    // writes to its own session; the test's own flags decide, so `use({ flags })` applies
+    const mocked = featureFlags.isEnabled('enableMocking');
+    const { SESSION_HEADER, RESET_PATH } = FRAMEWORK_CONSTANTS.MOCK_SERVER;
+
+    const extraHTTPHeaders = {
+      ...authHeaders,
+      'User-Agent': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.USER_AGENT,
+      ...(mocked ? { [SESSION_HEADER]: testInfo.testId } : {}),
+    };
     const apiContext = await playwright.request.newContext({
       baseURL: apiBaseUrl,
-      extraHTTPHeaders: {
-        ...authHeaders,
-        'User-Agent': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.USER_AGENT,
-      },
+      extraHTTPHeaders,
       timeout: JSONPLACEHOLDER_API.REQUEST_CONFIG.TIMEOUTS.DEFAULT,
     });
-
-    console.log('✅ JSONPlaceholder API context ready');
-    await use(apiContext);
+    const callLog = new ApiCallLog({ baseURL: apiBaseUrl, headers: extraHTTPHeaders });
+
+    // Retries sit outside the log, the mocks, the cassette and the limiter, so every attempt is
+    // logged, recorded and waits for its own token; mocked and replayed requests never reach the
+    // limiter. The limit protects the public API, so the local mock server is not throttled.
+    // The timer sits beneath the limiter: durations are those of one attempt, without waits
+    const timed = withTiming(apiContext, performanceTracker, { baseURL: apiBaseUrl });
+    const limiter =
+      !mocked &&
+      rateLimit &&
+      config.rateLimit &&
+      RateLimiter.forWorker('jsonplaceholder', config.rateLimit);
+    const limited = limiter ? withRateLimit(timed, limiter, performanceTracker) : timed;
+
+    console.log(`✅ JSONPlaceholder API context ready (VCR: ${cassette.mode})`);
+    const logged = withCallLog(
+      withMocks(withCassette(limited, cassette), mock, apiBaseUrl),
+      callLog,
+    );
+    await use(withRetries(logged, config, attemptLog));
+    await attemptLog.attachTo(testInfo);
+    await callLog.attachTo(testInfo, ApiCallLog.resolveOptions(apiLog));
+    cassette.eject();
+
+    if (mocked) {
+      console.log('🎭 Resetting mock server session');
+      await apiContext.post(`${apiBaseUrl}${RESET_PATH}`);
+    }
 
     console.log('🧹 Disposing JSONPlaceholder API context');
     await apiContext.dispose();
   },
 
   /**
-   * JSONPlaceholder API Client fixture
+   * JSONPlaceholder API Client fixture; every attempt that reaches the network is timed by the
+   * performance tracker
    */
   jsonPlaceholderClient: async ({ apiContext, apiBaseUrl }, use) => {
     console.log('🔧 Creating JSONPlaceholder API client');
@@ -487,140 +346,65 @@ export const apiTest = base.extend<JsonPlaceholderApiFixtures>({
    */
   schemaValidator: async ({}: {}, use) => {
     console.log('📝 Setting up schema validator');
-    const validator = new SchemaValidator();
+    // Validators are compiled once per worker by the shared registry
+    const validator = new SchemaValidator(schemaRegistry);
     await use(validator);
   },
 
   /**
-   * Performance Tracker fixture
+   * Contract drift fixture; drift found by the test is attached to its report
    */
-  performanceTracker: async ({}: {}, use) => {
+  contractDrift: async ({}: {}, use, testInfo) => {
+    const detector = new ContractDriftDetector();
+    await use(detector);
+    await detector.attachTo(testInfo);
+  },
+
+  /**
+   * Pact consumer fixture; interactions of a passed test are merged by global teardown
+   */
+  pact: async ({ apiContext, pactConsumer }, use, testInfo) => {
+    const consumer = new PactConsumer(apiContext, { consumer: pactConsumer });
+    await use(consumer);
+    consumer.writeFragment(testInfo);
+  },
+
+  /**
+   * Performance Tracker fixture; metrics are checked against their budgets after the test
+   */
+  performanceTracker: async ({ performanceBudget }, use, testInfo) => {
     console.log('⏱️ Setting up performance tracker');
     const tracker = new PerformanceTracker();
     await use(tracker);
-
-    // Log performance metrics after test
-    const metrics = tracker.getAllMetrics();
-    if (Object.keys(metrics).length > 0) {
-      console.log('📊 Performance Metrics:', JSON.stringify(metrics, null, 2));
-    }
+    await tracker.report(testInfo, new PerformanceBudgets(performanceBudget));
   },
 
   /**
-   * Mock context for testing with controlled responses
+   * Load runner fixture; load is only put on the local stand-in, never on the public API
    */
-  mockContext: async ({ page }: { page: Page }, use: (value: MockContext) => Promise<void>) => {
-    const mockContext = {
-      /**
-       * Mock successful response
-       */
-      mockSuccessResponse: async (pattern: string | RegExp, options: any) => {
-        console.log('🎭 Setting up request mocking context');
-        console.log(`🎭 Using mocked API base URL: ${JSONPLACEHOLDER_API.BASE_URL}`);
-
-        await page.route(pattern, async (route: Route) => {
-          await route.fulfill({
-            status: options.status ?? 200,
-            contentType: 'application/json',
-            headers: {
-              'Access-Control-Allow-Origin': '*',
-              'Access-Control-Allow-Methods': 'GET,HEAD,PUT,PATCH,POST,DELETE',
-              ...options.headers,
-            },
-            body: JSON.stringify(options.data),
-          });
-        });
-
-        console.log(`📝 Testing mocked ${pattern} response handling`);
-      },
-
-      /**
-       * Mock error response
-       */
-      mockErrorResponse: async (pattern: string | RegExp, options: any) => {
-        console.log('🎭 Setting up request mocking context');
-        console.log(`🎭 Using mocked API base URL: ${JSONPLACEHOLDER_API.BASE_URL}`);
-
-        await page.route(pattern, async (route: Route) => {
-          await route.fulfill({
-            status: options.status ?? 500,
-            contentType: 'application/json',
-            headers: {
-              'Access-Control-Allow-Origin': '*',
-              ...options.headers,
-            },
-            body: JSON.stringify(options.data ?? { error: 'Mocked error' }),
-          });
-        });
-
-        console.log(`❌ Testing mocked ${options.status ?? 500} error response handling`);
-      },
-
-      /**
-       * Mock network timeout
-       */
-      mockTimeout: async (pattern: string | RegExp, delay = 10000) => {
-        console.log('🎭 Setting up request mocking context');
-        console.log(`🎭 Using mocked API base URL: ${JSONPLACEHOLDER_API.BASE_URL}`);
-        console.log(`⏱️ Testing mocked network timeout handling`);
-
-        await page.route(pattern, async (route: Route) => {
-          await new Promise<void>(resolve => {
-            setTimeout(() => {
-              resolve();
-            }, delay);
-          });
-          await route.abort('timedout');
-        });
-      },
-
-      /**
-       * Mock raw response
-       */
-      mockRawResponse: async (pattern: string | RegExp, options: any) => {
-        console.log('🎭 Setting up request mocking context');
-        console.log(`🎭 Using mocked API base URL: ${JSONPLACEHOLDER_API.BASE_URL}`);
-        console.log(`🔧 Testing mocked malformed JSON response handling`);
-
-        await page.route(pattern, async (route: Route) => {
-          await route.fulfill({
-            status: options.status ?? 200,
-            headers: options.headers ?? {},
-            body: options.body,
-          });
-        });
-      },
-
-      /**
-       * Mock slow response
-       */
-      mockSlowResponse: async (pattern: string | RegExp, options: any) => {
-        console.log('🎭 Setting up request mocking context');
-        console.log(`🎭 Using mocked API base URL: ${JSONPLACEHOLDER_API.BASE_URL}`);
-        console.log(`🐌 Testing mocked slow response handling`);
-
-        await page.route(pattern, async (route: Route) => {
-          await new Promise<void>(resolve => {
-            setTimeout(() => {
-              resolve();
-            }, options.delay ?? 1000);
-          });
-          await route.fulfill({
-            status: options.status ?? 200,
-            contentType: 'application/json',
-            headers: {
-              'Access-Control-Allow-Origin': '*',
-              ...options.headers,
-            },
-            body: JSON.stringify(options.data),
-          });
-        });
-      },
-    };
+  loadRunner: async ({ performanceTracker }, use, testInfo) => {
+    // The environment's flag, not the test's: it tells whether global setup started the stand-in
+    testInfo.skip(
+      !Flags.isEnabled('enableMocking'),
+      'Load tests only run against the local JSONPlaceholder stand-in',
+    );
+    const runner = new LoadRunner(performanceTracker);
+    await use(runner);
+    await runner.attachTo(testInfo);
+  },
 
-    await use(mockContext);
-    console.log('🧹 Cleaning up request mocks');
+  /**
+   * Mock scenario fixture; `apiContext` answers the requests its routes match
+   */
+  mock: async ({ apiBaseUrl }, use) => {
+    const mock = new MockScenario({ baseURL: apiBaseUrl });
+    await use(mock);
+    if (mock.routes.length > 0) {
+      console.log(`🧹 Cleaning up ${mock.routes.length} mocked route(s)`);
+    }
   },
 });
 
-export { expect } from '@playwright/test';
+export { expect } from '@api/schemas/schema.matchers';
+export { Matchers } from '@api/contracts/pact.matchers';
+export { ApiError, type ApiResult } from '@api/clients/api-result';
@@ -1,6 +1,9 @@
-import { test as base, type APIRequestContext } from '@playwright/test';
+import type { APIRequestContext } from '@playwright/test';
 
 import { getEnvironmentConfig } from '@config/environment';
+import { RateLimiter, withRateLimit } from '@api/clients/rate-limiter';
+import { ApiAttemptLog, withRetries } from '@api/clients/request-retry';
+import { test as base } from '@fixtures/common/feature-flags.fixture';
 
 /**
  * Custom test fixtures for SauceDemo API Testing
@@ -36,10 +39,13 @@ export const apiTest = base.extend<SauceDemoApiFixtures>({
   },
 
   /**
-   * API Request Context fixture with authentication
+   * API Request Context fixture with authentication, per-request retries and the worker's
+   * rate limiter
    */
-  apiContext: async ({ playwright, apiBaseUrl, authHeaders }, use) => {
+  apiContext: async ({ playwright, apiBaseUrl, authHeaders }, use, testInfo) => {
     console.log('🏗️ Creating authenticated API context');
+    const config = getEnvironmentConfig().api;
+    const attemptLog = new ApiAttemptLog();
 
     const apiContext = await playwright.request.newContext({
       baseURL: apiBaseUrl,
@@ -50,8 +56,12 @@ export const apiTest = base.extend<SauceDemoApiFixtures>({
       timeout: 30000,
     });
 
+    const limiter = config.rateLimit && RateLimiter.forWorker('api', config.rateLimit);
+    const limited = limiter ? withRateLimit(apiContext, limiter) : apiContext;
+
     console.log('✅ API context ready');
-    await use(apiContext);
+    await use(withRetries(limited, config, attemptLog));
+    await attemptLog.attachTo(testInfo);
 
     console.log('🧹 Disposing API context');
     await apiContext.dispose();
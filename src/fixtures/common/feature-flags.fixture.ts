@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Feature Flag Fixtures - Per-test flag overrides and requirement-based skipping
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Base fixture shared by the web and API fixtures. Every test gets a `featureFlags` service
+ * with its overrides applied, and tests whose flag requirements are not met by the current
+ * environment are skipped before any other fixture runs.
+ *
+ * Provided Fixtures:
+ * - `flags` (option) - Flag overrides, set with `test.use({ flags: { ... } })`
+ * - `requiredFlags` (option) - Flags the test depends on, set with `test.use({ requiredFlags })`
+ * - `featureFlags` (auto) - {@link FeatureFlagService} for the test
+ *
+ * Annotations are honoured as well:
+ * - `{ type: 'flag', description: 'checkoutVariant=express' }` - override
+ * - `{ type: 'requires-flag', description: 'enableMocking' }` - requirement
+ *
+ * @example
+ * ```typescript
+ * import { test } from '@fixtures/web/saucedemo.fixture';
+ *
+ * test.describe('mocked checkout', () => {
+ *   test.use({ requiredFlags: ['enableMocking'] });
+ *
+ *   test('uses express checkout', {
+ *     annotation: { type: 'flag', description: 'checkoutVariant=express' },
+ *   }, async ({ featureFlags }) => {
+ *     expect(featureFlags.value('checkoutVariant', 'classic')).toBe('express');
+ *   });
+ * });
+ * ```
+ *
+ * @see {@link ../../utils/flags/feature-flag.service.ts} - Flag evaluation
+ */
+
+import { test as base } from '@playwright/test';
+
+import type { FeatureFlags } from '@config/types/environment.types';
+import {
+  FLAG_ANNOTATION,
+  FeatureFlagService,
+  Flags,
+  REQUIRED_FLAG_ANNOTATION,
+  type FlagRequirements,
+} from '@utils/flags/feature-flag.service';
+
+/**
+ * Feature Flag Fixtures Interface
+ *
+ * @interface
+ * @since 1.0.0
+ */
+export interface FeatureFlagFixtures {
+  /**
+   * Flag overrides for the test
+   * @type {Partial<FeatureFlags>}
+   */
+  flags: Partial<FeatureFlags>;
+
+  /**
+   * Flags the test requires; the test is skipped when they are not satisfied
+   * @type {FlagRequirements}
+   */
+  requiredFlags: FlagRequirements;
+
+  /**
+   * Flag service with the test's overrides applied
+   * @type {FeatureFlagService}
+   */
+  featureFlags: FeatureFlagService;
+}
+
+/**
+ * Playwright test extended with feature flag support
+ *
+ * @since 1.0.0
+ */
+export const test = base.extend<FeatureFlagFixtures>({
+  flags: [{}, { option: true }],
+
+  requiredFlags: [[], { option: true }],
+
+  /**
+   * Feature flag fixture - applies overrides and skips tests with unmet requirements
+   */
+  featureFlags: [
+    async ({ flags, requiredFlags }, use, testInfo) => {
+      const featureFlags = Flags.withOverrides({
+        ...flags,
+        ...FeatureFlagService.fromAnnotations(testInfo.annotations, FLAG_ANNOTATION),
+      });
+
+      const reason = featureFlags.check({
+        ...FeatureFlagService.toExpectations(requiredFlags),
+        ...FeatureFlagService.fromAnnotations(testInfo.annotations, REQUIRED_FLAG_ANNOTATION),
+      });
+      testInfo.skip(reason !== undefined, reason);
+
+      await use(featureFlags);
+    },
+    { auto: true },
+  ],
+});
+
+export { expect } from '@playwright/test';
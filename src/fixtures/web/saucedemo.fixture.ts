@@ -14,6 +14,9 @@
  * - Environment-specific configuration and base URL
  * - Authenticated page context for tests requiring login
  * - Automatic user authentication using standard test credentials
+ * - Feature flags with per-test overrides and required flags (see feature-flags.fixture.ts)
+ * - Web vitals of every page visit, checked against per-page budgets and attached to the report
+ *   (see performance.vitals.ts)
  *
  * @example
  * ```typescript
@@ -40,13 +43,16 @@
  * @see {@link ../../data/testdata/saucedemo.users.ts} - User test data
  */
 
-import { test as base, type Page } from '@playwright/test';
+import type { Page } from '@playwright/test';
 
 import { getEnvironmentConfig } from '@config/environment';
+import { test as base } from '@fixtures/common/feature-flags.fixture';
 import { CartPage } from '@pages/web/CartPage';
 import { CheckoutPage } from '@pages/web/CheckoutPage';
 import { InventoryPage } from '@pages/web/InventoryPage';
 import { LoginPage } from '@pages/web/LoginPage';
+import type { WebVitalsBudgetOptions } from '@utils/performance/performance.types';
+import { WebVitalsCollector } from '@utils/performance/performance.vitals';
 
 /**
  * SauceDemo Test Fixtures Interface
@@ -95,6 +101,18 @@ interface SauceDemoFixtures {
    * @type {string}
    */
   baseUrl: string;
+
+  /**
+   * Per-test overrides of `E2E_PERF_BUDGETS` and page budgets, set with `test.use({ webVitalsBudget })`
+   * @type {Partial<WebVitalsBudgetOptions>}
+   */
+  webVitalsBudget: Partial<WebVitalsBudgetOptions>;
+
+  /**
+   * Web vitals of the page visits of the test, collected for every test
+   * @type {WebVitalsCollector}
+   */
+  webVitals: WebVitalsCollector;
 }
 
 /**
@@ -115,6 +133,38 @@ interface SauceDemoFixtures {
  * @since 1.0.0
  */
 export const test = base.extend<SauceDemoFixtures>({
+  webVitalsBudget: [{}, { option: true }],
+
+  /**
+   * Web Vitals fixture - measures every page visit of the test
+   *
+   * @description
+   * Installs the observers before the first navigation, so that the login page load and each
+   * client-side route change after it are measured. After the test the visits are logged,
+   * attached as `web-vitals.json` and checked against their page budgets.
+   *
+   * @returns {Promise<WebVitalsCollector>} Collector of the test's page
+   *
+   * @throws {WebVitalsBudgetError} When a visit breaks its budget in `fail` mode
+   *
+   * @example
+   * ```typescript
+   * test.use({ webVitalsBudget: { budgets: { inventory: { duration: 800 } } } });
+   *
+   * test('inventory is fast', async ({ authenticatedPage, webVitals }) => {
+   *   expect(webVitals.visit('inventory')?.metrics.duration).toBeLessThan(800);
+   * });
+   * ```
+   */
+  webVitals: [
+    async ({ page, webVitalsBudget }, use, testInfo) => {
+      const collector = await WebVitalsCollector.attach(page);
+      await use(collector);
+      await collector.report(testInfo, webVitalsBudget);
+    },
+    { auto: true },
+  ],
+
   /**
    * Base URL fixture - provides environment-specific URL configuration
    *
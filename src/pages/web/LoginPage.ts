@@ -34,9 +34,12 @@
  * @see {@link ../../data/testdata/saucedemo.users.ts} - User test data
  */
 
-import { expect, type Locator, type Page } from '@playwright/test';
+import { expect, type Locator, type Page, test } from '@playwright/test';
 
 import type { UserCredentials } from '@data/testdata/saucedemo.users';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { Secrets } from '@utils/secrets/secrets.manager';
+
 /**
  * LoginPage - Handles user authentication flows for SauceDemo application
  *
@@ -210,10 +213,15 @@ export class LoginPage {
     await this.usernameInput.fill(credentials.username);
     await expect(this.usernameInput).toHaveValue(credentials.username);
 
-    // Clear and fill password with validation
-    await this.passwordInput.clear();
-    await this.passwordInput.fill(credentials.password);
-    await expect(this.passwordInput).toHaveValue(credentials.password);
+    // Enter password without recording it in traces, step titles or assertion output
+    await test.step(
+      'Enter password ••••',
+      async () => {
+        await this.passwordInput.clear();
+        await this.enterSecret(this.passwordInput, Secrets.resolveValue(credentials.password));
+      },
+      { box: true },
+    );
 
     // Wait for button to be ready and ensure DOM stability
     await this.loginButton.waitFor({ state: 'visible', timeout: 10000 });
@@ -409,4 +417,44 @@ export class LoginPage {
       return false;
     }
   }
+
+  /**
+   * Enters a secret into an input without recording its value
+   *
+   * @description
+   * Traces and the HTML report record the parameters and results of every action, so `fill()`
+   * and `pressSequentially()` would expose the value. The page fetches it from a temporary
+   * binding instead, whose result is not recorded, and reports back its length only.
+   * React-controlled inputs pick the value up through the native setter and an `input` event.
+   *
+   * @param {Locator} input - Input to enter the secret into
+   * @param {string} value - Resolved secret
+   *
+   * @returns {Promise<void>} Resolves when the input holds the secret
+   *
+   * @private
+   * @async
+   * @since 1.0.0
+   */
+  private async enterSecret(input: Locator, value: string): Promise<void> {
+    const binding = FRAMEWORK_CONSTANTS.SECRETS.PAGE_BINDING;
+    const exposed = await this.page.exposeFunction(binding, () => value);
+    try {
+      const length = await input.evaluate(async (element, name) => {
+        const field = element as HTMLInputElement;
+        const secret = await (globalThis as unknown as Record<string, () => Promise<string>>)[
+          name
+        ]();
+        Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(
+          field,
+          secret,
+        );
+        field.dispatchEvent(new Event('input', { bubbles: true }));
+        return field.value.length;
+      }, binding);
+      expect(length).toBe(value.length);
+    } finally {
+      await exposed.dispose();
+    }
+  }
 }
@@ -1,6 +1,10 @@
 import type { FullConfig } from '@playwright/test';
 
-import { EnvironmentConfigManager } from '@config/environment';
+import { ConfigLoader, EnvironmentConfigManager } from '@config/environment';
+import { PactConsumer } from '@api/contracts/pact.consumer';
+import { PerformanceReport } from '@utils/performance/performance.report';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { MockServer } from '@utils/mock/jsonplaceholder.mock-server';
 
 /**
  * Global Test Setup
@@ -9,9 +13,12 @@ import { EnvironmentConfigManager } from '@config/environment';
  *
  * Features:
  * - Environment validation and configuration
+ * - Merged configuration report (debug mode)
  * - System resource optimization
  * - Optional API health checks
  * - Feature flag initialization
+ * - Local JSONPlaceholder mock server (features.enableMocking)
+ * - Fresh consumer contract and performance fragments (merged by global teardown)
  *
  * @param _config - Playwright full configuration (unused)
  */
@@ -32,8 +39,11 @@ async function globalSetup(_config: FullConfig) {
     console.log('⚡ System Info:', {
       cpuCount: systemInfo.cpuCount,
       memoryGB: systemInfo.totalMemoryGB,
+      availableMemoryGB: systemInfo.availableMemoryGB,
       platform: systemInfo.platform,
       workers: systemInfo.optimalWorkers,
+      browserWorkers: systemInfo.browserWorkers,
+      apiWorkers: systemInfo.apiWorkers,
       shards: systemInfo.optimalShards,
     });
 
@@ -45,13 +55,21 @@ async function globalSetup(_config: FullConfig) {
     // Environment-specific setup
     if (envConfig.features.enableDebugLogs) {
       console.log('🐛 Debug mode enabled');
+      console.log(
+        `🧩 ${ConfigLoader.formatReport(EnvironmentConfigManager.getConfigReport(currentEnv))}`,
+      );
+      console.log('🧮 Resource derivation:', systemInfo.derivation);
     }
 
     if (envConfig.features.enableMocking) {
       console.log('🎭 Mocking enabled for external services');
-      // Initialize mock services here if needed
+      await startMockServer();
     }
 
+    // Interactions of a previous run must not be merged into this run's contracts
+    PactConsumer.clearFragments();
+    PerformanceReport.clearFragments();
+
     // Optional API health check
     if (process.env.SKIP_HEALTH_CHECK !== 'true') {
       await performHealthCheck(envConfig.api.baseURL);
@@ -65,6 +83,19 @@ async function globalSetup(_config: FullConfig) {
   }
 }
 
+/**
+ * Start the JSONPlaceholder mock server and route the API suite through it
+ *
+ * The URL is published as an `E2E_*` variable so that it reaches the env configuration layer
+ * of every worker process (workers inherit the environment of the runner).
+ */
+async function startMockServer(): Promise<void> {
+  const baseURL = await MockServer.start();
+  process.env[FRAMEWORK_CONSTANTS.MOCK_SERVER.BASE_URL_ENV_VAR] = baseURL;
+  EnvironmentConfigManager.reload();
+  console.log('🎭 JSONPlaceholder mock server listening on', baseURL);
+}
+
 /**
  * Perform basic health check on API endpoints
  * Does not fail tests if health check fails - only warns
@@ -1,6 +1,11 @@
 import type { FullConfig } from '@playwright/test';
 
 import { EnvironmentConfigManager } from '@config/environment';
+import { PactConsumer } from '@api/contracts/pact.consumer';
+import { PerformanceReport } from '@utils/performance/performance.report';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { MockServer } from '@utils/mock/jsonplaceholder.mock-server';
+import { ShardPlanner } from '@utils/sharding/shard.planner';
 
 /**
  * Global Test Teardown
@@ -8,14 +13,17 @@ import { EnvironmentConfigManager } from '@config/environment';
  * Executed once after all tests across all workers complete
  *
  * Features:
+ * - Consumer contracts published from the interactions of the run; rebuilt when every consumer
+ *   test passed, merged otherwise
+ * - Run-level performance metrics, compared with the history of previous runs
  * - Environment-specific cleanup
  * - Temporary file cleanup
  * - Debug report generation
- * - Resource cleanup
+ * - Resource cleanup (including the JSONPlaceholder mock server)
  *
- * @param _config - Playwright full configuration (unused)
+ * @param config - Playwright full configuration, used to list the consumer tests
  */
-async function globalTeardown(_config: FullConfig) {
+async function globalTeardown(config: FullConfig) {
   const startTime = Date.now();
   console.log('🧹 Starting global teardown...');
 
@@ -23,10 +31,17 @@ async function globalTeardown(_config: FullConfig) {
     const currentEnv = EnvironmentConfigManager.getCurrentEnvironment();
     const envConfig = EnvironmentConfigManager.getConfig(currentEnv);
 
+    // Write the interactions declared by the tests to the consumer contracts
+    publishPacts(config);
+
+    // Aggregate the performance metrics of all workers and flag regressions
+    publishPerformanceReport(currentEnv, envConfig.features.enableMocking);
+
     // Environment-specific cleanup
     if (envConfig.features.enableMocking) {
       console.log('🎭 Cleaning up mock services...');
-      // Cleanup mock services here if implemented
+      await MockServer.stop();
+      delete process.env[FRAMEWORK_CONSTANTS.MOCK_SERVER.BASE_URL_ENV_VAR];
     }
 
     // Cleanup temporary files
@@ -47,6 +62,51 @@ async function globalTeardown(_config: FullConfig) {
   }
 }
 
+/**
+ * Publish the consumer contract fragments written by the workers to data/fixtures/pacts
+ * @param config - Playwright full configuration
+ */
+function publishPacts(config: FullConfig): void {
+  try {
+    PactConsumer.publish({ consumerTests: () => listConsumerTests(config) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('⚠️ Pact publishing warning:', errorMessage);
+  }
+}
+
+/**
+ * List every consumer test, whatever the filters of the run
+ * @param config - Playwright full configuration
+ * @returns Test ids, undefined when they cannot be listed (contracts are merged then)
+ */
+function listConsumerTests(config: FullConfig): string[] | undefined {
+  try {
+    const configArgs = config.configFile ? ['--config', config.configFile] : [];
+    return ShardPlanner.listTests([...configArgs, FRAMEWORK_CONSTANTS.PACT.CONSUMER_SPECS]).map(
+      test => test.id,
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('⚠️ Pact inventory warning:', errorMessage);
+    return undefined;
+  }
+}
+
+/**
+ * Write the run-level performance metrics and extend the performance history
+ * @param environment - Environment of the run
+ * @param mocked - Whether the run used the local mock server
+ */
+function publishPerformanceReport(environment: string, mocked: boolean): void {
+  try {
+    PerformanceReport.publish({ environment, mocked });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('⚠️ Performance report warning:', errorMessage);
+  }
+}
+
 /**
  * Cleanup temporary files and directories created during test execution
  */
@@ -72,6 +132,7 @@ async function generateDebugReport(): Promise<void> {
       timestamp: new Date().toISOString(),
       environment: EnvironmentConfigManager.getCurrentEnvironment(),
       systemInfo,
+      configReport: EnvironmentConfigManager.getConfigReport(),
       nodeVersion: process.version,
       playwrightVersion: require('@playwright/test/package.json').version,
     };
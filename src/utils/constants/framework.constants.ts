@@ -11,6 +11,43 @@ export const FRAMEWORK_CONSTANTS = {
     MAX_WORKERS: 16,
     MEMORY_PER_WORKER_GB: 2,
     SHARD_RATIO: 0.5, // workers/2
+    API_WORKERS_PER_CPU: 2, // API tests mostly wait on the network
+    API_MEMORY_PER_WORKER_GB: 0.5,
+    MIN_LOAD_FACTOR: 0.25, // Never scale workers below 25% because of host load
+    CGROUP_ROOT: '/sys/fs/cgroup',
+    CGROUP_UNLIMITED_BYTES: 2 ** 60, // cgroup v1 reports "no limit" as a huge page-aligned number
+  },
+
+  // Shard Planning Configuration
+  SHARDING: {
+    HISTORY_FILE: './reports/shard-history.json',
+    OUTPUT_DIR: './reports/shards',
+    SMOOTHING_FACTOR: 0.5, // Weight of the latest run in the duration moving average
+    DEFAULT_TEST_DURATION_MS: 5000, // Estimate for tests when no history exists at all
+    MAX_LEARNED_RUNS: 50, // Report start times remembered to avoid learning a run twice
+  },
+
+  // Local Mock Server Configuration (features.enableMocking)
+  MOCK_SERVER: {
+    HOST: '127.0.0.1',
+    PORT: 0, // 0 lets the OS pick a free port
+    BASE_URL_ENV_VAR: 'E2E_JSONPLACEHOLDER__BASE_URL', // Env layer variable inherited by workers
+    SESSION_HEADER: 'x-mock-session', // Isolates the data written by one test from the others
+    DEFAULT_SESSION: 'default', // Session of requests without the header
+    RESET_PATH: '/__mock/reset', // POST discards the data written in the caller's session
+    PAGE_SIZE: 10, // Records per `_page` without `_limit`, as on the public API
+  },
+
+  // OpenAPI Generator Configuration (scripts/generate-openapi.ts)
+  OPENAPI: {
+    OUTPUT_DIRS: {
+      CONSTANTS: 'src/utils/constants',
+      SCHEMAS: 'src/api/schemas',
+      CLIENTS: 'src/api/clients',
+      MOCKS: 'data/mock',
+    },
+    DEFAULT_BASE_URL: 'http://localhost', // Used when the document declares no absolute server
+    MOCK_RECORDS: 3, // Records in each generated MULTIPLE mock list
   },
 
   // Timeout Configuration (in milliseconds)
@@ -31,6 +68,139 @@ export const FRAMEWORK_CONSTANTS = {
     PRODUCTION: 3,
   },
 
+  // Request-level API Retries (ApiConfig.retries / retryPolicy)
+  API_RETRY: {
+    RETRY_ON: [429, 500, 502, 503, 504],
+    BASE_DELAY_MS: 250,
+    MAX_DELAY_MS: 5000,
+    JITTER: 0.5, // Up to half of each delay is randomly taken off
+    MAX_RETRY_AFTER_MS: 10000, // Longer Retry-After waits would eat the test timeout
+    IDEMPOTENT_METHODS: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    IDEMPOTENCY_KEY_HEADER: 'idempotency-key', // Makes a POST/PATCH safe to retry
+    ALLOW_RETRY_HEADER: 'x-e2e-allow-retry', // Per-request opt-in, stripped before sending
+    ANNOTATION: 'flaky-endpoint', // Test annotation for requests that needed a retry
+    ATTACHMENT: 'api-attempts', // Test attachment listing every attempt
+  },
+
+  // Client-side Rate Limiting (ApiConfig.rateLimit)
+  RATE_LIMIT: {
+    WAIT_METRIC: 'rate_limit_wait', // PerformanceTracker operation receiving every wait
+    SLOW_WAIT_MS: 1000, // Waits at least this long are logged
+  },
+
+  // HTTP Recording and Replay (apiContext cassettes)
+  VCR: {
+    MODE_ENV: 'E2E_VCR_MODE', // record | replay | passthrough
+    MATCH_ENV: 'E2E_VCR_MATCH', // Comma-separated matchers, e.g. method,url,body,header:accept
+    DEFAULT_MODE: 'passthrough',
+    DEFAULT_MATCH: ['method', 'url', 'body'],
+    CASSETTE_DIR: './data/fixtures/cassettes',
+    MAX_FILE_NAME_LENGTH: 100,
+  },
+
+  // API Call Logging (apiContext timeline attached to test reports)
+  API_LOG: {
+    ATTACH_ENV: 'E2E_API_LOG', // on-failure | always | never
+    CURL_ENV: 'E2E_API_LOG_CURL', // true adds cURL commands for every call
+    DEFAULT_ATTACH: 'on-failure',
+    MAX_BODY_LENGTH: 4000, // Characters kept of each request and response body
+    ATTACHMENTS: {
+      JSON: 'api-calls.json',
+      HTML: 'api-calls.html',
+      CURL: 'api-calls.curl.sh',
+    },
+  },
+
+  // Schema Registry
+  SCHEMAS: {
+    DEFAULT_VERSION: '1.0.0', // Version of schemas registered without one
+    MAX_REPORTED_ITEMS: 5, // Failing records listed in a validation error
+    SNIPPET_LENGTH: 200, // Characters of an offending payload shown in a validation error
+  },
+
+  // Contract Drift Detection (inferred response schemas vs stored baselines)
+  CONTRACTS: {
+    MODE_ENV: 'E2E_CONTRACT_MODE', // verify | update
+    DEFAULT_MODE: 'verify',
+    BASELINE_DIR: './data/fixtures/contracts',
+    ENUM_MAX_VALUES: 5, // Strings with at most this many distinct values are inferred as enums...
+    ENUM_MIN_SAMPLES: 20, // ...when at least this many samples were seen
+    ANNOTATION: 'contract-drift',
+    ATTACHMENT: 'contract-drift.json',
+  },
+
+  // Performance Metrics (percentiles, budgets and run history of tracked operations)
+  PERFORMANCE_METRICS: {
+    HISTOGRAM_BUCKETS: [50, 100, 250, 500, 1000, 2000, 5000], // Upper bounds in ms, plus +Inf
+    BUDGET_MODE_ENV: 'E2E_PERF_BUDGETS', // annotate | fail | off
+    DEFAULT_BUDGET_MODE: 'annotate',
+    BUDGET_STATISTIC: 'p95', // Statistic of each operation compared to its budget
+    FRAGMENT_DIR: './reports/performance/fragments', // Samples per test, merged by global teardown
+    RUN_FILE: './reports/performance/run-metrics.json',
+    HISTORY_FILE: './reports/performance/history.json', // Keep between runs (e.g. CI cache)
+    HISTORY_FILE_ENV: 'E2E_PERF_HISTORY',
+    HISTORY_SIZE: 20, // Runs kept in the history
+    REGRESSION_MIN_RUNS: 3, // Previous runs of the same environment needed to flag regressions
+    REGRESSION_THRESHOLD: 0.25, // p95 this much slower than the median of previous runs...
+    REGRESSION_MIN_DELTA_MS: 50, // ...and by at least this many ms
+    ANNOTATION: 'performance-budget',
+    ATTACHMENT: 'performance-metrics.json',
+  },
+
+  // Web Vitals of page visits (webVitals fixture, Chromium reports all of them)
+  WEB_VITALS: {
+    BINDING: '__e2eReportVital', // Function the page reports its metrics through
+    ROUTE_SETTLE_MS: 100, // DOM quiet time that ends a client-side route change
+    LONG_TASK_MS: 50, // Blocking time is the part of a long task beyond this
+    CLS_SESSION_GAP_MS: 1000, // Layout shifts further apart start a new session window...
+    CLS_SESSION_MAX_MS: 5000, // ...as does a window reaching this length
+    PAGES: {
+      '/': 'login',
+      '/inventory.html': 'inventory',
+      '/inventory-item.html': 'product',
+      '/cart.html': 'cart',
+      '/checkout-step-one.html': 'checkout-information',
+      '/checkout-step-two.html': 'checkout-overview',
+      '/checkout-complete.html': 'checkout-complete',
+    },
+    // "Good" thresholds of web.dev, applied to every page
+    DEFAULT_BUDGET: {
+      ttfb: 800,
+      fcp: 1800,
+      lcp: 2500,
+      cls: 0.1,
+      inp: 200,
+      tbt: 300,
+      duration: 3000,
+    },
+    PAGE_BUDGETS: {
+      inventory: { duration: 1500, tbt: 200 },
+      cart: { duration: 1000 },
+      'checkout-information': { duration: 1000 },
+      'checkout-overview': { duration: 1000 },
+      'checkout-complete': { duration: 1000 },
+    },
+    ANNOTATION: 'web-vitals-budget',
+    ATTACHMENT: 'web-vitals.json',
+  },
+
+  // Load Tests (LoadRunner, local JSONPlaceholder stand-in only)
+  LOAD_TEST: {
+    MAX_VIRTUAL_USERS: 100, // Upper bound of a profile, keeps a run within one worker's means
+    ATTACHMENT: 'load-test-report.json',
+  },
+
+  // Consumer Contracts (pact-like interactions declared by API tests)
+  PACT: {
+    PACT_DIR: './data/fixtures/pacts', // <consumer>-<provider>.json, committed
+    FRAGMENT_DIR: './reports/pact-fragments', // Interactions per test, merged by global teardown
+    CONSUMER_SPECS: 'consumer-pact', // File filter listing every consumer test
+    DEFAULT_CONSUMER: 'e2e-playwright-framework',
+    DEFAULT_PROVIDER: 'jsonplaceholder', // EnvironmentConfig section holding the provider's base URL
+    SPECIFICATION_VERSION: '2.0.0',
+    ATTACHMENT: 'pact-verification.json',
+  },
+
   // Reporting Configuration
   REPORTS: {
     OUTPUT_DIR: './reports/test-results',
@@ -66,6 +236,44 @@ export const FRAMEWORK_CONSTANTS = {
     CI: 'CI',
     DEBUG: 'DEBUG',
     HEADLESS: 'HEADLESS',
+    CONFIG_FILE: 'E2E_CONFIG_FILE',
+    CONFIG_VALIDATION: 'E2E_CONFIG_VALIDATION',
+  },
+
+  // Layered Configuration
+  CONFIG: {
+    ENV_PREFIX: 'E2E_',
+    PATH_SEPARATOR: '__',
+    LOCAL_FILES: [
+      'local.config.json',
+      'local.config.yaml',
+      'local.config.yml',
+      'local.config.ts',
+      'local.config.js',
+    ],
+    FREE_FORM_KEYS: ['headers'],
+    ENVIRONMENTS_DIR: 'environments',
+    ENVIRONMENT_FILE_PATTERN: /\.(ts|js|json|ya?ml)$/,
+    RESERVED_ENVIRONMENT_FILES: ['base'],
+  },
+
+  // Secrets Management
+  SECRETS: {
+    REF_PREFIX: 'secret://',
+    ENV_PREFIX: 'E2E_SECRET_',
+    KEY_ENV: 'E2E_SECRETS_KEY',
+    FILE_ENV: 'E2E_SECRETS_FILE',
+    DEFAULT_FILE: './config/secrets.enc.json',
+    REDACTION: '***',
+    MIN_REDACT_LENGTH: 4,
+    PAGE_BINDING: '__e2eSecretValue',
+    SENSITIVE_HEADERS: [
+      'authorization',
+      'proxy-authorization',
+      'cookie',
+      'set-cookie',
+      'x-api-key',
+    ],
   },
 
   // Default Environment
@@ -78,6 +286,6 @@ export const FRAMEWORK_CONSTANTS = {
   },
 } as const;
 
-export type EnvironmentType = 'development' | 'pre-prod' | 'prod';
+export type { EnvironmentType } from '@config/types/environment.types';
 export type BrowserType = (typeof FRAMEWORK_CONSTANTS.BROWSERS.DESKTOP)[number];
 export type MobileType = (typeof FRAMEWORK_CONSTANTS.BROWSERS.MOBILE)[number];
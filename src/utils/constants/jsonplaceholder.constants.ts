@@ -102,6 +102,7 @@ export const JSONPLACEHOLDER_API = {
       NEGATIVE: -1,
       ZERO: 0,
       STRING: 'invalid',
+      RESERVED_CHARS: 'not/an id?', // Must be URL-encoded into a single path segment
     },
     BOUNDARY_IDS: {
       LAST_POST: 100,
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Feature Flag Service - Environment-aware flag evaluation with per-test overrides
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Exposes the `features` section of the merged environment configuration to tests and fixtures.
+ * Flags hold typed values (`boolean | number | string`); the four built-in booleans stay strictly
+ * typed and any additional flag can be declared in an environment file, a local override file
+ * or through `E2E_FEATURES__<FLAG>` variables.
+ *
+ * Per-test behaviour (wired up by `@fixtures/common/feature-flags.fixture`):
+ * - Overrides: `test.use({ flags: { checkoutVariant: 'express' } })` or a
+ *   `{ type: 'flag', description: 'checkoutVariant=express' }` annotation
+ * - Requirements: `test.use({ requiredFlags: ['enableMocking'] })` or a
+ *   `{ type: 'requires-flag', description: 'enableMocking' }` annotation; unmet requirements
+ *   skip the test with a reason naming the flag, the expected and the actual value
+ *
+ * @example
+ * ```typescript
+ * import { Flags } from '@utils/flags/feature-flag.service';
+ *
+ * if (Flags.isEnabled('enableMocking')) { ... }
+ * const variant = Flags.value('checkoutVariant', 'classic');
+ * const reason = Flags.check({ enableMocking: true }); // undefined when satisfied
+ * ```
+ */
+
+import type { TestInfo } from '@playwright/test';
+
+import { EnvironmentConfigManager } from '@config/environment';
+import type {
+  EnvironmentType,
+  FeatureFlags,
+  FeatureFlagValue,
+} from '@config/types/environment.types';
+
+/**
+ * Flag requirements: names that must be enabled, or exact expected values
+ */
+export type FlagRequirements = Array<keyof FeatureFlags> | Partial<FeatureFlags>;
+
+/** Annotation type that overrides a flag for one test (`name=value`) */
+export const FLAG_ANNOTATION = 'flag';
+
+/** Annotation type that declares a required flag (`name` or `name=value`) */
+export const REQUIRED_FLAG_ANNOTATION = 'requires-flag';
+
+/**
+ * Parses an annotation value into a typed flag value
+ * @param raw - Raw annotation value
+ */
+function parseFlagValue(raw: string): FeatureFlagValue {
+  const trimmed = raw.trim();
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed === 'true';
+  }
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  return trimmed;
+}
+
+/**
+ * Feature Flag Service
+ *
+ * @description
+ * Immutable view of the flags of one environment plus optional overrides. Flag values are
+ * read lazily from {@link EnvironmentConfigManager}, so creating a service never loads
+ * configuration by itself.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class FeatureFlagService {
+  private readonly environment?: EnvironmentType;
+  private readonly overrides: Partial<FeatureFlags>;
+
+  /**
+   * @param {EnvironmentType} [environment] - Environment to read flags from (default: current)
+   * @param {Partial<FeatureFlags>} [overrides] - Values taking precedence over the environment
+   */
+  constructor(environment?: EnvironmentType, overrides: Partial<FeatureFlags> = {}) {
+    this.environment = environment;
+    this.overrides = overrides;
+  }
+
+  /**
+   * Extracts `name=value` pairs from test annotations of a given type
+   *
+   * @param {TestInfo['annotations']} annotations - Test annotations
+   * @param {string} type - Annotation type to read
+   * @returns {Partial<FeatureFlags>} Parsed flags (a bare `name` means `true`)
+   */
+  static fromAnnotations(
+    annotations: TestInfo['annotations'],
+    type: string,
+  ): Partial<FeatureFlags> {
+    return annotations
+      .filter(annotation => annotation.type === type && annotation.description)
+      .reduce<Partial<FeatureFlags>>((flags, annotation) => {
+        const [name, ...rest] = String(annotation.description).split('=');
+        flags[name.trim()] = rest.length > 0 ? parseFlagValue(rest.join('=')) : true;
+        return flags;
+      }, {});
+  }
+
+  /**
+   * Normalizes requirements to expected values (a listed name means `true`)
+   * @param {FlagRequirements} requirements - Required flag names or expected values
+   * @returns {Partial<FeatureFlags>} Expected flag values
+   */
+  static toExpectations(requirements: FlagRequirements): Partial<FeatureFlags> {
+    if (!Array.isArray(requirements)) {
+      return requirements;
+    }
+    return requirements.reduce<Partial<FeatureFlags>>(
+      (flags, name) => ({ ...flags, [name]: true }),
+      {},
+    );
+  }
+
+  /**
+   * Returns every flag with overrides applied
+   * @returns {FeatureFlags} Effective flags
+   */
+  all(): FeatureFlags {
+    const environment = this.environment ?? EnvironmentConfigManager.getCurrentEnvironment();
+    // Overrides are partial but never remove a flag, so the result is still complete
+    return {
+      ...EnvironmentConfigManager.getConfig(environment).features,
+      ...this.overrides,
+    } as FeatureFlags;
+  }
+
+  /**
+   * Reads a flag
+   * @param {K} name - Flag name
+   * @returns {FeatureFlags[K]} Flag value (undefined for unknown custom flags)
+   */
+  get<K extends keyof FeatureFlags>(name: K): FeatureFlags[K] {
+    return this.all()[name];
+  }
+
+  /**
+   * Reads a custom flag with a typed fallback
+   *
+   * @description
+   * Returns the fallback when the flag is missing or holds a value of a different type,
+   * so `value('maxCartItems', 6)` is always a number.
+   *
+   * @param {string} name - Flag name
+   * @param {T} fallback - Default value, also defining the expected type
+   * @returns {T} Flag value or fallback
+   */
+  value<T extends FeatureFlagValue>(name: string, fallback: T): T {
+    const current = this.all()[name] as FeatureFlagValue | undefined;
+    return typeof current === typeof fallback ? (current as T) : fallback;
+  }
+
+  /**
+   * Checks whether a flag is enabled (`true`, a non-zero number or a non-empty string)
+   * @param {keyof FeatureFlags} name - Flag name
+   */
+  isEnabled(name: keyof FeatureFlags): boolean {
+    return Boolean(this.get(name));
+  }
+
+  /**
+   * Returns a new service with additional overrides
+   * @param {Partial<FeatureFlags>} overrides - Values taking precedence over current ones
+   */
+  withOverrides(overrides: Partial<FeatureFlags>): FeatureFlagService {
+    return new FeatureFlagService(this.environment, { ...this.overrides, ...overrides });
+  }
+
+  /**
+   * Evaluates flag requirements
+   *
+   * @param {FlagRequirements} requirements - Flags that must be enabled or hold given values
+   * @returns {string | undefined} Reason the requirements are not met, or undefined when satisfied
+   *
+   * @example
+   * ```typescript
+   * Flags.check(['enableMocking']);
+   * // 'Requires feature flag enableMocking=true (prod has false)'
+   * ```
+   */
+  check(requirements: FlagRequirements): string | undefined {
+    const flags = this.all();
+    const unmet = Object.entries(FeatureFlagService.toExpectations(requirements)).filter(
+      ([name, value]) => (value === true ? !flags[name] : flags[name] !== value),
+    );
+    if (unmet.length === 0) {
+      return undefined;
+    }
+
+    const environment = this.environment ?? EnvironmentConfigManager.getCurrentEnvironment();
+    const details = unmet.map(
+      ([name, value]) =>
+        `${name}=${String(value)} (${environment} has ${JSON.stringify(flags[name] ?? null)})`,
+    );
+    return `Requires feature flag ${details.join(', ')}`;
+  }
+}
+
+/**
+ * Feature flags of the current environment
+ */
+export const Flags = new FeatureFlagService();
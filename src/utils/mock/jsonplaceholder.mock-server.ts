@@ -0,0 +1,480 @@
+/**
+ * @fileoverview JSONPlaceholder Mock Server - Stateful in-process emulator for offline API test runs
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * When `features.enableMocking` is on, global setup starts this server and points
+ * `jsonplaceholder.baseURL` at it, so the API suite runs without network access and against
+ * the same data every time. Resources come from `@data/mock/jsonplaceholder.dataset` (the
+ * records of `jsonplaceholder.mocks.ts` plus generated ones up to `RESOURCE_COUNTS`).
+ *
+ * Unlike the public API, which fakes every write, the emulator stores them:
+ * - `GET /{resource}` with field filters (`/comments?postId=1`), sorting (`_sort`, `_order`) and
+ *   paging (`_page`, `_limit`, `_start`, `_end`); other `_` parameters are ignored
+ * - `GET /{resource}/{id}` and nested lists (`/posts/1/comments`, `/users/1/albums`)
+ * - `POST /{resource}` and `POST /{resource}/{id}/{child}` create records (id = highest id + 1)
+ * - `PUT` replaces, `PATCH` merges and `DELETE` removes a record
+ * - Unknown resources and ids answer `404 {}`
+ *
+ * Writes are scoped to a session named by the `x-mock-session` header, so parallel tests never
+ * see each other's data. A session starts from the pristine dataset on its first write and is
+ * discarded with `POST /__mock/reset`, which the API fixtures send after every test.
+ *
+ * @example
+ * ```typescript
+ * import { MockServer } from '@utils/mock/jsonplaceholder.mock-server';
+ *
+ * const baseURL = await MockServer.start(); // http://127.0.0.1:43121
+ * const headers = { 'x-mock-session': 'checkout-test' };
+ * await fetch(`${baseURL}/posts`, { method: 'POST', headers, body: '{"title":"t"}' }); // id 101
+ * await fetch(`${baseURL}/posts/101`, { headers }); // 200, stored post
+ * await fetch(`${baseURL}/__mock/reset`, { method: 'POST', headers });
+ * await MockServer.stop();
+ * ```
+ */
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import {
+  buildJsonPlaceholderDataset,
+  JSONPLACEHOLDER_RELATIONS,
+} from '@data/mock/jsonplaceholder.dataset';
+import { MOCK_ERRORS, MOCK_HEADERS } from '@data/mock/jsonplaceholder.mocks';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import {
+  JSONPLACEHOLDER_API,
+  type JsonPlaceholderResource,
+} from '@utils/constants/jsonplaceholder.constants';
+
+const { STATUS_CODES } = JSONPLACEHOLDER_API;
+
+/**
+ * Response produced by a route
+ */
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * A stored record; writes may add arbitrary fields
+ */
+type StoredRecord = Record<string, unknown> & { id: number };
+
+/**
+ * Records of one session
+ */
+type SessionData = Record<JsonPlaceholderResource, StoredRecord[]>;
+
+/**
+ * Parsed request as seen by the routes
+ */
+interface MockRequest {
+  method: string;
+  /** Path segments, e.g. `['posts', '1', 'comments']` */
+  segments: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  session: string;
+}
+
+const NOT_FOUND: MockResponse = { status: STATUS_CODES.CLIENT_ERROR.NOT_FOUND, body: {} };
+
+/**
+ * Builds pristine session data
+ */
+function buildSessionData(): SessionData {
+  return buildJsonPlaceholderDataset() as unknown as SessionData;
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @param request - Incoming request
+ * @returns Parsed body (empty object when there is none)
+ * @throws {SyntaxError} When the body is not valid JSON
+ */
+async function readBody(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+}
+
+/**
+ * JSONPlaceholder Mock Server
+ *
+ * @description
+ * One server per process; `start()` is idempotent and returns the base URL of the running
+ * instance. Reads of sessions that never wrote are served from a shared pristine dataset.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class JsonPlaceholderMockServer {
+  private server?: http.Server;
+  private baseURL?: string;
+  private pristine: SessionData = buildSessionData();
+  private readonly sessions = new Map<string, SessionData>();
+
+  /**
+   * Base URL of the running server, or undefined when stopped
+   */
+  get url(): string | undefined {
+    return this.baseURL;
+  }
+
+  /**
+   * Number of sessions holding written data
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Starts the server
+   *
+   * @param {number} [port] - Port to listen on (default: a free port chosen by the OS)
+   * @returns {Promise<string>} Base URL, e.g. `http://127.0.0.1:43121`
+   */
+  async start(port: number = FRAMEWORK_CONSTANTS.MOCK_SERVER.PORT): Promise<string> {
+    if (this.server && this.baseURL) {
+      return this.baseURL;
+    }
+
+    this.pristine = buildSessionData();
+    this.sessions.clear();
+    const server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, FRAMEWORK_CONSTANTS.MOCK_SERVER.HOST, () => resolve());
+    });
+
+    const { address, port: boundPort } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseURL = `http://${address}:${boundPort}`;
+    return this.baseURL;
+  }
+
+  /**
+   * Stops the server and drops every session; does nothing when it is not running
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.baseURL = undefined;
+    this.sessions.clear();
+    if (!server) {
+      return;
+    }
+
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Discards the data written in a session
+   * @param {string} [session] - Session name (default: requests without a session header)
+   * @returns {boolean} Whether the session held any data
+   */
+  reset(session: string = FRAMEWORK_CONSTANTS.MOCK_SERVER.DEFAULT_SESSION): boolean {
+    return this.sessions.delete(session);
+  }
+
+  /**
+   * Answers a request routed to the mock API
+   *
+   * @param {string} method - HTTP method
+   * @param {string} url - Path with optional query string, e.g. `/comments?postId=1`
+   * @param {Record<string, unknown>} [body] - Parsed JSON body
+   * @param {string} [session] - Session the request belongs to
+   * @returns {MockResponse} Status and JSON body
+   */
+  respond(
+    method: string,
+    url: string,
+    body: Record<string, unknown> = {},
+    session: string = FRAMEWORK_CONSTANTS.MOCK_SERVER.DEFAULT_SESSION,
+  ): MockResponse {
+    const parsed = new URL(url, 'http://mock.local');
+    return this.route({
+      method: method.toUpperCase(),
+      segments: parsed.pathname.split('/').filter(Boolean),
+      query: parsed.searchParams,
+      body,
+      session,
+    });
+  }
+
+  /**
+   * Node request handler
+   * @param request - Incoming request
+   * @param response - Server response
+   */
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+  ): Promise<void> {
+    const { SESSION_HEADER, DEFAULT_SESSION } = FRAMEWORK_CONSTANTS.MOCK_SERVER;
+    const header = request.headers[SESSION_HEADER];
+    const session = (Array.isArray(header) ? header[0] : header) ?? DEFAULT_SESSION;
+
+    let result: MockResponse;
+    try {
+      const body = await readBody(request);
+      result = this.respond(request.method ?? 'GET', request.url ?? '/', body, session);
+    } catch {
+      result = { status: STATUS_CODES.CLIENT_ERROR.BAD_REQUEST, body: MOCK_ERRORS.BAD_REQUEST };
+    }
+
+    const payload = JSON.stringify(result.body);
+    response.writeHead(result.status, {
+      ...(result.status < STATUS_CODES.CLIENT_ERROR.BAD_REQUEST
+        ? MOCK_HEADERS.SUCCESS
+        : MOCK_HEADERS.NOT_FOUND),
+      'content-length': Buffer.byteLength(payload),
+    });
+    response.end(payload);
+  }
+
+  /**
+   * Dispatches a request by path shape
+   * @param request - Parsed request
+   */
+  private route(request: MockRequest): MockResponse {
+    if (`/${request.segments.join('/')}` === FRAMEWORK_CONSTANTS.MOCK_SERVER.RESET_PATH) {
+      return request.method === 'POST'
+        ? { status: STATUS_CODES.SUCCESS.OK, body: { reset: this.reset(request.session) } }
+        : NOT_FOUND;
+    }
+
+    const [resource, id, child] = request.segments;
+    if (!this.isResource(resource)) {
+      return NOT_FOUND;
+    }
+
+    switch (request.segments.length) {
+      case 1:
+        return this.routeCollection(resource, request);
+      case 2:
+        return this.routeItem(resource, Number(id), request);
+      case 3:
+        return this.routeNested(resource, Number(id), child, request);
+      default:
+        return NOT_FOUND;
+    }
+  }
+
+  /**
+   * `/{resource}` - list with filters, or create
+   */
+  private routeCollection(resource: JsonPlaceholderResource, request: MockRequest): MockResponse {
+    switch (request.method) {
+      case 'GET':
+        return {
+          status: STATUS_CODES.SUCCESS.OK,
+          body: this.list(this.read(request.session)[resource], request.query),
+        };
+      case 'POST':
+        return this.create(resource, request.body, request.session);
+      default:
+        return NOT_FOUND;
+    }
+  }
+
+  /**
+   * `/{resource}/{id}` - read, replace, update or delete one record
+   */
+  private routeItem(
+    resource: JsonPlaceholderResource,
+    id: number,
+    request: MockRequest,
+  ): MockResponse {
+    const index = this.read(request.session)[resource].findIndex(record => record.id === id);
+    if (index < 0) {
+      return NOT_FOUND;
+    }
+    if (request.method === 'GET') {
+      return { status: STATUS_CODES.SUCCESS.OK, body: this.read(request.session)[resource][index] };
+    }
+
+    const records = this.write(request.session)[resource];
+    switch (request.method) {
+      case 'PUT':
+        records[index] = { ...request.body, id };
+        return { status: STATUS_CODES.SUCCESS.OK, body: records[index] };
+      case 'PATCH':
+        records[index] = { ...records[index], ...request.body, id };
+        return { status: STATUS_CODES.SUCCESS.OK, body: records[index] };
+      case 'DELETE':
+        records.splice(index, 1);
+        return { status: STATUS_CODES.SUCCESS.OK, body: {} };
+      default:
+        return NOT_FOUND;
+    }
+  }
+
+  /**
+   * `/{resource}/{id}/{child}` - children of one record, e.g. `/posts/1/comments`
+   */
+  private routeNested(
+    resource: JsonPlaceholderResource,
+    id: number,
+    child: string,
+    request: MockRequest,
+  ): MockResponse {
+    const foreignKey = this.isResource(child)
+      ? JSONPLACEHOLDER_RELATIONS[resource]?.[child]
+      : undefined;
+    if (!foreignKey) {
+      return NOT_FOUND;
+    }
+
+    const childResource = child as JsonPlaceholderResource;
+    switch (request.method) {
+      case 'GET': {
+        const query = new URLSearchParams(request.query);
+        query.set(foreignKey, String(id));
+        return {
+          status: STATUS_CODES.SUCCESS.OK,
+          body: this.list(this.read(request.session)[childResource], query),
+        };
+      }
+      case 'POST':
+        return this.read(request.session)[resource].some(record => record.id === id)
+          ? this.create(childResource, { ...request.body, [foreignKey]: id }, request.session)
+          : NOT_FOUND;
+      default:
+        return NOT_FOUND;
+    }
+  }
+
+  /**
+   * Stores a new record with the next free id
+   * @param resource - Target resource
+   * @param body - Record fields
+   * @param session - Session to write to
+   */
+  private create(
+    resource: JsonPlaceholderResource,
+    body: Record<string, unknown>,
+    session: string,
+  ): MockResponse {
+    const records = this.write(session)[resource];
+    const record = {
+      ...body,
+      id: records.reduce((highest, candidate) => Math.max(highest, candidate.id), 0) + 1,
+    };
+    records.push(record);
+    return { status: STATUS_CODES.SUCCESS.CREATED, body: record };
+  }
+
+  /**
+   * Data visible to a session (pristine until the session writes)
+   * @param session - Session name
+   */
+  private read(session: string): SessionData {
+    return this.sessions.get(session) ?? this.pristine;
+  }
+
+  /**
+   * Data of a session, copied from the pristine dataset on first write
+   * @param session - Session name
+   */
+  private write(session: string): SessionData {
+    let data = this.sessions.get(session);
+    if (!data) {
+      data = buildSessionData();
+      this.sessions.set(session, data);
+    }
+    return data;
+  }
+
+  /**
+   * Filters, sorts and pages records like the public API
+   * @param records - Records of a resource
+   * @param query - Query parameters, e.g. `userId=1&_sort=title&_limit=5`
+   */
+  private list(records: StoredRecord[], query: URLSearchParams): StoredRecord[] {
+    return this.paginate(this.sort(this.filter(records, query), query), query);
+  }
+
+  /**
+   * Keeps records whose fields match every query parameter (repeated parameters match any value);
+   * parameters starting with `_` control the listing and are not fields
+   * @param records - Records to filter
+   * @param query - Query parameters, e.g. `postId=1&postId=2`
+   */
+  private filter(records: StoredRecord[], query: URLSearchParams): StoredRecord[] {
+    const fields = [...new Set(query.keys())].filter(field => !field.startsWith('_'));
+    return records.filter(record =>
+      fields.every(field => query.getAll(field).includes(String(record[field]))),
+    );
+  }
+
+  /**
+   * Sorts records by `_sort` (comma-separated fields), each `asc` or `desc` by `_order`
+   * @param records - Records to sort
+   * @param query - Query parameters, e.g. `_sort=userId,title&_order=desc,asc`
+   */
+  private sort(records: StoredRecord[], query: URLSearchParams): StoredRecord[] {
+    const fields = query.get('_sort')?.split(',').filter(Boolean) ?? [];
+    const orders = query.get('_order')?.split(',') ?? [];
+    const compare = (a: unknown, b: unknown): number =>
+      typeof a === 'number' && typeof b === 'number'
+        ? a - b
+        : String(a ?? '').localeCompare(String(b ?? ''));
+    return fields.length === 0
+      ? records
+      : [...records].sort((a, b) =>
+          fields.reduce(
+            (result, field, index) =>
+              result || compare(a[field], b[field]) * (orders[index] === 'desc' ? -1 : 1),
+            0,
+          ),
+        );
+  }
+
+  /**
+   * Slices records by `_page` and `_limit`, or by `_start`, `_end` and `_limit`
+   * @param records - Records to page
+   * @param query - Query parameters, e.g. `_page=2&_limit=5` or `_start=10&_limit=5`
+   */
+  private paginate(records: StoredRecord[], query: URLSearchParams): StoredRecord[] {
+    const number = (name: string): number | undefined => {
+      const value = query.get(name);
+      return value === null || Number.isNaN(Number(value)) ? undefined : Number(value);
+    };
+    const limit = number('_limit');
+    const page = number('_page');
+    if (page !== undefined) {
+      const size = limit ?? FRAMEWORK_CONSTANTS.MOCK_SERVER.PAGE_SIZE;
+      return records.slice((Math.max(page, 1) - 1) * size, Math.max(page, 1) * size);
+    }
+    const start = number('_start') ?? 0;
+    const end = number('_end') ?? (limit === undefined ? undefined : start + limit);
+    return records.slice(start, end);
+  }
+
+  /**
+   * Type guard for resource names
+   * @param name - Path segment
+   */
+  private isResource(name: string | undefined): name is JsonPlaceholderResource {
+    return name !== undefined && Object.prototype.hasOwnProperty.call(this.pristine, name);
+  }
+}
+
+/**
+ * Mock server instance shared by global setup and teardown
+ */
+export const MockServer = new JsonPlaceholderMockServer();
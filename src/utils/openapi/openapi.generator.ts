@@ -0,0 +1,629 @@
+/**
+ * @fileoverview OpenAPI Generator - Constants, schemas, types, client and mocks from OpenAPI 3
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Onboards a service from its OpenAPI 3 document (YAML or JSON) by emitting the same kind of
+ * modules that were written by hand for JSONPlaceholder:
+ *
+ * - `src/utils/constants/<name>.constants.ts` - `<NAME>_API` with `BASE_URL` and an `ENDPOINTS`
+ *   table of `{ method, path }` entries (also usable with `createRestClient`)
+ * - `src/api/schemas/<name>.schemas.ts` - `<NAME>_SCHEMAS` Ajv schemas and response interfaces
+ * - `src/api/clients/<name>.client.ts` - `<Name>ApiClient` with one typed method per operation,
+ *   returning validated {@link ApiResult}s
+ * - `data/mock/<name>.mocks.ts` - `MOCK_<SCHEMA>` records built from examples and formats
+ *
+ * Operations are grouped by their first tag (or first path segment) and named after their
+ * `operationId`. Inline request and response schemas get `<OPERATION>_REQUEST` and
+ * `<OPERATION>_RESPONSE` entries next to the component schemas.
+ *
+ * @example
+ * ```typescript
+ * const document = OpenApiGenerator.load('specs/orders.openapi.yaml');
+ * const generator = new OpenApiGenerator(document, {
+ *   name: 'orders',
+ *   source: 'specs/orders.openapi.yaml',
+ * });
+ * await OpenApiGenerator.write(generator.generate(), '.');
+ * generator.warnings.forEach(warning => console.warn(warning));
+ * ```
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import * as prettier from 'prettier';
+import { parse as parseYaml } from 'yaml';
+
+import { validateBody } from '@api/clients/api-result';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import type { HttpMethod } from '@utils/constants/jsonplaceholder.constants';
+import {
+  OpenApiSchemaConverter,
+  componentName,
+  propertyKey,
+  toCamelCase,
+  toKebabCase,
+  toPascalCase,
+  toUpperSnakeCase,
+} from '@utils/openapi/openapi.schema-converter';
+import type {
+  GeneratedFile,
+  OpenApiContent,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiSchema,
+} from '@utils/openapi/openapi.types';
+
+/**
+ * Generator options
+ */
+export interface OpenApiGeneratorOptions {
+  /** Service name used for file names and identifiers, e.g. `orders` or `order-service` */
+  name: string;
+  /** Document path written into the generated file headers */
+  source: string;
+}
+
+/**
+ * Files written and skipped by {@link OpenApiGenerator.write}
+ */
+export interface GeneratorWriteResult {
+  written: string[];
+  /** Existing files left untouched because `force` was not set */
+  skipped: string[];
+}
+
+/**
+ * Schema emitted into `<NAME>_SCHEMAS` with its TypeScript type
+ */
+interface NamedSchema {
+  /** Component name, or the key for inline operation schemas */
+  name: string;
+  key: string;
+  typeName: string;
+  schema: OpenApiSchema;
+  /** True for `components.schemas` entries, false for inline operation schemas */
+  component: boolean;
+}
+
+/**
+ * Operation as emitted into the endpoint table and the client
+ */
+interface OperationModel {
+  resource: string;
+  name: string;
+  methodName: string;
+  method: HttpMethod;
+  path: string;
+  summary: string;
+  pathParams: OpenApiParameter[];
+  queryParams: OpenApiParameter[];
+  body?: { typeName: string; required: boolean };
+  response?: { typeName: string; schemaKey: string };
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+const SCALAR_TYPES = ['string', 'integer', 'number', 'boolean'];
+
+/**
+ * Single-line text safe to place inside a block comment
+ * @param text - Summary or description
+ */
+function commentText(text: string): string {
+  return text.split('\n')[0].replace(/\*\//g, '*\\/').trim();
+}
+
+/**
+ * `@param args` text of a client method
+ * @param operation - Operation model
+ */
+function argsDescription({ pathParams, queryParams, body }: OperationModel): string {
+  const parts = [
+    pathParams.length > 0 ? 'path parameters' : '',
+    queryParams.length > 0 ? '`query` parameters' : '',
+    body ? '`data` body' : '',
+  ].filter(Boolean);
+  return `Request input: ${parts.join(', ')}`;
+}
+
+/**
+ * True for plain objects (mocks are only generated for object schemas)
+ * @param value - Sample value
+ */
+function isRecord(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * OpenAPI Generator
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class OpenApiGenerator {
+  /** Problems found while generating, e.g. mocks that do not satisfy their schema */
+  readonly warnings: string[] = [];
+
+  private readonly document: OpenApiDocument;
+  private readonly converter: OpenApiSchemaConverter;
+  private readonly source: string;
+  private readonly fileName: string;
+  private readonly prefix: string;
+  private readonly typePrefix: string;
+  private readonly schemas: NamedSchema[];
+  private readonly operations: OperationModel[];
+
+  /**
+   * @param {OpenApiDocument} document - Parsed OpenAPI 3 document
+   * @param {OpenApiGeneratorOptions} options - Service name and document path
+   */
+  constructor(document: OpenApiDocument, options: OpenApiGeneratorOptions) {
+    const components = document.components?.schemas ?? {};
+    this.document = document;
+    this.converter = new OpenApiSchemaConverter(components);
+    this.source = options.source;
+    this.fileName = toKebabCase(options.name);
+    this.prefix = toUpperSnakeCase(options.name);
+    this.typePrefix = toPascalCase(options.name);
+    this.schemas = Object.entries(components).map(([name, schema]) => ({
+      name,
+      key: toUpperSnakeCase(name),
+      typeName: toPascalCase(name),
+      schema,
+      component: true,
+    }));
+    this.operations = this.collectOperations();
+  }
+
+  /**
+   * Reads an OpenAPI document
+   * @param {string} file - `.yaml`, `.yml` or `.json` file
+   * @returns {OpenApiDocument} Parsed document
+   * @throws {Error} When the file is not an OpenAPI 3 document
+   */
+  static load(file: string): OpenApiDocument {
+    const text = fs.readFileSync(file, 'utf-8');
+    const document = (
+      file.endsWith('.json') ? JSON.parse(text) : parseYaml(text)
+    ) as Partial<OpenApiDocument> | null;
+    if (!document?.openapi?.startsWith('3.') || !document.paths) {
+      throw new Error(`${file} is not an OpenAPI 3 document`);
+    }
+    return document as OpenApiDocument;
+  }
+
+  /**
+   * Formats generated files with the repository's Prettier settings and writes them
+   *
+   * @param {GeneratedFile[]} files - Output of {@link OpenApiGenerator.generate}
+   * @param {string} outDir - Root the file paths are relative to
+   * @param {boolean} [force] - Overwrite existing files
+   * @returns {Promise<GeneratorWriteResult>} Written and skipped paths
+   */
+  static async write(
+    files: GeneratedFile[],
+    outDir: string,
+    force = false,
+  ): Promise<GeneratorWriteResult> {
+    const result: GeneratorWriteResult = { written: [], skipped: [] };
+    await Promise.all(
+      files.map(async file => {
+        const target = path.resolve(outDir, file.path);
+        if (fs.existsSync(target) && !force) {
+          result.skipped.push(file.path);
+          return;
+        }
+        const config = await prettier.resolveConfig(target);
+        const content = await prettier.format(file.content, { ...config, filepath: target });
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, content);
+        result.written.push(file.path);
+      }),
+    );
+    return result;
+  }
+
+  /**
+   * Generates the constants, schemas, client and mocks modules
+   * @returns {GeneratedFile[]} Unformatted files
+   */
+  generate(): GeneratedFile[] {
+    const dirs = FRAMEWORK_CONSTANTS.OPENAPI.OUTPUT_DIRS;
+    return [
+      { path: `${dirs.CONSTANTS}/${this.fileName}.constants.ts`, content: this.constantsModule() },
+      { path: `${dirs.SCHEMAS}/${this.fileName}.schemas.ts`, content: this.schemasModule() },
+      { path: `${dirs.CLIENTS}/${this.fileName}.client.ts`, content: this.clientModule() },
+      { path: `${dirs.MOCKS}/${this.fileName}.mocks.ts`, content: this.mocksModule() },
+    ];
+  }
+
+  /**
+   * Header comment of a generated module
+   * @param kind - Module kind, e.g. `API Constants`
+   * @param purpose - One-line description
+   */
+  private header(kind: string, purpose: string): string {
+    return [
+      '/**',
+      ` * ${commentText(this.document.info.title)} ${kind}`,
+      ` * ${purpose}`,
+      ' *',
+      ` * Generated by scripts/generate-openapi.ts from ${this.source} (version ${this.document.info.version}).`,
+      ' * Re-run the generator instead of editing this file.',
+      ' */',
+      '',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Walks every path and method of the document
+   */
+  private collectOperations(): OperationModel[] {
+    const operations: OperationModel[] = [];
+    Object.entries(this.document.paths).forEach(([route, item]) => {
+      HTTP_METHODS.forEach(method => {
+        const operation = item[method];
+        if (operation) {
+          operations.push(this.toOperation(route, method, operation, item.parameters ?? []));
+        }
+      });
+    });
+    return operations;
+  }
+
+  /**
+   * Builds the model of one operation
+   * @param route - Path template
+   * @param method - Lower-case HTTP method
+   * @param operation - Operation object
+   * @param shared - Path-level parameters
+   */
+  private toOperation(
+    route: string,
+    method: (typeof HTTP_METHODS)[number],
+    operation: OpenApiOperation,
+    shared: OpenApiParameter[],
+  ): OperationModel {
+    const firstSegment = route.split('/').find(segment => segment && !segment.startsWith('{'));
+    const id = operation.operationId ?? `${method} ${route.replace(/[{}]/g, '')}`;
+    const parameters = new Map<string, OpenApiParameter>();
+    [...shared, ...(operation.parameters ?? [])]
+      .map(parameter => this.resolve(parameter))
+      .forEach(parameter => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+    return {
+      resource: toUpperSnakeCase(operation.tags?.[0] ?? firstSegment ?? 'root'),
+      name: toUpperSnakeCase(id),
+      methodName: toCamelCase(id),
+      method: method.toUpperCase() as HttpMethod,
+      path: route,
+      summary: commentText(
+        operation.summary ?? operation.description ?? `${method.toUpperCase()} ${route}`,
+      ),
+      pathParams: [...parameters.values()].filter(parameter => parameter.in === 'path'),
+      queryParams: [...parameters.values()].filter(parameter => parameter.in === 'query'),
+      body: this.requestBodyOf(operation, id),
+      response: this.responseOf(operation, id),
+    };
+  }
+
+  /**
+   * Follows a local `$ref` (`#/components/parameters/...`, `#/components/responses/...`)
+   * @param value - Object that may be a reference
+   * @throws {Error} When the reference cannot be resolved
+   */
+  private resolve<T extends { $ref?: string }>(value: T): T {
+    if (!value.$ref) {
+      return value;
+    }
+    const target = value.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce<unknown>(
+        (node, segment) => (node as Record<string, unknown> | undefined)?.[segment],
+        this.document,
+      );
+    if (!target || typeof target !== 'object') {
+      throw new Error(`Cannot resolve ${value.$ref}`);
+    }
+    return this.resolve(target as T);
+  }
+
+  /**
+   * JSON schema of a request body or response
+   * @param content - Body or response object
+   */
+  private jsonSchemaOf(content: OpenApiContent): OpenApiSchema | undefined {
+    const media = Object.entries(content.content ?? {}).find(([type]) => type.includes('json'));
+    return media?.[1].schema;
+  }
+
+  /**
+   * Names a schema: components keep their name, inline schemas are registered
+   * @param schema - Body or response schema
+   * @param key - `<NAME>_SCHEMAS` key for inline schemas
+   * @param typeName - Type name for inline schemas
+   */
+  private register(
+    schema: OpenApiSchema,
+    key: string,
+    typeName: string,
+  ): { typeName: string; schemaKey: string } {
+    if (schema.$ref) {
+      const name = componentName(schema.$ref);
+      return { typeName: toPascalCase(name), schemaKey: toUpperSnakeCase(name) };
+    }
+    this.schemas.push({ name: key, key, typeName, schema, component: false });
+    return { typeName, schemaKey: key };
+  }
+
+  /**
+   * Request body type of an operation
+   * @param operation - Operation object
+   * @param id - Operation id
+   */
+  private requestBodyOf(
+    operation: OpenApiOperation,
+    id: string,
+  ): OperationModel['body'] | undefined {
+    if (!operation.requestBody) {
+      return undefined;
+    }
+    const body = this.resolve(operation.requestBody);
+    const schema = this.jsonSchemaOf(body);
+    return schema
+      ? {
+          typeName: this.register(
+            schema,
+            `${toUpperSnakeCase(id)}_REQUEST`,
+            `${toPascalCase(id)}Request`,
+          ).typeName,
+          required: body.required ?? false,
+        }
+      : undefined;
+  }
+
+  /**
+   * Response of the first documented 2xx status
+   * @param operation - Operation object
+   * @param id - Operation id
+   */
+  private responseOf(operation: OpenApiOperation, id: string): OperationModel['response'] {
+    const responses = operation.responses ?? {};
+    const status = Object.keys(responses)
+      .filter(code => code.startsWith('2'))
+      .sort()[0] as string | undefined;
+    const schema = status ? this.jsonSchemaOf(this.resolve(responses[status])) : undefined;
+    return schema
+      ? this.register(schema, `${toUpperSnakeCase(id)}_RESPONSE`, `${toPascalCase(id)}Response`)
+      : undefined;
+  }
+
+  /**
+   * Absolute base URL of the first server
+   */
+  private baseUrl(): string {
+    const server = this.document.servers?.[0]?.url ?? '';
+    if (/^https?:\/\//.test(server)) {
+      return server.replace(/\/$/, '');
+    }
+    return `${FRAMEWORK_CONSTANTS.OPENAPI.DEFAULT_BASE_URL}${server.replace(/\/$/, '')}`;
+  }
+
+  /**
+   * `<NAME>_API` module
+   */
+  private constantsModule(): string {
+    const resources = new Map<string, OperationModel[]>();
+    this.operations.forEach(operation => {
+      resources.set(operation.resource, [...(resources.get(operation.resource) ?? []), operation]);
+    });
+    const table = [...resources.entries()].map(([resource, operations]) =>
+      [
+        `    ${resource}: {`,
+        ...operations.map(
+          ({ name, method, path: route }) =>
+            `      ${name}: { method: '${method}', path: ${JSON.stringify(route)} },`,
+        ),
+        '    },',
+      ].join('\n'),
+    );
+
+    return `${this.header('API Constants', 'Base URL and endpoint table')}export const ${this.prefix}_API = {
+  // Base Configuration
+  BASE_URL: process.env.${this.prefix}_URL ?? ${JSON.stringify(this.baseUrl())},
+
+  // API Endpoints
+  ENDPOINTS: {
+${table.join('\n')}
+  },
+} as const;
+
+export type ${this.typePrefix}Endpoint = keyof typeof ${this.prefix}_API.ENDPOINTS;
+`;
+  }
+
+  /**
+   * `<NAME>_SCHEMAS` module with the TypeScript declarations
+   */
+  private schemasModule(): string {
+    const entries = this.schemas.map(
+      ({ key, schema }) =>
+        `  ${key}: ${JSON.stringify(this.converter.toJsonSchema(schema), null, 2)},`,
+    );
+    const declarations = this.schemas.map(({ typeName, schema }) =>
+      this.converter.toDeclaration(typeName, schema),
+    );
+
+    return `${this.header('API Response Schemas', 'JSON Schema definitions for response validation')}export const ${this.prefix}_SCHEMAS = {
+${entries.join('\n\n')}
+} as const;
+
+// Type definitions for TypeScript
+${declarations.join('\n\n')}
+`;
+  }
+
+  /**
+   * `<Name>ApiClient` module
+   */
+  private clientModule(): string {
+    const types = new Set<string>();
+    this.operations.forEach(({ body, response }) => {
+      [body?.typeName, response?.typeName].forEach(type => type && types.add(type));
+    });
+    const schemaImports = [
+      ...(this.operations.some(operation => operation.response) ? [`${this.prefix}_SCHEMAS`] : []),
+      ...[...types].map(type => `type ${type}`),
+    ];
+    const imports = [
+      "import type { APIRequestContext } from '@playwright/test';",
+      '',
+      "import { callApi, type ApiCallOptions, type ApiResult } from '@api/clients/api-result';",
+      this.operations.some(operation => operation.pathParams.length > 0)
+        ? "import { resolvePath } from '@api/clients/rest.client';"
+        : '',
+      schemaImports.length > 0
+        ? `import { ${schemaImports.join(', ')} } from '@api/schemas/${this.fileName}.schemas';`
+        : '',
+      `import { ${this.prefix}_API } from '@utils/constants/${this.fileName}.constants';`,
+    ].filter((line, index) => line !== '' || index === 1);
+
+    return `${this.header('API Client', 'Typed methods for every operation, returning validated ApiResults')}${imports.join('\n')}
+
+/**
+ * ${commentText(this.document.info.title)} API client
+ */
+export class ${this.typePrefix}ApiClient {
+  private readonly context: APIRequestContext;
+  private readonly baseUrl: string;
+
+  constructor(context: APIRequestContext, baseUrl: string = ${this.prefix}_API.BASE_URL) {
+    this.context = context;
+    this.baseUrl = baseUrl;
+  }
+
+${this.operations.map(operation => this.clientMethod(operation)).join('\n\n')}
+}
+`;
+  }
+
+  /**
+   * Client method of one operation
+   * @param operation - Operation model
+   */
+  private clientMethod(operation: OperationModel): string {
+    const args = this.argsType(operation);
+    const resultType = operation.response?.typeName ?? 'unknown';
+    const parameters = args
+      ? `args: ${args.type}${args.optional ? ' = {}' : ''}, options?: ApiCallOptions`
+      : 'options?: ApiCallOptions';
+    const url =
+      operation.pathParams.length > 0
+        ? '`${this.baseUrl}${resolvePath(path, args)}`'
+        : '`${this.baseUrl}${path}`';
+    const spec = [
+      'method',
+      `url: ${url}`,
+      operation.queryParams.length > 0 ? 'params: args.query' : '',
+      operation.body ? 'data: args.data' : '',
+      operation.response ? `schema: ${this.prefix}_SCHEMAS.${operation.response.schemaKey}` : '',
+    ].filter(Boolean);
+
+    return `  /**
+   * ${operation.summary}
+${args ? `   * @param args - ${args.description}\n` : ''}   * @param options - Error and validation behaviour
+   */
+  async ${operation.methodName}(${parameters}): Promise<ApiResult<${resultType}>> {
+    const { method, path } = ${this.prefix}_API.ENDPOINTS.${operation.resource}.${operation.name};
+    return callApi<${resultType}>(this.context, { ${spec.join(', ')} }, options);
+  }`;
+  }
+
+  /**
+   * Argument type of a client method, undefined when the operation takes no input
+   * @param operation - Operation model
+   */
+  private argsType(
+    operation: OperationModel,
+  ): { type: string; optional: boolean; description: string } | undefined {
+    const { pathParams, queryParams, body } = operation;
+    const members = pathParams.map(
+      parameter => `${propertyKey(parameter.name)}: ${this.parameterType(parameter)};`,
+    );
+    const queryRequired = queryParams.some(parameter => parameter.required);
+    if (queryParams.length > 0) {
+      const query = queryParams.map(
+        parameter =>
+          `${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${this.parameterType(parameter)};`,
+      );
+      members.push(`query${queryRequired ? '' : '?'}: { ${query.join(' ')} };`);
+    }
+    if (body) {
+      members.push(`data${body.required ? '' : '?'}: ${body.typeName};`);
+    }
+    if (members.length === 0) {
+      return undefined;
+    }
+    return {
+      type: `{ ${members.join(' ')} }`,
+      description: argsDescription(operation),
+      optional: pathParams.length === 0 && !queryRequired && !body?.required,
+    };
+  }
+
+  /**
+   * TypeScript type of a path or query parameter (non-scalar values are passed as strings)
+   * @param parameter - Parameter object
+   */
+  private parameterType(parameter: OpenApiParameter): string {
+    const schema = parameter.schema ?? {};
+    const scalar = schema.enum ?? SCALAR_TYPES.includes(String(schema.type));
+    return scalar ? this.converter.toTsType(schema) : 'string';
+  }
+
+  /**
+   * `MOCK_<SCHEMA>` module
+   */
+  private mocksModule(): string {
+    const count = FRAMEWORK_CONSTANTS.OPENAPI.MOCK_RECORDS;
+    const records = this.schemas
+      .filter(({ component }) => component)
+      .map(named => ({
+        ...named,
+        samples: Array.from({ length: count }, (_, index) =>
+          this.converter.sample({ $ref: `#/components/schemas/${named.name}` }, index + 1),
+        ),
+      }))
+      .filter(({ samples }) => isRecord(samples[0]));
+    const blocks = records.map(({ key, typeName, schema, samples }) => {
+      validateBody(this.converter.toJsonSchema(schema), samples[0]).forEach(violation =>
+        this.warnings.push(`Mock ${typeName} does not match its schema: ${violation}`),
+      );
+      return `// Mock ${typeName} Data
+export const MOCK_${key} = {
+  SINGLE: ${JSON.stringify(samples[0])} as ${typeName},
+
+  MULTIPLE: ${JSON.stringify(samples)} as ${typeName}[],
+};`;
+    });
+    const imports =
+      records.length > 0
+        ? `import type { ${records.map(({ typeName }) => typeName).join(', ')} } from '@api/schemas/${this.fileName}.schemas';\n\n`
+        : '';
+
+    return `${this.header('Mock Data', 'Mock records generated from the schema examples, defaults and formats')}${imports}${blocks.join('\n\n')}
+
+// Export all mock data in a structured format
+export const ${this.prefix}_MOCKS = {
+${records.map(({ key }) => `  ${toCamelCase(key)}: MOCK_${key},`).join('\n')}
+} as const;
+`;
+  }
+}
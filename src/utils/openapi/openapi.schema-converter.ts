@@ -0,0 +1,555 @@
+/**
+ * @fileoverview OpenAPI Schema Converter - JSON schemas, TypeScript types and samples
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Converts OpenAPI 3 schema objects for the generator:
+ *
+ * - {@link OpenApiSchemaConverter.toJsonSchema} produces a self-contained schema Ajv compiles as
+ *   is: `#/components/schemas/X` references point into a `$defs` block holding every component
+ *   the schema reaches, `nullable` becomes a `null` type and keywords Ajv's strict mode rejects
+ *   (`example`, `xml`, `discriminator`, unknown formats) are dropped
+ * - {@link OpenApiSchemaConverter.toDeclaration} emits an interface or type alias
+ * - {@link OpenApiSchemaConverter.sample} builds a mock value from examples, defaults, enums
+ *   and formats; `id` properties are numbered so that list mocks hold distinct records
+ *
+ * @example
+ * ```typescript
+ * const converter = new OpenApiSchemaConverter(document.components?.schemas ?? {});
+ * converter.toJsonSchema({ type: 'array', items: { $ref: '#/components/schemas/Order' } });
+ * converter.toDeclaration('Order', document.components.schemas.Order);
+ * converter.sample({ $ref: '#/components/schemas/Order' }, 2); // { id: 2, ... }
+ * ```
+ */
+
+import { fullFormats } from 'ajv-formats/dist/formats';
+
+import type { OpenApiSchema } from '@utils/openapi/openapi.types';
+
+/** JSON Schema keywords copied to the generated schemas */
+const JSON_SCHEMA_KEYWORDS = new Set([
+  'type',
+  'format',
+  'title',
+  'description',
+  'default',
+  'enum',
+  'const',
+  'properties',
+  'required',
+  'additionalProperties',
+  'minProperties',
+  'maxProperties',
+  'items',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'allOf',
+  'oneOf',
+  'anyOf',
+  'not',
+  'readOnly',
+  'writeOnly',
+]);
+
+/** Formats known to `ajv-formats` */
+const KNOWN_FORMATS = new Set(Object.keys(fullFormats));
+
+const COMPONENT_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Splits an identifier into words (`listOrders`, `list-orders` and `LIST_ORDERS` → list, orders)
+ * @param value - Identifier
+ */
+function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * `listOrders` → `LIST_ORDERS`
+ * @param value - Identifier
+ */
+export function toUpperSnakeCase(value: string): string {
+  return splitWords(value).join('_').toUpperCase();
+}
+
+/**
+ * `orderService` → `order-service`
+ * @param value - Identifier
+ */
+export function toKebabCase(value: string): string {
+  return splitWords(value).join('-').toLowerCase();
+}
+
+/**
+ * `list-orders` → `ListOrders`
+ * @param value - Identifier
+ */
+export function toPascalCase(value: string): string {
+  return splitWords(value)
+    .map(word => (word === word.toUpperCase() ? word.toLowerCase() : word))
+    .map(word => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+    .join('');
+}
+
+/**
+ * `list-orders` → `listOrders`
+ * @param value - Identifier
+ */
+export function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return `${pascal.charAt(0).toLowerCase()}${pascal.slice(1)}`;
+}
+
+/**
+ * Object key as written in generated code
+ * @param key - Property name
+ */
+export function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Name of the component a `$ref` points to
+ * @param ref - Reference, e.g. `#/components/schemas/Order`
+ * @throws {Error} For references outside `components.schemas`
+ */
+export function componentName(ref: string): string {
+  if (!ref.startsWith(COMPONENT_REF_PREFIX)) {
+    throw new Error(
+      `Unsupported schema reference ${ref}; only ${COMPONENT_REF_PREFIX}* is resolved`,
+    );
+  }
+  return ref.slice(COMPONENT_REF_PREFIX.length);
+}
+
+/**
+ * Wraps a TypeScript type as an array type (`Order[]`, `Array<string | null>`)
+ * @param type - Element type
+ */
+function arrayOf(type: string): string {
+  return /^\w+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
+
+/**
+ * Sample string for a format
+ * @param format - Schema format
+ * @param index - Record number
+ * @param key - Property name
+ */
+function sampleString(format: string | undefined, index: number, key: string): string {
+  const day = String(index).padStart(2, '0');
+  switch (format) {
+    case 'date-time':
+      return `2024-01-${day}T00:00:00.000Z`;
+    case 'date':
+      return `2024-01-${day}`;
+    case 'email':
+      return `user${index}@example.com`;
+    case 'uri':
+    case 'url':
+      return `https://example.com/${key || 'resource'}/${index}`;
+    case 'uuid':
+      return `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`;
+    default:
+      return `${key || 'value'} ${index}`;
+  }
+}
+
+/**
+ * Main JSON Schema type of a schema (`object` when only `properties` are declared)
+ * @param schema - OpenAPI schema
+ */
+function schemaType(schema: OpenApiSchema): string | undefined {
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  return type ?? (schema.properties ? 'object' : undefined);
+}
+
+/**
+ * Value declared by a schema through `example`, `default` or `enum`
+ * @param schema - OpenAPI schema
+ */
+function presetOf(schema: OpenApiSchema): unknown {
+  return schema.example ?? schema.default ?? schema.enum?.[0];
+}
+
+/**
+ * Sample value of a scalar schema (`id` properties are numbered by record)
+ * @param schema - OpenAPI schema
+ * @param type - JSON Schema type
+ * @param index - Record number
+ * @param key - Property name
+ */
+function sampleScalar(
+  schema: OpenApiSchema,
+  type: string | undefined,
+  index: number,
+  key: string,
+): unknown {
+  if (type === 'integer' || type === 'number') {
+    const minimum = schema.minimum ?? 1;
+    return key === 'id' ? Math.max(index, minimum) : (presetOf(schema) ?? minimum);
+  }
+  const preset = presetOf(schema);
+  if (preset !== undefined) {
+    return preset;
+  }
+  switch (type) {
+    case 'boolean':
+      return true;
+    case 'string':
+      return sampleString(schema.format, index, key);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts OpenAPI schemas of one document
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class OpenApiSchemaConverter {
+  private readonly components: Record<string, OpenApiSchema>;
+
+  /**
+   * @param {Record<string, OpenApiSchema>} components - `components.schemas` of the document
+   */
+  constructor(components: Record<string, OpenApiSchema>) {
+    this.components = components;
+  }
+
+  /**
+   * Component schema by name
+   * @param name - Component name
+   * @throws {Error} When the document does not define it
+   */
+  component(name: string): OpenApiSchema {
+    const schema = this.components[name] as OpenApiSchema | undefined;
+    if (!schema) {
+      throw new Error(`Schema ${COMPONENT_REF_PREFIX}${name} is not defined`);
+    }
+    return schema;
+  }
+
+  /**
+   * Converts a schema to a self-contained JSON schema
+   * @param {OpenApiSchema} schema - OpenAPI schema
+   * @returns {Record<string, unknown>} Schema with the reachable components under `$defs`
+   */
+  toJsonSchema(schema: OpenApiSchema): Record<string, unknown> {
+    const converted = this.convert(schema);
+    const referenced = this.collectRefs(schema, []);
+    if (referenced.length === 0) {
+      return converted;
+    }
+    const defs: Record<string, unknown> = {};
+    referenced.forEach(name => {
+      defs[name] = this.convert(this.component(name));
+    });
+    return { ...converted, $defs: defs };
+  }
+
+  /**
+   * TypeScript type of a schema
+   * @param schema - OpenAPI schema
+   */
+  toTsType(schema: OpenApiSchema): string {
+    const type = this.baseType(schema);
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  /**
+   * Interface (plain objects) or type alias declaration for a named schema
+   * @param name - Type name
+   * @param schema - OpenAPI schema
+   */
+  toDeclaration(name: string, schema: OpenApiSchema): string {
+    const doc = schema.description ? `/** ${schema.description.replace(/\*\//g, '*\\/')} */\n` : '';
+    const plainObject = schema.properties && !schema.$ref && !schema.allOf && !schema.nullable;
+    return plainObject
+      ? `${doc}export interface ${name} {\n${this.members(schema)}\n}`
+      : `${doc}export type ${name} = ${this.toTsType(schema)};`;
+  }
+
+  /**
+   * Mock value for a schema
+   * @param {OpenApiSchema} schema - OpenAPI schema
+   * @param {number} [index] - Record number, used for `id` properties and generated strings
+   * @param {string} [key] - Property name the value is generated for
+   * @returns {unknown} Sample value
+   */
+  sample(schema: OpenApiSchema, index = 1, key = ''): unknown {
+    return this.sampleAt(schema, index, key, []);
+  }
+
+  /**
+   * Converts the keywords of one schema level
+   * @param schema - OpenAPI schema
+   */
+  private convert(schema: OpenApiSchema): Record<string, unknown> {
+    if (schema.$ref) {
+      return { $ref: `#/$defs/${componentName(schema.$ref)}` };
+    }
+    const result: Record<string, unknown> = {};
+    Object.entries(schema).forEach(([keyword, value]) => {
+      if (JSON_SCHEMA_KEYWORDS.has(keyword)) {
+        result[keyword] = this.convertKeyword(keyword, value);
+      }
+    });
+    if (schema.format && !KNOWN_FORMATS.has(schema.format)) {
+      delete result.format;
+    }
+    // OpenAPI 3.0 boolean exclusive bounds → JSON Schema numeric bounds
+    (['Minimum', 'Maximum'] as const).forEach(bound => {
+      if (schema[`exclusive${bound}`] === true) {
+        result[`exclusive${bound}`] = schema[bound.toLowerCase()];
+        delete result[bound.toLowerCase()];
+      } else if (schema[`exclusive${bound}`] === false) {
+        delete result[`exclusive${bound}`];
+      }
+    });
+    if (schema.nullable) {
+      Object.assign(result, this.nullableKeywords(schema));
+    }
+    return result;
+  }
+
+  /**
+   * Converts the subschemas of a keyword
+   * @param keyword - Keyword name
+   * @param value - Keyword value
+   */
+  private convertKeyword(keyword: string, value: unknown): unknown {
+    switch (keyword) {
+      case 'properties': {
+        const properties: Record<string, unknown> = {};
+        Object.entries(value as Record<string, OpenApiSchema>).forEach(([name, property]) => {
+          properties[name] = this.convert(property);
+        });
+        return properties;
+      }
+      case 'items':
+      case 'not':
+        return this.convert(value as OpenApiSchema);
+      case 'additionalProperties':
+        return typeof value === 'boolean' ? value : this.convert(value as OpenApiSchema);
+      case 'allOf':
+      case 'oneOf':
+      case 'anyOf':
+        return (value as OpenApiSchema[]).map(item => this.convert(item));
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Keywords that also accept `null` for an OpenAPI 3.0 `nullable` schema
+   * @param schema - OpenAPI schema
+   */
+  private nullableKeywords(schema: OpenApiSchema): Record<string, unknown> {
+    const keywords: Record<string, unknown> = {};
+    if (typeof schema.type === 'string') {
+      keywords.type = [schema.type, 'null'];
+    }
+    if (schema.enum) {
+      keywords.enum = [...schema.enum, null];
+    }
+    return keywords;
+  }
+
+  /**
+   * Direct subschemas of a schema
+   * @param schema - OpenAPI schema
+   */
+  private children(schema: OpenApiSchema): OpenApiSchema[] {
+    const children = [
+      ...Object.values(schema.properties ?? {}),
+      ...(schema.allOf ?? []),
+      ...(schema.oneOf ?? []),
+      ...(schema.anyOf ?? []),
+    ];
+    [schema.items, schema.not, schema.additionalProperties].forEach(child => {
+      if (child && typeof child === 'object') {
+        children.push(child as OpenApiSchema);
+      }
+    });
+    return children;
+  }
+
+  /**
+   * Components reachable from a schema
+   * @param schema - OpenAPI schema
+   * @param found - Components collected so far
+   */
+  private collectRefs(schema: OpenApiSchema, found: string[]): string[] {
+    if (schema.$ref) {
+      const name = componentName(schema.$ref);
+      if (!found.includes(name)) {
+        found.push(name);
+        this.collectRefs(this.component(name), found);
+      }
+      return found;
+    }
+    this.children(schema).forEach(child => this.collectRefs(child, found));
+    return found;
+  }
+
+  /**
+   * TypeScript type of a schema, ignoring `nullable`
+   * @param schema - OpenAPI schema
+   */
+  private baseType(schema: OpenApiSchema): string {
+    if (schema.$ref) {
+      return toPascalCase(componentName(schema.$ref));
+    }
+    if (schema.enum) {
+      return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    }
+    if (schema.allOf) {
+      return this.combine(schema.allOf, ' & ');
+    }
+    const union = schema.oneOf ?? schema.anyOf;
+    if (union) {
+      return this.combine(union, ' | ');
+    }
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types.map(type => this.primitiveType(type, schema)).join(' | ');
+  }
+
+  /**
+   * Joins subschema types, parenthesizing compound ones
+   * @param schemas - Subschemas
+   * @param separator - ` & ` or ` | `
+   */
+  private combine(schemas: OpenApiSchema[], separator: string): string {
+    return schemas
+      .map(schema => this.toTsType(schema))
+      .map(type => (/[|&]/.test(type) ? `(${type})` : type))
+      .join(separator);
+  }
+
+  /**
+   * TypeScript type for one JSON Schema type
+   * @param type - JSON Schema type
+   * @param schema - Schema declaring it
+   */
+  private primitiveType(type: string | undefined, schema: OpenApiSchema): string {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return arrayOf(schema.items ? this.toTsType(schema.items) : 'unknown');
+      case 'object':
+        return this.objectType(schema);
+      default:
+        return schema.properties ? this.objectType(schema) : 'unknown';
+    }
+  }
+
+  /**
+   * Inline object type
+   * @param schema - Object schema
+   */
+  private objectType(schema: OpenApiSchema): string {
+    if (schema.properties) {
+      return `{\n${this.members(schema)}\n}`;
+    }
+    const values = schema.additionalProperties;
+    return values && typeof values === 'object'
+      ? `Record<string, ${this.toTsType(values)}>`
+      : 'Record<string, unknown>';
+  }
+
+  /**
+   * Property declarations of an object schema
+   * @param schema - Object schema
+   */
+  private members(schema: OpenApiSchema): string {
+    const required = schema.required ?? [];
+    return Object.entries(schema.properties ?? {})
+      .map(([name, property]) => {
+        const doc = property.description
+          ? `/** ${property.description.replace(/\*\//g, '*\\/')} */\n`
+          : '';
+        const optional = required.includes(name) ? '' : '?';
+        return `${doc}${propertyKey(name)}${optional}: ${this.toTsType(property)};`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Sample value, resolving references and compositions
+   * @param schema - OpenAPI schema
+   * @param index - Record number
+   * @param key - Property name
+   * @param visiting - Components being sampled; recursive references are left out
+   */
+  private sampleAt(schema: OpenApiSchema, index: number, key: string, visiting: string[]): unknown {
+    if (schema.$ref) {
+      const name = componentName(schema.$ref);
+      return visiting.includes(name)
+        ? undefined
+        : this.sampleAt(this.component(name), index, key, [...visiting, name]);
+    }
+    if (schema.allOf) {
+      return Object.assign(
+        {},
+        ...schema.allOf.map(part => this.sampleAt(part, index, key, visiting) as object),
+      ) as unknown;
+    }
+    const variant = (schema.oneOf ?? schema.anyOf)?.[0];
+    if (variant) {
+      return this.sampleAt(variant, index, key, visiting);
+    }
+    return this.sampleValue(schema, index, key, visiting);
+  }
+
+  /**
+   * Sample value of a schema without references or compositions
+   * @param schema - OpenAPI schema
+   * @param index - Record number
+   * @param key - Property name
+   * @param visiting - Components being sampled
+   */
+  private sampleValue(
+    schema: OpenApiSchema,
+    index: number,
+    key: string,
+    visiting: string[],
+  ): unknown {
+    const type = schemaType(schema);
+    if (type === 'object') {
+      const record: Record<string, unknown> = {};
+      Object.entries(schema.properties ?? {}).forEach(([name, property]) => {
+        record[name] = this.sampleAt(property, index, name, visiting);
+      });
+      return record;
+    }
+    if (type === 'array') {
+      return schema.items ? [this.sampleAt(schema.items, index, key, visiting)] : [];
+    }
+    return sampleScalar(schema, type, index, key);
+  }
+}
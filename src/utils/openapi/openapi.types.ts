@@ -0,0 +1,100 @@
+/**
+ * OpenAPI Types
+ *
+ * Subset of the OpenAPI 3 document model read by the generator, and the generator's output
+ */
+
+/**
+ * OpenAPI schema object (JSON Schema with OpenAPI extensions such as `nullable`)
+ */
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  enum?: unknown[];
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  nullable?: boolean;
+  minimum?: number;
+  example?: unknown;
+  default?: unknown;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Operation or path-level parameter
+ */
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+/**
+ * Media type map of a request body or response
+ */
+export interface OpenApiContent {
+  $ref?: string;
+  description?: string;
+  required?: boolean;
+  content?: Record<string, { schema?: OpenApiSchema; example?: unknown }>;
+}
+
+/**
+ * Operation of a path item
+ */
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiContent;
+  responses?: Record<string, OpenApiContent>;
+}
+
+/**
+ * Operations and shared parameters of one path
+ */
+export interface OpenApiPathItem {
+  parameters?: OpenApiParameter[];
+  get?: OpenApiOperation;
+  post?: OpenApiOperation;
+  put?: OpenApiOperation;
+  patch?: OpenApiOperation;
+  delete?: OpenApiOperation;
+}
+
+/**
+ * OpenAPI 3 document
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiContent>;
+    responses?: Record<string, OpenApiContent>;
+  };
+}
+
+/**
+ * File produced by the generator
+ */
+export interface GeneratedFile {
+  /** Path relative to the output root, e.g. `src/api/schemas/orders.schemas.ts` */
+  path: string;
+  content: string;
+}
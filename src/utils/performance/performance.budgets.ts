@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Performance Budgets - Per-operation response time limits enforced on tests
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Every operation tracked in a test has a budget for one statistic (`p95` by default). Budgets
+ * are derived from `JSONPLACEHOLDER_API.PERFORMANCE_BENCHMARKS` for each endpoint of
+ * `JSONPLACEHOLDER_API.ENDPOINTS`, named `<METHOD> <path template>`:
+ *
+ * | Operation                                  | Tier                  |
+ * | ------------------------------------------ | --------------------- |
+ * | `GET_BY_ID` (`GET /posts/{id}`)            | `FAST_RESPONSE`       |
+ * | other reads and writes (`GET /posts`, ...) | `ACCEPTABLE_RESPONSE` |
+ * | anything else (hand-named timers)          | `SLOW_RESPONSE`       |
+ *
+ * Tests can replace budgets per operation. Breaches are annotated (`performance-budget`) or,
+ * with `E2E_PERF_BUDGETS=fail`, fail the test with a {@link PerformanceBudgetError}.
+ *
+ * @example
+ * ```typescript
+ * const budgets = new PerformanceBudgets({ budgets: { 'GET /posts': 800 } });
+ * budgets.budgetFor('GET /posts/{id}'); // { tier: 'FAST_RESPONSE', limit: 1000 }
+ * const breaches = budgets.check(performanceTracker.getAllMetrics());
+ * budgets.enforce(breaches, testInfo); // annotates, throws in fail mode
+ * ```
+ */
+
+import type { TestInfo } from '@playwright/test';
+
+import { methodOf } from '@api/clients/rest.client';
+import type { EndpointTable } from '@api/clients/rest.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+import type {
+  BudgetBreach,
+  BudgetMode,
+  BudgetTier,
+  PerformanceBudget,
+  PerformanceBudgetOptions,
+  PerformanceStats,
+} from '@utils/performance/performance.types';
+
+const BUDGET_MODES: BudgetMode[] = ['annotate', 'fail', 'off'];
+
+/**
+ * Raised when operations of a test break their budgets in `fail` mode
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PerformanceBudgetError extends Error {
+  readonly breaches: BudgetBreach[];
+
+  constructor(breaches: BudgetBreach[]) {
+    super(
+      `${breaches.length} operation(s) over their performance budget:\n${breaches
+        .map(breach => `  ✗ ${describeBreach(breach)}`)
+        .join('\n')}`,
+    );
+    this.name = 'PerformanceBudgetError';
+    this.breaches = breaches;
+  }
+}
+
+/**
+ * Describes a breach, e.g. `GET /posts/{id}: p95 1210ms > 1000ms (FAST_RESPONSE)`
+ * @param breach - Budget breach
+ */
+export function describeBreach(breach: BudgetBreach): string {
+  const { operation, statistic, actual, budget } = breach;
+  return `${operation}: ${statistic} ${actual}ms > ${budget.limit}ms (${budget.tier})`;
+}
+
+/**
+ * Derives one budget per endpoint of a table
+ *
+ * @param {EndpointTable} [endpoints] - Endpoint table, JSONPlaceholder's by default
+ * @returns {Record<string, PerformanceBudget>} Budgets by operation name
+ */
+export function deriveBudgets(
+  endpoints: EndpointTable = JSONPLACEHOLDER_API.ENDPOINTS,
+): Record<string, PerformanceBudget> {
+  const budgets: Record<string, PerformanceBudget> = {};
+  Object.keys(endpoints).forEach(resource =>
+    Object.keys(endpoints[resource]).forEach(name => {
+      const entry = endpoints[resource][name];
+      const operation = `${methodOf(resource, name, entry)} ${typeof entry === 'string' ? entry : entry.path}`;
+      const tier: BudgetTier = name === 'GET_BY_ID' ? 'FAST_RESPONSE' : 'ACCEPTABLE_RESPONSE';
+      budgets[operation] = {
+        operation,
+        tier,
+        limit: JSONPLACEHOLDER_API.PERFORMANCE_BENCHMARKS[tier],
+      };
+    }),
+  );
+  return budgets;
+}
+
+/**
+ * Checks the operations of a test against their budgets
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PerformanceBudgets {
+  readonly options: PerformanceBudgetOptions;
+
+  private readonly derived = deriveBudgets();
+
+  constructor(options: Partial<PerformanceBudgetOptions> = {}) {
+    this.options = {
+      mode: PerformanceBudgets.resolveMode(options.mode),
+      statistic: options.statistic ?? FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.BUDGET_STATISTIC,
+      budgets: options.budgets ?? {},
+    };
+  }
+
+  /**
+   * Resolves the mode from an explicit value or `E2E_PERF_BUDGETS`
+   * @param mode - Explicit mode
+   * @throws {Error} When the mode is unknown
+   */
+  static resolveMode(mode?: string): BudgetMode {
+    const { BUDGET_MODE_ENV, DEFAULT_BUDGET_MODE } = FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS;
+    const resolved = mode ?? process.env[BUDGET_MODE_ENV] ?? DEFAULT_BUDGET_MODE;
+    if (!(BUDGET_MODES as string[]).includes(resolved)) {
+      throw new Error(
+        `Unknown performance budget mode "${resolved}" (${BUDGET_MODE_ENV}); use ${BUDGET_MODES.join(', ')}`,
+      );
+    }
+    return resolved as BudgetMode;
+  }
+
+  /**
+   * Budget of an operation: the test's own, the endpoint's, or `SLOW_RESPONSE`
+   * @param operation - Operation name, e.g. `GET /posts/{id}`
+   */
+  budgetFor(operation: string): PerformanceBudget {
+    if (operation in this.options.budgets) {
+      return { operation, tier: 'custom', limit: this.options.budgets[operation] };
+    }
+    return (
+      this.derived[operation] ?? {
+        operation,
+        tier: 'SLOW_RESPONSE',
+        limit: JSONPLACEHOLDER_API.PERFORMANCE_BENCHMARKS.SLOW_RESPONSE,
+      }
+    );
+  }
+
+  /**
+   * Lists the operations whose statistic exceeds their budget
+   *
+   * @description
+   * Response statistics are per attempt (see `request-timing.ts`): retries and limiter waits do
+   * not count against a budget. Rate limiter waits (`RATE_LIMIT.WAIT_METRIC`) are not responses
+   * and have no budget.
+   *
+   * @param {Record<string, PerformanceStats>} stats - Statistics per operation
+   * @returns {BudgetBreach[]} Breaches, none in `off` mode
+   */
+  check(stats: Record<string, PerformanceStats>): BudgetBreach[] {
+    if (this.options.mode === 'off') {
+      return [];
+    }
+    const { statistic } = this.options;
+    return Object.keys(stats)
+      .filter(operation => operation !== FRAMEWORK_CONSTANTS.RATE_LIMIT.WAIT_METRIC)
+      .map(operation => ({
+        operation,
+        budget: this.budgetFor(operation),
+        statistic,
+        actual: stats[operation][statistic],
+      }))
+      .filter(breach => breach.actual > breach.budget.limit);
+  }
+
+  /**
+   * Reports breaches on a test: annotations, plus a failure in `fail` mode
+   * @param breaches - Breaches found by {@link PerformanceBudgets.check}
+   * @param testInfo - Test the operations ran in
+   * @throws {PerformanceBudgetError} When there are breaches in `fail` mode
+   */
+  enforce(breaches: BudgetBreach[], testInfo: TestInfo): void {
+    breaches.forEach(breach => {
+      console.warn(`🐢 Performance budget exceeded: ${describeBreach(breach)}`);
+      testInfo.annotations.push({
+        type: FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.ANNOTATION,
+        description: describeBreach(breach),
+      });
+    });
+    if (breaches.length > 0 && this.options.mode === 'fail') {
+      throw new PerformanceBudgetError(breaches);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Load Runner - Virtual users running a scenario against an API for a while
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * `Promise.all` over a list of requests says little about how an API behaves under load.
+ * {@link LoadRunner.run} starts the virtual users of a {@link LoadProfile} evenly over the
+ * ramp-up; each one runs the scenario in a loop (pausing `thinkTime` between iterations) until
+ * the duration has passed. An iteration fails when the scenario throws.
+ *
+ * The result reports throughput, error rate, the iteration latency (see `performance.stats.ts`)
+ * and the latency of every API operation the scenario called through a timed context
+ * (`request-timing.ts`). Thresholds turn it into a pass/fail check: a run that misses one raises
+ * a {@link LoadThresholdError} after the report is logged.
+ *
+ * @example
+ * ```typescript
+ * const runner = new LoadRunner(performanceTracker);
+ * const result = await runner.run(
+ *   {
+ *     name: 'read posts',
+ *     virtualUsers: 5,
+ *     rampUp: 500,
+ *     duration: 2000,
+ *     thresholds: { maxErrorRate: 0.01, latency: { p95: 250 } },
+ *   },
+ *   async ({ vu }) => {
+ *     await jsonPlaceholderClient.posts.get(vu);
+ *   },
+ * );
+ * // 📈 Load test "read posts": 412 iterations in 2.01s (205/s), 0% failed, p50=4.1ms p95=9.8ms
+ * console.log(result.operations['GET /posts/{id}'].p99);
+ * ```
+ */
+
+import { performance } from 'node:perf_hooks';
+
+import type { TestInfo } from '@playwright/test';
+
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { roundDuration, summarize } from '@utils/performance/performance.stats';
+import type { PerformanceTracker } from '@utils/performance/performance.tracker';
+import type {
+  BudgetStatistic,
+  LoadProfile,
+  LoadResult,
+  LoadScenario,
+  LoadThresholdResult,
+  LoadThresholds,
+  PerformanceStats,
+} from '@utils/performance/performance.types';
+
+/**
+ * State shared by the virtual users of a run
+ */
+interface LoadRun {
+  profile: LoadProfile;
+  scenario: LoadScenario;
+  /** `performance.now()` after which no iteration begins */
+  end: number;
+  latencies: number[];
+  errors: Record<string, number>;
+}
+
+/**
+ * Raised when a load test misses one of its thresholds
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class LoadThresholdError extends Error {
+  readonly result: LoadResult;
+
+  constructor(result: LoadResult) {
+    const missed = result.thresholds.filter(threshold => !threshold.passed);
+    super(
+      `Load test "${result.profile.name}" missed ${missed.length} threshold(s):\n${missed
+        .map(threshold => `  ✗ ${describeThreshold(threshold)}`)
+        .join('\n')}`,
+    );
+    this.name = 'LoadThresholdError';
+    this.result = result;
+  }
+}
+
+/**
+ * Describes a threshold outcome, e.g. `latency.p95: 310ms (limit 250ms)`
+ * @param result - Threshold outcome
+ */
+export function describeThreshold(result: LoadThresholdResult): string {
+  const unit = result.threshold.startsWith('latency.') ? 'ms' : '';
+  return `${result.threshold}: ${result.actual}${unit} (limit ${result.limit}${unit})`;
+}
+
+/**
+ * Checks a run against its thresholds
+ *
+ * @param {Pick<LoadResult, 'errorRate' | 'throughput' | 'latency'>} result - Measured run
+ * @param {LoadThresholds} [thresholds] - Limits of the profile
+ * @returns {LoadThresholdResult[]} One outcome per threshold that is set
+ */
+export function evaluateThresholds(
+  result: Pick<LoadResult, 'errorRate' | 'throughput' | 'latency'>,
+  thresholds: LoadThresholds = {},
+): LoadThresholdResult[] {
+  const outcomes: LoadThresholdResult[] = [];
+  if (thresholds.maxErrorRate !== undefined) {
+    const limit = thresholds.maxErrorRate;
+    outcomes.push({
+      threshold: 'errorRate',
+      limit,
+      actual: result.errorRate,
+      passed: result.errorRate <= limit,
+    });
+  }
+  if (thresholds.minThroughput !== undefined) {
+    const limit = thresholds.minThroughput;
+    outcomes.push({
+      threshold: 'throughput',
+      limit,
+      actual: result.throughput,
+      passed: result.throughput >= limit,
+    });
+  }
+  const latency = thresholds.latency ?? {};
+  (Object.keys(latency) as BudgetStatistic[]).forEach(statistic => {
+    const limit = latency[statistic] as number;
+    const actual = result.latency[statistic];
+    outcomes.push({ threshold: `latency.${statistic}`, limit, actual, passed: actual <= limit });
+  });
+  return outcomes;
+}
+
+/**
+ * Sleeps for the given time
+ * @param ms - Delay in milliseconds
+ */
+async function sleep(ms: number): Promise<void> {
+  await new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Runs the iterations of one virtual user from the given one until the run ends
+ * @param run - State of the run
+ * @param vu - Virtual user
+ * @param iteration - Next iteration
+ */
+async function iterate(run: LoadRun, vu: number, iteration: number): Promise<void> {
+  if (performance.now() >= run.end) {
+    return;
+  }
+  const start = performance.now();
+  try {
+    await run.scenario({ vu, iteration });
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+    run.errors[message] = (run.errors[message] ?? 0) + 1;
+  }
+  run.latencies.push(roundDuration(performance.now() - start));
+  if (run.profile.thinkTime) {
+    await sleep(run.profile.thinkTime);
+  }
+  await iterate(run, vu, iteration + 1);
+}
+
+/**
+ * Runs load profiles and collects their results
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class LoadRunner {
+  readonly results: LoadResult[] = [];
+
+  private readonly tracker?: PerformanceTracker;
+
+  /**
+   * @param tracker - Tracker the timed API calls of the scenario are recorded in
+   */
+  constructor(tracker?: PerformanceTracker) {
+    this.tracker = tracker;
+  }
+
+  /**
+   * Rejects profiles that cannot run
+   * @param profile - Load profile
+   * @throws {Error} When a value is out of range
+   */
+  static validate(profile: LoadProfile): void {
+    const { MAX_VIRTUAL_USERS } = FRAMEWORK_CONSTANTS.LOAD_TEST;
+    const { name, virtualUsers, rampUp, duration, thinkTime = 0 } = profile;
+    if (!Number.isInteger(virtualUsers) || virtualUsers < 1 || virtualUsers > MAX_VIRTUAL_USERS) {
+      throw new Error(
+        `Load test "${name}": virtualUsers must be an integer from 1 to ${MAX_VIRTUAL_USERS}, got ${virtualUsers}`,
+      );
+    }
+    if (rampUp < 0 || thinkTime < 0 || duration <= rampUp) {
+      throw new Error(
+        `Load test "${name}": rampUp and thinkTime must not be negative and duration must exceed rampUp`,
+      );
+    }
+  }
+
+  /**
+   * Runs a scenario with the virtual users of a profile
+   *
+   * @param {LoadProfile} profile - Virtual users, timing and thresholds
+   * @param {LoadScenario} scenario - One iteration of a virtual user
+   * @returns {Promise<LoadResult>} Result of a run that met its thresholds
+   * @throws {LoadThresholdError} When the run misses a threshold
+   */
+  async run(profile: LoadProfile, scenario: LoadScenario): Promise<LoadResult> {
+    LoadRunner.validate(profile);
+    const { name, virtualUsers, rampUp, duration } = profile;
+    console.log(
+      `🚀 Load test "${name}": ${virtualUsers} virtual user(s), ramp-up ${rampUp}ms, duration ${duration}ms`,
+    );
+
+    const firstCall = this.tracker ? this.tracker.getCalls().length : 0;
+    const start = performance.now();
+    const run: LoadRun = { profile, scenario, end: start + duration, latencies: [], errors: {} };
+    await Promise.all(
+      Array.from({ length: virtualUsers }, async (_, index) => {
+        await sleep((index * rampUp) / virtualUsers);
+        await iterate(run, index + 1, 1);
+      }),
+    );
+    const elapsed = roundDuration(performance.now() - start);
+
+    const result = this.summarize(run, elapsed, firstCall);
+    this.results.push(result);
+    LoadRunner.log(result);
+    if (!result.passed) {
+      throw new LoadThresholdError(result);
+    }
+    return result;
+  }
+
+  /**
+   * Attaches the results of all runs to a test
+   * @param testInfo - Test the runs belong to
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    if (this.results.length === 0) {
+      return;
+    }
+    await testInfo.attach(FRAMEWORK_CONSTANTS.LOAD_TEST.ATTACHMENT, {
+      body: JSON.stringify(this.results, null, 2),
+      contentType: 'application/json',
+    });
+  }
+
+  /**
+   * Builds the result of a finished run
+   * @param run - State of the run
+   * @param elapsed - Time until the last iteration finished
+   * @param firstCall - Number of timed calls before the run
+   */
+  private summarize(run: LoadRun, elapsed: number, firstCall: number): LoadResult {
+    const calls = this.tracker ? this.tracker.getCalls().slice(firstCall) : [];
+    const durations: Record<string, number[]> = {};
+    calls.forEach(call => {
+      durations[call.operation] = (durations[call.operation] ?? []).concat(call.duration);
+    });
+    const operations: Record<string, PerformanceStats> = {};
+    Object.keys(durations)
+      .sort()
+      .forEach(operation => {
+        operations[operation] = summarize(durations[operation]);
+      });
+
+    const iterations = run.latencies.length;
+    const failedIterations = Object.keys(run.errors).reduce(
+      (sum, message) => sum + run.errors[message],
+      0,
+    );
+    const seconds = elapsed / 1000;
+    const measured = {
+      errorRate: iterations > 0 ? Math.round((failedIterations / iterations) * 10_000) / 10_000 : 0,
+      throughput: roundDuration(iterations / seconds),
+      latency: summarize(run.latencies),
+    };
+    const thresholds = evaluateThresholds(measured, run.profile.thresholds);
+    return {
+      profile: run.profile,
+      elapsed,
+      iterations,
+      failedIterations,
+      ...measured,
+      requests: calls.length,
+      requestRate: roundDuration(calls.length / seconds),
+      operations,
+      errors: run.errors,
+      thresholds,
+      passed: thresholds.every(threshold => threshold.passed),
+    };
+  }
+
+  /**
+   * Logs the summary and threshold outcomes of a run
+   * @param result - Result of the run
+   */
+  private static log(result: LoadResult): void {
+    const { profile, iterations, elapsed, throughput, errorRate, latency } = result;
+    console.log(
+      `📈 Load test "${profile.name}": ${iterations} iterations in ${roundDuration(elapsed / 1000)}s (${throughput}/s), ${roundDuration(errorRate * 100)}% failed, p50=${latency.p50}ms p95=${latency.p95}ms p99=${latency.p99}ms`,
+    );
+    Object.keys(result.operations).forEach(operation => {
+      const { count, p50, p95 } = result.operations[operation];
+      console.log(`   ${operation}: n=${count} p50=${p50}ms p95=${p95}ms`);
+    });
+    Object.keys(result.errors).forEach(message =>
+      console.warn(`   ⚠️ ${result.errors[message]}× ${message}`),
+    );
+    result.thresholds.forEach(threshold =>
+      console.log(`   ${threshold.passed ? '✅' : '❌'} ${describeThreshold(threshold)}`),
+    );
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Performance Report - Run-level metrics across workers and regressions over time
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Each test only sees its own durations, and workers run in separate processes. After every test
+ * the `performanceTracker` fixture writes the recorded samples and budget breaches to
+ * `reports/performance/fragments/`; global teardown calls {@link PerformanceReport.publish},
+ * which:
+ *
+ * 1. merges the samples of all tests per operation and summarizes them (see `performance.stats.ts`)
+ *    into `reports/performance/run-metrics.json`
+ * 2. compares every operation's p95 to the median p95 of the previous runs of the same
+ *    environment and target (local mock server or real API) in the history file and flags
+ *    regressions (slower by more than
+ *    `REGRESSION_THRESHOLD` and `REGRESSION_MIN_DELTA_MS`, once `REGRESSION_MIN_RUNS` runs exist)
+ * 3. appends the run to the history, keeping the last `HISTORY_SIZE` runs
+ *
+ * The history lives in `reports/performance/history.json` unless `E2E_PERF_HISTORY` names
+ * another file; keep it between runs (e.g. as a CI cache) for regressions to show up.
+ *
+ * @example
+ * ```typescript
+ * const run = PerformanceReport.publish({ environment: 'development', mocked: false });
+ * // ⚠️ Performance regression: GET /posts p95 310ms vs 120ms (+158%)
+ * console.log(run.operations['GET /posts'].p95);
+ * ```
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import type { TestInfo } from '@playwright/test';
+
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { percentile, summarize } from '@utils/performance/performance.stats';
+import type {
+  BudgetBreach,
+  PerformanceFragment,
+  PerformanceHistoryEntry,
+  PerformanceRegression,
+  PerformanceRun,
+  PerformanceStats,
+} from '@utils/performance/performance.types';
+
+/**
+ * Reads a JSON file, or returns the fallback when it does not exist
+ * @param file - Path of the file
+ * @param fallback - Value of a missing file
+ */
+function readJson<T>(file: string, fallback: T): T {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as T) : fallback;
+}
+
+/**
+ * Writes a JSON file, creating its directory
+ * @param file - Path of the file
+ * @param data - Content
+ */
+function writeJson(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Flags operations whose p95 got slower than in previous runs
+ *
+ * @param {Record<string, PerformanceStats>} operations - Statistics of the current run
+ * @param {PerformanceHistoryEntry[]} history - Previous runs of the same environment and target
+ * @returns {PerformanceRegression[]} Regressions, slowest change first
+ */
+export function findRegressions(
+  operations: Record<string, PerformanceStats>,
+  history: PerformanceHistoryEntry[],
+): PerformanceRegression[] {
+  const { REGRESSION_MIN_RUNS, REGRESSION_THRESHOLD, REGRESSION_MIN_DELTA_MS } =
+    FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS;
+
+  return Object.keys(operations)
+    .reduce<PerformanceRegression[]>((regressions, operation) => {
+      const previous = history
+        .filter(entry => operation in entry.operations)
+        .map(entry => entry.operations[operation].p95)
+        .sort((a, b) => a - b);
+      const baseline = percentile(previous, 50);
+      const current = operations[operation].p95;
+      if (previous.length < REGRESSION_MIN_RUNS || baseline <= 0) {
+        return regressions;
+      }
+      const change = Math.round(((current - baseline) / baseline) * 100) / 100;
+      return change > REGRESSION_THRESHOLD && current - baseline >= REGRESSION_MIN_DELTA_MS
+        ? [...regressions, { operation, baseline, current, change }]
+        : regressions;
+    }, [])
+    .sort((a, b) => b.change - a.change);
+}
+
+/**
+ * Writes and aggregates the performance metrics of a run
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PerformanceReport {
+  /**
+   * History file, `E2E_PERF_HISTORY` or `PERFORMANCE_METRICS.HISTORY_FILE`
+   */
+  static historyFile(): string {
+    const { HISTORY_FILE, HISTORY_FILE_ENV } = FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS;
+    return process.env[HISTORY_FILE_ENV] ?? HISTORY_FILE;
+  }
+
+  /**
+   * Stores the samples and breaches of a test for {@link PerformanceReport.publish}
+   * @param testInfo - Test that recorded the samples
+   * @param samples - Durations per operation
+   * @param breaches - Budget breaches of the test
+   */
+  static writeFragment(
+    testInfo: TestInfo,
+    samples: Record<string, number[]>,
+    breaches: BudgetBreach[],
+  ): void {
+    const fragment: PerformanceFragment = {
+      test: testInfo.titlePath.slice(1).join(' › '),
+      samples,
+      breaches,
+    };
+    const dir = FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.FRAGMENT_DIR;
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${testInfo.testId}.json`), JSON.stringify(fragment), 'utf-8');
+  }
+
+  /**
+   * Removes the fragments of a previous run
+   */
+  static clearFragments(): void {
+    fs.rmSync(FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.FRAGMENT_DIR, {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  /**
+   * Aggregates the fragments of a run, flags regressions and extends the history
+   *
+   * @param {{ environment: string; mocked: boolean }} options - Environment the run used, and
+   *   whether its requests went to the local mock server
+   * @returns {PerformanceRun | undefined} Run metrics; undefined when no test recorded any
+   */
+  static publish(options: { environment: string; mocked: boolean }): PerformanceRun | undefined {
+    const { FRAGMENT_DIR, RUN_FILE, HISTORY_SIZE } = FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS;
+    const fragments = fs.existsSync(FRAGMENT_DIR)
+      ? fs
+          .readdirSync(FRAGMENT_DIR)
+          .sort()
+          .map(
+            file =>
+              JSON.parse(
+                fs.readFileSync(path.join(FRAGMENT_DIR, file), 'utf-8'),
+              ) as PerformanceFragment,
+          )
+      : [];
+    if (fragments.length === 0) {
+      return undefined;
+    }
+
+    const samples: Record<string, number[]> = {};
+    fragments.forEach(fragment =>
+      Object.keys(fragment.samples).forEach(operation => {
+        samples[operation] = (samples[operation] ?? []).concat(fragment.samples[operation]);
+      }),
+    );
+    const operations: Record<string, PerformanceStats> = {};
+    Object.keys(samples)
+      .sort()
+      .forEach(operation => {
+        operations[operation] = summarize(samples[operation]);
+      });
+
+    const historyFile = PerformanceReport.historyFile();
+    const history = readJson<PerformanceHistoryEntry[]>(historyFile, []);
+    const run: PerformanceRun = {
+      finishedAt: new Date().toISOString(),
+      environment: options.environment,
+      mocked: options.mocked,
+      tests: fragments.length,
+      operations,
+      breaches: fragments.reduce<PerformanceRun['breaches']>(
+        (all, fragment) =>
+          all.concat(fragment.breaches.map(breach => ({ ...breach, test: fragment.test }))),
+        [],
+      ),
+      regressions: findRegressions(
+        operations,
+        history.filter(
+          entry => entry.environment === options.environment && entry.mocked === options.mocked,
+        ),
+      ),
+    };
+    writeJson(RUN_FILE, run);
+    writeJson(
+      historyFile,
+      [...history, PerformanceReport.toHistoryEntry(run)].slice(-HISTORY_SIZE),
+    );
+
+    console.log(
+      `📊 Performance metrics of ${run.tests} test(s) written to ${RUN_FILE} (${run.breaches.length} budget breach(es))`,
+    );
+    run.regressions.forEach(regression =>
+      console.warn(
+        `⚠️ Performance regression: ${regression.operation} p95 ${regression.current}ms vs ${regression.baseline}ms (+${Math.round(regression.change * 100)}%)`,
+      ),
+    );
+    return run;
+  }
+
+  /**
+   * History summary of a run
+   * @param run - Run metrics
+   */
+  private static toHistoryEntry(run: PerformanceRun): PerformanceHistoryEntry {
+    const operations: PerformanceHistoryEntry['operations'] = {};
+    Object.keys(run.operations).forEach(operation => {
+      const { count, avg, p50, p95, p99 } = run.operations[operation];
+      operations[operation] = { count, avg, p50, p95, p99 };
+    });
+    const { finishedAt, environment, mocked } = run;
+    return { finishedAt, environment, mocked, operations };
+  }
+}
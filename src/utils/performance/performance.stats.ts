@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Performance Stats - Percentiles, spread and histograms of recorded durations
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Averages hide the slow requests users notice. {@link summarize} reports the distribution of a
+ * set of durations: percentiles (linear interpolation between the closest ranks), the population
+ * standard deviation and a histogram over `PERFORMANCE_METRICS.HISTOGRAM_BUCKETS`. Values are
+ * rounded to hundredths of a millisecond.
+ *
+ * @example
+ * ```typescript
+ * summarize([12, 15, 11, 240]);
+ * // { count: 4, min: 11, max: 240, avg: 69.5, stdDev: 98.45, p50: 13.5, p90: 172.5, ...,
+ * //   histogram: [{ le: 50, count: 3 }, { le: 100, count: 0 }, { le: 250, count: 1 }, ...] }
+ * ```
+ */
+
+import type { HistogramBucket, PerformanceStats } from '@utils/performance/performance.types';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * Rounds a duration to hundredths of a millisecond
+ * @param value - Duration in milliseconds
+ */
+export function roundDuration(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Percentile of sorted durations, interpolated between the closest ranks
+ *
+ * @param {number[]} sorted - Durations in ascending order
+ * @param {number} level - Percentile between 0 and 100
+ * @returns {number} Percentile value, 0 without durations
+ */
+export function percentile(sorted: number[], level: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = (level / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return roundDuration(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower));
+}
+
+/**
+ * Counts durations per histogram bucket
+ * @param durations - Recorded durations
+ * @param bounds - Upper bounds of the buckets in ascending order
+ */
+function histogram(durations: number[], bounds: readonly number[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [
+    ...bounds.map(le => ({ le, count: 0 })),
+    { le: '+Inf', count: 0 },
+  ];
+  durations.forEach(duration => {
+    const index = bounds.findIndex(bound => duration <= bound);
+    buckets[index === -1 ? bounds.length : index].count++;
+  });
+  return buckets;
+}
+
+/**
+ * Summarizes recorded durations
+ *
+ * @param {number[]} durations - Durations in milliseconds, in any order
+ * @param {readonly number[]} [bounds] - Histogram bucket bounds
+ * @returns {PerformanceStats} Statistics; all zero without durations
+ */
+export function summarize(
+  durations: number[],
+  bounds: readonly number[] = FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.HISTOGRAM_BUCKETS,
+): PerformanceStats {
+  const sorted = [...durations].sort((a, b) => a - b);
+  const count = sorted.length;
+  const avg = count > 0 ? sorted.reduce((sum, duration) => sum + duration, 0) / count : 0;
+  const variance =
+    count > 0 ? sorted.reduce((sum, duration) => sum + (duration - avg) ** 2, 0) / count : 0;
+
+  return {
+    count,
+    min: count > 0 ? sorted[0] : 0,
+    max: count > 0 ? sorted[count - 1] : 0,
+    avg: roundDuration(avg),
+    stdDev: roundDuration(Math.sqrt(variance)),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    histogram: histogram(sorted, bounds),
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Performance Tracker - Per-test timing metrics of API operations
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Collects named durations (response times, rate limiter waits) during a test and summarizes
+ * them as count, minimum, maximum, average, standard deviation, p50/p90/p95/p99 and a histogram
+ * (see `performance.stats.ts`). Each network attempt of the `apiContext` fixture is recorded
+ * automatically by `withTiming` (`request-timing.ts`), with its network phases; timers measure
+ * anything else with `performance.now()`. The `performanceTracker` fixture creates one per test; afterwards
+ * {@link PerformanceTracker.report} checks every operation against its budget
+ * (`performance.budgets.ts`), attaches the metrics to the test and stores them for the run-level
+ * report (`performance.report.ts`).
+ *
+ * @example
+ * ```typescript
+ * await jsonPlaceholderClient.endpoints.posts.getById({ id: 1 });
+ * performanceTracker.getStats('GET /posts/{id}').p95; // 12.48
+ * performanceTracker.getPhaseStats('GET /posts/{id}').ttfb?.p50; // 10.9
+ *
+ * const stop = performanceTracker.startTimer('render_feed');
+ * buildFeed(posts);
+ * stop();
+ * ```
+ */
+
+import { performance } from 'node:perf_hooks';
+
+import type { TestInfo } from '@playwright/test';
+
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import type { PerformanceBudgets } from '@utils/performance/performance.budgets';
+import { PerformanceReport } from '@utils/performance/performance.report';
+import { roundDuration, summarize } from '@utils/performance/performance.stats';
+import type {
+  CallTiming,
+  PerformanceStats,
+  TimingPhase,
+} from '@utils/performance/performance.types';
+
+const TIMING_PHASES: TimingPhase[] = ['dns', 'connect', 'tls', 'ttfb', 'download'];
+
+/**
+ * Performance Tracker
+ * Tracks API response times and performance metrics
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class PerformanceTracker {
+  private metrics: Map<string, number[]> = new Map();
+
+  private calls: CallTiming[] = [];
+
+  startTimer(operation: string): () => number {
+    const startTime = performance.now();
+    return () => {
+      const duration = roundDuration(performance.now() - startTime);
+      this.recordMetric(operation, duration);
+      return duration;
+    };
+  }
+
+  /**
+   * Records a timed API call; its duration counts as a metric of the operation unless the call
+   * failed without a response
+   * @param call - Timed call
+   */
+  recordCall(call: CallTiming): void {
+    this.calls.push(call);
+    if (call.error === undefined) {
+      this.recordMetric(call.operation, call.duration);
+    }
+  }
+
+  /**
+   * Timed API calls in the order they were sent
+   * @param operation - Only the calls of this operation
+   */
+  getCalls(operation?: string): CallTiming[] {
+    return operation === undefined
+      ? [...this.calls]
+      : this.calls.filter(call => call.operation === operation);
+  }
+
+  /**
+   * Statistics of each network phase of an operation's calls; phases no call reported are missing
+   * @param operation - Operation name
+   */
+  getPhaseStats(operation: string): Partial<Record<TimingPhase, PerformanceStats>> {
+    const calls = this.getCalls(operation);
+    return TIMING_PHASES.reduce<Partial<Record<TimingPhase, PerformanceStats>>>((stats, phase) => {
+      const durations = calls.reduce<number[]>((all, call) => {
+        const duration = call.phases[phase];
+        return duration === undefined ? all : [...all, duration];
+      }, []);
+      if (durations.length > 0) {
+        stats[phase] = summarize(durations);
+      }
+      return stats;
+    }, {});
+  }
+
+  recordMetric(operation: string, duration: number): void {
+    if (!this.metrics.has(operation)) {
+      this.metrics.set(operation, []);
+    }
+    const metrics = this.metrics.get(operation);
+    if (metrics) {
+      metrics.push(duration);
+    }
+  }
+
+  getAverageTime(operation: string): number {
+    const times = this.metrics.get(operation) ?? [];
+    if (times.length === 0) {
+      return 0;
+    }
+    return times.reduce((sum, time) => sum + time, 0) / times.length;
+  }
+
+  getMaxTime(operation: string): number {
+    const times = this.metrics.get(operation) ?? [];
+    return times.length > 0 ? Math.max(...times) : 0;
+  }
+
+  getMinTime(operation: string): number {
+    const times = this.metrics.get(operation) ?? [];
+    return times.length > 0 ? Math.min(...times) : 0;
+  }
+
+  /**
+   * Statistics of one operation; all zero when nothing was recorded
+   * @param operation - Operation name
+   */
+  getStats(operation: string): PerformanceStats {
+    return summarize(this.metrics.get(operation) ?? []);
+  }
+
+  getAllMetrics(): Record<string, PerformanceStats> {
+    const result: Record<string, PerformanceStats> = {};
+
+    this.metrics.forEach((_times, operation) => {
+      result[operation] = this.getStats(operation);
+    });
+
+    return result;
+  }
+
+  /**
+   * Recorded durations per operation
+   */
+  getSamples(): Record<string, number[]> {
+    const samples: Record<string, number[]> = {};
+    this.metrics.forEach((times, operation) => {
+      samples[operation] = [...times];
+    });
+    return samples;
+  }
+
+  /**
+   * Reports the metrics of a finished test
+   *
+   * @description
+   * Logs one line per operation, attaches the statistics, the network phases and timed calls and
+   * the budget breaches, stores the samples
+   * for the run-level report and enforces the budgets (annotations, or a failure in `fail` mode).
+   *
+   * @param {TestInfo} testInfo - Test the durations were recorded in
+   * @param {PerformanceBudgets} budgets - Budgets of the test
+   * @throws {PerformanceBudgetError} When operations break their budgets in `fail` mode
+   */
+  async report(testInfo: TestInfo, budgets: PerformanceBudgets): Promise<void> {
+    const metrics = this.getAllMetrics();
+    const operations = Object.keys(metrics);
+    if (operations.length === 0) {
+      return;
+    }
+
+    operations.forEach(operation => {
+      const { count, p50, p95, max } = metrics[operation];
+      console.log(`📊 ${operation}: n=${count} p50=${p50}ms p95=${p95}ms max=${max}ms`);
+    });
+    const breaches = budgets.check(metrics);
+    await testInfo.attach(FRAMEWORK_CONSTANTS.PERFORMANCE_METRICS.ATTACHMENT, {
+      body: JSON.stringify(
+        { operations: metrics, phases: this.getAllPhaseStats(), calls: this.calls, breaches },
+        null,
+        2,
+      ),
+      contentType: 'application/json',
+    });
+    PerformanceReport.writeFragment(testInfo, this.getSamples(), breaches);
+    budgets.enforce(breaches, testInfo);
+  }
+
+  reset(): void {
+    this.metrics.clear();
+    this.calls = [];
+  }
+
+  /**
+   * Phase statistics of every operation with timed calls
+   */
+  private getAllPhaseStats(): Record<string, Partial<Record<TimingPhase, PerformanceStats>>> {
+    const phases: Record<string, Partial<Record<TimingPhase, PerformanceStats>>> = {};
+    this.calls.forEach(({ operation }) => {
+      phases[operation] = phases[operation] ?? this.getPhaseStats(operation);
+    });
+    return phases;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Performance Types
+ *
+ * Duration statistics of tracked operations, their budgets, the run-level metrics and history,
+ * request timing, load test profiles and the web vitals of page visits
+ */
+
+/**
+ * Count of samples at or below `le` milliseconds (and above the previous bucket); the last bucket
+ * (`+Inf`) holds everything slower
+ */
+export interface HistogramBucket {
+  le: number | '+Inf';
+  count: number;
+}
+
+/**
+ * Statistics of the durations recorded for one operation, in milliseconds
+ */
+export interface PerformanceStats {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  /** Population standard deviation */
+  stdDev: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  histogram: HistogramBucket[];
+}
+
+/**
+ * Statistic compared to a budget
+ */
+export type BudgetStatistic = 'avg' | 'max' | 'p50' | 'p90' | 'p95' | 'p99';
+
+/**
+ * What a test does when an operation breaks its budget
+ * - annotate: add a `performance-budget` annotation, the test passes
+ * - fail: fail the test with a {@link PerformanceBudgetError}
+ * - off: do not check budgets
+ */
+export type BudgetMode = 'annotate' | 'fail' | 'off';
+
+/**
+ * Budget tiers, named after `JSONPLACEHOLDER_API.PERFORMANCE_BENCHMARKS`
+ */
+export type BudgetTier = 'FAST_RESPONSE' | 'ACCEPTABLE_RESPONSE' | 'SLOW_RESPONSE';
+
+export interface PerformanceBudget {
+  operation: string;
+  tier: BudgetTier | 'custom';
+  /** Limit of the statistic in milliseconds */
+  limit: number;
+}
+
+export interface PerformanceBudgetOptions {
+  mode: BudgetMode;
+  statistic: BudgetStatistic;
+  /** Limits in milliseconds per operation, replacing the derived budgets */
+  budgets: Record<string, number>;
+}
+
+export interface BudgetBreach {
+  operation: string;
+  budget: PerformanceBudget;
+  statistic: BudgetStatistic;
+  /** Value of the statistic in milliseconds */
+  actual: number;
+}
+
+/**
+ * Durations recorded by one test, as written for the run-level aggregation
+ */
+export interface PerformanceFragment {
+  test: string;
+  samples: Record<string, number[]>;
+  breaches: BudgetBreach[];
+}
+
+/**
+ * Operation whose p95 got slower than in previous runs
+ */
+export interface PerformanceRegression {
+  operation: string;
+  /** Median p95 of the previous runs */
+  baseline: number;
+  current: number;
+  /** Relative change, e.g. `0.35` for 35% slower */
+  change: number;
+}
+
+/**
+ * Content of the run-level metrics file
+ */
+export interface PerformanceRun {
+  finishedAt: string;
+  environment: string;
+  /** Requests went to the local mock server; such runs are only compared with each other */
+  mocked: boolean;
+  tests: number;
+  operations: Record<string, PerformanceStats>;
+  breaches: Array<BudgetBreach & { test: string }>;
+  regressions: PerformanceRegression[];
+}
+
+/**
+ * Summary of one run kept in the history
+ */
+export interface PerformanceHistoryEntry {
+  finishedAt: string;
+  environment: string;
+  /** Missing in entries written before the target was recorded; those are never compared */
+  mocked?: boolean;
+  operations: Record<string, Pick<PerformanceStats, 'count' | 'avg' | 'p50' | 'p95' | 'p99'>>;
+}
+
+/**
+ * Network phase of a request, from Playwright's resource timing
+ * - dns: domain name lookup
+ * - connect: TCP connection, without the TLS handshake
+ * - tls: TLS handshake
+ * - ttfb: request sent until the first response byte
+ * - download: first until last response byte
+ */
+export type TimingPhase = 'dns' | 'connect' | 'tls' | 'ttfb' | 'download';
+
+/**
+ * Durations of the phases of one request in milliseconds; phases the response does not report
+ * (reused connections, plain HTTP, replayed cassettes) are missing
+ */
+export type TimingPhases = Partial<Record<TimingPhase, number>>;
+
+/**
+ * One API call timed by `withTiming`
+ */
+export interface CallTiming {
+  /** Operation name, e.g. `GET /posts/{id}` */
+  operation: string;
+  method: string;
+  url: string;
+  /** Missing when no response arrived */
+  status?: number;
+  /** Time until the response was received, retries and rate limiter waits included */
+  duration: number;
+  phases: TimingPhases;
+  error?: string;
+}
+
+/**
+ * Limits a load test must stay within; every one that is set is checked
+ */
+export interface LoadThresholds {
+  /** Highest share of failed iterations, e.g. `0.01` for 1% */
+  maxErrorRate?: number;
+  /** Lowest number of completed iterations per second */
+  minThroughput?: number;
+  /** Highest iteration latency per statistic in milliseconds, e.g. `{ p95: 500 }` */
+  latency?: Partial<Record<BudgetStatistic, number>>;
+}
+
+/**
+ * Load a test puts on an API
+ */
+export interface LoadProfile {
+  /** Name in logs and the report */
+  name: string;
+  /** Concurrent virtual users, each running the scenario in a loop */
+  virtualUsers: number;
+  /** Time over which the virtual users start, evenly spaced, in milliseconds */
+  rampUp: number;
+  /** Time from the start of the run after which no iteration begins, in milliseconds */
+  duration: number;
+  /** Pause of a virtual user between two iterations in milliseconds */
+  thinkTime?: number;
+  thresholds?: LoadThresholds;
+}
+
+/**
+ * Iteration of a scenario
+ */
+export interface LoadIteration {
+  /** Virtual user, from 1 */
+  vu: number;
+  /** Iteration of the virtual user, from 1 */
+  iteration: number;
+}
+
+/**
+ * One iteration of a load test; it fails by throwing
+ */
+export type LoadScenario = (iteration: LoadIteration) => Promise<void>;
+
+/**
+ * Outcome of one threshold, e.g. `latency.p95`
+ */
+export interface LoadThresholdResult {
+  threshold: string;
+  limit: number;
+  actual: number;
+  passed: boolean;
+}
+
+/**
+ * Result of a load test
+ */
+export interface LoadResult {
+  profile: LoadProfile;
+  /** Time until the last iteration finished in milliseconds */
+  elapsed: number;
+  iterations: number;
+  failedIterations: number;
+  /** Share of failed iterations */
+  errorRate: number;
+  /** Completed iterations per second */
+  throughput: number;
+  /** Timed API calls of the scenario */
+  requests: number;
+  /** Timed API calls per second */
+  requestRate: number;
+  /** Iteration latency */
+  latency: PerformanceStats;
+  /** Latency of the timed API calls per operation */
+  operations: Record<string, PerformanceStats>;
+  /** Failed iterations per error message */
+  errors: Record<string, number>;
+  thresholds: LoadThresholdResult[];
+  passed: boolean;
+}
+
+/**
+ * Web vital of a page visit, in milliseconds except for `cls`
+ * - ttfb, fcp, lcp: navigation timing, first and largest contentful paint (full page loads)
+ * - cls: cumulative layout shift, largest session window
+ * - inp: slowest interaction, an approximation of Interaction to Next Paint
+ * - tbt: total blocking time, the part of every long task beyond 50ms
+ * - duration: until the load event of a full page load, or until the DOM of a client-side route
+ *   change settled
+ */
+export type WebVitalMetric = 'ttfb' | 'fcp' | 'lcp' | 'cls' | 'inp' | 'tbt' | 'duration';
+
+/**
+ * Limits per web vital
+ */
+export type WebVitalBudget = Partial<Record<WebVitalMetric, number>>;
+
+export interface WebVitalsBudgetOptions {
+  mode: BudgetMode;
+  /** Limits per page name (see `WEB_VITALS.PAGES`), merged over the page's default budget */
+  budgets: Record<string, WebVitalBudget>;
+}
+
+/**
+ * Metrics of one visit of a page, from its navigation until the next one
+ */
+export interface PageVisit {
+  /** Page name from `WEB_VITALS.PAGES`, or the path of an unknown page */
+  page: string;
+  path: string;
+  /** `load`: full page load; `route`: client-side route change (history API) */
+  navigation: 'load' | 'route';
+  metrics: Partial<Record<WebVitalMetric, number>>;
+  longTasks: number;
+  interactions: number;
+}
+
+export interface WebVitalBreach {
+  page: string;
+  metric: WebVitalMetric;
+  actual: number;
+  limit: number;
+}
@@ -0,0 +1,429 @@
+/**
+ * @fileoverview Web Vitals - Navigation timing, Core Web Vitals and long tasks of every page visit
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Waiting for load states says nothing about how fast a page was. {@link WebVitalsCollector}
+ * installs performance observers in every document of a page and splits what they report into
+ * visits, one per navigation:
+ *
+ * - full page loads (`navigation: 'load'`) report navigation timing (TTFB, load event), first and
+ *   largest contentful paint
+ * - client-side route changes (`navigation: 'route'`, SauceDemo's pages after the login) report
+ *   how long the DOM took to settle (`WEB_VITALS.ROUTE_SETTLE_MS` without mutations)
+ * - every visit reports its cumulative layout shift (largest session window), long tasks, total
+ *   blocking time and its slowest interaction as an approximation of INP
+ *
+ * Visits are named after their path (`WEB_VITALS.PAGES`) and checked against the page's budget:
+ * `WEB_VITALS.DEFAULT_BUDGET` merged with `WEB_VITALS.PAGE_BUDGETS` and the test's own limits.
+ * Breaches are annotated (`web-vitals-budget`) or, with `E2E_PERF_BUDGETS=fail`, fail the test
+ * with a {@link WebVitalsBudgetError}. Layout shifts, long tasks, LCP and event timing are only
+ * reported by Chromium; other browsers get navigation timing and route durations.
+ *
+ * @example
+ * ```typescript
+ * const vitals = await WebVitalsCollector.attach(page);
+ * await loginPage.navigateToLoginPage(baseUrl);
+ * await loginPage.login(SAUCEDEMO_USERS.STANDARD_USER);
+ * console.log(vitals.visit('inventory')?.metrics); // { duration: 212.4, tbt: 0, cls: 0 }
+ * await vitals.report(testInfo); // logs, attaches web-vitals.json, checks budgets
+ * ```
+ */
+
+import type { Page, TestInfo } from '@playwright/test';
+
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { PerformanceBudgets } from '@utils/performance/performance.budgets';
+import { roundDuration } from '@utils/performance/performance.stats';
+import type {
+  PageVisit,
+  WebVitalBreach,
+  WebVitalBudget,
+  WebVitalMetric,
+  WebVitalsBudgetOptions,
+} from '@utils/performance/performance.types';
+
+/**
+ * Metric reported by the observers of a page
+ */
+interface VitalReport {
+  /** Document time origin and route change counter */
+  visit: string;
+  path: string;
+  navigation: PageVisit['navigation'];
+  type: 'navigation' | 'fcp' | 'lcp' | 'layout-shift' | 'longtask' | 'interaction' | 'route';
+  value: number;
+  /** Start of a layout shift, response start of a navigation, interaction ID of an event */
+  detail?: number;
+}
+
+/**
+ * Performance entry fields the observers read
+ */
+type VitalEntry = PerformanceEntry & {
+  value?: number;
+  hadRecentInput?: boolean;
+  interactionId?: number;
+};
+
+/**
+ * Visit being collected
+ */
+interface VisitState {
+  visit: PageVisit;
+  shifts: Array<{ startTime: number; value: number }>;
+  interactionIds: Set<number>;
+}
+
+/**
+ * Installed in every document of the page; reports metrics through the exposed binding
+ *
+ * @description
+ * Runs in the browser, serialized by `addInitScript`: it may not use anything outside its body.
+ *
+ * @param options - Binding name and DOM quiet time of route changes
+ */
+function observeVitals(options: { binding: string; settleMs: number }): void {
+  const { location, history, document } = globalThis;
+  const origin = Math.round(performance.timeOrigin);
+  let routes = 0;
+  let current = { visit: `${origin}:0`, path: location.pathname, navigation: 'load' };
+  const initial = current;
+
+  const send = (type: string, value: number, detail?: number, context = current): void => {
+    const report: unknown = Reflect.get(globalThis, options.binding);
+    if (typeof report === 'function') {
+      void report({ ...context, type, value, detail });
+    }
+  };
+  const onEntry = {
+    paint(entry: VitalEntry): void {
+      if (entry.name === 'first-contentful-paint') {
+        send('fcp', entry.startTime, undefined, initial);
+      }
+    },
+    'largest-contentful-paint'(entry: VitalEntry): void {
+      send('lcp', entry.startTime, undefined, initial);
+    },
+    'layout-shift'(entry: VitalEntry): void {
+      if (!entry.hadRecentInput) {
+        send('layout-shift', entry.value ?? 0, entry.startTime);
+      }
+    },
+    longtask(entry: VitalEntry): void {
+      send('longtask', entry.duration);
+    },
+    event(entry: VitalEntry): void {
+      if (entry.interactionId) {
+        send('interaction', entry.duration, entry.interactionId);
+      }
+    },
+  };
+  (Object.keys(onEntry) as Array<keyof typeof onEntry>).forEach(type => {
+    try {
+      new PerformanceObserver(list =>
+        list.getEntries().forEach(entry => onEntry[type](entry)),
+      ).observe({ type, buffered: true, durationThreshold: 16 } as PerformanceObserverInit);
+    } catch {
+      // Entry type not supported by this browser
+    }
+  });
+  globalThis.addEventListener('load', () =>
+    setTimeout(() => {
+      const timing = performance.getEntriesByType('navigation')[0] as
+        PerformanceNavigationTiming | undefined;
+      if (timing) {
+        send('navigation', timing.loadEventEnd, timing.responseStart, initial);
+      }
+    }, 0),
+  );
+
+  const onRoute = (): void => {
+    if (location.pathname === current.path) {
+      return;
+    }
+    routes += 1;
+    current = { visit: `${origin}:${routes}`, path: location.pathname, navigation: 'route' };
+    const route = current;
+    const start = performance.now();
+    let lastMutation = start;
+    const mutations = new MutationObserver(() => {
+      lastMutation = performance.now();
+    });
+    mutations.observe(document, { subtree: true, childList: true, attributes: true });
+    const settle = (): void => {
+      if (performance.now() - lastMutation < options.settleMs) {
+        setTimeout(settle, options.settleMs);
+        return;
+      }
+      mutations.disconnect();
+      send('route', lastMutation - start, undefined, route);
+    };
+    setTimeout(settle, options.settleMs);
+  };
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method].bind(history);
+    history[method] = (...args: Parameters<History['pushState']>) => {
+      original(...args);
+      onRoute();
+    };
+  });
+  globalThis.addEventListener('popstate', onRoute);
+}
+
+/**
+ * Cumulative layout shift: the largest sum of a session window of shifts
+ * @param shifts - Layout shifts without recent input, in order
+ */
+function cumulativeLayoutShift(shifts: VisitState['shifts']): number {
+  const { CLS_SESSION_GAP_MS, CLS_SESSION_MAX_MS } = FRAMEWORK_CONSTANTS.WEB_VITALS;
+  const sessions = shifts.reduce<Array<{ start: number; end: number; value: number }>>(
+    (all, shift) => {
+      const last = all.length > 0 ? all[all.length - 1] : undefined;
+      if (
+        last &&
+        shift.startTime - last.end < CLS_SESSION_GAP_MS &&
+        shift.startTime - last.start < CLS_SESSION_MAX_MS
+      ) {
+        last.end = shift.startTime;
+        last.value += shift.value;
+        return all;
+      }
+      return [...all, { start: shift.startTime, end: shift.startTime, value: shift.value }];
+    },
+    [],
+  );
+  return Math.round(Math.max(0, ...sessions.map(session => session.value)) * 10_000) / 10_000;
+}
+
+/**
+ * How each report updates its visit
+ */
+const APPLY_REPORT = {
+  navigation({ visit }: VisitState, { value, detail }: VitalReport): void {
+    Object.assign(visit.metrics, {
+      duration: roundDuration(value),
+      ttfb: roundDuration(detail ?? 0),
+    });
+  },
+  fcp({ visit }: VisitState, { value }: VitalReport): void {
+    visit.metrics.fcp = roundDuration(value);
+  },
+  lcp({ visit }: VisitState, { value }: VitalReport): void {
+    // Later candidates replace earlier ones
+    visit.metrics.lcp = roundDuration(value);
+  },
+  'layout-shift'(state: VisitState, { value, detail }: VitalReport): void {
+    state.shifts.push({ startTime: detail ?? 0, value });
+  },
+  longtask({ visit }: VisitState, { value }: VitalReport): void {
+    visit.longTasks += 1;
+    const blocking = Math.max(0, value - FRAMEWORK_CONSTANTS.WEB_VITALS.LONG_TASK_MS);
+    visit.metrics.tbt = roundDuration((visit.metrics.tbt ?? 0) + blocking);
+  },
+  interaction(state: VisitState, { value, detail }: VitalReport): void {
+    state.interactionIds.add(detail ?? 0);
+    state.visit.interactions = state.interactionIds.size;
+    state.visit.metrics.inp = Math.max(state.visit.metrics.inp ?? 0, value);
+  },
+  route({ visit }: VisitState, { value }: VitalReport): void {
+    visit.metrics.duration = roundDuration(value);
+  },
+};
+
+/**
+ * Raised when page visits break their budgets in `fail` mode
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class WebVitalsBudgetError extends Error {
+  readonly breaches: WebVitalBreach[];
+
+  constructor(breaches: WebVitalBreach[]) {
+    super(
+      `${breaches.length} web vital(s) over their page budget:\n${breaches
+        .map(breach => `  ✗ ${describeVitalBreach(breach)}`)
+        .join('\n')}`,
+    );
+    this.name = 'WebVitalsBudgetError';
+    this.breaches = breaches;
+  }
+}
+
+/**
+ * Describes a breach, e.g. `inventory: duration 5012ms > 1500ms`
+ * @param breach - Budget breach
+ */
+export function describeVitalBreach(breach: WebVitalBreach): string {
+  const unit = breach.metric === 'cls' ? '' : 'ms';
+  return `${breach.page}: ${breach.metric} ${breach.actual}${unit} > ${breach.limit}${unit}`;
+}
+
+/**
+ * Collects the web vitals of the visits of one page
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class WebVitalsCollector {
+  private readonly states = new Map<string, VisitState>();
+
+  private readonly page: Page;
+
+  /**
+   * @param page - Page the observers report from; see {@link WebVitalsCollector.attach}
+   */
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Starts collecting on a page; call before its first navigation
+   * @param page - Page to observe
+   */
+  static async attach(page: Page): Promise<WebVitalsCollector> {
+    const { BINDING, ROUTE_SETTLE_MS } = FRAMEWORK_CONSTANTS.WEB_VITALS;
+    const collector = new WebVitalsCollector(page);
+    await page.exposeBinding(BINDING, (_source, report: VitalReport) => collector.record(report));
+    await page.addInitScript(observeVitals, { binding: BINDING, settleMs: ROUTE_SETTLE_MS });
+    return collector;
+  }
+
+  /**
+   * Name of the page at a path
+   * @param path - URL path
+   */
+  static pageName(path: string): string {
+    const pages: Record<string, string | undefined> = FRAMEWORK_CONSTANTS.WEB_VITALS.PAGES;
+    return pages[path] ?? path;
+  }
+
+  /**
+   * Budget of a page: the defaults, the page's own and the test's overrides
+   * @param page - Page name
+   * @param budgets - Overrides of the test per page name
+   */
+  static budgetFor(page: string, budgets: Record<string, WebVitalBudget> = {}): WebVitalBudget {
+    const { DEFAULT_BUDGET, PAGE_BUDGETS } = FRAMEWORK_CONSTANTS.WEB_VITALS;
+    const pageBudgets: Record<string, WebVitalBudget | undefined> = PAGE_BUDGETS;
+    return { ...DEFAULT_BUDGET, ...pageBudgets[page], ...budgets[page] };
+  }
+
+  /**
+   * Visits in the order they started
+   */
+  get visits(): PageVisit[] {
+    return Array.from(this.states.values()).map(({ visit, shifts }) => ({
+      ...visit,
+      metrics: { ...visit.metrics, cls: cumulativeLayoutShift(shifts) },
+    }));
+  }
+
+  /**
+   * Last visit of a page
+   * @param page - Page name, e.g. `inventory`
+   */
+  visit(page: string): PageVisit | undefined {
+    return this.visits.filter(visit => visit.page === page).pop();
+  }
+
+  /**
+   * Lists the metrics of all visits that exceed their page budget
+   * @param budgets - Overrides of the test per page name
+   */
+  check(budgets: Record<string, WebVitalBudget> = {}): WebVitalBreach[] {
+    return this.visits.reduce<WebVitalBreach[]>((breaches, visit) => {
+      const budget = WebVitalsCollector.budgetFor(visit.page, budgets);
+      const exceeded = (Object.keys(budget) as WebVitalMetric[])
+        .map(metric => ({
+          page: visit.page,
+          metric,
+          actual: visit.metrics[metric] ?? 0,
+          limit: budget[metric] as number,
+        }))
+        .filter(breach => breach.actual > breach.limit);
+      return breaches.concat(exceeded);
+    }, []);
+  }
+
+  /**
+   * Reports the visits of a finished test
+   *
+   * @description
+   * Logs one line per visit, attaches the visits and breaches as `web-vitals.json` and enforces
+   * the budgets (annotations, or a failure in `fail` mode).
+   *
+   * @param {TestInfo} testInfo - Test the page belongs to
+   * @param {Partial<WebVitalsBudgetOptions>} [options] - Mode and per-page overrides
+   * @throws {WebVitalsBudgetError} When visits break their budgets in `fail` mode
+   */
+  async report(testInfo: TestInfo, options: Partial<WebVitalsBudgetOptions> = {}): Promise<void> {
+    await this.settle();
+    const { visits } = this;
+    if (visits.length === 0) {
+      return;
+    }
+    const { ANNOTATION, ATTACHMENT } = FRAMEWORK_CONSTANTS.WEB_VITALS;
+    const mode = PerformanceBudgets.resolveMode(options.mode);
+
+    visits.forEach(({ page, navigation, metrics }) => {
+      const values = (Object.keys(metrics) as WebVitalMetric[])
+        .map(metric => `${metric}=${metrics[metric]}${metric === 'cls' ? '' : 'ms'}`)
+        .join(' ');
+      console.log(`🌐 ${page} (${navigation}): ${values}`);
+    });
+    const breaches = mode === 'off' ? [] : this.check(options.budgets);
+    await testInfo.attach(ATTACHMENT, {
+      body: JSON.stringify({ visits, breaches }, null, 2),
+      contentType: 'application/json',
+    });
+    breaches.forEach(breach => {
+      console.warn(`🐢 Web vital over budget: ${describeVitalBreach(breach)}`);
+      testInfo.annotations.push({ type: ANNOTATION, description: describeVitalBreach(breach) });
+    });
+    if (breaches.length > 0 && mode === 'fail') {
+      throw new WebVitalsBudgetError(breaches);
+    }
+  }
+
+  /**
+   * Gives a route change whose DOM is still changing the time to settle and report its duration
+   */
+  private async settle(): Promise<void> {
+    const last = Array.from(this.states.values()).pop();
+    if (
+      last?.visit.navigation === 'route' &&
+      last.visit.metrics.duration === undefined &&
+      !this.page.isClosed()
+    ) {
+      await this.page.waitForTimeout(FRAMEWORK_CONSTANTS.WEB_VITALS.ROUTE_SETTLE_MS * 3);
+    }
+  }
+
+  /**
+   * Adds a reported metric to its visit
+   * @param report - Metric reported by the page
+   */
+  private record(report: VitalReport): void {
+    let state = this.states.get(report.visit);
+    if (!state) {
+      state = {
+        visit: {
+          page: WebVitalsCollector.pageName(report.path),
+          path: report.path,
+          navigation: report.navigation,
+          metrics: {},
+          longTasks: 0,
+          interactions: 0,
+        },
+        shifts: [],
+        interactionIds: new Set(),
+      };
+      this.states.set(report.visit, state);
+    }
+    APPLY_REPORT[report.type](state, report);
+  }
+}
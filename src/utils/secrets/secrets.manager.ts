@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Secrets Management - Provider abstraction, lazy `secret://` resolution and redaction
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Keeps credentials and connection strings out of tracked files. Configuration values and
+ * test data reference secrets as `secret://name`; the reference is resolved on first access
+ * through a chain of {@link SecretsProvider} backends. Every resolved value is remembered and
+ * masked in console output (which also feeds the Playwright reports) and in framework reports.
+ *
+ * Built-in providers (queried in order):
+ * - {@link EnvSecretsProvider} - `secret://db-password` → `E2E_SECRET_DB_PASSWORD`
+ * - {@link EncryptedFileSecretsProvider} - AES-256-GCM encrypted JSON file, key from `E2E_SECRETS_KEY`
+ *
+ * @example
+ * ```typescript
+ * import { Secrets } from '@utils/secrets/secrets.manager';
+ *
+ * const password = Secrets.resolveValue('secret://saucedemo-password');
+ * const user = Secrets.bindLazy({ username: 'standard_user', password: 'secret://saucedemo-password' });
+ * console.log(Secrets.redact(`logging in with ${user.password}`)); // logging in with ***
+ * ```
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as util from 'node:util';
+
+import { FRAMEWORK_CONSTANTS } from '@src/utils/constants/framework.constants';
+
+import type { EncryptedSecretsFile, SecretsProvider } from './secrets.types';
+
+/**
+ * Error raised when a `secret://` reference cannot be resolved
+ */
+export class SecretNotFoundError extends Error {
+  /** Secret name that could not be resolved */
+  readonly key: string;
+
+  constructor(key: string, providers: string[]) {
+    super(
+      `Secret "${key}" could not be resolved (tried: ${providers.join(', ')}). ` +
+        `Set ${EnvSecretsProvider.toEnvVar(key)} or add it to the encrypted secrets file.`,
+    );
+    this.name = 'SecretNotFoundError';
+    this.key = key;
+  }
+}
+
+/**
+ * Resolves secrets from `E2E_SECRET_*` environment variables
+ */
+export class EnvSecretsProvider implements SecretsProvider {
+  readonly name = 'env';
+
+  /**
+   * Maps a secret name to its environment variable (`db-password` → `E2E_SECRET_DB_PASSWORD`)
+   * @param key - Secret name
+   */
+  static toEnvVar(key: string): string {
+    return `${FRAMEWORK_CONSTANTS.SECRETS.ENV_PREFIX}${key.replace(/[^a-zA-Z0-9]/g, '_').toUpperCase()}`;
+  }
+
+  getSecret(key: string): string | undefined {
+    return process.env[EnvSecretsProvider.toEnvVar(key)];
+  }
+}
+
+/**
+ * Resolves secrets from a local AES-256-GCM encrypted JSON file
+ *
+ * @description
+ * The file (default `config/secrets.enc.json`, override with `E2E_SECRETS_FILE`) can be
+ * committed; the passphrase in `E2E_SECRETS_KEY` never is. The file is decrypted once, on
+ * first lookup. Without a key or file the provider simply knows no secrets.
+ */
+export class EncryptedFileSecretsProvider implements SecretsProvider {
+  readonly name = 'encrypted-file';
+
+  private readonly filePath: string;
+  private secrets?: Record<string, string>;
+
+  constructor(
+    filePath: string = process.env[FRAMEWORK_CONSTANTS.SECRETS.FILE_ENV] ??
+      FRAMEWORK_CONSTANTS.SECRETS.DEFAULT_FILE,
+  ) {
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  /**
+   * Encrypts a secrets map into the file format read by this provider
+   *
+   * @param {Record<string, string>} secrets - Secret names and values
+   * @param {string} passphrase - Passphrase later supplied through `E2E_SECRETS_KEY`
+   * @returns {EncryptedSecretsFile} Serializable encrypted file content
+   *
+   * @example
+   * ```typescript
+   * const file = EncryptedFileSecretsProvider.encrypt({ 'db-password': 's3cr3t' }, passphrase);
+   * fs.writeFileSync('config/secrets.enc.json', JSON.stringify(file, null, 2));
+   * ```
+   */
+  static encrypt(secrets: Record<string, string>, passphrase: string): EncryptedSecretsFile {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(passphrase, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    return {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Derives the AES key from a passphrase
+   * @param passphrase - Passphrase from `E2E_SECRETS_KEY`
+   * @param salt - Salt stored in the file
+   */
+  private static deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+
+  getSecret(key: string): string | undefined {
+    return this.load()[key];
+  }
+
+  /**
+   * Decrypts the secrets file once and caches the result
+   * @throws {Error} When the file exists and the key is present but decryption fails
+   */
+  private load(): Record<string, string> {
+    if (this.secrets) {
+      return this.secrets;
+    }
+
+    const passphrase = process.env[FRAMEWORK_CONSTANTS.SECRETS.KEY_ENV];
+    if (!passphrase || !fs.existsSync(this.filePath)) {
+      this.secrets = {};
+      return this.secrets;
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as EncryptedSecretsFile;
+      const decipher = crypto.createDecipheriv(
+        file.algorithm,
+        EncryptedFileSecretsProvider.deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+        Buffer.from(file.iv, 'base64'),
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+      this.secrets = JSON.parse(plain) as Record<string, string>;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to decrypt secrets file ${this.filePath}: ${errorMessage}`);
+    }
+    return this.secrets;
+  }
+}
+
+/**
+ * Secrets Manager
+ *
+ * @description
+ * Resolves `secret://` references through the provider chain, binds references lazily into
+ * objects and redacts every resolved value from console output.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class SecretsManager {
+  private readonly providers: SecretsProvider[];
+  private readonly resolved = new Set<string>();
+  private consolePatched = false;
+
+  constructor(providers: SecretsProvider[] = []) {
+    this.providers = providers;
+  }
+
+  /**
+   * Adds a provider to the chain
+   * @param {SecretsProvider} provider - Provider to add
+   * @param {boolean} [first] - Query this provider before the existing ones
+   */
+  registerProvider(provider: SecretsProvider, first: boolean = false): void {
+    if (first) {
+      this.providers.unshift(provider);
+    } else {
+      this.providers.push(provider);
+    }
+  }
+
+  /**
+   * Checks whether a value is a `secret://` reference
+   * @param {unknown} value - Value to check
+   */
+  isSecretRef(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(FRAMEWORK_CONSTANTS.SECRETS.REF_PREFIX);
+  }
+
+  /**
+   * Resolves a secret by name
+   *
+   * @param {string} key - Secret name
+   * @returns {string} Secret value
+   * @throws {SecretNotFoundError} When no provider knows the secret
+   */
+  resolve(key: string): string {
+    for (const provider of this.providers) {
+      const value = provider.getSecret(key);
+      if (value !== undefined) {
+        this.remember(value);
+        return value;
+      }
+    }
+    throw new SecretNotFoundError(
+      key,
+      this.providers.map(provider => provider.name),
+    );
+  }
+
+  /**
+   * Resolves a value if it is a `secret://` reference, otherwise returns it unchanged
+   * @param {string} value - Plain value or secret reference
+   */
+  resolveValue(value: string): string {
+    return this.isSecretRef(value)
+      ? this.resolve(value.slice(FRAMEWORK_CONSTANTS.SECRETS.REF_PREFIX.length))
+      : value;
+  }
+
+  /**
+   * Replaces `secret://` string leaves of an object with lazily resolving getters
+   *
+   * @description
+   * The object is modified in place and returned. Secrets are resolved on first property
+   * access and cached. `JSON.stringify` keeps printing the references, never the values,
+   * and `console.log` shows `[Getter]` for secret properties.
+   *
+   * @param {T} target - Object containing secret references
+   * @returns {T} The same object
+   */
+  bindLazy<T extends object>(target: T): T {
+    const node = target as Record<string, unknown>;
+    const refs: Record<string, string> = {};
+
+    Object.entries(node).forEach(([key, value]) => {
+      if (this.isSecretRef(value)) {
+        refs[key] = value;
+        let cached: string | undefined;
+        Object.defineProperty(node, key, {
+          enumerable: true,
+          configurable: true,
+          get: () => (cached ??= this.resolveValue(value)),
+        });
+      } else if (typeof value === 'object' && value !== null) {
+        this.bindLazy(value);
+      }
+    });
+
+    if (Object.keys(refs).length > 0) {
+      Object.defineProperty(node, 'toJSON', {
+        enumerable: false,
+        configurable: true,
+        value: () =>
+          Object.keys(node).reduce<Record<string, unknown>>((json, key) => {
+            json[key] = refs[key] ?? node[key];
+            return json;
+          }, {}),
+      });
+    }
+    return target;
+  }
+
+  /**
+   * Masks every resolved secret value in a string
+   * @param {string} text - Text that may contain secret values
+   * @returns {string} Text with secrets replaced by the redaction marker
+   */
+  redact(text: string): string {
+    let result = text;
+    this.resolved.forEach(secret => {
+      result = result.split(secret).join(FRAMEWORK_CONSTANTS.SECRETS.REDACTION);
+    });
+    return result;
+  }
+
+  /**
+   * Masks credential headers (`authorization`, `cookie`, ...) and resolved secrets in the others
+   * @param {Record<string, string>} headers - Request or response headers
+   * @returns {Record<string, string>} Headers safe to log or store, names unchanged
+   */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const { SENSITIVE_HEADERS, REDACTION } = FRAMEWORK_CONSTANTS.SECRETS;
+    const redacted: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      redacted[name] = (SENSITIVE_HEADERS as readonly string[]).includes(name.toLowerCase())
+        ? REDACTION
+        : this.redact(value);
+    });
+    return redacted;
+  }
+
+  /**
+   * Records a resolved value for redaction and patches the console on first use
+   * @param value - Resolved secret value
+   */
+  private remember(value: string): void {
+    if (value.length < FRAMEWORK_CONSTANTS.SECRETS.MIN_REDACT_LENGTH) {
+      return;
+    }
+    this.resolved.add(value);
+    this.patchConsole();
+  }
+
+  /**
+   * Routes console output through {@link redact}
+   *
+   * @description
+   * Test stdout/stderr is captured into the Playwright reports, so redacting the console
+   * covers logs and report output. Applied once per process, only after a secret resolves.
+   */
+  private patchConsole(): void {
+    if (this.consolePatched) {
+      return;
+    }
+    this.consolePatched = true;
+
+    (['log', 'info', 'warn', 'error', 'debug'] as const).forEach(method => {
+      const original = console[method].bind(console);
+      console[method] = (...args: unknown[]) => original(this.redact(util.format(...args)));
+    });
+  }
+}
+
+/**
+ * Shared secrets manager with the built-in providers
+ */
+export const Secrets = new SecretsManager([
+  new EnvSecretsProvider(),
+  new EncryptedFileSecretsProvider(),
+]);
+
+export type { EncryptedSecretsFile, SecretsProvider };
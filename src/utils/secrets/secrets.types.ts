@@ -0,0 +1,39 @@
+/**
+ * Secrets Types
+ *
+ * Provider contract and encrypted file format used by the secrets manager
+ */
+
+/**
+ * Backend able to look up secrets by name
+ *
+ * @description
+ * Lookups are synchronous so that secrets can be resolved lazily from plain property access.
+ * Providers backed by remote vaults should prefetch their values when constructed.
+ */
+export interface SecretsProvider {
+  /** Provider name used in error messages */
+  readonly name: string;
+  /**
+   * Looks up a secret
+   * @param key - Secret name (the part after `secret://`)
+   * @returns Secret value, or undefined when this provider does not know it
+   */
+  getSecret(key: string): string | undefined;
+}
+
+/**
+ * Encrypted secrets file format
+ */
+export interface EncryptedSecretsFile {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  /** Base64 scrypt salt used to derive the AES key from `E2E_SECRETS_KEY` */
+  salt: string;
+  /** Base64 initialization vector */
+  iv: string;
+  /** Base64 GCM authentication tag */
+  tag: string;
+  /** Base64 ciphertext of a JSON `Record<string, string>` */
+  data: string;
+}
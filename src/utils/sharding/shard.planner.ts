@@ -0,0 +1,483 @@
+/**
+ * @fileoverview Shard Planner - Duration-balanced shard assignments learned from previous runs
+ * @version 1.0.0
+ * @author E2E Playwright Framework Team
+ * @since 2024
+ *
+ * @description
+ * Playwright's `--shard=i/n` splits tests by count, so one shard regularly ends up with every
+ * slow checkout flow while another finishes in seconds. The planner learns per-test durations
+ * from the JSON reporter output (`FRAMEWORK_CONSTANTS.REPORTS.JSON_FILE`), keeps a moving
+ * average in `FRAMEWORK_CONSTANTS.SHARDING.HISTORY_FILE` and assigns tests to shards so that
+ * the predicted wall-clock times are as even as possible.
+ *
+ * - Tests with history are placed longest-first onto the least loaded shard
+ * - Tests without history (new files) are balanced by file count
+ * - Each shard is written as a `--test-list` file, with a `--grep` pattern alternative
+ * - Wall-clock time is predicted by scheduling each shard's tests onto its workers
+ *
+ * @example
+ * ```typescript
+ * const planner = new ShardPlanner();
+ * planner.learnFromFile();
+ * planner.saveHistory();
+ *
+ * const plan = planner.plan(ShardPlanner.listTests(), { shards: 3, workers: 2 });
+ * ShardPlanner.writePlan(plan);
+ * console.log(ShardPlanner.formatPlan(plan));
+ * // npx playwright test --test-list reports/shards/shard-1.txt
+ * ```
+ */
+
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import type { JSONReport, JSONReportSuite } from '@playwright/test/reporter';
+
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * A test as identified in `--test-list` files
+ */
+export interface PlannedTest {
+  /** `[project] › file › describe › title` */
+  id: string;
+  /** Playwright project name */
+  project: string;
+  /** Spec file relative to the Playwright root directory */
+  file: string;
+  /** Describe blocks and test title */
+  titlePath: string[];
+  /** Duration of the last attempt in the report, when the test ran */
+  durationMs?: number;
+}
+
+/**
+ * Learned duration of a single test
+ */
+export interface TestDurationRecord {
+  /** Moving average duration in milliseconds */
+  durationMs: number;
+  /** Number of runs the average is based on */
+  samples: number;
+}
+
+/**
+ * Persisted duration history
+ */
+export interface DurationHistory {
+  version: 1;
+  updatedAt: string;
+  /** Start times of the runs already learned, so a report is never counted twice */
+  learnedRuns: string[];
+  tests: Record<string, TestDurationRecord>;
+}
+
+/**
+ * Shard planning options
+ */
+export interface ShardPlanOptions {
+  /** Number of shards to produce */
+  shards: number;
+  /** Workers each shard runs with, used for the wall-clock prediction */
+  workers: number;
+}
+
+/**
+ * A planned test with the duration used for balancing
+ */
+export interface ShardAssignment extends PlannedTest {
+  /** Learned or estimated duration in milliseconds */
+  expectedMs: number;
+  /** True when no history exists for the test */
+  estimated: boolean;
+}
+
+/**
+ * Tests assigned to one shard
+ */
+export interface Shard {
+  /** 1-based shard index */
+  index: number;
+  tests: ShardAssignment[];
+  /** Distinct spec files in the shard */
+  files: string[];
+  /** Sum of expected test durations */
+  workMs: number;
+  /** Predicted wall-clock time when run with the planned workers */
+  predictedMs: number;
+  /** Tests whose duration is estimated */
+  estimatedTests: number;
+  /** `--grep` alternative to the test-list file: one anchored title per test */
+  grep: string;
+}
+
+/**
+ * Complete shard plan
+ */
+export interface ShardPlan {
+  createdAt: string;
+  shards: Shard[];
+  workers: number;
+  totalTests: number;
+  testsWithHistory: number;
+  /** Duration assumed for tests without history */
+  estimateMs: number;
+}
+
+/**
+ * Mutable shard state while planning
+ */
+interface ShardBucket {
+  tests: ShardAssignment[];
+  files: Set<string>;
+  workMs: number;
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param text - Literal text
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * `--grep` pattern matching exactly one test
+ *
+ * @description
+ * Playwright greps `<project> <file> <describes...> <title>` followed by the tags of each part,
+ * so the pattern anchors the whole path and only lets tags through between its parts.
+ *
+ * @param test - Planned test
+ */
+function grepPattern(test: PlannedTest): string {
+  const tags = '(?: @\\S+)*';
+  const parts = [test.project, test.file, ...test.titlePath].map(escapeRegExp);
+  return `^${parts.join(`${tags} `)}${tags}$`;
+}
+
+/**
+ * Formats milliseconds as `1m 05s` or `12.3s`
+ * @param ms - Duration in milliseconds
+ */
+function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(Math.round(seconds % 60)).padStart(2, '0')}s`;
+}
+
+/**
+ * Shard Planner
+ *
+ * @description
+ * Holds the learned duration history and turns a test inventory into balanced shards.
+ *
+ * @class
+ * @since 1.0.0
+ */
+export class ShardPlanner {
+  private readonly history: DurationHistory;
+
+  constructor(history: DurationHistory = ShardPlanner.loadHistory()) {
+    this.history = history;
+  }
+
+  /**
+   * Loads the persisted duration history
+   * @param {string} [file] - History file path
+   * @returns {DurationHistory} Stored history, or an empty one when missing
+   */
+  static loadHistory(file: string = FRAMEWORK_CONSTANTS.SHARDING.HISTORY_FILE): DurationHistory {
+    if (!fs.existsSync(file)) {
+      return { version: 1, updatedAt: new Date(0).toISOString(), learnedRuns: [], tests: {} };
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as DurationHistory;
+  }
+
+  /**
+   * Flattens a Playwright JSON report into tests
+   *
+   * @description
+   * Works for both executed reports and `--list` reports (which carry no results).
+   *
+   * @param {JSONReport} report - Parsed JSON reporter output
+   * @returns {PlannedTest[]} One entry per test and project
+   */
+  static collectTests(report: JSONReport): PlannedTest[] {
+    const tests: PlannedTest[] = [];
+
+    const visit = (suite: JSONReportSuite, describes: string[]): void => {
+      suite.specs.forEach(spec => {
+        const titlePath = [...describes, spec.title];
+        spec.tests.forEach(test => {
+          const attempts = test.results.filter(result => result.status !== 'skipped');
+          tests.push({
+            id: [`[${test.projectName}]`, spec.file, ...titlePath].join(' › '),
+            project: test.projectName,
+            file: spec.file,
+            titlePath,
+            durationMs: attempts.length > 0 ? attempts[attempts.length - 1].duration : undefined,
+          });
+        });
+      });
+      suite.suites?.forEach(child => visit(child, [...describes, child.title]));
+    };
+
+    // Top-level suites are files; their title is the file path, not a describe block
+    report.suites.forEach(suite => visit(suite, []));
+    return tests;
+  }
+
+  /**
+   * Lists the current test inventory through `playwright test --list`
+   *
+   * @param {string[]} [args] - Extra Playwright CLI arguments (projects, paths, grep)
+   * @returns {PlannedTest[]} Every test Playwright would run
+   * @throws {Error} When Playwright cannot list the tests
+   */
+  static listTests(args: string[] = []): PlannedTest[] {
+    const outputFile = path.join(os.tmpdir(), `shard-inventory-${process.pid}.json`);
+    const result = spawnSync('npx', ['playwright', 'test', '--list', '--reporter=json', ...args], {
+      encoding: 'utf-8',
+      shell: process.platform === 'win32',
+      env: { ...process.env, PLAYWRIGHT_JSON_OUTPUT_NAME: outputFile },
+    });
+
+    if (result.status !== 0 || !fs.existsSync(outputFile)) {
+      throw new Error(`Failed to list tests: ${result.stderr || result.stdout}`);
+    }
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as JSONReport;
+    fs.rmSync(outputFile, { force: true });
+    return this.collectTests(report);
+  }
+
+  /**
+   * Writes one `--test-list` file per shard plus `plan.json`
+   *
+   * @param {ShardPlan} plan - Plan to write
+   * @param {string} [dir] - Output directory
+   * @returns {string[]} Paths of the test-list files, in shard order
+   */
+  static writePlan(
+    plan: ShardPlan,
+    dir: string = FRAMEWORK_CONSTANTS.SHARDING.OUTPUT_DIR,
+  ): string[] {
+    fs.mkdirSync(dir, { recursive: true });
+    const total = plan.shards.length;
+
+    const files = plan.shards.map(shard => {
+      const file = path.join(dir, `shard-${shard.index}.txt`);
+      const header = `# Shard ${shard.index}/${total} - ${shard.tests.length} tests, predicted ${formatDuration(shard.predictedMs)}`;
+      fs.writeFileSync(file, `${[header, ...shard.tests.map(test => test.id)].join('\n')}\n`);
+      return file;
+    });
+
+    fs.writeFileSync(path.join(dir, 'plan.json'), JSON.stringify(plan, null, 2));
+    return files;
+  }
+
+  /**
+   * Renders a plan summary with the predicted wall-clock time per shard
+   * @param {ShardPlan} plan - Plan to describe
+   */
+  static formatPlan(plan: ShardPlan): string {
+    const lines = plan.shards.map(shard => {
+      const estimated = shard.estimatedTests > 0 ? `, ${shard.estimatedTests} estimated` : '';
+      return (
+        `  Shard ${shard.index}/${plan.shards.length}: ${shard.tests.length} tests in ${shard.files.length} files${estimated} ` +
+        `→ work ${formatDuration(shard.workMs)}, predicted wall-clock ${formatDuration(shard.predictedMs)}`
+      );
+    });
+    const slowest = Math.max(0, ...plan.shards.map(shard => shard.predictedMs));
+
+    return [
+      `📦 Shard plan: ${plan.shards.length} shards × ${plan.workers} workers, ${plan.totalTests} tests (${plan.testsWithHistory} with history)`,
+      ...lines,
+      `⏱️ Predicted run time: ${formatDuration(slowest)}`,
+    ].join('\n');
+  }
+
+  /**
+   * Predicts the wall-clock time of a set of tests run by a number of workers
+   * @param durations - Expected test durations
+   * @param workers - Parallel workers
+   */
+  private static predictWallClock(durations: number[], workers: number): number {
+    const lanes: number[] = new Array(Math.max(1, workers)).fill(0);
+    [...durations]
+      .sort((a, b) => b - a)
+      .forEach(duration => {
+        const lane = lanes.indexOf(Math.min(...lanes));
+        lanes[lane] += duration;
+      });
+    return Math.max(...lanes);
+  }
+
+  /**
+   * Learns durations from a parsed JSON report
+   *
+   * @param {JSONReport} report - Parsed JSON reporter output of a completed run
+   * @returns {number} Number of test durations learned (0 when the run was already learned)
+   */
+  learn(report: JSONReport): number {
+    const { SMOOTHING_FACTOR: alpha, MAX_LEARNED_RUNS } = FRAMEWORK_CONSTANTS.SHARDING;
+    if (this.history.learnedRuns.includes(report.stats.startTime)) {
+      return 0;
+    }
+    let learned = 0;
+
+    ShardPlanner.collectTests(report).forEach(test => {
+      if (test.durationMs === undefined) {
+        return;
+      }
+      const previous = this.history.tests[test.id] as TestDurationRecord | undefined;
+      this.history.tests[test.id] = previous
+        ? {
+            durationMs: Math.round(alpha * test.durationMs + (1 - alpha) * previous.durationMs),
+            samples: previous.samples + 1,
+          }
+        : { durationMs: test.durationMs, samples: 1 };
+      learned++;
+    });
+
+    this.history.learnedRuns = [...this.history.learnedRuns, report.stats.startTime].slice(
+      -MAX_LEARNED_RUNS,
+    );
+    this.history.updatedAt = new Date().toISOString();
+    return learned;
+  }
+
+  /**
+   * Learns durations from a JSON report file
+   * @param {string} [file] - Report path, defaults to the configured JSON reporter output
+   * @returns {number} Number of test durations learned (0 when the report does not exist)
+   */
+  learnFromFile(file: string = FRAMEWORK_CONSTANTS.REPORTS.JSON_FILE): number {
+    if (!fs.existsSync(file)) {
+      return 0;
+    }
+    return this.learn(JSON.parse(fs.readFileSync(file, 'utf-8')) as JSONReport);
+  }
+
+  /**
+   * Persists the duration history
+   * @param {string} [file] - History file path
+   */
+  saveHistory(file: string = FRAMEWORK_CONSTANTS.SHARDING.HISTORY_FILE): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(this.history, null, 2));
+  }
+
+  /**
+   * Assigns tests to balanced shards
+   *
+   * @param {PlannedTest[]} tests - Test inventory, usually from {@link ShardPlanner.listTests}
+   * @param {ShardPlanOptions} options - Shard and worker counts
+   * @returns {ShardPlan} Shards with predicted wall-clock times
+   */
+  plan(tests: PlannedTest[], options: ShardPlanOptions): ShardPlan {
+    const buckets: ShardBucket[] = Array.from({ length: Math.max(1, options.shards) }, () => ({
+      tests: [],
+      files: new Set<string>(),
+      workMs: 0,
+    }));
+    const known = tests.filter(test => test.id in this.history.tests);
+    const unknown = tests.filter(test => !(test.id in this.history.tests));
+    const estimateMs = this.estimateUnknownDuration(known);
+
+    // Longest-processing-time-first onto the least loaded shard
+    known
+      .map(test => ({
+        ...test,
+        expectedMs: this.history.tests[test.id].durationMs,
+        estimated: false,
+      }))
+      .sort((a, b) => b.expectedMs - a.expectedMs)
+      .forEach(test => {
+        const bucket = buckets.reduce((min, next) => (next.workMs < min.workMs ? next : min));
+        this.assign(bucket, [test]);
+      });
+
+    // New tests: keep files together and spread files evenly
+    const unknownByFile = new Map<string, ShardAssignment[]>();
+    unknown.forEach(test => {
+      const group = unknownByFile.get(test.file) ?? [];
+      group.push({ ...test, expectedMs: estimateMs, estimated: true });
+      unknownByFile.set(test.file, group);
+    });
+    [...unknownByFile.values()]
+      .sort((a, b) => b.length - a.length)
+      .forEach(group => {
+        const bucket = buckets.reduce((min, next) =>
+          next.files.size < min.files.size ||
+          (next.files.size === min.files.size && next.workMs < min.workMs)
+            ? next
+            : min,
+        );
+        this.assign(bucket, group);
+      });
+
+    return {
+      createdAt: new Date().toISOString(),
+      shards: buckets.map((bucket, index) => this.toShard(bucket, index + 1, options.workers)),
+      workers: options.workers,
+      totalTests: tests.length,
+      testsWithHistory: known.length,
+      estimateMs,
+    };
+  }
+
+  /**
+   * Duration assumed for tests without history: the average known duration
+   * @param known - Tests with history
+   */
+  private estimateUnknownDuration(known: PlannedTest[]): number {
+    if (known.length === 0) {
+      return FRAMEWORK_CONSTANTS.SHARDING.DEFAULT_TEST_DURATION_MS;
+    }
+    const total = known.reduce((sum, test) => sum + this.history.tests[test.id].durationMs, 0);
+    return Math.round(total / known.length);
+  }
+
+  /**
+   * Adds tests to a shard bucket
+   * @param bucket - Target bucket
+   * @param tests - Tests to add
+   */
+  private assign(bucket: ShardBucket, tests: ShardAssignment[]): void {
+    tests.forEach(test => {
+      bucket.tests.push(test);
+      bucket.files.add(test.file);
+      bucket.workMs += test.expectedMs;
+    });
+  }
+
+  /**
+   * Finalizes a bucket into a shard
+   * @param bucket - Planned bucket
+   * @param index - 1-based shard index
+   * @param workers - Workers used for the prediction
+   */
+  private toShard(bucket: ShardBucket, index: number, workers: number): Shard {
+    const patterns = [...new Set(bucket.tests.map(grepPattern))];
+    return {
+      index,
+      tests: bucket.tests,
+      files: [...bucket.files].sort(),
+      workMs: bucket.workMs,
+      predictedMs: ShardPlanner.predictWallClock(
+        bucket.tests.map(test => test.expectedMs),
+        workers,
+      ),
+      estimatedTests: bucket.tests.filter(test => test.estimated).length,
+      // `^$` matches no test, so an empty shard never falls back to running everything
+      grep: patterns.length > 0 ? patterns.join('|') : '^$',
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { Matchers, apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+
+/**
+ * @fileoverview Blog Consumer Pact - Declares the JSONPlaceholder interactions the blog relies on
+ * @author Test Automation Team
+ * @category Contract Testing
+ * @priority High (P1)
+ *
+ * Every interaction is sent to the configured provider and must meet its declaration; passed
+ * tests write their interactions to `data/fixtures/pacts/blog-web-jsonplaceholder.json`,
+ * which `pact-verification.spec.ts` replays against the provider (`npm run test:pact:verify`).
+ *
+ * Responses are declared by shape (`Matchers.like`, `eachLike`, `term`) wherever the blog does
+ * not depend on exact values.
+ */
+
+const { ENDPOINTS, STATUS_CODES, TEST_DATA } = JSONPLACEHOLDER_API;
+const POST_ID = TEST_DATA.VALID_IDS.POST;
+const USER_ID = TEST_DATA.VALID_IDS.USER;
+
+const JSON_CONTENT_TYPE = Matchers.term(/application\/json/, 'application/json; charset=utf-8');
+
+const POST = { id: POST_ID, userId: USER_ID, title: 'post title', body: 'post body' };
+
+apiTest.use({ pactConsumer: 'blog-web' });
+
+apiTest.describe('Blog Consumer Pact', () => {
+  apiTest('should rely on a single post by ID', async ({ pact }) => {
+    const response = await pact.interaction({
+      description: 'a request for a post by ID',
+      providerState: `post ${POST_ID} exists`,
+      request: { method: 'GET', path: ENDPOINTS.POSTS.GET_BY_ID.replace('{id}', String(POST_ID)) },
+      response: {
+        status: STATUS_CODES.SUCCESS.OK,
+        headers: { 'Content-Type': JSON_CONTENT_TYPE },
+        body: {
+          id: POST_ID,
+          userId: Matchers.like(USER_ID),
+          title: Matchers.like(POST.title),
+          body: Matchers.like(POST.body),
+        },
+      },
+    });
+
+    const post: unknown = await response.json();
+    expect(post).toMatchSchema('post');
+  });
+
+  apiTest('should rely on the posts of a user', async ({ pact }) => {
+    await pact.interaction({
+      description: 'a request for the posts of a user',
+      providerState: `user ${USER_ID} has posts`,
+      request: { method: 'GET', path: ENDPOINTS.POSTS.GET_ALL, query: { userId: USER_ID } },
+      response: {
+        status: STATUS_CODES.SUCCESS.OK,
+        body: Matchers.eachLike({ ...POST, userId: USER_ID }),
+      },
+    });
+  });
+
+  apiTest('should rely on the author of a post', async ({ pact }) => {
+    await pact.interaction({
+      description: 'a request for a user by ID',
+      providerState: `user ${USER_ID} exists`,
+      request: { method: 'GET', path: ENDPOINTS.USERS.GET_BY_ID.replace('{id}', String(USER_ID)) },
+      response: {
+        status: STATUS_CODES.SUCCESS.OK,
+        body: {
+          id: USER_ID,
+          name: Matchers.like('Leanne Graham'),
+          username: Matchers.like('Bret'),
+          email: Matchers.term(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Sincere@april.biz'),
+        },
+      },
+    });
+  });
+
+  apiTest('should rely on creating a post', async ({ pact }) => {
+    const { title, body } = POST;
+    await pact.interaction({
+      description: 'a request to create a post',
+      request: {
+        method: 'POST',
+        path: ENDPOINTS.POSTS.CREATE,
+        headers: { 'Content-Type': JSONPLACEHOLDER_API.REQUEST_CONFIG.HEADERS.CONTENT_TYPE },
+        body: { title, body, userId: USER_ID },
+      },
+      response: {
+        status: STATUS_CODES.SUCCESS.CREATED,
+        body: { id: Matchers.like(101), title, body, userId: USER_ID },
+      },
+    });
+  });
+
+  apiTest('should rely on a 404 for a missing post', async ({ pact }) => {
+    const missingId = TEST_DATA.INVALID_IDS.NON_EXISTENT;
+    await pact.interaction({
+      description: 'a request for a missing post',
+      providerState: `post ${missingId} does not exist`,
+      request: {
+        method: 'GET',
+        path: ENDPOINTS.POSTS.GET_BY_ID.replace('{id}', String(missingId)),
+      },
+      response: { status: STATUS_CODES.CLIENT_ERROR.NOT_FOUND },
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+
+/**
+ * @fileoverview JSONPlaceholder Contract Drift - Detects upstream API changes against recorded baselines
+ * @author Test Automation Team
+ * @category Contract Testing
+ * @priority High (P1)
+ *
+ * Every test infers the schema of a live response (types, required keys, formats, enum-like
+ * values) and compares it to its baseline in `data/fixtures/contracts/`:
+ * - Breaking changes (removed fields, type changes, new enum values) fail the test
+ * - Additive changes (new fields) pass and show as `contract-drift` annotations
+ *
+ * Refresh the baselines after an intended API change with `npm run test:contract:update`.
+ */
+
+const { ENDPOINTS, TEST_DATA } = JSONPLACEHOLDER_API;
+
+/** Baseline name per endpoint; `{id}` is replaced by the resource's valid test ID */
+const CONTRACTS: Array<{ name: string; endpoint: string; id?: number }> = [
+  { name: 'posts', endpoint: ENDPOINTS.POSTS.GET_ALL },
+  { name: 'post', endpoint: ENDPOINTS.POSTS.GET_BY_ID, id: TEST_DATA.VALID_IDS.POST },
+  { name: 'post-comments', endpoint: ENDPOINTS.POSTS.GET_COMMENTS, id: TEST_DATA.VALID_IDS.POST },
+  { name: 'comments', endpoint: ENDPOINTS.COMMENTS.GET_ALL },
+  { name: 'users', endpoint: ENDPOINTS.USERS.GET_ALL },
+  { name: 'user', endpoint: ENDPOINTS.USERS.GET_BY_ID, id: TEST_DATA.VALID_IDS.USER },
+  { name: 'albums', endpoint: ENDPOINTS.ALBUMS.GET_ALL },
+  { name: 'photos', endpoint: ENDPOINTS.PHOTOS.GET_ALL },
+  { name: 'todos', endpoint: ENDPOINTS.TODOS.GET_ALL },
+];
+
+apiTest.describe('JSONPlaceholder Contract Drift', () => {
+  CONTRACTS.forEach(({ name, endpoint, id }) => {
+    const source = `GET ${endpoint}`;
+
+    apiTest(
+      `${source} should not break its contract baseline`,
+      async ({ apiContext, apiBaseUrl, contractDrift }) => {
+        console.log(`🔍 Checking ${source} against contract baseline "${name}"`);
+
+        const response = await apiContext.get(
+          `${apiBaseUrl}${endpoint.replace('{id}', String(id))}`,
+        );
+        expect(response.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+
+        // Throws ContractDriftError on breaking changes; additive ones become annotations
+        const check = contractDrift.check(name, await response.json(), source);
+
+        console.log(
+          `✅ ${source} matches contract "${name}" (baseline ${check.baseline}, ${check.changes.length} change(s))`,
+        );
+      },
+    );
+  });
+});
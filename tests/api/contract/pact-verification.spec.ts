@@ -0,0 +1,41 @@
+import { PactVerifier } from '@api/contracts/pact.verifier';
+import { apiTest } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * @fileoverview Pact Verification - Replays the consumer contracts against their providers
+ * @author Test Automation Team
+ * @category Contract Testing
+ * @priority High (P1)
+ *
+ * One test per contract in `data/fixtures/pacts/`. Every interaction is sent to the provider's
+ * base URL from the environment configuration (the local JSONPlaceholder stand-in in
+ * development); the test fails listing the interactions the provider does not meet, and the
+ * result of every interaction is attached to the report.
+ */
+
+apiTest.describe('Pact Verification', () => {
+  PactVerifier.pactFiles().forEach(file => {
+    const pact = PactVerifier.load(file);
+
+    apiTest(
+      `${pact.provider.name} should meet the contract of ${pact.consumer.name}`,
+      async ({ apiContext }, testInfo) => {
+        console.log(
+          `🔍 Verifying ${pact.interactions.length} interaction(s) of ${file} against ${pact.provider.name}`,
+        );
+        const verifier = new PactVerifier(apiContext);
+
+        try {
+          // Throws PactVerificationError listing every unmet interaction
+          await verifier.assertVerified(pact);
+        } finally {
+          await testInfo.attach(FRAMEWORK_CONSTANTS.PACT.ATTACHMENT, {
+            body: JSON.stringify(verifier.results, null, 2),
+            contentType: 'application/json',
+          });
+        }
+      },
+    );
+  });
+});
@@ -21,6 +21,9 @@ import { JSONPLACEHOLDER_API } from '../../../src/utils/constants/jsonplaceholde
  * Tests complete workflows and system integration scenarios
  */
 apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
+  // Created content carries timestamps, so replayed exchanges are matched without the body
+  apiTest.use({ vcr: { match: ['method', 'url'] } });
+
   /**
    * Complete User Content Lifecycle E2E Test
    *
@@ -42,9 +45,9 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       const startTime = Date.now();
 
       // Get all users and validate structure
-      const usersResponse = await jsonPlaceholderClient.getUsers();
-      apiTest.expect(usersResponse.status()).toBe(200);
-      const users = await usersResponse.json();
+      const usersResponse = await jsonPlaceholderClient.endpoints.users.getAll();
+      apiTest.expect(usersResponse.status).toBe(200);
+      const users = usersResponse.body;
       apiTest.expect(Array.isArray(users)).toBe(true);
       apiTest.expect(users.length).toBe(JSONPLACEHOLDER_API.RESOURCE_COUNTS.USERS);
 
@@ -63,9 +66,11 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
         userId: targetUser.id,
       };
 
-      const createPostResponse = await jsonPlaceholderClient.createPost(newPost);
-      apiTest.expect(createPostResponse.status()).toBe(201);
-      const createdPost = await createPostResponse.json();
+      const createPostResponse = await jsonPlaceholderClient.endpoints.posts.create({
+        data: newPost,
+      });
+      apiTest.expect(createPostResponse.status).toBe(201);
+      const createdPost = createPostResponse.body;
       schemaValidator.validatePost(createdPost);
       console.log(`✅ Created post: "${createdPost.title}" (ID: ${createdPost.id})`);
 
@@ -73,9 +78,11 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('🔍 Phase 3: Content Discovery & Relationships');
 
       // Get user's existing posts
-      const userPostsResponse = await jsonPlaceholderClient.getUserPosts(targetUser.id);
-      apiTest.expect(userPostsResponse.status()).toBe(200);
-      const userPosts = await userPostsResponse.json();
+      const userPostsResponse = await jsonPlaceholderClient.endpoints.users.getPosts({
+        id: targetUser.id,
+      });
+      apiTest.expect(userPostsResponse.status).toBe(200);
+      const userPosts = userPostsResponse.body;
       schemaValidator.validatePostsArray(userPosts);
 
       // Validate that we have expected posts for this user
@@ -84,9 +91,11 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
       // Get comments for the first post
       const firstPost = userPosts[0];
-      const commentsResponse = await jsonPlaceholderClient.getPostComments(firstPost.id);
-      apiTest.expect(commentsResponse.status()).toBe(200);
-      const comments = await commentsResponse.json();
+      const commentsResponse = await jsonPlaceholderClient.endpoints.posts.getComments({
+        id: firstPost.id,
+      });
+      apiTest.expect(commentsResponse.status).toBe(200);
+      const comments = commentsResponse.body;
       schemaValidator.validateCommentsArray(comments);
       console.log(`✅ Found ${comments.length} comments for post "${firstPost.title}"`);
 
@@ -94,21 +103,23 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('📸 Phase 4: Media & Album Management');
 
       // Get user's albums
-      const albumsResponse = await jsonPlaceholderClient.getUserAlbums(targetUser.id);
-      apiTest.expect(albumsResponse.status()).toBe(200);
-      const albums = await albumsResponse.json();
-      // Validate each album individually since there's no validateAlbumsArray method
-      albums.forEach((album: any) => schemaValidator.validateAlbum(album));
+      const albumsResponse = await jsonPlaceholderClient.endpoints.users.getAlbums({
+        id: targetUser.id,
+      });
+      apiTest.expect(albumsResponse.status).toBe(200);
+      const albums = albumsResponse.body;
+      schemaValidator.validateArray('album', albums);
       console.log(`✅ Found ${albums.length} albums for user ${targetUser.name}`);
 
       // Get photos from the first album
       if (albums.length > 0) {
         const firstAlbum = albums[0];
-        const photosResponse = await jsonPlaceholderClient.getAlbumPhotos(firstAlbum.id);
-        apiTest.expect(photosResponse.status()).toBe(200);
-        const photos = await photosResponse.json();
-        // Validate a sample of photos since there's no validatePhotosArray method
-        photos.slice(0, 5).forEach((photo: any) => schemaValidator.validatePhoto(photo));
+        const photosResponse = await jsonPlaceholderClient.endpoints.albums.getPhotos({
+          id: firstAlbum.id,
+        });
+        apiTest.expect(photosResponse.status).toBe(200);
+        const photos = photosResponse.body;
+        schemaValidator.validateArray('photo', photos);
         console.log(`✅ Found ${photos.length} photos in album "${firstAlbum.title}"`);
       }
 
@@ -116,11 +127,12 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('✅ Phase 5: Task Management');
 
       // Get user's todos
-      const todosResponse = await jsonPlaceholderClient.getUserTodos(targetUser.id);
-      apiTest.expect(todosResponse.status()).toBe(200);
-      const todos = await todosResponse.json();
-      // Validate each todo individually since there's no validateTodosArray method
-      todos.forEach((todo: any) => schemaValidator.validateTodo(todo));
+      const todosResponse = await jsonPlaceholderClient.endpoints.todos.getByUser({
+        userId: targetUser.id,
+      });
+      apiTest.expect(todosResponse.status).toBe(200);
+      const todos = todosResponse.body;
+      schemaValidator.validateArray('todo', todos);
 
       const completedTodos = todos.filter((todo: any) => todo.completed);
       const pendingTodos = todos.filter((todo: any) => !todo.completed);
@@ -132,9 +144,11 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('🔄 Phase 6: Data Consistency Validation');
 
       // Cross-validate user data across different endpoints
-      const directUserResponse = await jsonPlaceholderClient.getUser(targetUser.id);
-      apiTest.expect(directUserResponse.status()).toBe(200);
-      const directUser = await directUserResponse.json();
+      const directUserResponse = await jsonPlaceholderClient.endpoints.users.getById({
+        id: targetUser.id,
+      });
+      apiTest.expect(directUserResponse.status).toBe(200);
+      const directUser = directUserResponse.body;
 
       // Ensure user data is consistent
       apiTest.expect(directUser.id).toBe(targetUser.id);
@@ -181,9 +195,9 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       // Phase 1: Multi-User Discovery
       console.log('👥 Phase 1: Multi-User Discovery');
 
-      const allUsersResponse = await jsonPlaceholderClient.getUsers();
-      apiTest.expect(allUsersResponse.status()).toBe(200);
-      const allUsers = await allUsersResponse.json();
+      const allUsersResponse = await jsonPlaceholderClient.endpoints.users.getAll();
+      apiTest.expect(allUsersResponse.status).toBe(200);
+      const allUsers = allUsersResponse.body;
 
       // Select first 3 users for multi-user testing
       const testUsers = allUsers.slice(0, 3);
@@ -194,18 +208,18 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
       const concurrentPromises = testUsers.map(async (user: any) => {
         const [postsResponse, albumsResponse, todosResponse] = await Promise.all([
-          jsonPlaceholderClient.getUserPosts(user.id),
-          jsonPlaceholderClient.getUserAlbums(user.id),
-          jsonPlaceholderClient.getUserTodos(user.id),
+          jsonPlaceholderClient.endpoints.users.getPosts({ id: user.id }),
+          jsonPlaceholderClient.endpoints.users.getAlbums({ id: user.id }),
+          jsonPlaceholderClient.endpoints.todos.getByUser({ userId: user.id }),
         ]);
 
-        apiTest.expect(postsResponse.status()).toBe(200);
-        apiTest.expect(albumsResponse.status()).toBe(200);
-        apiTest.expect(todosResponse.status()).toBe(200);
+        apiTest.expect(postsResponse.status).toBe(200);
+        apiTest.expect(albumsResponse.status).toBe(200);
+        apiTest.expect(todosResponse.status).toBe(200);
 
-        const posts = await postsResponse.json();
-        const albums = await albumsResponse.json();
-        const todos = await todosResponse.json();
+        const posts = postsResponse.body;
+        const albums = albumsResponse.body;
+        const todos = todosResponse.body;
 
         return {
           user,
@@ -240,14 +254,14 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('📊 Phase 4: System-Wide Content Analysis');
 
       // Get all posts and validate distribution
-      const allPostsResponse = await jsonPlaceholderClient.getPosts();
-      apiTest.expect(allPostsResponse.status()).toBe(200);
-      const allPosts = await allPostsResponse.json();
+      const allPostsResponse = await jsonPlaceholderClient.endpoints.posts.getAll();
+      apiTest.expect(allPostsResponse.status).toBe(200);
+      const allPosts = allPostsResponse.body;
 
       // Get all comments and validate relationships
-      const allCommentsResponse = await jsonPlaceholderClient.getComments();
-      apiTest.expect(allCommentsResponse.status()).toBe(200);
-      const allComments = await allCommentsResponse.json();
+      const allCommentsResponse = await jsonPlaceholderClient.endpoints.comments.getAll();
+      apiTest.expect(allCommentsResponse.status).toBe(200);
+      const allComments = allCommentsResponse.body;
 
       // Validate data relationships
       const userIds = testUsers.map((user: any) => user.id);
@@ -268,7 +282,7 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       userComments.forEach((comment: any) => {
         const relatedPost = allPosts.find((post: any) => post.id === comment.postId);
         apiTest.expect(relatedPost).toBeDefined();
-        apiTest.expect(userIds.includes(relatedPost.userId)).toBe(true);
+        apiTest.expect(userIds.includes(relatedPost!.userId)).toBe(true);
       });
 
       console.log('✅ Multi-user interaction E2E test completed successfully');
@@ -281,6 +295,82 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
     },
   );
 
+  /**
+   * Read-After-Write E2E Test
+   *
+   * The public API fakes writes, so this journey only runs against the local mock server:
+   * 1. Created post is readable and listed for its author
+   * 2. Update and patch are visible on the next read
+   * 3. Deleted post is gone
+   */
+  apiTest(
+    'should read back created, updated and deleted posts',
+    { annotation: { type: 'requires-flag', description: 'enableMocking' } },
+    async ({ jsonPlaceholderClient, schemaValidator }) => {
+      console.log('💾 Starting read-after-write E2E test');
+      const userId = JSONPLACEHOLDER_API.TEST_DATA.VALID_IDS.USER;
+
+      const initialPosts = (await jsonPlaceholderClient.endpoints.users.getPosts({ id: userId }))
+        .body;
+
+      // Phase 1: Create and read back
+      const createResponse = await jsonPlaceholderClient.endpoints.posts.create({
+        data: {
+          title: 'Read-after-write post',
+          body: 'Stored by the mock server',
+          userId,
+        },
+      });
+      apiTest.expect(createResponse.status).toBe(201);
+      const createdPost = createResponse.body;
+
+      const readResponse = await jsonPlaceholderClient.endpoints.posts.getById({
+        id: createdPost.id,
+      });
+      apiTest.expect(readResponse.status).toBe(200);
+      const storedPost = readResponse.body;
+      schemaValidator.validatePost(storedPost);
+      apiTest.expect(storedPost).toEqual(createdPost);
+
+      const userPosts = (await jsonPlaceholderClient.endpoints.users.getPosts({ id: userId })).body;
+      apiTest.expect(userPosts).toHaveLength(initialPosts.length + 1);
+      console.log(`✅ Created post ${createdPost.id} is persisted`);
+
+      // Phase 2: Update and patch
+      await jsonPlaceholderClient.endpoints.posts.update({
+        id: createdPost.id,
+        data: {
+          ...createdPost,
+          title: 'Replaced title',
+        },
+      });
+      await jsonPlaceholderClient.endpoints.posts.patch({
+        id: createdPost.id,
+        data: { body: 'Patched body' },
+      });
+
+      const updatedPost = (
+        await jsonPlaceholderClient.endpoints.posts.getById({ id: createdPost.id })
+      ).body;
+      apiTest.expect(updatedPost).toMatchObject({ title: 'Replaced title', body: 'Patched body' });
+      console.log('✅ Update and patch are persisted');
+
+      // Phase 3: Delete
+      const deleteResponse = await jsonPlaceholderClient.endpoints.posts.delete({
+        id: createdPost.id,
+      });
+      apiTest.expect(deleteResponse.status).toBe(200);
+      const deletedResponse = await jsonPlaceholderClient.endpoints.posts.getById(
+        {
+          id: createdPost.id,
+        },
+        { throwOnError: false },
+      );
+      apiTest.expect(deletedResponse.status).toBe(404);
+      console.log('✅ Deleted post is gone');
+    },
+  );
+
   /**
    * Error Handling & Recovery E2E Test
    *
@@ -299,30 +389,44 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('❌ Phase 1: Invalid Resource Handling');
 
       // Test invalid user ID
-      const invalidUserResponse = await jsonPlaceholderClient.getUser(99999);
-      apiTest.expect(invalidUserResponse.status()).toBe(404);
+      const invalidUserResponse = await jsonPlaceholderClient.endpoints.users.getById(
+        {
+          id: 99999,
+        },
+        { throwOnError: false },
+      );
+      apiTest.expect(invalidUserResponse.status).toBe(404);
       console.log('✅ Correctly handled invalid user ID (404)');
 
       // Test invalid post ID
-      const invalidPostResponse = await jsonPlaceholderClient.getPost(99999);
-      apiTest.expect(invalidPostResponse.status()).toBe(404);
+      const invalidPostResponse = await jsonPlaceholderClient.endpoints.posts.getById(
+        {
+          id: 99999,
+        },
+        { throwOnError: false },
+      );
+      apiTest.expect(invalidPostResponse.status).toBe(404);
       console.log('✅ Correctly handled invalid post ID (404)');
 
       // Phase 2: Cascading Error Effects
       console.log('🔄 Phase 2: Cascading Error Effects');
 
       // Try to get posts for invalid user
-      const invalidUserPostsResponse = await jsonPlaceholderClient.getUserPosts(99999);
-      apiTest.expect(invalidUserPostsResponse.status()).toBe(200);
-      const invalidUserPosts = await invalidUserPostsResponse.json();
+      const invalidUserPostsResponse = await jsonPlaceholderClient.endpoints.users.getPosts({
+        id: 99999,
+      });
+      apiTest.expect(invalidUserPostsResponse.status).toBe(200);
+      const invalidUserPosts = invalidUserPostsResponse.body;
       apiTest.expect(Array.isArray(invalidUserPosts)).toBe(true);
       apiTest.expect(invalidUserPosts.length).toBe(0);
       console.log('✅ Invalid user posts query returns empty array');
 
       // Try to get comments for invalid post
-      const invalidPostCommentsResponse = await jsonPlaceholderClient.getPostComments(99999);
-      apiTest.expect(invalidPostCommentsResponse.status()).toBe(200);
-      const invalidPostComments = await invalidPostCommentsResponse.json();
+      const invalidPostCommentsResponse = await jsonPlaceholderClient.endpoints.posts.getComments({
+        id: 99999,
+      });
+      apiTest.expect(invalidPostCommentsResponse.status).toBe(200);
+      const invalidPostComments = invalidPostCommentsResponse.body;
       apiTest.expect(Array.isArray(invalidPostComments)).toBe(true);
       apiTest.expect(invalidPostComments.length).toBe(0);
       console.log('✅ Invalid post comments query returns empty array');
@@ -332,12 +436,12 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
       // Perform multiple rapid requests to test rate limiting
       const rapidRequests = Array.from({ length: 5 }, async (_, i) =>
-        jsonPlaceholderClient.getPost(i + 1),
+        jsonPlaceholderClient.endpoints.posts.getById({ id: i + 1 }),
       );
 
       const rapidResponses = await Promise.all(rapidRequests);
       rapidResponses.forEach((response: any) => {
-        apiTest.expect(response.status()).toBe(200);
+        apiTest.expect(response.status).toBe(200);
       });
       console.log('✅ System handled rapid concurrent requests successfully');
 
@@ -345,14 +449,14 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       console.log('🔧 Phase 4: Recovery Validation');
 
       // After error scenarios, verify normal operations still work
-      const recoveryUserResponse = await jsonPlaceholderClient.getUser(1);
-      apiTest.expect(recoveryUserResponse.status()).toBe(200);
-      const recoveryUser = await recoveryUserResponse.json();
+      const recoveryUserResponse = await jsonPlaceholderClient.endpoints.users.getById({ id: 1 });
+      apiTest.expect(recoveryUserResponse.status).toBe(200);
+      const recoveryUser = recoveryUserResponse.body;
       schemaValidator.validateUser(recoveryUser);
 
-      const recoveryPostResponse = await jsonPlaceholderClient.getPost(1);
-      apiTest.expect(recoveryPostResponse.status()).toBe(200);
-      const recoveryPost = await recoveryPostResponse.json();
+      const recoveryPostResponse = await jsonPlaceholderClient.endpoints.posts.getById({ id: 1 });
+      apiTest.expect(recoveryPostResponse.status).toBe(200);
+      const recoveryPost = recoveryPostResponse.body;
       schemaValidator.validatePost(recoveryPost);
 
       console.log('✅ System recovery validated - normal operations restored');
@@ -376,10 +480,22 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
     console.log('📊 Phase 1: Baseline Performance Measurement');
 
     const baselineTests = [
-      { name: 'Single User', operation: async () => jsonPlaceholderClient.getUser(1) },
-      { name: 'Single Post', operation: async () => jsonPlaceholderClient.getPost(1) },
-      { name: 'Post Comments', operation: async () => jsonPlaceholderClient.getPostComments(1) },
-      { name: 'User Posts', operation: async () => jsonPlaceholderClient.getUserPosts(1) },
+      {
+        name: 'Single User',
+        operation: async () => jsonPlaceholderClient.endpoints.users.getById({ id: 1 }),
+      },
+      {
+        name: 'Single Post',
+        operation: async () => jsonPlaceholderClient.endpoints.posts.getById({ id: 1 }),
+      },
+      {
+        name: 'Post Comments',
+        operation: async () => jsonPlaceholderClient.endpoints.posts.getComments({ id: 1 }),
+      },
+      {
+        name: 'User Posts',
+        operation: async () => jsonPlaceholderClient.endpoints.users.getPosts({ id: 1 }),
+      },
     ];
 
     const baselineResults = [];
@@ -390,7 +506,7 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      apiTest.expect(response.status()).toBe(200);
+      apiTest.expect(response.status).toBe(200);
       apiTest
         .expect(duration)
         .toBeLessThan(JSONPLACEHOLDER_API.PERFORMANCE_BENCHMARKS.ACCEPTABLE_RESPONSE);
@@ -403,16 +519,16 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
     console.log('🔄 Phase 2: Concurrent Load Testing');
 
     const concurrentOperations = [
-      async () => jsonPlaceholderClient.getUsers(),
-      async () => jsonPlaceholderClient.getPosts(),
-      async () => jsonPlaceholderClient.getComments(),
-      async () => jsonPlaceholderClient.getAlbums(),
-      async () => jsonPlaceholderClient.getPhotos(),
-      async () => jsonPlaceholderClient.getTodos(),
-      async () => jsonPlaceholderClient.getUser(1),
-      async () => jsonPlaceholderClient.getPost(1),
-      async () => jsonPlaceholderClient.getUserPosts(1),
-      async () => jsonPlaceholderClient.getUserAlbums(1),
+      async () => jsonPlaceholderClient.endpoints.users.getAll(),
+      async () => jsonPlaceholderClient.endpoints.posts.getAll(),
+      async () => jsonPlaceholderClient.endpoints.comments.getAll(),
+      async () => jsonPlaceholderClient.endpoints.albums.getAll(),
+      async () => jsonPlaceholderClient.endpoints.photos.getAll(),
+      async () => jsonPlaceholderClient.endpoints.todos.getAll(),
+      async () => jsonPlaceholderClient.endpoints.users.getById({ id: 1 }),
+      async () => jsonPlaceholderClient.endpoints.posts.getById({ id: 1 }),
+      async () => jsonPlaceholderClient.endpoints.users.getPosts({ id: 1 }),
+      async () => jsonPlaceholderClient.endpoints.users.getAlbums({ id: 1 }),
     ];
 
     const concurrentStartTime = Date.now();
@@ -422,7 +538,7 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
     // Validate all responses
     concurrentResponses.forEach((response: any) => {
-      apiTest.expect(response.status()).toBe(200);
+      apiTest.expect(response.status).toBe(200);
     });
 
     apiTest
@@ -439,12 +555,12 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
     // Get all resources simultaneously
     const [allUsers, allPosts, allComments, allAlbums, allPhotos, allTodos] = await Promise.all([
-      jsonPlaceholderClient.getUsers(),
-      jsonPlaceholderClient.getPosts(),
-      jsonPlaceholderClient.getComments(),
-      jsonPlaceholderClient.getAlbums(),
-      jsonPlaceholderClient.getPhotos(),
-      jsonPlaceholderClient.getTodos(),
+      jsonPlaceholderClient.endpoints.users.getAll(),
+      jsonPlaceholderClient.endpoints.posts.getAll(),
+      jsonPlaceholderClient.endpoints.comments.getAll(),
+      jsonPlaceholderClient.endpoints.albums.getAll(),
+      jsonPlaceholderClient.endpoints.photos.getAll(),
+      jsonPlaceholderClient.endpoints.todos.getAll(),
     ]);
 
     const largeDatasetEndTime = Date.now();
@@ -486,8 +602,8 @@ apiTest.describe('JSONPlaceholder API - End-to-End Test Suite', () => {
 
     let totalRecords = 0;
     for (const dataset of datasets) {
-      apiTest.expect(dataset.response.status()).toBe(200);
-      const data = await dataset.response.json();
+      apiTest.expect(dataset.response.status).toBe(200);
+      const data = dataset.response.body;
       apiTest.expect(Array.isArray(data)).toBe(true);
       apiTest.expect(data.length).toBe(dataset.expectedCount);
       totalRecords += data.length;
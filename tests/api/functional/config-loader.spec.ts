@@ -0,0 +1,122 @@
+/**
+ * Configuration Loader Tests
+ *
+ * Functional testing of the layered configuration:
+ * - Precedence of base, environment, local file, `E2E_*` variables and runtime overrides
+ * - Origin of every value in the merged-config report
+ * - Coercion of `E2E_*` values to the type of the value they replace
+ *
+ * @fileoverview Functional tests for the configuration loader
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import * as fs from 'node:fs';
+
+import { ConfigLoader, type ConfigLayer } from '@config/config.loader';
+import { EnvironmentConfigManager } from '@config/environment';
+import type { ConfigReport } from '@config/types/environment.types';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+
+/**
+ * Source and detail of a value in a merged-config report
+ * @param report - Report to search
+ * @param path - Dotted value path
+ */
+function originOf(report: ConfigReport, path: string): string | undefined {
+  const origin = report.values.find(value => value.path === path);
+  return origin && `${origin.source} (${origin.detail})`;
+}
+
+apiTest.describe('Configuration Loader', () => {
+  apiTest('should let every layer override the ones before it', () => {
+    const testInfo = apiTest.info();
+    const loader = new ConfigLoader(testInfo.outputPath());
+    fs.writeFileSync(
+      testInfo.outputPath('local.config.yaml'),
+      'web:\n  timeout: 30000\n  retries: 3\n',
+    );
+    const layers: ConfigLayer[] = [
+      {
+        source: 'base',
+        detail: 'base.ts',
+        values: { web: { baseURL: 'https://base.test', timeout: 10000, retries: 0 } },
+      },
+      { source: 'environment', detail: 'staging.ts', values: { web: { timeout: 20000 } } },
+      loader.loadLocalLayer()!,
+    ];
+    const envLayer = loader.loadEnvLayer(loader.resolve('staging', layers).config, {
+      E2E_WEB__TIMEOUT: '60000',
+    });
+    layers.push(envLayer!, {
+      source: 'runtime',
+      detail: 'setOverrides()',
+      values: { web: { retries: 5 } },
+    });
+
+    const { config, report } = loader.resolve('staging', layers);
+
+    expect(config.web).toStrictEqual({ baseURL: 'https://base.test', timeout: 60000, retries: 5 });
+    expect(originOf(report, 'web.baseURL')).toBe('base (base.ts)');
+    expect(originOf(report, 'web.timeout')).toBe('env (E2E_WEB__TIMEOUT)');
+    expect(originOf(report, 'web.retries')).toBe('runtime (setOverrides())');
+    // Layers whose values were all overridden are left out
+    expect(report.layers.map(layer => layer.source)).toStrictEqual(['base', 'env', 'runtime']);
+    expect(ConfigLoader.formatReport(report)).toContain(
+      'web.timeout = 60000  ← env (E2E_WEB__TIMEOUT)',
+    );
+  });
+
+  apiTest('should coerce variables to the type of the value they replace', () => {
+    const loader = new ConfigLoader();
+    const target = EnvironmentConfigManager.getConfig('development');
+
+    const layer = loader.loadEnvLayer(target, {
+      E2E_WEB__TIMEOUT: '45000',
+      E2E_FEATURES__ENABLE_MOCKING: 'no',
+      E2E_FEATURES__CHECKOUT_VARIANT: 'express',
+      E2E_JSONPLACEHOLDER__BASE_URL: 'http://localhost:3000',
+      E2E_API__RETRY_POLICY__RETRY_ON: '[502, 503]',
+      E2E_API__HEADERS__X_TRACE_ID: 'debug-123',
+      E2E_SECRET_SAUCEDEMO_PASSWORD: 'not a configuration path',
+    });
+
+    expect(layer?.values).toStrictEqual({
+      web: { timeout: 45000 },
+      features: { enableMocking: false, checkoutVariant: 'express' },
+      jsonplaceholder: { baseURL: 'http://localhost:3000' },
+      api: { retryPolicy: { retryOn: [502, 503] }, headers: { 'x-trace-id': 'debug-123' } },
+    });
+    expect(layer?.pathDetails?.['features.enableMocking']).toBe('E2E_FEATURES__ENABLE_MOCKING');
+    expect(loader.loadEnvLayer(target, { E2E_SECRETS_KEY: 'unrelated' })).toBeUndefined();
+  });
+
+  apiTest('should reject values that cannot be coerced', () => {
+    const loader = new ConfigLoader();
+    const target = EnvironmentConfigManager.getConfig('development');
+
+    expect(() => loader.loadEnvLayer(target, { E2E_WEB__TIMEOUT: '60s' })).toThrow(
+      'Environment variable E2E_WEB__TIMEOUT must be a number, received "60s"',
+    );
+    expect(() => loader.loadEnvLayer(target, { E2E_FEATURES__ENABLE_MOCKING: 'maybe' })).toThrow(
+      'Environment variable E2E_FEATURES__ENABLE_MOCKING must be a boolean, received "maybe"',
+    );
+  });
+
+  apiTest('should put runtime overrides above every other layer', () => {
+    EnvironmentConfigManager.setOverrides({ web: { timeout: 90000 } });
+    try {
+      expect(EnvironmentConfigManager.getConfig('development').web.timeout).toBe(90000);
+      const report = EnvironmentConfigManager.getConfigReport('development');
+      expect(originOf(report, 'web.timeout')).toBe('runtime (setOverrides())');
+      expect(report.layers[0]).toStrictEqual({
+        source: 'base',
+        detail: 'config/environments/base.ts',
+      });
+    } finally {
+      EnvironmentConfigManager.setOverrides({});
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Feature Flag Tests
+ *
+ * Functional testing of the feature flags every fixture shares:
+ * - Typed custom flags in the environment configuration
+ * - Per-test overrides from `use({ flags })` and `flag` annotations
+ * - Skipping tests whose required flags are not met
+ * - API context following the test's `enableMocking` flag
+ *
+ * @fileoverview Functional tests for feature flags
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import { ConfigValidator } from '@config/config.validator';
+import { EnvironmentConfigManager } from '@config/environment';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { Flags } from '@utils/flags/feature-flag.service';
+
+apiTest.describe('Feature Flags', () => {
+  apiTest('should accept scalar custom flags only', () => {
+    const config = EnvironmentConfigManager.getConfig('development');
+    const withFlags = (custom: Record<string, unknown>): unknown => ({
+      ...config,
+      features: { ...config.features, ...custom },
+    });
+
+    expect(
+      ConfigValidator.validate(withFlags({ checkoutVariant: 'express', maxCartItems: 6 })),
+    ).toStrictEqual([]);
+    const issues = ConfigValidator.validate(withFlags({ checkoutVariant: { name: 'express' } }));
+    expect(issues.map(issue => issue.path)).toStrictEqual(['features.checkoutVariant']);
+  });
+
+  apiTest.describe('overrides', () => {
+    apiTest.use({ flags: { checkoutVariant: 'express', maxCartItems: 6 } });
+
+    apiTest(
+      'should apply overrides with typed fallbacks',
+      { annotation: { type: 'flag', description: 'maxCartItems=3' } },
+      ({ featureFlags }) => {
+        expect(featureFlags.value('checkoutVariant', 'classic')).toBe('express');
+        // The annotation wins over `use`, and is parsed as a number
+        expect(featureFlags.value('maxCartItems', 10)).toBe(3);
+        // A value of another type falls back
+        expect(featureFlags.value('checkoutVariant', 0)).toBe(0);
+        expect(featureFlags.value('unknownFlag', true)).toBe(true);
+      },
+    );
+  });
+
+  apiTest('should explain unmet requirements', ({ featureFlags }) => {
+    const unmet = featureFlags.withOverrides({ enableMocking: false });
+
+    expect(unmet.check(['enableMocking'])).toMatch(
+      /^Requires feature flag enableMocking=true \(\S+ has false\)$/,
+    );
+    expect(unmet.withOverrides({ enableMocking: true }).check(['enableMocking'])).toBeUndefined();
+  });
+
+  apiTest.describe('mocking turned off', () => {
+    apiTest.use({ flags: { enableMocking: false } });
+
+    apiTest(
+      'should throttle the API context of the test',
+      async ({ apiContext, featureFlags, performanceTracker }) => {
+        // The requests still go to the stand-in, so it must be running
+        apiTest.skip(!Flags.isEnabled('enableMocking'), 'needs the local JSONPlaceholder stand-in');
+        expect(featureFlags.get('enableMocking')).toBe(false);
+
+        const response = await apiContext.get('/posts/1');
+
+        expect(response.status()).toBe(200);
+        // Only requests leaving the mocked setup wait for the rate limiter
+        const waits = performanceTracker.getStats(FRAMEWORK_CONSTANTS.RATE_LIMIT.WAIT_METRIC);
+        expect(waits.count).toBe(1);
+      },
+    );
+  });
+
+  apiTest.describe('requirements', () => {
+    apiTest.use({ requiredFlags: { checkoutVariant: 'never-configured' } });
+
+    apiTest('should skip tests whose required flags are unmet', () => {
+      throw new Error('A test with unmet flag requirements must not run');
+    });
+
+    apiTest(
+      'should run tests whose requirements are overridden',
+      { annotation: { type: 'flag', description: 'checkoutVariant=never-configured' } },
+      ({ featureFlags }, testInfo) => {
+        expect(featureFlags.get('checkoutVariant')).toBe('never-configured');
+        expect(testInfo.annotations.some(annotation => annotation.type === 'skip')).toBe(false);
+      },
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * JSONPlaceholder Mock Scenario Tests
+ *
+ * Functional testing of the clients against mocked routes:
+ * - Response sequences and call verification
+ * - Path parameters, query and body matchers, dynamic responses
+ * - Nested and filtered endpoints of the generated client
+ * - Schema mismatches, raised whatever `throwOnError` says unless validation is off
+ * - Retries of mocked failures and network errors
+ * - Scenarios loaded from `MOCK_SCENARIOS`
+ *
+ * Unmatched requests reach the configured API, so the tests run against the stand-in and the
+ * public API alike.
+ *
+ * @fileoverview Functional tests for mocked API routes
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import {
+  MOCK_COMMENTS,
+  MOCK_ERRORS,
+  MOCK_POSTS,
+  MOCK_SCENARIOS,
+} from '@data/mock/jsonplaceholder.mocks';
+import { ApiError, apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+
+apiTest.describe('JSONPlaceholder Mock Scenarios', () => {
+  apiTest('should serve responses in sequence', async ({ mock, jsonPlaceholderClient }) => {
+    const route = mock
+      .on('GET', '/posts/:id')
+      .reply(200, MOCK_POSTS.SINGLE_POST)
+      .times(2)
+      .andThen()
+      .reply(404, MOCK_ERRORS.NOT_FOUND);
+
+    const statuses = [
+      (await jsonPlaceholderClient.endpoints.posts.getById({ id: 1 }, { throwOnError: false }))
+        .status,
+      (await jsonPlaceholderClient.endpoints.posts.getById({ id: 2 }, { throwOnError: false }))
+        .status,
+      (await jsonPlaceholderClient.endpoints.posts.getById({ id: 3 }, { throwOnError: false }))
+        .status,
+    ];
+
+    expect(statuses).toStrictEqual([200, 200, 404]);
+    route.expectCalled(3);
+    expect(route.calls.map(call => call.params.id)).toStrictEqual(['1', '2', '3']);
+  });
+
+  apiTest(
+    'should build responses from path parameters and bodies',
+    async ({ mock, jsonPlaceholderClient }) => {
+      mock.on('PUT', '/posts/:id').reply(({ params, body }) => ({
+        body: { ...(body as object), id: Number(params.id) },
+      }));
+
+      const update = { userId: 1, title: 'Mocked title', body: 'Mocked body' };
+      const result = await jsonPlaceholderClient.posts.update(42, update);
+
+      expect(result.body).toStrictEqual({ ...update, id: 42 });
+    },
+  );
+
+  apiTest(
+    'should only answer requests matching query and body',
+    async ({ mock, jsonPlaceholderClient }) => {
+      const comments = mock.on('GET', '/comments').withQuery({ postId: 1 }).reply(200, []);
+      const drafts = mock
+        .on('POST', '/posts')
+        .withBody({ title: 'Draft' })
+        .reply(201, { ...MOCK_POSTS.CREATED_POST, title: 'Draft' });
+
+      expect((await jsonPlaceholderClient.comments.list({ postId: 1 })).body).toStrictEqual([]);
+      expect(
+        (await jsonPlaceholderClient.comments.list({ postId: 2 })).body.length,
+      ).toBeGreaterThan(0);
+      const draft = await jsonPlaceholderClient.posts.create({
+        userId: 1,
+        title: 'Draft',
+        body: 'Not published yet',
+      });
+
+      expect(draft.body.id).toBe(MOCK_POSTS.CREATED_POST.id);
+      comments.expectCalled(1);
+      drafts.expectCalled(1);
+    },
+  );
+
+  apiTest(
+    'should call nested and filtered endpoints of the generated client',
+    async ({ mock, jsonPlaceholderClient }) => {
+      const userPosts = mock.on('GET', '/users/:id/posts').reply(200, MOCK_POSTS.MULTIPLE_POSTS);
+      const postComments = mock
+        .on('GET', '/comments')
+        .withQuery({ postId: 3 })
+        .reply(200, MOCK_COMMENTS.POST_COMMENTS);
+
+      const posts = await jsonPlaceholderClient.endpoints.users.getPosts({ id: 'draft 7' });
+      const comments = await jsonPlaceholderClient.endpoints.comments.getByPost({ postId: 3 });
+
+      expect(new URL(posts.url).pathname).toBe('/users/draft%207/posts');
+      expect(posts.body).toStrictEqual(MOCK_POSTS.MULTIPLE_POSTS);
+      expect(userPosts.calls.map(call => call.params.id)).toStrictEqual(['draft 7']);
+      expect(new URL(comments.url).search).toBe('?postId=3');
+      expect(comments.body).toStrictEqual(MOCK_COMMENTS.POST_COMMENTS);
+      postComments.expectCalled(1);
+    },
+  );
+
+  apiTest(
+    'should reject bodies breaking the schema unless validation is off',
+    async ({ mock, jsonPlaceholderClient }) => {
+      const broken = { ...MOCK_POSTS.SINGLE_POST, id: 'one' };
+      mock.on('GET', '/posts/:id').reply(200, broken);
+
+      const error = await jsonPlaceholderClient.posts
+        .get(1, { throwOnError: false })
+        .catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).reason).toBe('schema');
+      expect((error as ApiError).validationErrors.join('\n')).toContain('$.id');
+
+      const unchecked = await jsonPlaceholderClient.posts.get(1, { validate: false });
+      expect(unchecked.body).toStrictEqual(broken);
+    },
+  );
+
+  apiTest('should retry mocked failures', async ({ mock, jsonPlaceholderClient }) => {
+    const flaky = mock
+      .on('GET', '/posts/:id')
+      .reply(503)
+      .andThen()
+      .reply(({ params }) => ({ body: { ...MOCK_POSTS.SINGLE_POST, id: Number(params.id) } }));
+    const down = mock.on('GET', '/users/:id').abort('connectionrefused');
+
+    const post = await jsonPlaceholderClient.posts.get(7);
+    expect(post.body.id).toBe(7);
+    flaky.expectCalled(2);
+
+    await expect(jsonPlaceholderClient.users.get(1)).rejects.toThrow(/ECONNREFUSED/);
+    expect(down.calls.length).toBeGreaterThan(1);
+  });
+
+  apiTest('should load scenarios', async ({ mock, jsonPlaceholderClient }) => {
+    mock.load(MOCK_SCENARIOS.EMPTY_RESULTS).load(MOCK_SCENARIOS.SUCCESSFUL_POST_CREATION);
+
+    expect((await jsonPlaceholderClient.posts.list()).body).toStrictEqual([]);
+    expect((await jsonPlaceholderClient.users.list()).body).toStrictEqual([]);
+    const created = await jsonPlaceholderClient.posts.create({
+      title: 'New Blog Post',
+      body: 'This is the content of the new blog post',
+      userId: 1,
+    });
+    expect(created.body).toStrictEqual(MOCK_POSTS.CREATED_POST);
+
+    mock.load(MOCK_SCENARIOS.RATE_LIMITED);
+    const error = await jsonPlaceholderClient.todos.get(1).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).result.status).toBe(429);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Functional testing of the client-side rate limiter with small limits:
+ * - Token bucket bursting up to one minute's worth, then spacing requests evenly
+ * - Concurrency limit holding back requests while all slots are in use
+ * - Every wait recorded as the `rate_limit_wait` metric
+ *
+ * @fileoverview Functional tests for the rate limiter
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import { RateLimiter, withRateLimit } from '@api/clients/rate-limiter';
+import { MockScenario, withMocks } from '@api/mocks/mock.scenario';
+import { MOCK_POSTS } from '@data/mock/jsonplaceholder.mocks';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+import { PerformanceTracker } from '@utils/performance/performance.tracker';
+
+const BASE_URL = 'https://rate-limit.test';
+
+/** Leeway for timers firing late on a busy machine */
+const TIMER_SLACK_MS = 300;
+
+/**
+ * Acquires the limiter and releases it right away
+ * @param limiter - Limiter to pass
+ * @returns Time spent waiting in milliseconds
+ */
+async function pass(limiter: RateLimiter): Promise<number> {
+  const waitMs = await limiter.acquire();
+  limiter.release();
+  return waitMs;
+}
+
+apiTest.describe('Rate Limiter', () => {
+  apiTest('should space requests evenly once the burst is used up', async () => {
+    const requestsPerMinute = 120;
+    const intervalMs = 60_000 / requestsPerMinute;
+    const limiter = new RateLimiter({ requestsPerMinute, concurrentRequests: 10 });
+
+    const burst = await Promise.all(
+      Array.from({ length: requestsPerMinute }, async () => pass(limiter)),
+    );
+    expect(Math.max(...burst)).toBeLessThan(intervalMs);
+
+    const startTime = Date.now();
+    const passedAt = await Promise.all(
+      [1, 2, 3].map(async () => {
+        await pass(limiter);
+        return Date.now() - startTime;
+      }),
+    );
+
+    passedAt.forEach((elapsedMs, index) => {
+      // Refill during the burst may shorten the first wait slightly
+      expect(elapsedMs).toBeGreaterThanOrEqual(intervalMs * (index + 1) - 50);
+      expect(elapsedMs).toBeLessThan(intervalMs * (index + 1) + TIMER_SLACK_MS);
+    });
+  });
+
+  apiTest('should hold requests back while all slots are in flight', async ({ request }) => {
+    const concurrentRequests = 2;
+    const responseMs = 200;
+    const limiter = new RateLimiter({ requestsPerMinute: 6000, concurrentRequests });
+    const tracker = new PerformanceTracker();
+    const mock = new MockScenario({ baseURL: BASE_URL });
+    const inFlight: number[] = [];
+    mock
+      .on('GET', '/posts/:id')
+      .reply(() => {
+        inFlight.push(limiter.inFlight);
+        return { status: 200, body: MOCK_POSTS.SINGLE_POST };
+      })
+      .delay(responseMs);
+    const context = withRateLimit(withMocks(request, mock, BASE_URL), limiter, tracker);
+
+    const responses = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map(async id => context.get(`${BASE_URL}/posts/${id}`)),
+    );
+
+    expect(responses.map(response => response.status())).toStrictEqual(Array(6).fill(200));
+    expect(Math.max(...inFlight)).toBe(concurrentRequests);
+    expect(limiter.inFlight).toBe(0);
+
+    // Six requests through two slots: the last pair waits for two rounds
+    const waits = tracker.getStats(FRAMEWORK_CONSTANTS.RATE_LIMIT.WAIT_METRIC);
+    expect(waits.count).toBe(6);
+    expect(waits.min).toBeLessThan(responseMs);
+    expect(waits.max).toBeGreaterThanOrEqual(2 * responseMs - 20);
+    expect(waits.max).toBeLessThan(2 * responseMs + TIMER_SLACK_MS);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Request Logger Tests
+ *
+ * Functional testing of the API call log against mocked responses:
+ * - Timeline, JSON and cURL attachments of a test that failed
+ * - Credential headers redacted, long bodies truncated, cURL arguments shell-quoted
+ * - Nothing attached for a test that passed
+ *
+ * The failing test is an expected failure; the next test checks what it attached, so a broken
+ * log cannot hide behind the expected failure. It is skipped when the failing test did not run
+ * before it in the same worker, e.g. in another shard.
+ *
+ * @fileoverview Functional tests for the API call log
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import type { APIRequestContext, TestInfo } from '@playwright/test';
+
+import { ApiCallLog, withCallLog, type ApiCallEntry } from '@api/clients/request-logger';
+import { MockScenario, withMocks } from '@api/mocks/mock.scenario';
+import { MOCK_POSTS } from '@data/mock/jsonplaceholder.mocks';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+const BASE_URL = 'https://logger.test';
+const TOKEN = 'Bearer logger-spec-token';
+
+const { ATTACHMENTS, MAX_BODY_LENGTH } = FRAMEWORK_CONSTANTS.API_LOG;
+
+/**
+ * Logging context answered by mocked routes only, sending an `Authorization` header
+ * @param request - Playwright request context
+ */
+function loggingContext(request: APIRequestContext): {
+  context: APIRequestContext;
+  mock: MockScenario;
+  callLog: ApiCallLog;
+} {
+  const mock = new MockScenario({ baseURL: BASE_URL });
+  const callLog = new ApiCallLog({ baseURL: BASE_URL, headers: { Authorization: TOKEN } });
+  const context = withCallLog(withMocks(request, mock, BASE_URL), callLog);
+  return { context, mock, callLog };
+}
+
+/**
+ * Text of a test's attachment, undefined when it was not attached
+ * @param testInfo - Test that attached it
+ * @param name - Attachment name
+ */
+function attachmentText(testInfo: TestInfo, name: string): string | undefined {
+  const attachment = testInfo.attachments.find(candidate => candidate.name === name);
+  return attachment?.body?.toString('utf-8');
+}
+
+let failedTest: TestInfo | undefined;
+
+apiTest.describe.configure({ mode: 'serial' });
+
+apiTest.describe('API Call Log', () => {
+  apiTest('should fail on a missing post', async ({ request }, testInfo) => {
+    apiTest.fail();
+    failedTest = testInfo;
+    const { context, mock, callLog } = loggingContext(request);
+    mock.on('POST', '/posts').reply(201, MOCK_POSTS.CREATED_POST);
+    mock.on('GET', '/posts/:id').reply(404, {});
+
+    await context.post(`${BASE_URL}/posts`, {
+      data: { title: "Don't panic", body: 'x'.repeat(MAX_BODY_LENGTH), userId: 1 },
+    });
+    const response = await context.get(`${BASE_URL}/posts/999`);
+    try {
+      expect(response.status()).toBe(200);
+    } finally {
+      // What the fixture does once the test is over
+      await callLog.attachTo(testInfo, { attach: 'on-failure', curl: true });
+    }
+  });
+
+  apiTest('should have attached the redacted calls of the failed test', async () => {
+    apiTest.skip(!failedTest, 'needs the failing test of this file');
+    expect(failedTest?.status).toBe('failed');
+    const json = attachmentText(failedTest!, ATTACHMENTS.JSON);
+    const html = attachmentText(failedTest!, ATTACHMENTS.HTML);
+    const curl = attachmentText(failedTest!, ATTACHMENTS.CURL);
+
+    const [created, missing] = JSON.parse(json ?? '[]') as ApiCallEntry[];
+    expect(created.requestHeaders.Authorization).toBe(FRAMEWORK_CONSTANTS.SECRETS.REDACTION);
+    expect(created.requestBody).toMatch(
+      new RegExp(`^.{${MAX_BODY_LENGTH}}… \\(\\d+ more characters\\)$`, 's'),
+    );
+    expect(missing).toMatchObject({ method: 'GET', url: `${BASE_URL}/posts/999`, status: 404 });
+
+    expect(html).toContain('<details open><summary>2.');
+    expect(html).not.toContain(TOKEN);
+    expect(curl).toContain(`curl -X GET '${BASE_URL}/posts/999'`);
+    expect(curl).toContain(`-H 'Authorization: ***'`);
+    expect(curl).toContain(`"title": "Don'\\''t panic"`);
+    expect(curl).not.toContain(TOKEN);
+  });
+
+  apiTest('should not attach the calls of a passing test', async ({ request }, testInfo) => {
+    const { context, mock, callLog } = loggingContext(request);
+    mock.on('GET', '/posts/:id').reply(200, MOCK_POSTS.SINGLE_POST);
+
+    await context.get(`${BASE_URL}/posts/1`);
+    await callLog.attachTo(testInfo, { attach: 'on-failure', curl: true });
+
+    expect(callLog.entries).toHaveLength(1);
+    expect(testInfo.attachments.map(attachment => attachment.name)).not.toContain(ATTACHMENTS.JSON);
+  });
+});
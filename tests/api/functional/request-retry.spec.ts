@@ -0,0 +1,131 @@
+/**
+ * Request Retry Tests
+ *
+ * Functional testing of request-level retries against mocked responses:
+ * - `Retry-After` replacing the backoff delay
+ * - POST requests only retried when they opt in
+ * - Attempt log annotations and attachment
+ *
+ * @fileoverview Functional tests for request retries
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import { performance } from 'node:perf_hooks';
+
+import type { APIRequestContext } from '@playwright/test';
+
+import { callApi } from '@api/clients/api-result';
+import { ApiAttemptLog, withRetries } from '@api/clients/request-retry';
+import { MockScenario, withMocks } from '@api/mocks/mock.scenario';
+import type { ApiRetryPolicy } from '@config/types/environment.types';
+import { MOCK_POSTS } from '@data/mock/jsonplaceholder.mocks';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+const BASE_URL = 'https://retry.test';
+
+// Short backoff without jitter keeps the spec fast and its timings predictable
+const POLICY: ApiRetryPolicy = {
+  retryOn: [...FRAMEWORK_CONSTANTS.API_RETRY.RETRY_ON],
+  baseDelayMs: 10,
+  maxDelayMs: 50,
+  jitter: 0,
+  maxRetryAfterMs: 2000,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Retrying context answered by mocked routes only
+ * @param request - Playwright request context
+ */
+function retryingContext(request: APIRequestContext): {
+  context: APIRequestContext;
+  mock: MockScenario;
+  attemptLog: ApiAttemptLog;
+} {
+  const mock = new MockScenario({ baseURL: BASE_URL });
+  const attemptLog = new ApiAttemptLog();
+  const context = withRetries(
+    withMocks(request, mock, BASE_URL),
+    { retries: 2, retryPolicy: POLICY },
+    attemptLog,
+  );
+  return { context, mock, attemptLog };
+}
+
+apiTest.describe('Request Retries', () => {
+  apiTest('should wait for Retry-After before retrying a 429', async ({ request }) => {
+    const { context, mock, attemptLog } = retryingContext(request);
+    const route = mock
+      .on('GET', '/posts/:id')
+      .reply(429, { error: 'Too Many Requests' }, { 'retry-after': '1' })
+      .reply(200, MOCK_POSTS.SINGLE_POST);
+
+    const start = performance.now();
+    const response = await context.get(`${BASE_URL}/posts/1`);
+
+    expect(response.status()).toBe(200);
+    route.expectCalled(2);
+    expect(performance.now() - start).toBeGreaterThanOrEqual(1000);
+    expect(attemptLog.requests[0].attempts.map(attempt => attempt.retryInMs)).toStrictEqual([
+      1000,
+      undefined,
+    ]);
+  });
+
+  apiTest('should not retry a POST that did not opt in', async ({ request }) => {
+    const { context, mock, attemptLog } = retryingContext(request);
+    const route = mock.on('POST', '/posts').reply(503).reply(201, MOCK_POSTS.CREATED_POST);
+
+    const result = await callApi(
+      context,
+      { method: 'POST', url: `${BASE_URL}/posts`, data: MOCK_POSTS.CREATED_POST },
+      { throwOnError: false },
+    );
+
+    expect(result.status).toBe(503);
+    route.expectCalled(1);
+    expect(attemptLog.requests[0].retryable).toBe(false);
+  });
+
+  apiTest('should retry a POST with allowRetry', async ({ request }) => {
+    const { context, mock, attemptLog } = retryingContext(request);
+    const route = mock.on('POST', '/posts').reply(503).reply(201, MOCK_POSTS.CREATED_POST);
+
+    const result = await callApi(
+      context,
+      { method: 'POST', url: `${BASE_URL}/posts`, data: MOCK_POSTS.CREATED_POST },
+      { allowRetry: true },
+    );
+
+    expect(result.status).toBe(201);
+    route.expectCalled(2);
+    // The opt-in header steers the retries and is never sent
+    expect(route.calls[0].headers).not.toHaveProperty(
+      FRAMEWORK_CONSTANTS.API_RETRY.ALLOW_RETRY_HEADER,
+    );
+    expect(ApiAttemptLog.describe(attemptLog.requests[0])).toBe('POST /posts: 503 → 201');
+  });
+
+  apiTest('should attach the attempts of retried requests', async ({ request }, testInfo) => {
+    const { context, mock, attemptLog } = retryingContext(request);
+    mock.on('GET', '/posts/:id').reply(503).reply(200, MOCK_POSTS.SINGLE_POST);
+    mock.on('GET', '/users/:id').reply(200, {});
+
+    await context.get(`${BASE_URL}/posts/1`);
+    await context.get(`${BASE_URL}/users/1`);
+    await attemptLog.attachTo(testInfo);
+
+    const { ANNOTATION, ATTACHMENT } = FRAMEWORK_CONSTANTS.API_RETRY;
+    expect(testInfo.annotations.filter(annotation => annotation.type === ANNOTATION)).toStrictEqual(
+      [{ type: ANNOTATION, description: 'GET /posts/1: 503 → 200' }],
+    );
+    const attachment = testInfo.attachments.find(candidate => candidate.name === ATTACHMENT);
+    expect(attachment?.contentType).toBe('application/json');
+    const logged = JSON.parse(String(attachment?.body)) as ApiAttemptLog['requests'];
+    expect(logged.map(entry => entry.attempts.length)).toStrictEqual([2, 1]);
+  });
+});
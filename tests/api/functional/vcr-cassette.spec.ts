@@ -0,0 +1,83 @@
+/**
+ * VCR Cassette Tests
+ *
+ * Functional testing of recording and replay against the local JSONPlaceholder stand-in:
+ * - Recorded exchanges written to the cassette file
+ * - Replayed responses answered without the network
+ * - Unmatched requests rejected with `CassetteMismatchError`
+ * - Recordings that were never replayed reported
+ *
+ * The cassette is written to the test's output directory, so no cassette is committed.
+ *
+ * @fileoverview Functional tests for VCR cassettes
+ * @author Test Automation Team
+ * @category Functional Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import * as fs from 'node:fs';
+
+import { Cassette, CassetteMismatchError, withCassette } from '@api/vcr/cassette';
+import type { CassetteFile, VcrMode } from '@api/vcr/vcr.types';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { FRAMEWORK_CONSTANTS } from '@utils/constants/framework.constants';
+
+/**
+ * Cassette of this spec in the given mode, matching on the default request parts
+ * @param file - Cassette file path
+ * @param mode - Record or replay
+ */
+function cassette(file: string, mode: VcrMode): Cassette {
+  return new Cassette(file, 'VCR Cassette', {
+    mode,
+    match: [...FRAMEWORK_CONSTANTS.VCR.DEFAULT_MATCH],
+  });
+}
+
+apiTest.describe('VCR Cassette', () => {
+  apiTest(
+    'should replay recorded exchanges and reject unrecorded requests',
+    { annotation: { type: 'requires-flag', description: 'enableMocking' } },
+    async ({ request, apiBaseUrl }, testInfo) => {
+      const file = testInfo.outputPath('cassette.json');
+
+      const recorder = cassette(file, 'record');
+      const recording = withCassette(request, recorder);
+      const recorded = await recording.get(`${apiBaseUrl}/posts/1`);
+      await recording.get(`${apiBaseUrl}/users/1`);
+      recorder.eject();
+
+      const written = JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile;
+      expect(written.interactions.map(({ request: sent }) => sent.url)).toStrictEqual([
+        '/posts/1',
+        '/users/1',
+      ]);
+
+      const player = cassette(file, 'replay');
+      const replaying = withCassette(request, player);
+      const replayed = await replaying.get(`${apiBaseUrl}/posts/1`);
+
+      expect(replayed.status()).toBe(recorded.status());
+      expect(await replayed.json()).toStrictEqual(await recorded.json());
+      // Replayed responses have no network phases
+      expect(replayed.timing().responseEnd).toBe(-1);
+
+      const error = await replaying.get(`${apiBaseUrl}/posts/2`).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(CassetteMismatchError);
+      expect((error as CassetteMismatchError).request.url).toBe('/posts/2');
+      expect((error as CassetteMismatchError).message).toContain('/posts/1 (already replayed)');
+
+      const warnings: string[] = [];
+      const { warn } = console;
+      console.warn = (message: string) => warnings.push(message);
+      try {
+        player.eject();
+      } finally {
+        console.warn = warn;
+      }
+      expect(player.unused.map(({ request: sent }) => sent.url)).toStrictEqual(['/users/1']);
+      expect(warnings).toStrictEqual([`⚠️ 1 recording(s) in ${file} were not replayed`]);
+    },
+  );
+});
@@ -43,19 +43,17 @@ apiTest.describe('User Content Integration', () => {
   apiTest.describe('User Content Workflow Integration', () => {
     apiTest(
       'should complete user content creation and retrieval workflow',
-      async ({ jsonPlaceholderClient, schemaValidator, performanceTracker }) => {
+      async ({ jsonPlaceholderClient, schemaValidator }) => {
         console.log('👤 Testing complete user content workflow integration');
 
         const userId = JSONPLACEHOLDER_API.TEST_DATA.VALID_IDS.USER;
 
         // Step 1: Get user details
         console.log(`1️⃣ Retrieving user details for user ${userId}`);
-        const timer1 = performanceTracker.startTimer('workflow_get_user');
-        const userResponse = await jsonPlaceholderClient.getUser(userId);
-        timer1();
+        const userResponse = await jsonPlaceholderClient.endpoints.users.getById({ id: userId });
 
-        expect(userResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        const user = await userResponse.json();
+        expect(userResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        const user = userResponse.body;
         schemaValidator.validateUser(user);
 
         // Step 2: Create a new post for the user
@@ -66,22 +64,22 @@ apiTest.describe('User Content Integration', () => {
           userId,
         };
 
-        const timer2 = performanceTracker.startTimer('workflow_create_post');
-        const createPostResponse = await jsonPlaceholderClient.createPost(newPostData);
-        timer2();
+        const createPostResponse = await jsonPlaceholderClient.endpoints.posts.create({
+          data: newPostData,
+        });
 
-        expect(createPostResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.CREATED);
-        const createdPost = await createPostResponse.json();
+        expect(createPostResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.CREATED);
+        const createdPost = createPostResponse.body;
         schemaValidator.validatePost(createdPost);
 
         // Step 3: Retrieve all posts for the user to verify creation
         console.log(`3️⃣ Retrieving all posts for user ${userId} to verify integration`);
-        const timer3 = performanceTracker.startTimer('workflow_get_user_posts');
-        const userPostsResponse = await jsonPlaceholderClient.getUserPosts(userId);
-        timer3();
+        const userPostsResponse = await jsonPlaceholderClient.endpoints.users.getPosts({
+          id: userId,
+        });
 
-        expect(userPostsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        const userPosts = await userPostsResponse.json();
+        expect(userPostsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        const userPosts = userPostsResponse.body;
         schemaValidator.validatePostsArray(userPosts);
 
         // Validate that all posts belong to the user
@@ -91,21 +89,21 @@ apiTest.describe('User Content Integration', () => {
 
         // Step 4: Get user's albums
         console.log(`4️⃣ Retrieving user's albums for complete profile view`);
-        const timer4 = performanceTracker.startTimer('workflow_get_user_albums');
-        const userAlbumsResponse = await jsonPlaceholderClient.getUserAlbums(userId);
-        timer4();
+        const userAlbumsResponse = await jsonPlaceholderClient.endpoints.users.getAlbums({
+          id: userId,
+        });
 
-        expect(userAlbumsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        const userAlbums = await userAlbumsResponse.json();
+        expect(userAlbumsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        const userAlbums = userAlbumsResponse.body;
 
         // Step 5: Get user's todos
         console.log(`5️⃣ Retrieving user's todos for complete profile view`);
-        const timer5 = performanceTracker.startTimer('workflow_get_user_todos');
-        const userTodosResponse = await jsonPlaceholderClient.getUserTodosFromUser(userId);
-        timer5();
+        const userTodosResponse = await jsonPlaceholderClient.endpoints.users.getTodos({
+          id: userId,
+        });
 
-        expect(userTodosResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        const userTodos = await userTodosResponse.json();
+        expect(userTodosResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        const userTodos = userTodosResponse.body;
 
         // Validate the complete user profile
         console.log(`✅ User ${user.name} has:`);
@@ -145,19 +143,19 @@ apiTest.describe('User Content Integration', () => {
         console.log(`1️⃣ Getting user ${userId} content overview`);
         const timer1 = performanceTracker.startTimer('chain_user_overview');
         const [userResponse, userPostsResponse, userAlbumsResponse] = await Promise.all([
-          jsonPlaceholderClient.getUser(userId),
-          jsonPlaceholderClient.getUserPosts(userId),
-          jsonPlaceholderClient.getUserAlbums(userId),
+          jsonPlaceholderClient.endpoints.users.getById({ id: userId }),
+          jsonPlaceholderClient.endpoints.users.getPosts({ id: userId }),
+          jsonPlaceholderClient.endpoints.users.getAlbums({ id: userId }),
         ]);
         timer1();
 
-        expect(userResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        expect(userPostsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        expect(userAlbumsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        expect(userResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        expect(userPostsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        expect(userAlbumsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
 
-        const user = await userResponse.json();
-        const userPosts = await userPostsResponse.json();
-        const userAlbums = await userAlbumsResponse.json();
+        const user = userResponse.body;
+        const userPosts = userPostsResponse.body;
+        const userAlbums = userAlbumsResponse.body;
 
         // Step 2: Deep dive into a specific post and its comments
         const targetPost = userPosts.find((post: any) => post.id === postId) ?? userPosts[0];
@@ -165,18 +163,16 @@ apiTest.describe('User Content Integration', () => {
 
         const timer2 = performanceTracker.startTimer('chain_post_comments');
         const [postCommentsResponse, postCommentsQueryResponse] = await Promise.all([
-          jsonPlaceholderClient.getPostComments(targetPost.id),
-          jsonPlaceholderClient.getCommentsByPost(targetPost.id),
+          jsonPlaceholderClient.endpoints.posts.getComments({ id: targetPost.id }),
+          jsonPlaceholderClient.endpoints.comments.getByPost({ postId: targetPost.id }),
         ]);
         timer2();
 
-        expect(postCommentsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        expect(postCommentsQueryResponse.status()).toBe(
-          JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK,
-        );
+        expect(postCommentsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        expect(postCommentsQueryResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
 
-        const postComments = await postCommentsResponse.json();
-        const postCommentsQuery = await postCommentsQueryResponse.json();
+        const postComments = postCommentsResponse.body;
+        const postCommentsQuery = postCommentsQueryResponse.body;
 
         // Validate both comment retrieval methods return same data
         expect(postComments).toHaveLength(postCommentsQuery.length);
@@ -186,12 +182,12 @@ apiTest.describe('User Content Integration', () => {
         const targetAlbum = userAlbums.find((album: any) => album.id === albumId) ?? userAlbums[0];
         console.log(`3️⃣ Deep diving into album ${targetAlbum.id}: "${targetAlbum.title}"`);
 
-        const timer3 = performanceTracker.startTimer('chain_album_photos');
-        const albumPhotosResponse = await jsonPlaceholderClient.getAlbumPhotos(targetAlbum.id);
-        timer3();
+        const albumPhotosResponse = await jsonPlaceholderClient.endpoints.albums.getPhotos({
+          id: targetAlbum.id,
+        });
 
-        expect(albumPhotosResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        const albumPhotos = await albumPhotosResponse.json();
+        expect(albumPhotosResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        const albumPhotos = albumPhotosResponse.body;
 
         // Validate all photos belong to the album
         albumPhotos.forEach((photo: any) => {
@@ -239,13 +235,34 @@ apiTest.describe('User Content Integration', () => {
 
         // Prepare concurrent operations
         const concurrentRequests = [
-          { name: 'Get Posts', operation: async () => jsonPlaceholderClient.getPosts() },
-          { name: 'Get Comments', operation: async () => jsonPlaceholderClient.getComments() },
-          { name: 'Get Albums', operation: async () => jsonPlaceholderClient.getAlbums() },
-          { name: 'Get Users', operation: async () => jsonPlaceholderClient.getUsers() },
-          { name: 'Get Todos', operation: async () => jsonPlaceholderClient.getTodos() },
-          { name: 'Get Post 1', operation: async () => jsonPlaceholderClient.getPost(1) },
-          { name: 'Get User 1', operation: async () => jsonPlaceholderClient.getUser(1) },
+          {
+            name: 'Get Posts',
+            operation: async () => jsonPlaceholderClient.endpoints.posts.getAll(),
+          },
+          {
+            name: 'Get Comments',
+            operation: async () => jsonPlaceholderClient.endpoints.comments.getAll(),
+          },
+          {
+            name: 'Get Albums',
+            operation: async () => jsonPlaceholderClient.endpoints.albums.getAll(),
+          },
+          {
+            name: 'Get Users',
+            operation: async () => jsonPlaceholderClient.endpoints.users.getAll(),
+          },
+          {
+            name: 'Get Todos',
+            operation: async () => jsonPlaceholderClient.endpoints.todos.getAll(),
+          },
+          {
+            name: 'Get Post 1',
+            operation: async () => jsonPlaceholderClient.endpoints.posts.getById({ id: 1 }),
+          },
+          {
+            name: 'Get User 1',
+            operation: async () => jsonPlaceholderClient.endpoints.users.getById({ id: 1 }),
+          },
         ];
 
         console.log(`🔄 Executing ${concurrentRequests.length} concurrent requests`);
@@ -255,7 +272,7 @@ apiTest.describe('User Content Integration', () => {
         const responses = await Promise.all(
           concurrentRequests.map(async req => {
             const response = await req.operation();
-            return { name: req.name, response, status: response.status() };
+            return { name: req.name, response, status: response.status };
           }),
         );
 
@@ -290,38 +307,42 @@ apiTest.describe('User Content Integration', () => {
           {
             name: 'Read User',
             type: 'read',
-            operation: async () => jsonPlaceholderClient.getUser(userId),
+            operation: async () => jsonPlaceholderClient.endpoints.users.getById({ id: userId }),
           },
           {
             name: 'Create Post',
             type: 'write',
             operation: async () =>
-              jsonPlaceholderClient.createPost({
-                title: 'Concurrent Test Post',
-                body: 'Created during concurrent operations test',
-                userId,
+              jsonPlaceholderClient.endpoints.posts.create({
+                data: {
+                  title: 'Concurrent Test Post',
+                  body: 'Created during concurrent operations test',
+                  userId,
+                },
               }),
           },
           {
             name: 'Read Posts',
             type: 'read',
-            operation: async () => jsonPlaceholderClient.getPosts(),
+            operation: async () => jsonPlaceholderClient.endpoints.posts.getAll(),
           },
           {
             name: 'Update Post',
             type: 'write',
             operation: async () =>
-              jsonPlaceholderClient.updatePost(1, {
+              jsonPlaceholderClient.endpoints.posts.update({
                 id: 1,
-                title: 'Updated in Concurrent Test',
-                body: 'Updated during concurrent operations test',
-                userId,
+                data: {
+                  title: 'Updated in Concurrent Test',
+                  body: 'Updated during concurrent operations test',
+                  userId,
+                },
               }),
           },
           {
             name: 'Read User Posts',
             type: 'read',
-            operation: async () => jsonPlaceholderClient.getUserPosts(userId),
+            operation: async () => jsonPlaceholderClient.endpoints.users.getPosts({ id: userId }),
           },
         ];
 
@@ -336,7 +357,7 @@ apiTest.describe('User Content Integration', () => {
               name: req.name,
               type: req.type,
               response,
-              status: response.status(),
+              status: response.status,
             };
           }),
         );
@@ -382,25 +403,26 @@ apiTest.describe('User Content Integration', () => {
 
         const [invalidUserResponse, invalidUserPostsResponse, invalidUserAlbumsResponse] =
           await Promise.all([
-            jsonPlaceholderClient.getUser(invalidUserId),
-            jsonPlaceholderClient.getUserPosts(invalidUserId),
-            jsonPlaceholderClient.getUserAlbums(invalidUserId),
+            jsonPlaceholderClient.endpoints.users.getById(
+              { id: invalidUserId },
+              { throwOnError: false },
+            ),
+            jsonPlaceholderClient.endpoints.users.getPosts({ id: invalidUserId }),
+            jsonPlaceholderClient.endpoints.users.getAlbums({ id: invalidUserId }),
           ]);
 
         timer1();
 
         // Validate all related endpoints return 404 for invalid user
-        expect(invalidUserResponse.status()).toBe(
+        expect(invalidUserResponse.status).toBe(
           JSONPLACEHOLDER_API.STATUS_CODES.CLIENT_ERROR.NOT_FOUND,
         );
-        expect(invalidUserPostsResponse.status()).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
-        expect(invalidUserAlbumsResponse.status()).toBe(
-          JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK,
-        );
+        expect(invalidUserPostsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
+        expect(invalidUserAlbumsResponse.status).toBe(JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK);
 
         // User posts and albums should return empty arrays for non-existent user
-        const invalidUserPosts = await invalidUserPostsResponse.json();
-        const invalidUserAlbums = await invalidUserAlbumsResponse.json();
+        const invalidUserPosts = invalidUserPostsResponse.body;
+        const invalidUserAlbums = invalidUserAlbumsResponse.body;
         expect(Array.isArray(invalidUserPosts)).toBe(true);
         expect(invalidUserPosts).toHaveLength(0);
         expect(Array.isArray(invalidUserAlbums)).toBe(true);
@@ -411,22 +433,25 @@ apiTest.describe('User Content Integration', () => {
         const timer2 = performanceTracker.startTimer('error_invalid_post_workflow');
 
         const [invalidPostResponse, invalidPostCommentsResponse] = await Promise.all([
-          jsonPlaceholderClient.getPost(invalidPostId),
-          jsonPlaceholderClient.getPostComments(invalidPostId),
+          jsonPlaceholderClient.endpoints.posts.getById(
+            { id: invalidPostId },
+            { throwOnError: false },
+          ),
+          jsonPlaceholderClient.endpoints.posts.getComments({ id: invalidPostId }),
         ]);
 
         timer2();
 
         // Validate error responses
-        expect(invalidPostResponse.status()).toBe(
+        expect(invalidPostResponse.status).toBe(
           JSONPLACEHOLDER_API.STATUS_CODES.CLIENT_ERROR.NOT_FOUND,
         );
-        expect(invalidPostCommentsResponse.status()).toBe(
+        expect(invalidPostCommentsResponse.status).toBe(
           JSONPLACEHOLDER_API.STATUS_CODES.SUCCESS.OK,
         );
 
         // Comments for non-existent post should return empty array
-        const invalidPostComments = await invalidPostCommentsResponse.json();
+        const invalidPostComments = invalidPostCommentsResponse.body;
         expect(Array.isArray(invalidPostComments)).toBe(true);
         expect(invalidPostComments).toHaveLength(0);
 
@@ -460,31 +485,31 @@ apiTest.describe('User Content Integration', () => {
           postCommentsFromPostEndpoint,
           postCommentsFromCommentsEndpoint,
         ] = await Promise.all([
-          jsonPlaceholderClient.getUser(userId),
-          jsonPlaceholderClient.getPosts(),
-          jsonPlaceholderClient.getUserPosts(userId),
-          jsonPlaceholderClient.getPost(postId),
-          jsonPlaceholderClient.getPostComments(postId),
-          jsonPlaceholderClient.getCommentsByPost(postId),
+          jsonPlaceholderClient.endpoints.users.getById({ id: userId }),
+          jsonPlaceholderClient.endpoints.posts.getAll(),
+          jsonPlaceholderClient.endpoints.users.getPosts({ id: userId }),
+          jsonPlaceholderClient.endpoints.posts.getById({ id: postId }),
+          jsonPlaceholderClient.endpoints.posts.getComments({ id: postId }),
+          jsonPlaceholderClient.endpoints.comments.getByPost({ postId }),
         ]);
 
         timer();
 
         // Parse responses
-        const user = await userFromUsersEndpoint.json();
-        const allPosts = await postsFromPostsEndpoint.json();
-        const userPosts = await userPostsFromUserEndpoint.json();
-        const specificPost = await specificPostEndpoint.json();
-        const postCommentsNested = await postCommentsFromPostEndpoint.json();
-        const postCommentsQuery = await postCommentsFromCommentsEndpoint.json();
+        const user = userFromUsersEndpoint.body;
+        const allPosts = postsFromPostsEndpoint.body;
+        const userPosts = userPostsFromUserEndpoint.body;
+        const specificPost = specificPostEndpoint.body;
+        const postCommentsNested = postCommentsFromPostEndpoint.body;
+        const postCommentsQuery = postCommentsFromCommentsEndpoint.body;
 
         // Validate user data consistency
-        const userFromCollection = allPosts.find((post: any) => post.userId === userId);
+        const userFromCollection = allPosts.find((post: any) => post.userId === userId)!;
         expect(userFromCollection).toBeDefined();
         expect(userFromCollection.userId).toBe(user.id);
 
         // Validate post data consistency
-        const postFromCollection = allPosts.find((post: any) => post.id === postId);
+        const postFromCollection = allPosts.find((post: any) => post.id === postId)!;
         expect(postFromCollection).toBeDefined();
         expect(postFromCollection.id).toBe(specificPost.id);
         expect(postFromCollection.title).toBe(specificPost.title);
@@ -0,0 +1,93 @@
+/**
+ * JSONPlaceholder Load Tests
+ *
+ * Load profiles run against the local JSONPlaceholder stand-in:
+ * - Readers browsing the profiles and posts of the stress test users
+ * - Authors publishing posts while readers keep browsing
+ *
+ * Each profile ramps up its virtual users, runs for a fixed time and must meet its
+ * throughput, error rate and latency thresholds. Without the stand-in
+ * (`E2E_FEATURES__ENABLE_MOCKING=false`) the tests are skipped.
+ *
+ * @fileoverview Load tests for the JSONPlaceholder API
+ * @author Test Automation Team
+ * @category Performance Testing
+ * @priority Medium (P2)
+ * @since 2025-08-31
+ */
+
+import { MOCK_PERFORMANCE_DATA } from '@data/mock/jsonplaceholder.mocks';
+import { apiTest, expect } from '@fixtures/api/jsonplaceholder.fixture';
+import { JSONPLACEHOLDER_API } from '@utils/constants/jsonplaceholder.constants';
+
+const { PERFORMANCE_BENCHMARKS, RESOURCE_COUNTS } = JSONPLACEHOLDER_API;
+const USERS = MOCK_PERFORMANCE_DATA.STRESS_TEST_USERS;
+
+apiTest.describe('JSONPlaceholder Load', () => {
+  apiTest(
+    'should serve readers browsing user profiles',
+    async ({ loadRunner, jsonPlaceholderClient }) => {
+      const result = await loadRunner.run(
+        {
+          name: 'browse profiles',
+          virtualUsers: USERS.length,
+          rampUp: 500,
+          duration: 2000,
+          thinkTime: 20,
+          thresholds: {
+            maxErrorRate: 0,
+            minThroughput: 10,
+            // An iteration makes three requests
+            latency: { p95: PERFORMANCE_BENCHMARKS.ACCEPTABLE_RESPONSE },
+          },
+        },
+        async ({ vu, iteration }) => {
+          const user = USERS[vu - 1];
+          await jsonPlaceholderClient.users.get(user.id);
+          const posts = await jsonPlaceholderClient.posts.list({ userId: user.id });
+          const post = posts.body[iteration % posts.body.length];
+          await jsonPlaceholderClient.comments.list({ postId: post.id });
+        },
+      );
+
+      expect(result.operations['GET /users/{id}'].count).toBeGreaterThan(0);
+      expect(result.requests).toBe(result.iterations * 3);
+    },
+  );
+
+  apiTest(
+    'should keep reads fast while authors publish posts',
+    async ({ loadRunner, jsonPlaceholderClient }) => {
+      const result = await loadRunner.run(
+        {
+          name: 'publish and read',
+          virtualUsers: 6,
+          rampUp: 300,
+          duration: 1500,
+          thinkTime: 20,
+          thresholds: {
+            maxErrorRate: 0.01,
+            latency: { p95: PERFORMANCE_BENCHMARKS.ACCEPTABLE_RESPONSE },
+          },
+        },
+        async ({ vu, iteration }) => {
+          // Every third virtual user writes, the others read
+          if (vu % 3 === 0) {
+            await jsonPlaceholderClient.posts.create({
+              userId: USERS[vu - 1].id,
+              title: `Load test post ${vu}.${iteration}`,
+              body: 'Published while readers browse',
+            });
+            return;
+          }
+          await jsonPlaceholderClient.posts.get(((vu * iteration) % RESOURCE_COUNTS.POSTS) + 1);
+        },
+      );
+
+      expect(result.operations['POST /posts'].count).toBeGreaterThan(0);
+      expect(result.operations['GET /posts/{id}'].p95).toBeLessThan(
+        PERFORMANCE_BENCHMARKS.FAST_RESPONSE,
+      );
+    },
+  );
+});
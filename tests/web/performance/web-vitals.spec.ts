@@ -0,0 +1,78 @@
+import { expect, test } from '@fixtures/web/saucedemo.fixture';
+
+import { CHECKOUT_DATA, SAUCEDEMO_PRODUCTS } from '@data/testdata/saucedemo.products';
+import { SAUCEDEMO_USERS } from '@data/testdata/saucedemo.users';
+import { TestLogger } from '@utils/helpers/test.utils';
+
+/**
+ * SauceDemo Performance Test - Web Vitals
+ *
+ * Web vitals of the pages of the purchase flow, measured by the `webVitals` fixture:
+ * - Navigation timing and paints of the login page load
+ * - Route durations of the inventory, cart and checkout pages
+ * - Per-page budgets catching the slow inventory of `performance_glitch_user`
+ *
+ * Test Category: Performance Test
+ * Priority: Medium (P2)
+ * Execution Time: ~1-2 minutes
+ */
+
+test.describe('sauceDemo Performance Test - Web Vitals', () => {
+  test('should measure every page of the purchase flow', async ({
+    loginPage,
+    inventoryPage,
+    cartPage,
+    checkoutPage,
+    baseUrl,
+    webVitals,
+  }) => {
+    TestLogger.logTestStart('Web Vitals of the Purchase Flow', 'Measures each page visit');
+
+    await loginPage.navigateToLoginPage(baseUrl);
+    await loginPage.login(SAUCEDEMO_USERS.STANDARD_USER);
+    await inventoryPage.validateInventoryPageLoad();
+    await inventoryPage.addProductToCart(SAUCEDEMO_PRODUCTS.SAUCE_LABS_BACKPACK);
+    await inventoryPage.navigateToCart();
+    await cartPage.validateCartPageLoad();
+    await cartPage.proceedToCheckout();
+    await checkoutPage.fillCheckoutInformation(CHECKOUT_DATA.VALID_CUSTOMER);
+    await checkoutPage.continueToOverview();
+    await checkoutPage.finishOrder();
+
+    await expect.poll(() => webVitals.visit('login')?.metrics.ttfb).toBeGreaterThan(0);
+    expect(webVitals.visit('login')?.navigation).toBe('load');
+
+    const pages = ['inventory', 'cart', 'checkout-information', 'checkout-overview'];
+    pages.forEach(page => {
+      expect(webVitals.visit(page)?.navigation, `${page} is a route change`).toBe('route');
+    });
+    await expect
+      .poll(() => webVitals.visit('checkout-complete')?.metrics.duration)
+      .toBeGreaterThanOrEqual(0);
+
+    TestLogger.logValidation('Every page of the purchase flow was measured', true);
+  });
+
+  test.describe('performance glitch user', () => {
+    // The slow inventory is expected: annotate it even when E2E_PERF_BUDGETS=fail
+    test.use({ webVitalsBudget: { mode: 'annotate' } });
+
+    test('should report the inventory over its budget', async ({
+      loginPage,
+      inventoryPage,
+      baseUrl,
+      webVitals,
+    }) => {
+      await loginPage.navigateToLoginPage(baseUrl);
+      await loginPage.login(SAUCEDEMO_USERS.PERFORMANCE_GLITCH_USER);
+      await inventoryPage.validateInventoryPageLoad();
+
+      await expect
+        .poll(() => webVitals.visit('inventory')?.metrics.duration, { timeout: 15_000 })
+        .toBeGreaterThan(0);
+      // The delay blocks the main thread: the route duration, TBT or both are over budget
+      const breaches = webVitals.check().filter(breach => breach.page === 'inventory');
+      expect(breaches.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { expect, test } from '@fixtures/web/saucedemo.fixture';
+
+import { SAUCEDEMO_USERS } from '@data/testdata/saucedemo.users';
+import { LoginPage } from '@pages/web/LoginPage';
+import { Secrets } from '@utils/secrets/secrets.manager';
+
+/**
+ * Credential Masking Test
+ *
+ * The password entered by the login page must not be recorded in traces or report steps:
+ * no action title, parameter or result of the trace may hold it.
+ *
+ * The test records its own trace in a browser launched with `tracesDir`, which keeps the
+ * unarchived trace and network files there; DOM snapshots keep input values and are left out.
+ */
+
+test.use({ trace: 'off' });
+
+const TRACE_NAME = 'login';
+
+test.describe('credential Masking Validation', () => {
+  test('should keep the password out of the trace', async ({
+    playwright,
+    browserName,
+    baseUrl,
+  }, testInfo) => {
+    const tracesDir = testInfo.outputPath('traces');
+    const browser = await playwright[browserName].launch({ tracesDir });
+    try {
+      const context = await browser.newContext();
+      const loginPage = new LoginPage(await context.newPage());
+      await context.tracing.start({ name: TRACE_NAME, snapshots: false });
+      await loginPage.navigateToLoginPage(baseUrl);
+      await loginPage.login(SAUCEDEMO_USERS.STANDARD_USER);
+      await context.tracing.stop();
+      await loginPage.validateSuccessfulLogin();
+
+      const password = Secrets.resolveValue(SAUCEDEMO_USERS.STANDARD_USER.password);
+      const [actions, network] = ['trace', 'network'].map(extension =>
+        fs.readFileSync(path.join(tracesDir, `${TRACE_NAME}.${extension}`), 'utf-8'),
+      );
+      // The password was entered through an evaluated script
+      expect(actions).toContain('evaluateExpression');
+      expect(actions).not.toContain(password);
+      expect(network).not.toContain(password);
+    } finally {
+      await browser.close();
+    }
+  });
+});